@@ -1,4 +1,6 @@
+import { getGrowthProgress } from '@defivalley/shared';
 import { SeedType } from '../../types/game.types';
+import { systemClock } from '../../utils/clock';
 
 export class Crop {
   public readonly gridX: number;
@@ -7,6 +9,7 @@ export class Crop {
   constructor(
     public readonly id: string,
     public readonly playerId: string,
+    public readonly worldId: string,
     public readonly seedType: SeedType,
     public readonly x: number,
     public readonly y: number,
@@ -16,6 +19,8 @@ export class Crop {
     public harvested: boolean,
     public yieldAmount: number | null,
     public harvestedAt: Date | null,
+    public growthBoost: number,
+    public lastWateredAt: Date | null,
     public readonly createdAt: Date,
     public updatedAt: Date,
     gridX?: number,
@@ -29,18 +34,20 @@ export class Crop {
 
   static create(
     playerId: string,
+    worldId: string,
     seedType: SeedType,
     x: number,
     y: number,
     growthTime: number,
-    investmentAmount: number
+    investmentAmount: number,
+    now: Date = new Date(systemClock.now())
   ): Crop {
-    const now = new Date();
-    const id = `crop_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
+    const id = `crop_${now.getTime()}_${Math.random().toString(36).substr(2, 9)}`;
+
     return new Crop(
       id,
       playerId,
+      worldId,
       seedType,
       x,
       y,
@@ -50,46 +57,52 @@ export class Crop {
       false,
       null,
       null,
+      0,
+      null,
       now,
       now
     );
   }
 
-  isReady(): boolean {
+  isReady(now: number = systemClock.now()): boolean {
     if (this.harvested) return false;
-    const now = Date.now();
-    const plantedTime = this.plantedAt.getTime();
-    return (now - plantedTime) >= this.growthTime;
+    return this.getTimeRemaining(now) === 0;
   }
 
-  getProgress(): number {
+  getProgress(now: number = systemClock.now()): number {
     if (this.harvested) return 100;
-    const now = Date.now();
-    const plantedTime = this.plantedAt.getTime();
-    const elapsed = now - plantedTime;
-    const progress = Math.min((elapsed / this.growthTime) * 100, 100);
+    const progress = getGrowthProgress(this.plantedAt.getTime(), this.growthTime, now, this.growthBoost) * 100;
     return Math.round(progress);
   }
 
-  harvest(yieldAmount: number): void {
+  // When the crop is (or was) ready, counting time skipped by watering
+  getReadyAt(): Date {
+    return new Date(this.plantedAt.getTime() + this.growthTime - this.growthBoost);
+  }
+
+  // `force` harvests a crop that is still growing (admin tools only)
+  harvest(yieldAmount: number, now: Date = new Date(systemClock.now()), force: boolean = false): void {
     if (this.harvested) {
       throw new Error('Crop already harvested');
     }
-    if (!this.isReady()) {
+    if (!force && !this.isReady(now.getTime())) {
       throw new Error('Crop is not ready for harvest');
     }
-    
+
     this.harvested = true;
     this.yieldAmount = yieldAmount;
-    this.harvestedAt = new Date();
-    this.updatedAt = new Date();
+    this.harvestedAt = now;
+    this.updatedAt = now;
+  }
+
+  water(boost: number, now: Date = new Date(systemClock.now())): void {
+    this.growthBoost += boost;
+    this.lastWateredAt = now;
+    this.updatedAt = now;
   }
 
-  getTimeRemaining(): number {
-    if (this.harvested || this.isReady()) return 0;
-    const now = Date.now();
-    const plantedTime = this.plantedAt.getTime();
-    const elapsed = now - plantedTime;
-    return Math.max(this.growthTime - elapsed, 0);
+  getTimeRemaining(now: number = systemClock.now()): number {
+    if (this.harvested) return 0;
+    return Math.max(this.getReadyAt().getTime() - now, 0);
   }
 }
\ No newline at end of file
@@ -1,3 +1,6 @@
+import { getLevelForXP } from '@defivalley/shared';
+import { systemClock } from '../../utils/clock';
+
 export class Player {
   constructor(
     public readonly id: string,
@@ -7,21 +10,24 @@ export class Player {
     public updatedAt: Date
   ) {}
 
-  static create(id: string, name: string): Player {
-    const now = new Date();
+  static create(id: string, name: string, now: Date = new Date(systemClock.now())): Player {
     return new Player(id, name, 0, now, now);
   }
 
-  addXP(amount: number): void {
+  addXP(amount: number, now: Date = new Date(systemClock.now())): void {
     if (amount < 0) {
       throw new Error('XP amount must be positive');
     }
     this.xp += amount;
-    this.updatedAt = new Date();
+    this.updatedAt = now;
+  }
+
+  rename(name: string, now: Date = new Date(systemClock.now())): void {
+    this.name = name;
+    this.updatedAt = now;
   }
 
   getLevel(): number {
-    // Simple level calculation: 1 level per 100 XP
-    return Math.floor(this.xp / 100) + 1;
+    return getLevelForXP(this.xp);
   }
 }
\ No newline at end of file
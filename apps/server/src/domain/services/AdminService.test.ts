@@ -0,0 +1,144 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { AdminService } from './AdminService';
+import { CropService } from './CropService';
+import { DatabaseConnection } from '../../services/DatabaseConnection';
+import { IUnitOfWork } from '../../repositories/interfaces/IUnitOfWork';
+import { InMemoryUnitOfWork } from '../../repositories/memory/InMemoryUnitOfWork';
+import { LiveRoomRegistry, ModeratedRoom } from '../../utils/liveRooms';
+import { ERROR_CODES } from '../../types/game.types';
+import { FakeClock } from '../../utils/clock';
+
+const NOW = Date.parse('2025-01-01T00:00:00.000Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const backends: [string, () => IUnitOfWork][] = [
+  ['SQLite', () => new DatabaseConnection(':memory:').unitOfWork],
+  ['in-memory repositories', () => new InMemoryUnitOfWork()]
+];
+
+// A live room with one connected session per player ID
+function fakeRoom(roomId: string, worldId: string, playerIds: string[]) {
+  return {
+    roomId,
+    describe: () => ({
+      roomId,
+      worldId,
+      playerCount: playerIds.length,
+      maxClients: 11,
+      cropCount: 0,
+      players: playerIds.map(playerId => ({ sessionId: `${roomId}_${playerId}`, playerId, name: playerId, role: 'visitor' as const, isHost: playerId === worldId })),
+      worldEvents: []
+    }),
+    kickPlayer: vi.fn((playerId: string) => playerIds.filter(id => id.toLowerCase() === playerId.toLowerCase()).length),
+    renamePlayer: vi.fn(),
+    removeCrop: vi.fn()
+  } satisfies ModeratedRoom;
+}
+
+describe.each(backends)('AdminService (%s)', (_backend, createUnitOfWork) => {
+  let unitOfWork: IUnitOfWork;
+  let clock: FakeClock;
+  let rooms: LiveRoomRegistry;
+  let admin: AdminService;
+
+  const actions = () => admin.getAuditLog(10).entries.map(entry => [entry.action, entry.targetId, entry.adminId]);
+
+  function plant(investmentAmount: number = 1000): string {
+    const result = new CropService(unitOfWork, clock).plantCrop('alice', 'Alice', 'alice', 'usdc_sprout', 100, 100, investmentAmount);
+    expect(result.success).toBe(true);
+    return result.crop!.id;
+  }
+
+  beforeEach(() => {
+    unitOfWork = createUnitOfWork();
+    clock = new FakeClock(NOW);
+    rooms = new LiveRoomRegistry();
+    admin = new AdminService(unitOfWork, rooms, undefined, clock);
+  });
+
+  test('should list live rooms and inspect their players', () => {
+    rooms.add(fakeRoom('room_a', 'alice', ['alice', 'bob']));
+    rooms.add(fakeRoom('room_b', 'carol', []));
+
+    expect(admin.listRooms()).toEqual([
+      { roomId: 'room_a', worldId: 'alice', playerCount: 2, maxClients: 11, cropCount: 0 },
+      { roomId: 'room_b', worldId: 'carol', playerCount: 0, maxClients: 11, cropCount: 0 }
+    ]);
+    expect(admin.getRoom('room_a')!.players.map(player => player.playerId)).toEqual(['alice', 'bob']);
+    expect(admin.getRoom('missing')).toBeUndefined();
+  });
+
+  test('should kick a player from every room they are in', () => {
+    const roomA = fakeRoom('room_a', 'alice', ['alice', 'bob']);
+    const roomB = fakeRoom('room_b', 'carol', ['bob']);
+    rooms.add(roomA);
+    rooms.add(roomB);
+
+    expect(admin.kickPlayer('admin', 'bob', 'spamming')).toEqual({ success: true, sessionsClosed: 2 });
+    expect(roomA.kickPlayer).toHaveBeenCalledWith('bob', 'spamming');
+    expect(admin.kickPlayer('admin', 'dave').error?.code).toBe(ERROR_CODES.PLAYER_NOT_FOUND);
+    expect(actions()).toEqual([['room.kick', 'bob', 'admin']]);
+  });
+
+  test('should ban players case-insensitively and lift bans', () => {
+    rooms.add(fakeRoom('room_a', 'alice', ['0xAbC']));
+
+    expect(admin.banPlayer('admin', '0xAbC', 'griefing')).toEqual({ success: true, sessionsClosed: 1 });
+    expect(unitOfWork.moderation.findBan('0xabc')).toEqual({ playerId: '0xabc', reason: 'griefing', bannedBy: 'admin', bannedAt: NOW });
+    expect(admin.listBans().map(ban => ban.playerId)).toEqual(['0xabc']);
+
+    expect(admin.unbanPlayer('admin', '0xABC').success).toBe(true);
+    expect(unitOfWork.moderation.findBan('0xabc')).toBeUndefined();
+    expect(admin.unbanPlayer('admin', '0xabc').error?.code).toBe(ERROR_CODES.PLAYER_NOT_FOUND);
+
+    expect(actions()).toEqual([['player.unban', '0xABC', 'admin'], ['player.ban', '0xAbC', 'admin']]);
+  });
+
+  test('should rename players in the database and in live rooms', () => {
+    unitOfWork.players.findByIdOrCreate('alice', 'Alice');
+    const room = fakeRoom('room_a', 'alice', ['alice']);
+    rooms.add(room);
+
+    expect(admin.renamePlayer('admin', 'alice', '  Farmer\u202E Alice ')).toEqual({ success: true, name: 'Farmer Alice' });
+    expect(unitOfWork.players.findById('alice')!.name).toBe('Farmer Alice');
+    expect(room.renamePlayer).toHaveBeenCalledWith('alice', 'Farmer Alice');
+
+    expect(admin.renamePlayer('admin', 'alice', '').error?.code).toBe(ERROR_CODES.INVALID_REQUEST);
+    expect(admin.renamePlayer('admin', 'nobody', 'Bob').error?.code).toBe(ERROR_CODES.PLAYER_NOT_FOUND);
+
+    const [entry] = admin.getAuditLog(10).entries;
+    expect(entry).toMatchObject({ action: 'player.rename', targetId: 'alice', details: { previousName: 'Alice', name: 'Farmer Alice' }, createdAt: NOW });
+  });
+
+  test('should force-harvest a growing crop and credit the yield earned so far', () => {
+    const cropId = plant();
+    const room = fakeRoom('room_a', 'alice', []);
+    rooms.add(room);
+    clock.advance(DAY);
+
+    const result = admin.harvestCrop('admin', cropId);
+    expect(result).toMatchObject({ success: true, yieldAmount: 0.14, balance: 0.14 });
+    expect(unitOfWork.crops.findById(cropId)!.harvested).toBe(true);
+    expect(room.removeCrop).toHaveBeenCalledWith(cropId, true);
+
+    expect(admin.harvestCrop('admin', cropId).error?.code).toBe(ERROR_CODES.CROP_ALREADY_HARVESTED);
+    expect(admin.getAuditLog(10, 0, cropId)).toEqual({
+      entries: [expect.objectContaining({ action: 'crop.harvest', details: { worldId: 'alice', ownerId: 'alice', yieldAmount: 0.14 } })],
+      total: 1
+    });
+  });
+
+  test('should delete crops without paying out', () => {
+    const cropId = plant();
+    const room = fakeRoom('room_a', 'alice', []);
+    rooms.add(room);
+
+    expect(admin.deleteCrop('admin', cropId)).toEqual({ success: true });
+    expect(unitOfWork.crops.findById(cropId)).toBeUndefined();
+    expect(unitOfWork.ledger.getBalance('alice')).toBe(0);
+    expect(room.removeCrop).toHaveBeenCalledWith(cropId, false);
+
+    expect(admin.deleteCrop('admin', cropId).error?.code).toBe(ERROR_CODES.CROP_NOT_FOUND);
+    expect(actions()).toEqual([['crop.delete', cropId, 'admin']]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,192 @@
+import { CropService, HarvestCropResult } from './CropService';
+import { LeaderboardService } from './LeaderboardService';
+import { IUnitOfWork } from '../../repositories/interfaces/IUnitOfWork';
+import { AdminAction, AuditLogEntry, PlayerBan } from '../../repositories/interfaces/IModerationRepository';
+import { LiveRoomDetails, LiveRoomRegistry, LiveRoomSummary } from '../../utils/liveRooms';
+import { PLAYER_NAME_MAX_LENGTH, sanitizePlayerName } from '../../utils/validation';
+import { Clock, systemClock } from '../../utils/clock';
+import { ERROR_CODES, GameError } from '../../types/game.types';
+
+// Why an admin action was refused, ready to be returned by the admin API
+export type AdminServiceError = Omit<GameError, 'requestId'>;
+
+export interface AdminResult {
+  success: boolean;
+  sessionsClosed?: number; // Connections dropped from live rooms
+  error?: AdminServiceError;
+}
+
+export interface RenamePlayerResult extends AdminResult {
+  name?: string; // Sanitized name the player now has
+}
+
+/**
+ * Moderation actions for the admin API. Every action that changes something is
+ * recorded in the audit log under the admin who took it, and mirrored into any
+ * live room it affects.
+ */
+export class AdminService {
+  private cropService: CropService;
+
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private rooms: LiveRoomRegistry,
+    private leaderboards?: LeaderboardService,
+    private clock: Clock = systemClock
+  ) {
+    this.cropService = new CropService(unitOfWork, clock);
+  }
+
+  listRooms(): LiveRoomSummary[] {
+    return this.rooms.list().map(room => {
+      const { players, worldEvents, ...summary } = room.describe();
+      return summary;
+    });
+  }
+
+  getRoom(roomId: string): LiveRoomDetails | undefined {
+    return this.rooms.get(roomId)?.describe();
+  }
+
+  /**
+   * Disconnect a player from every room they are in; they may join again
+   */
+  kickPlayer(adminId: string, playerId: string, reason: string = ''): AdminResult {
+    const sessionsClosed = this.disconnect(playerId, reason || 'Removed by an admin');
+    if (sessionsClosed === 0) {
+      return this.failure(ERROR_CODES.PLAYER_NOT_FOUND, 'Player is not in any room', { playerId });
+    }
+
+    this.record(adminId, 'room.kick', playerId, { reason, sessionsClosed });
+    return { success: true, sessionsClosed };
+  }
+
+  /**
+   * Ban a player from joining any farm and disconnect them from the rooms they are in
+   */
+  banPlayer(adminId: string, playerId: string, reason: string = ''): AdminResult {
+    this.unitOfWork.transaction(() => {
+      this.unitOfWork.moderation.ban({ playerId, reason, bannedBy: adminId, bannedAt: this.clock.now() });
+      this.record(adminId, 'player.ban', playerId, { reason });
+    });
+
+    const sessionsClosed = this.disconnect(playerId, reason ? `Banned: ${reason}` : 'Banned by an admin');
+    return { success: true, sessionsClosed };
+  }
+
+  unbanPlayer(adminId: string, playerId: string): AdminResult {
+    const unbanned = this.unitOfWork.transaction(() => {
+      if (!this.unitOfWork.moderation.unban(playerId)) return false;
+      this.record(adminId, 'player.unban', playerId, {});
+      return true;
+    });
+
+    return unbanned
+      ? { success: true }
+      : this.failure(ERROR_CODES.PLAYER_NOT_FOUND, 'Player is not banned', { playerId });
+  }
+
+  listBans(): PlayerBan[] {
+    return this.unitOfWork.moderation.findBans();
+  }
+
+  renamePlayer(adminId: string, playerId: string, name: unknown): RenamePlayerResult {
+    const cleaned = sanitizePlayerName(name);
+    if (!cleaned) {
+      return this.failure(ERROR_CODES.INVALID_REQUEST, `Name must be 1 to ${PLAYER_NAME_MAX_LENGTH} characters`, { playerId });
+    }
+
+    const player = this.unitOfWork.players.findById(playerId);
+    if (!player) {
+      return this.failure(ERROR_CODES.PLAYER_NOT_FOUND, 'Player not found', { playerId });
+    }
+
+    const previousName = player.name;
+    this.unitOfWork.transaction(() => {
+      player.rename(cleaned, new Date(this.clock.now()));
+      this.unitOfWork.players.save(player);
+      this.record(adminId, 'player.rename', playerId, { previousName, name: cleaned });
+    });
+
+    for (const room of this.rooms.list()) {
+      room.renamePlayer(playerId, cleaned);
+    }
+    this.leaderboards?.invalidate();
+
+    return { success: true, name: cleaned };
+  }
+
+  /**
+   * Harvest a crop right away, ready or not, crediting the yield it earned so far to its owner
+   */
+  harvestCrop(adminId: string, cropId: string): HarvestCropResult {
+    const result = this.unitOfWork.transaction(() => {
+      const harvest = this.cropService.forceHarvestCrop(cropId);
+      if (harvest.success) {
+        const crop = harvest.crop!;
+        this.record(adminId, 'crop.harvest', cropId, { worldId: crop.worldId, ownerId: crop.playerId, yieldAmount: harvest.yieldAmount });
+      }
+      return harvest;
+    });
+
+    if (result.success) {
+      this.removeCropFromRooms(cropId, true);
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete a crop without paying out any yield
+   */
+  deleteCrop(adminId: string, cropId: string): AdminResult {
+    const result = this.unitOfWork.transaction(() => {
+      const deletion = this.cropService.deleteCrop(cropId);
+      if (deletion.success) {
+        const crop = deletion.crop!;
+        this.record(adminId, 'crop.delete', cropId, {
+          worldId: crop.worldId,
+          ownerId: crop.playerId,
+          seedType: crop.seedType,
+          investmentAmount: crop.investmentAmount,
+          harvested: crop.harvested
+        });
+      }
+      return deletion;
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    this.removeCropFromRooms(cropId, false);
+    return { success: true };
+  }
+
+  getAuditLog(limit: number, offset: number = 0, targetId?: string): { entries: AuditLogEntry[]; total: number } {
+    return {
+      entries: this.unitOfWork.moderation.findAuditLog(limit, offset, targetId),
+      total: this.unitOfWork.moderation.countAuditLog(targetId)
+    };
+  }
+
+  private disconnect(playerId: string, reason: string): number {
+    return this.rooms.list().reduce((closed, room) => closed + room.kickPlayer(playerId, reason), 0);
+  }
+
+  private removeCropFromRooms(cropId: string, harvested: boolean) {
+    for (const room of this.rooms.list()) {
+      room.removeCrop(cropId, harvested);
+    }
+    this.leaderboards?.invalidate();
+  }
+
+  private record(adminId: string, action: AdminAction, targetId: string, details: Record<string, unknown>) {
+    this.unitOfWork.moderation.recordAction({ adminId, action, targetId, details, createdAt: this.clock.now() });
+    console.log(`🛡️ Admin ${adminId}: ${action} ${targetId}`);
+  }
+
+  private failure(code: string, message: string, details?: Record<string, unknown>): { success: false; error: AdminServiceError } {
+    return { success: false, error: { code, message, details } };
+  }
+}
\ No newline at end of file
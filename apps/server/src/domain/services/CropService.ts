@@ -1,21 +1,36 @@
+import { WorldEventModifiers, getWateringBoost } from '@defivalley/shared';
 import { Crop } from '../entities/Crop';
 import { Player } from '../entities/Player';
 import { IUnitOfWork } from '../../repositories/interfaces/IUnitOfWork';
 import { YieldCalculator } from './YieldCalculator';
 import { SpatialService } from './SpatialService';
-import { SeedType, SEED_CONFIGS, CROP_COLLISION_RADIUS } from '../../types/game.types';
+import { Clock, systemClock } from '../../utils/clock';
+import { SeedType, SEED_CONFIGS, CROP_COLLISION_RADIUS, ERROR_CODES, GameError } from '../../types/game.types';
+
+// Why an operation was refused, ready to be sent to the client
+export type CropServiceError = Omit<GameError, 'requestId'>;
 
 export interface PlantCropResult {
   success: boolean;
   crop?: Crop;
-  error?: string;
+  xpGained?: number;
+  newXP?: number; // Planter's total XP after planting
+  error?: CropServiceError;
 }
 
 export interface HarvestCropResult {
   success: boolean;
+  crop?: Crop;
   yieldAmount?: number;
-  xpGained?: number;
-  error?: string;
+  balance?: number; // Crop owner's balance after the yield was credited
+  error?: CropServiceError;
+}
+
+export interface WaterCropResult {
+  success: boolean;
+  crop?: Crop;
+  boost?: number; // Growth time (ms) skipped by this watering
+  error?: CropServiceError;
 }
 
 export class CropService {
@@ -24,111 +39,178 @@ export class CropService {
 
   constructor(
     private unitOfWork: IUnitOfWork,
+    private clock: Clock = systemClock,
     gridSize: number = 100
   ) {
-    this.yieldCalculator = new YieldCalculator();
+    this.yieldCalculator = new YieldCalculator(clock);
     this.spatialService = new SpatialService(gridSize);
   }
 
   /**
-   * Plant a new crop
+   * Plant a new crop in a world and award the planter XP, applying the world's
+   * active event modifiers to the XP and growth time
    */
   plantCrop(
     playerId: string,
+    playerName: string,
+    worldId: string,
     seedType: SeedType,
     x: number,
     y: number,
-    investmentAmount: number
+    investmentAmount: number,
+    now: Date = new Date(this.clock.now()),
+    modifiers: WorldEventModifiers = {}
   ): PlantCropResult {
     // Validate seed type
     const seedConfig = SEED_CONFIGS[seedType];
     if (!seedConfig) {
-      return { success: false, error: 'Invalid seed type' };
+      return this.failure(ERROR_CODES.INVALID_SEED_TYPE, 'Invalid seed type', {
+        seedType,
+        validTypes: Object.keys(SEED_CONFIGS)
+      });
     }
 
     // Validate investment amount
     if (!this.yieldCalculator.validateInvestment(seedType, investmentAmount)) {
-      return { 
-        success: false, 
-        error: `Minimum investment for ${seedType} is ${seedConfig.minInvestment} USDC` 
-      };
+      const tooLarge = investmentAmount > seedConfig.maxInvestment;
+      return this.failure(
+        tooLarge ? ERROR_CODES.INVESTMENT_TOO_LARGE : ERROR_CODES.INSUFFICIENT_INVESTMENT,
+        tooLarge
+          ? `Maximum investment for ${seedType} is ${seedConfig.maxInvestment} USDC`
+          : `Minimum investment for ${seedType} is ${seedConfig.minInvestment} USDC`,
+        {
+          seedType,
+          minInvestment: seedConfig.minInvestment,
+          maxInvestment: seedConfig.maxInvestment,
+          provided: investmentAmount
+        }
+      );
     }
 
     // Check if position is occupied
-    const nearbyProps = this.unitOfWork.crops.findAtPosition(x, y, CROP_COLLISION_RADIUS);
-    if (nearbyProps.length > 0) {
-      return { success: false, error: 'Position is already occupied' };
+    if (!this.isPositionAvailable(x, y, CROP_COLLISION_RADIUS, worldId)) {
+      return this.failure(ERROR_CODES.POSITION_OCCUPIED, 'Position already occupied or too close to another crop', {
+        x,
+        y,
+        radius: CROP_COLLISION_RADIUS
+      });
     }
 
-    // Create and save the crop
     const crop = Crop.create(
       playerId,
+      worldId,
       seedType,
       x,
       y,
-      seedConfig.growthTime,
-      investmentAmount
+      this.yieldCalculator.calculateGrowthTime(seedType, modifiers),
+      investmentAmount,
+      now
     );
+    const xpGained = this.yieldCalculator.calculateXPGain(seedType, modifiers);
 
-    // Calculate XP gain and update player
-    const xpGain = this.yieldCalculator.calculateXPGain(investmentAmount);
-    
     // Execute in transaction
-    this.unitOfWork.transaction(() => {
-      // Save crop
+    const newXP = this.unitOfWork.transaction(() => {
+      // Planters always have a player record (helpers may never have opened their own farm)
+      const player = this.unitOfWork.players.findByIdOrCreate(playerId, playerName);
       this.unitOfWork.crops.save(crop);
-      
-      // Update player XP
-      const player = this.unitOfWork.players.findById(playerId);
-      if (player) {
-        player.addXP(xpGain);
-        this.unitOfWork.players.save(player);
-      }
+
+      player.addXP(xpGained, now);
+      this.unitOfWork.players.save(player);
+      this.unitOfWork.xpLedger.record({ playerId, amount: xpGained, reason: 'plant', seedType, earnedAt: now });
+      return player.xp;
     });
 
-    return { success: true, crop };
+    return { success: true, crop, xpGained, newXP };
   }
 
   /**
-   * Harvest a crop
+   * Harvest a ready crop and credit its yield to the player who planted it.
+   * Who may harvest is decided by the caller (world roles); the world's active
+   * event modifiers apply to the yield.
    */
-  harvestCrop(cropId: string, playerId: string): HarvestCropResult {
+  harvestCrop(cropId: string, worldId: string, now: Date = new Date(this.clock.now()), modifiers: WorldEventModifiers = {}): HarvestCropResult {
     const crop = this.unitOfWork.crops.findById(cropId);
-    
-    if (!crop) {
-      return { success: false, error: 'Crop not found' };
+
+    if (!crop || crop.worldId !== worldId) {
+      return this.failure(ERROR_CODES.CROP_NOT_FOUND, 'Crop not found', { cropId });
+    }
+
+    if (crop.harvested) {
+      return this.failure(ERROR_CODES.CROP_ALREADY_HARVESTED, 'Crop has already been harvested', { cropId });
     }
 
-    if (crop.playerId !== playerId) {
-      return { success: false, error: 'You do not own this crop' };
+    if (!crop.isReady(now.getTime())) {
+      return this.failure(ERROR_CODES.CROP_NOT_READY, 'Crop is not ready for harvest', {
+        cropId,
+        timeRemaining: crop.getTimeRemaining(now.getTime()),
+        readyAt: crop.getReadyAt().toISOString()
+      });
+    }
+
+    return this.settleHarvest(crop, now, modifiers, false);
+  }
+
+  /**
+   * Harvest a crop in any world whether or not it is ready, crediting the yield
+   * it earned so far. Used by admins to clear stuck or broken farms.
+   */
+  forceHarvestCrop(cropId: string, now: Date = new Date(this.clock.now())): HarvestCropResult {
+    const crop = this.unitOfWork.crops.findById(cropId);
+
+    if (!crop) {
+      return this.failure(ERROR_CODES.CROP_NOT_FOUND, 'Crop not found', { cropId });
     }
 
     if (crop.harvested) {
-      return { success: false, error: 'Crop already harvested' };
+      return this.failure(ERROR_CODES.CROP_ALREADY_HARVESTED, 'Crop has already been harvested', { cropId });
+    }
+
+    return this.settleHarvest(crop, now, {}, true);
+  }
+
+  /**
+   * Delete a crop without paying out its yield
+   */
+  deleteCrop(cropId: string): { success: boolean; crop?: Crop; error?: CropServiceError } {
+    const crop = this.unitOfWork.crops.findById(cropId);
+
+    if (!crop) {
+      return this.failure(ERROR_CODES.CROP_NOT_FOUND, 'Crop not found', { cropId });
     }
 
-    if (!crop.isReady()) {
-      return { success: false, error: 'Crop is not ready for harvest' };
+    this.unitOfWork.crops.delete(cropId);
+    return { success: true, crop };
+  }
+
+  /**
+   * Water a growing crop, skipping part of its growth time
+   */
+  waterCrop(cropId: string, worldId: string, now: Date = new Date(this.clock.now())): WaterCropResult {
+    const crop = this.unitOfWork.crops.findById(cropId);
+
+    if (!crop || crop.worldId !== worldId || crop.harvested) {
+      return this.failure(ERROR_CODES.CROP_NOT_FOUND, 'Crop not found', { cropId });
     }
 
-    // Calculate yield
-    const yieldAmount = this.yieldCalculator.calculateYield(
-      crop.investmentAmount,
-      crop.plantedAt,
-      crop.seedType
-    );
+    const watering = getWateringBoost({
+      plantedAt: crop.plantedAt.getTime(),
+      growthTime: crop.growthTime,
+      growthBoost: crop.growthBoost,
+      lastWatered: crop.lastWateredAt?.getTime()
+    }, now.getTime());
 
-    // Execute harvest in transaction
-    this.unitOfWork.transaction(() => {
-      crop.harvest(yieldAmount);
-      this.unitOfWork.crops.save(crop);
-    });
+    if ('reason' in watering) {
+      return this.failure(
+        ERROR_CODES.CROP_CANNOT_BE_WATERED,
+        watering.reason === 'ready' ? 'Crop is already fully grown' : 'Crop was watered recently',
+        { cropId, reason: watering.reason }
+      );
+    }
 
-    return { 
-      success: true, 
-      yieldAmount,
-      xpGained: 0 // XP is only gained when planting
-    };
+    crop.water(watering.boost, now);
+    this.unitOfWork.crops.save(crop);
+
+    return { success: true, crop, boost: watering.boost };
   }
 
   /**
@@ -161,13 +243,13 @@ export class CropService {
   /**
    * Check if a position is available for planting
    */
-  isPositionAvailable(x: number, y: number, radius: number = CROP_COLLISION_RADIUS): boolean {
-    const nearbyProps = this.unitOfWork.crops.findAtPosition(x, y, radius);
+  isPositionAvailable(x: number, y: number, radius: number = CROP_COLLISION_RADIUS, worldId?: string): boolean {
+    const nearbyProps = this.unitOfWork.crops.findAtPosition(x, y, radius, worldId);
     return nearbyProps.length === 0;
   }
 
   /**
-   * Get world data for a player
+   * Get world data: the owner and every unharvested crop planted in their world
    */
   getWorldData(worldOwnerId: string): { player: Player | null; crops: Crop[] } {
     return this.unitOfWork.transaction(() => {
@@ -177,10 +259,10 @@ export class CropService {
           worldOwnerId,
           `Player_${worldOwnerId.slice(0, 8)}`
         );
-        
-        // Get all unharvested crops for this player
-        const crops = this.getUnharvestedCrops(worldOwnerId);
-        
+
+        // Crops planted by the owner and their helpers
+        const crops = this.unitOfWork.crops.findUnharvestedByWorldId(worldOwnerId);
+
         return { player, crops };
       } catch (error) {
         console.error(`❌ Error loading world data for ${worldOwnerId}:`, error);
@@ -188,4 +270,35 @@ export class CropService {
       }
     });
   }
+
+  // Record the yield and credit it to the crop's owner in one transaction
+  private settleHarvest(crop: Crop, now: Date, modifiers: WorldEventModifiers, force: boolean): HarvestCropResult {
+    const yieldAmount = this.yieldCalculator.calculateYield(
+      crop.investmentAmount,
+      crop.plantedAt,
+      crop.seedType,
+      now.getTime(),
+      modifiers
+    );
+
+    const balance = this.unitOfWork.transaction(() => {
+      crop.harvest(yieldAmount, now, force);
+      this.unitOfWork.crops.save(crop);
+
+      this.unitOfWork.ledger.credit({
+        playerId: crop.playerId,
+        amount: yieldAmount,
+        reason: 'harvest',
+        cropId: crop.id,
+        worldId: crop.worldId
+      });
+      return this.unitOfWork.ledger.getBalance(crop.playerId);
+    });
+
+    return { success: true, crop, yieldAmount, balance };
+  }
+
+  private failure(code: string, message: string, details?: Record<string, unknown>): { success: false; error: CropServiceError } {
+    return { success: false, error: { code, message, details } };
+  }
 }
\ No newline at end of file
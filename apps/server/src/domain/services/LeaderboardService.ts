@@ -0,0 +1,46 @@
+import { LeaderboardPage, LeaderboardQuery, getWeekStart } from '@defivalley/shared';
+import { ILeaderboardRepository } from '../../repositories/interfaces/ILeaderboardRepository';
+import { Clock, systemClock } from '../../utils/clock';
+
+interface CachedPage {
+  page: LeaderboardPage;
+  expiresAt: number;
+}
+
+// Upper bound on how stale a page can get if an invalidation is missed
+const CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Leaderboard pages, cached until the next plant, harvest or XP reward
+ */
+export class LeaderboardService {
+  private cache = new Map<string, CachedPage>();
+
+  constructor(
+    private leaderboards: ILeaderboardRepository,
+    private ttl: number = CACHE_TTL,
+    private clock: Clock = systemClock
+  ) {}
+
+  getLeaderboard(query: LeaderboardQuery, now: Date = new Date(this.clock.now())): LeaderboardPage {
+    const since = query.window === 'weekly' ? new Date(getWeekStart(now.getTime())) : undefined;
+
+    // The week start is part of the key so a new week never reads last week's page
+    const key = [query.metric, query.window, since?.getTime() ?? '', query.seedType ?? '', query.limit, query.offset].join(':');
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > now.getTime()) {
+      return cached.page;
+    }
+
+    const page = this.leaderboards.getRanking(query.metric, { since, seedType: query.seedType }, query.limit, query.offset);
+    this.cache.set(key, { page, expiresAt: now.getTime() + this.ttl });
+    return page;
+  }
+
+  /**
+   * Drop every cached page (call after crops are planted or harvested, or XP is granted)
+   */
+  invalidate(): void {
+    this.cache.clear();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { OnChainQuestAction, QuestDefinition, QuestEvent, QuestLogEntry, matchesQuestObjective } from '@defivalley/shared';
+import { IUnitOfWork } from '../../repositories/interfaces/IUnitOfWork';
+import { QuestProgressRecord } from '../../repositories/interfaces/IQuestRepository';
+import { Clock, systemClock } from '../../utils/clock';
+import { LeaderboardService } from './LeaderboardService';
+
+export interface QuestCompletion {
+  quest: QuestDefinition;
+  previousXP: number; // Player's XP before the reward, to detect level ups
+  newXP: number;      // Player's XP after the reward
+}
+
+export interface QuestUpdate {
+  updated: QuestLogEntry[];       // Quests whose progress changed
+  completed: QuestCompletion[];
+}
+
+/**
+ * Advances players' quests as they act and grants the rewards of completed quests
+ */
+export class QuestService {
+  constructor(
+    private unitOfWork: IUnitOfWork,
+    private definitions: QuestDefinition[],
+    private clock: Clock = systemClock,
+    private leaderboards?: LeaderboardService // Invalidated when a reward grants XP
+  ) {}
+
+  getQuestLog(playerId: string): QuestLogEntry[] {
+    const records = this.getRecords(playerId);
+
+    return this.definitions.map(quest => this.toLogEntry(quest, records.get(quest.id)));
+  }
+
+  /**
+   * Count an event towards every open quest it matches
+   */
+  record(playerId: string, playerName: string, event: QuestEvent, now: Date = new Date(this.clock.now())): QuestUpdate {
+    const candidates = this.definitions.filter(quest => matchesQuestObjective(quest.objective, event));
+    if (candidates.length === 0) {
+      return { updated: [], completed: [] };
+    }
+
+    return this.unitOfWork.transaction(() => {
+      // Progress rows belong to a player record, which visitors may not have yet
+      this.unitOfWork.players.findByIdOrCreate(playerId, playerName);
+
+      const records = this.getRecords(playerId);
+      const update: QuestUpdate = { updated: [], completed: [] };
+
+      for (const quest of candidates) {
+        const record = records.get(quest.id) ?? { playerId, questId: quest.id, progress: 0, seenKeys: [], completedAt: null };
+        if (record.completedAt) continue;
+
+        const { distinct } = quest.objective;
+        if (distinct) {
+          const key = event.data?.[distinct];
+          if (key === undefined || record.seenKeys.includes(key)) continue;
+          record.seenKeys.push(key);
+        }
+
+        record.progress += 1;
+        if (record.progress >= quest.objective.count) {
+          record.completedAt = now;
+          update.completed.push(this.grantReward(playerId, playerName, quest, now));
+        }
+
+        this.unitOfWork.quests.save(record);
+        update.updated.push(this.toLogEntry(quest, record));
+      }
+
+      return update;
+    });
+  }
+
+  /**
+   * Count a verified on-chain transaction towards quests. Returns null if the
+   * transaction was already counted, so replaying it completes nothing.
+   */
+  recordTransaction(
+    playerId: string,
+    playerName: string,
+    action: OnChainQuestAction,
+    chainId: number,
+    txHash: string,
+    now: Date = new Date(this.clock.now())
+  ): QuestUpdate | null {
+    return this.unitOfWork.transaction(() => {
+      if (!this.unitOfWork.quests.claimTransaction(chainId, txHash, playerId, action)) {
+        return null;
+      }
+      return this.record(playerId, playerName, { type: action, data: { chainId: String(chainId) } }, now);
+    });
+  }
+
+  private grantReward(playerId: string, playerName: string, quest: QuestDefinition, now: Date): QuestCompletion {
+    const player = this.unitOfWork.players.findByIdOrCreate(playerId, playerName);
+    const previousXP = player.xp;
+
+    if (quest.reward.xp) {
+      player.addXP(quest.reward.xp, now);
+      this.unitOfWork.players.save(player);
+      this.unitOfWork.xpLedger.record({ playerId, amount: quest.reward.xp, reason: 'quest', seedType: null, earnedAt: now });
+      this.leaderboards?.invalidate();
+    }
+    if (quest.reward.cosmetic) {
+      this.unitOfWork.quests.unlockCosmetic(playerId, quest.reward.cosmetic);
+    }
+
+    return { quest, previousXP, newXP: player.xp };
+  }
+
+  private getRecords(playerId: string): Map<string, QuestProgressRecord> {
+    return new Map(this.unitOfWork.quests.findByPlayer(playerId).map(record => [record.questId, record]));
+  }
+
+  private toLogEntry(quest: QuestDefinition, record?: QuestProgressRecord): QuestLogEntry {
+    return {
+      ...quest,
+      progress: Math.min(record?.progress ?? 0, quest.objective.count),
+      completed: !!record?.completedAt
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { describe, test, expect } from 'vitest';
+import { WorldEventDefinition } from '@defivalley/shared';
+import { WorldEventScheduler } from './WorldEventScheduler';
+import { YieldCalculator } from './YieldCalculator';
+import { SEED_CONFIGS } from '../../types/game.types';
+import { FakeClock } from '../../utils/clock';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.parse('2025-01-04T00:00:00.000Z');
+
+const EVENTS: WorldEventDefinition[] = [
+  {
+    id: 'harvest_festival',
+    name: 'Harvest Festival',
+    description: '1.5x XP and yield',
+    startsAt: '2025-01-04T00:00:00.000Z',
+    endsAt: '2025-01-05T00:00:00.000Z',
+    modifiers: { xpMultiplier: 1.5, yieldMultiplier: 1.5 }
+  },
+  {
+    id: 'drought',
+    name: 'Drought',
+    description: 'Growth time +20%',
+    worldId: 'farm_a',
+    startsAt: '2025-01-04T12:00:00.000Z',
+    endsAt: '2025-01-04T14:00:00.000Z',
+    repeat: 'daily',
+    modifiers: { growthTimeMultiplier: 1.2, yieldMultiplier: 0.5 }
+  }
+];
+
+describe('WorldEventScheduler', () => {
+  function schedulerAt(time: number) {
+    const clock = new FakeClock(time);
+    const scheduler = new WorldEventScheduler(EVENTS, clock);
+    return { scheduler, setTime: (next: number) => clock.set(next) };
+  }
+
+  test('should run events between their start and end on the injected clock', () => {
+    const { scheduler, setTime } = schedulerAt(START - 1);
+    expect(scheduler.getActiveEvents('farm_a')).toEqual([]);
+
+    setTime(START);
+    expect(scheduler.getActiveEvents('farm_a')).toEqual([expect.objectContaining({
+      id: 'harvest_festival',
+      startedAt: START,
+      endsAt: START + 24 * HOUR
+    })]);
+
+    setTime(START + 24 * HOUR);
+    expect(scheduler.getActiveEvents('farm_a')).toEqual([]);
+  });
+
+  test('should only run world events in their own world', () => {
+    const { scheduler, setTime } = schedulerAt(START + 13 * HOUR);
+    expect(scheduler.getActiveEvents('farm_a').map(event => event.id)).toEqual(['harvest_festival', 'drought']);
+    expect(scheduler.getActiveEvents('farm_b').map(event => event.id)).toEqual(['harvest_festival']);
+
+    // The drought repeats every day, long after the festival is over
+    setTime(START + 48 * HOUR + 13 * HOUR);
+    expect(scheduler.getActiveEvents('farm_a').map(event => event.id)).toEqual(['drought']);
+  });
+
+  test('should combine the modifiers of overlapping events', () => {
+    const { scheduler } = schedulerAt(START + 13 * HOUR);
+
+    expect(scheduler.getModifiers('farm_a')).toEqual({ xpMultiplier: 1.5, yieldMultiplier: 0.75, growthTimeMultiplier: 1.2 });
+    expect(scheduler.getModifiers('farm_b')).toEqual({ xpMultiplier: 1.5, yieldMultiplier: 1.5, growthTimeMultiplier: 1 });
+  });
+
+  test('should apply the active modifiers to yield, XP and growth time', () => {
+    const calculator = new YieldCalculator(new FakeClock(), { kind: 'simple' });
+    const plantedAt = new Date(START - 365 * 24 * HOUR);
+    const { scheduler, setTime } = schedulerAt(START - HOUR);
+
+    // 1000 USDC at 5% APY for one year
+    const yieldAt = (time: number) => calculator.calculateYield(1000, plantedAt, 'usdc_sprout', START, scheduler.getModifiers('farm_a', time));
+    expect(yieldAt(START - HOUR)).toBe(50);
+    expect(yieldAt(START)).toBe(75);
+    expect(yieldAt(START + 13 * HOUR)).toBe(37.5);
+
+    setTime(START + 13 * HOUR);
+    const modifiers = scheduler.getModifiers('farm_a');
+    expect(calculator.calculateXPGain('premium_tree', modifiers)).toBe(Math.round(SEED_CONFIGS.premium_tree.xpGain * 1.5));
+    expect(calculator.calculateGrowthTime('usdc_sprout', modifiers)).toBe(SEED_CONFIGS.usdc_sprout.growthTime * 1.2);
+  });
+});
\ No newline at end of file
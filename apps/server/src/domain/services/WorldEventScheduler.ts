@@ -0,0 +1,51 @@
+import {
+  ActiveWorldEvent,
+  WorldEventDefinition,
+  WorldEventModifiers,
+  combineWorldEventModifiers,
+  getWorldEventWindow
+} from '@defivalley/shared';
+import { Clock, systemClock } from '../../utils/clock';
+
+/**
+ * Decides which configured world events are running in a farm. Time comes from
+ * the injected clock so schedules can be tested without waiting for them.
+ */
+export class WorldEventScheduler {
+  constructor(
+    private events: WorldEventDefinition[],
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Events running in a world right now: global events plus the world's own
+   */
+  getActiveEvents(worldId: string, at: number = this.clock.now()): ActiveWorldEvent[] {
+    const active: ActiveWorldEvent[] = [];
+
+    for (const event of this.events) {
+      if (event.worldId !== undefined && event.worldId !== worldId) continue;
+
+      const window = getWorldEventWindow(event, at);
+      if (window) {
+        active.push({
+          id: event.id,
+          name: event.name,
+          description: event.description,
+          modifiers: event.modifiers,
+          startedAt: window.start,
+          endsAt: window.end
+        });
+      }
+    }
+
+    return active;
+  }
+
+  /**
+   * Combined modifiers of every event running in a world
+   */
+  getModifiers(worldId: string, at: number = this.clock.now()): Required<WorldEventModifiers> {
+    return combineWorldEventModifiers(this.getActiveEvents(worldId, at).map(event => event.modifiers));
+  }
+}
\ No newline at end of file
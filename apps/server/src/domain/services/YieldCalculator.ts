@@ -1,50 +1,68 @@
+import { DEFAULT_YIELD_MODEL, WorldEventModifiers, YieldModel, calculateYield, roundYield } from '@defivalley/shared';
 import { SEED_CONFIGS, SeedType } from '../../types/game.types';
+import { Clock, systemClock } from '../../utils/clock';
 
 export class YieldCalculator {
+  constructor(
+    private clock: Clock = systemClock,
+    private model: YieldModel = DEFAULT_YIELD_MODEL // Shared with the client's estimates
+  ) {}
+
   /**
    * Calculate yield for a crop based on time elapsed
    * @param investmentAmount The amount invested in the crop
    * @param plantedAt The date when the crop was planted
    * @param seedType The type of seed planted
+   * @param currentTime When the yield is realised (ms timestamp)
+   * @param modifiers World event modifiers active at harvest
    * @returns The calculated yield amount
    */
   calculateYield(
     investmentAmount: number,
     plantedAt: Date,
-    seedType: SeedType
+    seedType: SeedType,
+    currentTime: number = this.clock.now(),
+    modifiers: WorldEventModifiers = {}
   ): number {
-    const plantedTime = plantedAt.getTime();
-    const currentTime = Date.now();
-    const timeElapsedMs = currentTime - plantedTime;
-    const timeElapsedYears = timeElapsedMs / (365 * 24 * 60 * 60 * 1000);
-    
-    const seedConfig = SEED_CONFIGS[seedType];
-    const baseYieldRate = seedConfig.baseYieldRate;
-    
-    // Simple interest calculation for demo
-    const yieldAmount = investmentAmount * baseYieldRate * timeElapsedYears;
-    return Math.round(yieldAmount * 100) / 100; // Round to 2 decimal places
+    const yieldAmount = calculateYield(this.model, {
+      principal: investmentAmount,
+      apy: SEED_CONFIGS[seedType].baseYieldRate,
+      elapsedMs: currentTime - plantedAt.getTime()
+    });
+    return roundYield(yieldAmount * (modifiers.yieldMultiplier ?? 1));
   }
 
   /**
-   * Calculate XP gain from investment
-   * @param investmentAmount The amount invested
+   * Calculate XP gain for planting a seed
+   * @param seedType The type of seed planted
+   * @param modifiers World event modifiers active when planting
    * @returns The XP to be awarded
    */
-  calculateXPGain(investmentAmount: number): number {
-    // 1 XP per 10 USDC invested
-    return Math.floor(investmentAmount / 10);
+  calculateXPGain(seedType: SeedType, modifiers: WorldEventModifiers = {}): number {
+    return Math.round(SEED_CONFIGS[seedType].xpGain * (modifiers.xpMultiplier ?? 1));
+  }
+
+  /**
+   * Calculate how long a newly planted seed takes to grow
+   * @param seedType The type of seed planted
+   * @param modifiers World event modifiers active when planting
+   * @returns The growth time in milliseconds
+   */
+  calculateGrowthTime(seedType: SeedType, modifiers: WorldEventModifiers = {}): number {
+    return Math.round(SEED_CONFIGS[seedType].growthTime * (modifiers.growthTimeMultiplier ?? 1));
   }
 
   /**
    * Validate investment amount for a seed type
    * @param seedType The type of seed
    * @param investmentAmount The proposed investment amount
-   * @returns True if the investment is valid
+   * @returns True if the investment is a number within the seed's minimum and maximum
    */
   validateInvestment(seedType: SeedType, investmentAmount: number): boolean {
     const seedConfig = SEED_CONFIGS[seedType];
-    return investmentAmount >= seedConfig.minInvestment;
+    return Number.isFinite(investmentAmount) &&
+      investmentAmount >= seedConfig.minInvestment &&
+      investmentAmount <= seedConfig.maxInvestment;
   }
 
   /**
@@ -1,18 +1,33 @@
-import { Server } from "colyseus";
+import { Server, ServerError, ServerOptions } from "colyseus";
 import { createServer } from "http";
-import express from "express";
+import express, { NextFunction, Request, Response } from "express";
+import { isLeaderboardMetric, isLeaderboardWindow, isSeedType, isWorldVisibility, normalizeWorldTag } from "@defivalley/shared";
 import path from "path";
 import { networkInterfaces } from "os";
 import rateLimit from "express-rate-limit";
 import { GameRoom } from "./rooms/GameRoom";
-import { databaseService } from "./services/DatabaseService";
-import { sanitizeWorldId, validatePagination } from "./utils/validation";
+import { databaseConnection } from "./services/DatabaseConnection";
+import { leaderboardService } from "./services/leaderboards";
+import { AdminService, AdminServiceError } from "./domain/services/AdminService";
+import { sanitizeWorldId, validatePagination, validateWorldSettings } from "./utils/validation";
+import { ERROR_CODES, toChatBroadcast } from "./types/game.types";
+import { worldPresence } from "./utils/worldPresence";
+import { liveRooms } from "./utils/liveRooms";
+import { resolveWorldAccess } from "./utils/worldAccess";
+import { createAuthChallenge, verifyAuthChallenge, validateSession, getSessionExpiry, verifyWorldPermission, parseBearerToken, isAdmin } from "./utils/auth";
+import { WorldFilters } from "./repositories/interfaces/IWorldRepository";
 
 const port = Number(process.env.PORT || 2567);
 const app = express();
+// Largest WebSocket message a client may send. The transport's default is 4KB, but an editor
+// terrain save sends every changed tile in one message (up to the whole farm)
+const MAX_CLIENT_MESSAGE_BYTES = 512 * 1024;
+
+// Options other than Server's own are passed on to the WebSocket transport
 const gameServer = new Server({
-  server: createServer(app)
-});
+  server: createServer(app),
+  maxPayload: MAX_CLIENT_MESSAGE_BYTES
+} as ServerOptions);
 
 // Serve static files from public directory
 app.use(express.static(path.join(__dirname, '../public')));
@@ -20,6 +35,12 @@ app.use(express.static(path.join(__dirname, '../public')));
 // Add middleware for JSON parsing with size limit
 app.use(express.json({ limit: '10mb' }));
 
+// Which proxies' X-Forwarded-For to believe, so rate limits count each player rather than the
+// web app's API routes that proxy for them. TRUST_PROXY takes a hop count or a list of proxy
+// addresses (see Express' "trust proxy"); by default only a proxy on this host is trusted
+const trustProxy = process.env.TRUST_PROXY || 'loopback';
+app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+
 // Configure rate limiting
 const apiLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -27,19 +48,58 @@ const apiLimiter = rateLimit({
   message: 'Too many requests from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
+  // Presence is served from memory and polled by every open world browser; sign-in has its own limits
+  skip: (req) => req.path === '/worlds/presence' || req.path.startsWith('/auth/'),
+});
+
+// Sign-in is limited per IP and per wallet address, apart from the rest of the API, so browsing
+// can't use up a player's sign-ins and nobody can exhaust them for someone else's wallet from one IP
+const authIpLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 60,
+  message: 'Too many sign-in attempts from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const authAddressLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  message: 'Too many sign-in attempts for this wallet, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => `wallet:${typeof req.body?.address === 'string' ? req.body.address.toLowerCase() : ''}`,
 });
 
 // Apply rate limiting to API routes
 app.use('/api/', apiLimiter);
+app.use('/api/auth/', authIpLimiter, authAddressLimiter);
+
+const { worlds, players, chat, roles, moderation } = databaseConnection.unitOfWork;
+const adminService = new AdminService(databaseConnection.unitOfWork, liveRooms, leaderboardService);
 
-// API endpoint to get active worlds with pagination
+// Health check, also used by web clients to measure latency to each game server region
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok', uptime: process.uptime() });
+});
+
+// API endpoint to get listed worlds with pagination, optionally filtered by visibility, tag and
+// whether the host is online, most recently active first or (sort=visitors) busiest first
 app.get('/api/worlds', (req, res) => {
   try {
     const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
-    const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+    // Live presence only exists in memory, so it narrows and orders the query by world ID
+    const live = worldPresence.list();
+    const filters: WorldFilters = {
+      search: typeof req.query.search === 'string' ? req.query.search : undefined,
+      visibility: isWorldVisibility(req.query.visibility) ? req.query.visibility : undefined,
+      tag: typeof req.query.tag === 'string' ? normalizeWorldTag(req.query.tag) || undefined : undefined,
+      worldIds: req.query.hostOnline === 'true' ? live.filter(world => world.hostOnline).map(world => world.worldId) : undefined
+    };
+    const rankFirst = req.query.sort === 'visitors' ? live.map(world => world.worldId) : [];
     
-    const activeWorlds = databaseService.getActiveWorlds(limit, (page - 1) * limit, search);
-    const totalWorlds = databaseService.getTotalWorldsCount(search);
+    const activeWorlds = worlds.getActiveWorlds(limit, (page - 1) * limit, filters, rankFirst);
+    const totalWorlds = worlds.getTotalWorldsCount(filters);
     
     res.json({ 
       worlds: activeWorlds,
@@ -68,7 +128,7 @@ app.get('/api/worlds/:worldId/exists', (req, res) => {
       });
     }
     
-    const exists = databaseService.playerExists(worldId);
+    const exists = players.exists(worldId);
     res.json({ exists, worldId });
   } catch (error) {
     console.error(`❌ Error checking world existence:`, error);
@@ -76,6 +136,385 @@ app.get('/api/worlds/:worldId/exists', (req, res) => {
   }
 });
 
+// API endpoint to get who is in each listed world right now (registered before /:worldId)
+app.get('/api/worlds/presence', (req, res) => {
+  try {
+    res.json({ worlds: worldPresence.list(), updatedAt: Date.now() });
+  } catch (error) {
+    console.error('❌ Error fetching world presence:', error);
+    res.status(500).json({ error: 'Failed to fetch world presence' });
+  }
+});
+
+// API endpoint to get a world's title, description, tags, visibility and visitor limit
+app.get('/api/worlds/:worldId', (req, res) => {
+  try {
+    const worldId = sanitizeWorldId(req.params.worldId);
+    
+    if (!worldId) {
+      return res.status(400).json({ error: 'Invalid world ID format' });
+    }
+    
+    res.json({ worldId, settings: worlds.getSettings(worldId) });
+  } catch (error) {
+    console.error('❌ Error fetching world settings:', error);
+    res.status(500).json({ error: 'Failed to fetch world settings' });
+  }
+});
+
+// API endpoint for the world owner to update their world's settings (partial updates)
+app.patch('/api/worlds/:worldId', (req, res) => {
+  try {
+    const worldId = sanitizeWorldId(req.params.worldId);
+    
+    if (!worldId) {
+      return res.status(400).json({ error: 'Invalid world ID format' });
+    }
+    
+    const token = parseBearerToken(req.headers.authorization);
+    if (!token || !validateSession(token)) {
+      return res.status(401).json({ error: 'Invalid or expired auth token' });
+    }
+    
+    if (!verifyWorldPermission(token, worldId)) {
+      return res.status(403).json({ error: 'Only the world owner can edit its settings' });
+    }
+    
+    const result = validateWorldSettings(req.body, worlds.getSettings(worldId));
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+    
+    worlds.saveSettings(worldId, result.settings);
+    console.log(`📝 World settings updated for ${worldId}`);
+    
+    res.json({ worldId, settings: result.settings });
+  } catch (error) {
+    console.error('❌ Error updating world settings:', error);
+    res.status(500).json({ error: 'Failed to update world settings' });
+  }
+});
+
+// API endpoint to get a world's chat history, newest first, with pagination
+// Only players who could join the farm's room may read it (same session token and visibility rules)
+app.get('/api/worlds/:worldId/chat', (req, res) => {
+  try {
+    const worldId = sanitizeWorldId(req.params.worldId);
+    
+    if (!worldId) {
+      return res.status(400).json({ error: 'Invalid world ID format' });
+    }
+    
+    try {
+      resolveWorldAccess(parseBearerToken(req.headers.authorization), worldId, worlds.getSettings(worldId), { roles, moderation });
+    } catch (error) {
+      if (error instanceof ServerError) {
+        return res.status(error.code).json({ error: error.message });
+      }
+      throw error;
+    }
+    
+    const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+    
+    const messages = chat.findByWorld(worldId, limit, (page - 1) * limit);
+    const totalMessages = chat.countByWorld(worldId);
+    
+    res.json({
+      worldId,
+      messages: messages.map(toChatBroadcast),
+      pagination: {
+        page,
+        limit,
+        total: totalMessages,
+        totalPages: Math.ceil(totalMessages / limit)
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching chat history:', error);
+    res.status(500).json({ error: 'Failed to fetch chat history' });
+  }
+});
+
+// API endpoint to rank players by XP, invested or harvested amounts, all-time or this week, optionally per seed type
+app.get('/api/leaderboards/:metric', (req, res) => {
+  try {
+    const metric = req.params.metric;
+    if (!isLeaderboardMetric(metric)) {
+      return res.status(400).json({ error: 'Leaderboard must be xp, invested or harvested' });
+    }
+    
+    const window = req.query.window ?? 'all';
+    if (!isLeaderboardWindow(window)) {
+      return res.status(400).json({ error: 'Window must be all or weekly' });
+    }
+    
+    const seedType = req.query.seedType;
+    if (seedType !== undefined && !isSeedType(seedType)) {
+      return res.status(400).json({ error: 'Invalid seed type' });
+    }
+    
+    const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+    const leaderboard = leaderboardService.getLeaderboard({ metric, window, seedType, limit, offset: (page - 1) * limit });
+    
+    res.json({
+      metric,
+      window,
+      seedType: seedType ?? null,
+      entries: leaderboard.entries,
+      pagination: {
+        page,
+        limit,
+        total: leaderboard.total,
+        totalPages: Math.ceil(leaderboard.total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching leaderboard:', error);
+    res.status(500).json({ error: 'Failed to fetch leaderboard' });
+  }
+});
+
+// API endpoint to issue a sign-in challenge for a wallet address
+app.post('/api/auth/challenge', (req, res) => {
+  try {
+    const address = typeof req.body?.address === 'string' ? req.body.address : '';
+    const challenge = createAuthChallenge(address);
+
+    if (!challenge) {
+      return res.status(400).json({ error: 'Invalid wallet address' });
+    }
+
+    res.json({
+      address: challenge.address,
+      nonce: challenge.nonce,
+      message: challenge.message,
+      expiresAt: challenge.expiresAt
+    });
+  } catch (error) {
+    console.error('❌ Error creating auth challenge:', error);
+    res.status(500).json({ error: 'Failed to create auth challenge' });
+  }
+});
+
+// API endpoint to exchange a signed challenge for a session token
+app.post('/api/auth/verify', async (req, res) => {
+  try {
+    const address = typeof req.body?.address === 'string' ? req.body.address : '';
+    const nonce = typeof req.body?.nonce === 'string' ? req.body.nonce : '';
+    const signature = typeof req.body?.signature === 'string' ? req.body.signature : '';
+
+    const token = await verifyAuthChallenge(address, nonce, signature);
+
+    if (!token) {
+      return res.status(401).json({ error: 'Invalid signature or expired challenge' });
+    }
+
+    res.json({ token, playerId: validateSession(token), expiresAt: getSessionExpiry(token) });
+  } catch (error) {
+    console.error('❌ Error verifying auth challenge:', error);
+    res.status(500).json({ error: 'Failed to verify auth challenge' });
+  }
+});
+
+// Admin API: every /api/admin route needs the session token of a player listed in ADMIN_PLAYER_IDS
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const token = parseBearerToken(req.headers.authorization);
+  const playerId = token ? validateSession(token) : null;
+  if (!playerId) {
+    return res.status(401).json({ error: 'Invalid or expired auth token' });
+  }
+  
+  if (!isAdmin(playerId)) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  
+  res.locals.adminId = playerId;
+  next();
+}
+
+app.use('/api/admin', requireAdmin);
+
+// HTTP status for an admin action the service refused
+function adminErrorStatus(error: AdminServiceError): number {
+  switch (error.code) {
+    case ERROR_CODES.PLAYER_NOT_FOUND:
+    case ERROR_CODES.CROP_NOT_FOUND:
+      return 404;
+    case ERROR_CODES.CROP_ALREADY_HARVESTED:
+      return 409;
+    default:
+      return 400;
+  }
+}
+
+// Optional free-text reason for a kick or ban
+function adminReason(body: unknown): string {
+  const reason = (body as { reason?: unknown } | undefined)?.reason;
+  return typeof reason === 'string' ? reason.trim().slice(0, 200) : '';
+}
+
+// Admin API endpoint to list the rooms open on this server
+app.get('/api/admin/rooms', (req, res) => {
+  res.json({ rooms: adminService.listRooms() });
+});
+
+// Admin API endpoint to inspect a room's players, crops and running world events
+app.get('/api/admin/rooms/:roomId', (req, res) => {
+  const room = adminService.getRoom(req.params.roomId);
+  if (!room) {
+    return res.status(404).json({ error: 'Room not found' });
+  }
+  res.json({ room });
+});
+
+// Admin API endpoint to disconnect a player from every room they are in
+app.post('/api/admin/players/:playerId/kick', (req, res) => {
+  try {
+    const playerId = sanitizeWorldId(req.params.playerId);
+    if (!playerId) {
+      return res.status(400).json({ error: 'Invalid player ID format' });
+    }
+    
+    const result = adminService.kickPlayer(res.locals.adminId, playerId, adminReason(req.body));
+    if (!result.success) {
+      return res.status(adminErrorStatus(result.error!)).json({ error: result.error!.message });
+    }
+    res.json({ playerId, sessionsClosed: result.sessionsClosed });
+  } catch (error) {
+    console.error('❌ Error kicking player:', error);
+    res.status(500).json({ error: 'Failed to kick player' });
+  }
+});
+
+// Admin API endpoint to list banned players, newest first
+app.get('/api/admin/bans', (req, res) => {
+  try {
+    res.json({ bans: adminService.listBans() });
+  } catch (error) {
+    console.error('❌ Error fetching bans:', error);
+    res.status(500).json({ error: 'Failed to fetch bans' });
+  }
+});
+
+// Admin API endpoint to ban a player from every farm (also disconnects them)
+app.post('/api/admin/players/:playerId/ban', (req, res) => {
+  try {
+    const playerId = sanitizeWorldId(req.params.playerId);
+    if (!playerId) {
+      return res.status(400).json({ error: 'Invalid player ID format' });
+    }
+    
+    const result = adminService.banPlayer(res.locals.adminId, playerId, adminReason(req.body));
+    res.json({ playerId, banned: true, sessionsClosed: result.sessionsClosed });
+  } catch (error) {
+    console.error('❌ Error banning player:', error);
+    res.status(500).json({ error: 'Failed to ban player' });
+  }
+});
+
+// Admin API endpoint to lift a ban
+app.delete('/api/admin/players/:playerId/ban', (req, res) => {
+  try {
+    const playerId = sanitizeWorldId(req.params.playerId);
+    if (!playerId) {
+      return res.status(400).json({ error: 'Invalid player ID format' });
+    }
+    
+    const result = adminService.unbanPlayer(res.locals.adminId, playerId);
+    if (!result.success) {
+      return res.status(adminErrorStatus(result.error!)).json({ error: result.error!.message });
+    }
+    res.json({ playerId, banned: false });
+  } catch (error) {
+    console.error('❌ Error unbanning player:', error);
+    res.status(500).json({ error: 'Failed to unban player' });
+  }
+});
+
+// Admin API endpoint to rename a player
+app.patch('/api/admin/players/:playerId', (req, res) => {
+  try {
+    const playerId = sanitizeWorldId(req.params.playerId);
+    if (!playerId) {
+      return res.status(400).json({ error: 'Invalid player ID format' });
+    }
+    
+    const result = adminService.renamePlayer(res.locals.adminId, playerId, req.body?.name);
+    if (!result.success) {
+      return res.status(adminErrorStatus(result.error!)).json({ error: result.error!.message });
+    }
+    res.json({ playerId, name: result.name });
+  } catch (error) {
+    console.error('❌ Error renaming player:', error);
+    res.status(500).json({ error: 'Failed to rename player' });
+  }
+});
+
+// Admin API endpoint to harvest a crop right away, ready or not
+app.post('/api/admin/crops/:cropId/harvest', (req, res) => {
+  try {
+    const result = adminService.harvestCrop(res.locals.adminId, req.params.cropId);
+    if (!result.success) {
+      return res.status(adminErrorStatus(result.error!)).json({ error: result.error!.message });
+    }
+    res.json({
+      cropId: req.params.cropId,
+      ownerId: result.crop!.playerId,
+      yieldAmount: result.yieldAmount,
+      ownerBalance: result.balance
+    });
+  } catch (error) {
+    console.error('❌ Error force-harvesting crop:', error);
+    res.status(500).json({ error: 'Failed to harvest crop' });
+  }
+});
+
+// Admin API endpoint to delete a crop without paying out its yield
+app.delete('/api/admin/crops/:cropId', (req, res) => {
+  try {
+    const result = adminService.deleteCrop(res.locals.adminId, req.params.cropId);
+    if (!result.success) {
+      return res.status(adminErrorStatus(result.error!)).json({ error: result.error!.message });
+    }
+    res.json({ cropId: req.params.cropId, deleted: true });
+  } catch (error) {
+    console.error('❌ Error deleting crop:', error);
+    res.status(500).json({ error: 'Failed to delete crop' });
+  }
+});
+
+// Admin API endpoint to list database migrations and whether each has run
+app.get('/api/admin/migrations', (req, res) => {
+  try {
+    res.json({ migrations: databaseConnection.getMigrationStatus() });
+  } catch (error) {
+    console.error('❌ Error fetching migration status:', error);
+    res.status(500).json({ error: 'Failed to fetch migration status' });
+  }
+});
+
+// Admin API endpoint to page through the audit log, newest first, optionally for one player or crop
+app.get('/api/admin/audit-log', (req, res) => {
+  try {
+    const { page, limit } = validatePagination(req.query.page as string, req.query.limit as string);
+    const targetId = typeof req.query.targetId === 'string' ? req.query.targetId : undefined;
+    const { entries, total } = adminService.getAuditLog(limit, (page - 1) * limit, targetId);
+    
+    res.json({
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching audit log:', error);
+    res.status(500).json({ error: 'Failed to fetch audit log' });
+  }
+});
+
 // Define the GameRoom with dynamic room creation
 // Room IDs will be based on world owner IDs (e.g., wallet addresses)
 gameServer.define('world', GameRoom).filterBy(['worldOwnerId']);
@@ -0,0 +1,14 @@
+-- Migration: Add chat message history per world
+-- Messages are kept so players joining a farm can see recent conversation
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  world_id TEXT NOT NULL,
+  player_id TEXT NOT NULL,
+  player_name TEXT NOT NULL,
+  message TEXT NOT NULL,
+  created_at INTEGER NOT NULL -- Unix timestamp in milliseconds
+);
+
+-- Recent-history and pagination queries read newest messages per world first
+CREATE INDEX IF NOT EXISTS idx_chat_messages_world ON chat_messages (world_id, id DESC);
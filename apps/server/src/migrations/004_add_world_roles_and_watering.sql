@@ -0,0 +1,23 @@
+-- Migration: Add farm roles and crop watering
+-- World owners can grant other players roles (helper, friend) on their farm,
+-- and crops track the growth boost they received from being watered.
+-- Role world and player IDs are stored lowercased (like player_bans), so checksummed and
+-- lowercased wallet addresses match
+
+CREATE TABLE IF NOT EXISTS world_roles (
+  world_id TEXT NOT NULL,
+  player_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('helper', 'friend')),
+  granted_by TEXT NOT NULL,
+  granted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (world_id, player_id)
+);
+
+-- Crops belong to the world they were planted in, which is no longer always the planter's own
+ALTER TABLE crops ADD COLUMN world_id TEXT;
+UPDATE crops SET world_id = player_id;
+CREATE INDEX IF NOT EXISTS idx_crops_world ON crops (world_id, harvested);
+
+-- Time (ms) skipped by watering, and when the crop was last watered
+ALTER TABLE crops ADD COLUMN growth_boost INTEGER DEFAULT 0;
+ALTER TABLE crops ADD COLUMN last_watered_at DATETIME DEFAULT NULL;
@@ -0,0 +1,18 @@
+-- Migration: Add player balance ledger
+-- Every change to a player's balance (e.g. harvest yield) is an append-only entry;
+-- a player's balance is the sum of their entries
+
+CREATE TABLE IF NOT EXISTS balance_ledger (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  player_id TEXT NOT NULL,
+  amount REAL NOT NULL,
+  reason TEXT NOT NULL,
+  crop_id TEXT DEFAULT NULL,
+  world_id TEXT DEFAULT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_balance_ledger_player ON balance_ledger (player_id, id DESC);
+
+-- A crop can only ever be credited once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_balance_ledger_harvest ON balance_ledger (crop_id) WHERE reason = 'harvest';
@@ -0,0 +1,16 @@
+-- Migration: Add world settings
+-- Farm owners can give their world a title, description and tags, choose who may
+-- join it and cap how many visitors it holds. Worlds without a row use the defaults.
+
+CREATE TABLE IF NOT EXISTS worlds (
+  id TEXT PRIMARY KEY, -- World owner's player ID
+  title TEXT NOT NULL DEFAULT '',
+  description TEXT NOT NULL DEFAULT '',
+  tags TEXT NOT NULL DEFAULT '[]', -- JSON array of normalized tags
+  visibility TEXT NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'unlisted', 'friends')),
+  max_visitors INTEGER NOT NULL DEFAULT 10,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_worlds_visibility ON worlds (visibility);
@@ -0,0 +1,23 @@
+-- Migration: Add leaderboard indexes
+-- Leaderboards rank players by XP, by investment in crops planted in a window
+-- and by yield from crops harvested in a window, optionally for one seed type.
+-- Every XP gain (planting, quest rewards) is an append-only xp_ledger entry, so time-windowed
+-- XP leaderboards count what players actually earned, world event multipliers included.
+-- All-time XP is still read from players.xp
+
+CREATE INDEX IF NOT EXISTS idx_players_xp ON players (xp DESC, id);
+CREATE INDEX IF NOT EXISTS idx_crops_planted_at ON crops (planted_at, seed_type, player_id);
+CREATE INDEX IF NOT EXISTS idx_crops_harvested_at ON crops (harvested_at, seed_type, player_id) WHERE harvested = 1;
+
+CREATE TABLE IF NOT EXISTS xp_ledger (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  player_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  reason TEXT NOT NULL, -- 'plant' or 'quest'
+  seed_type TEXT DEFAULT NULL, -- Seed planted, for planting XP
+  earned_at TEXT NOT NULL -- ISO 8601, like crops.planted_at
+);
+
+CREATE INDEX IF NOT EXISTS idx_xp_ledger_earned_at ON xp_ledger (earned_at, seed_type, player_id);
+
+-- Earlier planting XP is backfilled from crops by MigrationService, at each seed's rate in SEED_CONFIGS
@@ -0,0 +1,32 @@
+-- Migration: Add quest progress
+-- Quest definitions live in quests/quests.json; the database only records how far
+-- each player got, the cosmetics quests unlocked and which on-chain transactions
+-- were already counted, so a transaction can't complete quests twice.
+
+CREATE TABLE IF NOT EXISTS quest_progress (
+  player_id TEXT NOT NULL,
+  quest_id TEXT NOT NULL,
+  progress INTEGER NOT NULL DEFAULT 0,
+  seen_keys TEXT NOT NULL DEFAULT '[]', -- JSON array of values already counted by distinct objectives
+  completed_at DATETIME DEFAULT NULL,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (player_id, quest_id),
+  FOREIGN KEY (player_id) REFERENCES players (id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS player_cosmetics (
+  player_id TEXT NOT NULL,
+  cosmetic_id TEXT NOT NULL,
+  unlocked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (player_id, cosmetic_id),
+  FOREIGN KEY (player_id) REFERENCES players (id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS verified_transactions (
+  chain_id INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL, -- Lowercase
+  player_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  verified_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (chain_id, tx_hash)
+);
@@ -0,0 +1,21 @@
+-- Migration: Add admin moderation
+-- Banned players are refused when they join any farm. Every action taken through
+-- the admin API is recorded in the audit log, including who took it.
+
+CREATE TABLE IF NOT EXISTS player_bans (
+  player_id TEXT PRIMARY KEY, -- Lowercase, so checksummed and lowercased wallet addresses match
+  reason TEXT NOT NULL DEFAULT '',
+  banned_by TEXT NOT NULL,
+  banned_at INTEGER NOT NULL -- Unix time in milliseconds
+);
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  admin_id TEXT NOT NULL,
+  action TEXT NOT NULL, -- e.g. 'player.ban', 'crop.delete'
+  target_id TEXT NOT NULL, -- Player, crop or room the action applied to
+  details TEXT NOT NULL DEFAULT '{}', -- JSON object
+  created_at INTEGER NOT NULL -- Unix time in milliseconds
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log (target_id);
@@ -0,0 +1,9 @@
+-- Migration: Add world terrain
+-- Farm owners can reshape their farm's terrain in the tilemap editor. Each world's
+-- layout is stored run-length encoded; worlds without a row are plain grass.
+
+CREATE TABLE IF NOT EXISTS world_terrain (
+  world_id TEXT PRIMARY KEY, -- World owner's player ID
+  data TEXT NOT NULL, -- JSON EncodedTerrain: { width, height, palette, runs }
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
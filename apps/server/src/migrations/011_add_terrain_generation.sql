@@ -0,0 +1,5 @@
+-- Migration: Add terrain generation parameters
+-- Owners can generate their farm's terrain from a seed and biome parameters. The
+-- parameters are kept next to the terrain so the landscape can be reproduced.
+
+ALTER TABLE world_terrain ADD COLUMN generation TEXT; -- JSON TerrainGenerationParams, NULL if never generated
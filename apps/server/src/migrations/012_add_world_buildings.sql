@@ -0,0 +1,11 @@
+-- Migration: Add per-world building layouts
+-- Buildings come from a JSON manifest per network. Farm owners can move them in the
+-- editor and save their own layout, which replaces the default manifest in their world.
+
+CREATE TABLE IF NOT EXISTS world_buildings (
+  world_id TEXT NOT NULL, -- World owner's player ID
+  network TEXT NOT NULL, -- Building network: katana or flow
+  manifest TEXT NOT NULL, -- JSON BuildingManifest
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (world_id, network)
+);
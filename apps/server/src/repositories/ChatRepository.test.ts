@@ -0,0 +1,50 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ChatRepository } from './ChatRepository';
+import { CHAT_MAX_LENGTH } from '@defivalley/shared';
+import { sanitizeChatMessage } from '../utils/validation';
+
+describe('Chat history', () => {
+  let repository: ChatRepository;
+
+  beforeEach(() => {
+    const db = new Database(':memory:');
+    db.exec(readFileSync(join(__dirname, '..', 'migrations', '003_add_chat_messages.sql'), 'utf-8'));
+    repository = new ChatRepository(db);
+  });
+
+  const save = (worldId: string, message: string, timestamp: number) =>
+    repository.save({ worldId, playerId: 'player-1', playerName: 'Alice', message, timestamp });
+
+  test('should return messages for a world newest first with pagination', () => {
+    save('world-a', 'first', 1000);
+    save('world-a', 'second', 2000);
+    save('world-a', 'third', 3000);
+    save('world-b', 'elsewhere', 4000);
+
+    expect(repository.findByWorld('world-a', 2).map(m => m.message)).toEqual(['third', 'second']);
+    expect(repository.findByWorld('world-a', 2, 2).map(m => m.message)).toEqual(['first']);
+    expect(repository.countByWorld('world-a')).toBe(3);
+  });
+
+  test('should only delete messages belonging to the given world', () => {
+    const record = save('world-a', 'hello', 1000);
+
+    expect(repository.delete('world-b', record.id)).toBe(false);
+    expect(repository.findById(record.id)).toBeDefined();
+
+    expect(repository.delete('world-a', record.id)).toBe(true);
+    expect(repository.findById(record.id)).toBeUndefined();
+  });
+
+  test('should sanitize chat text and enforce the length limit', () => {
+    expect(sanitizeChatMessage('  hello \n\t world  ')).toBe('hello world');
+    expect(sanitizeChatMessage('evil\u202Etxt.exe')).toBe('evil txt.exe');
+    expect(sanitizeChatMessage('   ')).toBeNull();
+    expect(sanitizeChatMessage(42)).toBeNull();
+    expect(sanitizeChatMessage('a'.repeat(CHAT_MAX_LENGTH))).toHaveLength(CHAT_MAX_LENGTH);
+    expect(sanitizeChatMessage('a'.repeat(CHAT_MAX_LENGTH + 1))).toBeNull();
+  });
+});
\ No newline at end of file
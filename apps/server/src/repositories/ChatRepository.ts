@@ -0,0 +1,64 @@
+import Database from 'better-sqlite3';
+import { ChatMessageRecord, IChatRepository } from './interfaces/IChatRepository';
+
+export class ChatRepository implements IChatRepository {
+  constructor(private db: Database.Database) {}
+
+  save(message: Omit<ChatMessageRecord, 'id'>): ChatMessageRecord {
+    const stmt = this.db.prepare(`
+      INSERT INTO chat_messages (world_id, player_id, player_name, message, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      message.worldId,
+      message.playerId,
+      message.playerName,
+      message.message,
+      message.timestamp
+    );
+    
+    return { id: Number(result.lastInsertRowid), ...message };
+  }
+
+  findById(id: number): ChatMessageRecord | undefined {
+    const stmt = this.db.prepare('SELECT * FROM chat_messages WHERE id = ?');
+    const row = stmt.get(id) as any;
+    
+    return row ? this.mapRowToRecord(row) : undefined;
+  }
+
+  findByWorld(worldId: string, limit: number, offset: number = 0): ChatMessageRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM chat_messages 
+      WHERE world_id = ? 
+      ORDER BY id DESC 
+      LIMIT ? OFFSET ?
+    `);
+    const rows = stmt.all(worldId, limit, offset) as any[];
+    
+    return rows.map(row => this.mapRowToRecord(row));
+  }
+
+  countByWorld(worldId: string): number {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM chat_messages WHERE world_id = ?');
+    const result = stmt.get(worldId) as { count: number };
+    return result.count;
+  }
+
+  delete(worldId: string, id: number): boolean {
+    // Scoped to the world so an owner can only delete messages from their own farm
+    const stmt = this.db.prepare('DELETE FROM chat_messages WHERE id = ? AND world_id = ?');
+    return stmt.run(id, worldId).changes > 0;
+  }
+
+  private mapRowToRecord(row: any): ChatMessageRecord {
+    return {
+      id: row.id,
+      worldId: row.world_id,
+      playerId: row.player_id,
+      playerName: row.player_name,
+      message: row.message,
+      timestamp: row.created_at
+    };
+  }
+}
\ No newline at end of file
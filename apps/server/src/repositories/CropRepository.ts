@@ -44,6 +44,13 @@ export class CropRepository implements ICropRepository {
     return rows.map(row => this.rowToCrop(row));
   }
 
+  findUnharvestedByWorldId(worldId: string): Crop[] {
+    const stmt = this.db.prepare('SELECT * FROM crops WHERE world_id = ? AND harvested = FALSE');
+    const rows = stmt.all(worldId) as any[];
+    
+    return rows.map(row => this.rowToCrop(row));
+  }
+
   findInArea(minX: number, minY: number, maxX: number, maxY: number, playerId?: string): Crop[] {
     const bounds = this.spatialService.calculateGridBoundsForArea({ minX, minY, maxX, maxY });
     
@@ -74,24 +81,32 @@ export class CropRepository implements ICropRepository {
     return rows.map(row => this.rowToCrop(row));
   }
 
-  findAtPosition(x: number, y: number, radius: number): Crop[] {
+  findAtPosition(x: number, y: number, radius: number, worldId?: string): Crop[] {
     const gridBounds = this.spatialService.calculateGridBounds(x, y, radius);
     
-    const stmt = this.db.prepare(`
+    let query = `
       SELECT * FROM crops 
       WHERE harvested = FALSE 
       AND grid_x BETWEEN ? AND ?
       AND grid_y BETWEEN ? AND ?
       AND ((x - ?) * (x - ?) + (y - ?) * (y - ?)) <= ? * ?
-    `);
+    `;
     
-    const rows = stmt.all(
+    const params: any[] = [
       gridBounds.minGridX,
       gridBounds.maxGridX,
       gridBounds.minGridY,
       gridBounds.maxGridY,
       x, x, y, y, radius, radius
-    ) as any[];
+    ];
+    
+    if (worldId) {
+      query += ' AND world_id = ?';
+      params.push(worldId);
+    }
+    
+    const stmt = this.db.prepare(query);
+    const rows = stmt.all(...params) as any[];
     
     return rows.map(row => this.rowToCrop(row));
   }
@@ -107,6 +122,8 @@ export class CropRepository implements ICropRepository {
           harvested = ?,
           yield_amount = ?,
           harvested_at = ?,
+          growth_boost = ?,
+          last_watered_at = ?,
           updated_at = ?
         WHERE id = ?
       `);
@@ -114,6 +131,8 @@ export class CropRepository implements ICropRepository {
         crop.harvested ? 1 : 0,
         crop.yieldAmount,
         crop.harvestedAt?.toISOString() || null,
+        crop.growthBoost,
+        crop.lastWateredAt?.toISOString() || null,
         crop.updatedAt.toISOString(),
         crop.id
       );
@@ -121,16 +140,18 @@ export class CropRepository implements ICropRepository {
       // Insert new crop
       const stmt = this.db.prepare(`
         INSERT INTO crops (
-          id, player_id, seed_type, x, y, grid_x, grid_y, 
+          id, player_id, world_id, seed_type, x, y, grid_x, grid_y, 
           planted_at, growth_time, investment_amount, harvested, 
-          yield_amount, harvested_at, created_at, updated_at
+          yield_amount, harvested_at, growth_boost, last_watered_at,
+          created_at, updated_at
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
       
       stmt.run(
         crop.id,
         crop.playerId,
+        crop.worldId,
         crop.seedType,
         crop.x,
         crop.y,
@@ -142,6 +163,8 @@ export class CropRepository implements ICropRepository {
         crop.harvested ? 1 : 0,
         crop.yieldAmount,
         crop.harvestedAt?.toISOString() || null,
+        crop.growthBoost,
+        crop.lastWateredAt?.toISOString() || null,
         crop.createdAt.toISOString(),
         crop.updatedAt.toISOString()
       );
@@ -186,6 +209,7 @@ export class CropRepository implements ICropRepository {
     return new Crop(
       row.id,
       row.player_id,
+      row.world_id ?? row.player_id,
       row.seed_type as SeedType,
       row.x,
       row.y,
@@ -195,6 +219,8 @@ export class CropRepository implements ICropRepository {
       row.harvested === 1,
       row.yield_amount,
       row.harvested_at ? new Date(row.harvested_at) : null,
+      row.growth_boost ?? 0,
+      row.last_watered_at ? new Date(row.last_watered_at) : null,
       new Date(row.created_at),
       new Date(row.updated_at),
       row.grid_x,
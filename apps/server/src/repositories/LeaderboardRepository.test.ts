@@ -0,0 +1,97 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { SEED_CONFIGS, SeedType } from '@defivalley/shared';
+import { DatabaseConnection } from '../services/DatabaseConnection';
+import { IUnitOfWork } from './interfaces/IUnitOfWork';
+import { InMemoryUnitOfWork } from './memory/InMemoryUnitOfWork';
+import { Crop } from '../domain/entities/Crop';
+import { LeaderboardService } from '../domain/services/LeaderboardService';
+
+const LAST_WEEK = new Date('2025-01-01T12:00:00.000Z');
+const THIS_WEEK = new Date('2025-01-07T12:00:00.000Z'); // Tuesday
+const WEEK_START = new Date('2025-01-06T00:00:00.000Z');
+
+const backends: [string, () => IUnitOfWork][] = [
+  ['SQLite', () => new DatabaseConnection(':memory:').unitOfWork],
+  ['in-memory repositories', () => new InMemoryUnitOfWork()]
+];
+
+describe.each(backends)('Leaderboards (%s)', (_backend, createUnitOfWork) => {
+  let unitOfWork: IUnitOfWork;
+
+  function plant(playerId: string, seedType: SeedType, investment: number, plantedAt: Date, yieldAmount?: number) {
+    const player = unitOfWork.players.findByIdOrCreate(playerId, playerId.toUpperCase());
+    player.addXP(SEED_CONFIGS[seedType].xpGain);
+    unitOfWork.players.save(player);
+    unitOfWork.xpLedger.record({ playerId, amount: SEED_CONFIGS[seedType].xpGain, reason: 'plant', seedType, earnedAt: plantedAt });
+
+    const crop = Crop.create(playerId, playerId, seedType, 100, 100, SEED_CONFIGS[seedType].growthTime, investment, plantedAt);
+    if (yieldAmount !== undefined) {
+      crop.harvest(yieldAmount, new Date(plantedAt.getTime() + SEED_CONFIGS[seedType].growthTime));
+    }
+    unitOfWork.crops.save(crop);
+  }
+
+  const ranking = (metric: 'xp' | 'invested' | 'harvested', filters = {}, limit = 10, offset = 0) =>
+    unitOfWork.leaderboards.getRanking(metric, filters, limit, offset);
+
+  beforeEach(() => {
+    unitOfWork = createUnitOfWork();
+    plant('alice', 'premium_tree', 100, LAST_WEEK, 110);
+    plant('bob', 'usdc_sprout', 50, THIS_WEEK);
+    plant('carol', 'usdc_sprout', 100, THIS_WEEK, 101.5);
+    unitOfWork.players.findByIdOrCreate('dave', 'DAVE');
+  });
+
+  test('should rank all-time XP and leave out players without any', () => {
+    expect(ranking('xp')).toEqual({
+      entries: [
+        { rank: 1, playerId: 'alice', playerName: 'ALICE', value: 10 },
+        { rank: 2, playerId: 'bob', playerName: 'BOB', value: 1 },
+        { rank: 2, playerId: 'carol', playerName: 'CAROL', value: 1 }
+      ],
+      total: 3
+    });
+  });
+
+  test('should break ties by player ID so pages never overlap', () => {
+    expect(ranking('invested', {}, 2, 0).entries.map(entry => [entry.rank, entry.playerId])).toEqual([[1, 'alice'], [1, 'carol']]);
+    expect(ranking('invested', {}, 2, 2).entries.map(entry => [entry.rank, entry.playerId])).toEqual([[3, 'bob']]);
+  });
+
+  test('should only count crops from the window and seed type', () => {
+    expect(ranking('invested', { since: WEEK_START }).entries.map(entry => entry.playerId)).toEqual(['carol', 'bob']);
+    expect(ranking('xp', { since: WEEK_START }).entries.map(entry => entry.value)).toEqual([1, 1]);
+    expect(ranking('harvested', { seedType: 'premium_tree' }).entries).toEqual([
+      { rank: 1, playerId: 'alice', playerName: 'ALICE', value: 110 }
+    ]);
+    expect(ranking('harvested', { since: WEEK_START }).entries.map(entry => [entry.playerId, entry.value])).toEqual([['carol', 101.5]]);
+  });
+
+  test('should count the XP players actually earned in the window, quest rewards included', () => {
+    // Planting during a double-XP event, and a quest reward
+    unitOfWork.xpLedger.record({ playerId: 'dave', amount: 2, reason: 'plant', seedType: 'usdc_sprout', earnedAt: THIS_WEEK });
+    unitOfWork.xpLedger.record({ playerId: 'bob', amount: 50, reason: 'quest', seedType: null, earnedAt: THIS_WEEK });
+    unitOfWork.xpLedger.record({ playerId: 'carol', amount: 50, reason: 'quest', seedType: null, earnedAt: LAST_WEEK });
+
+    expect(ranking('xp', { since: WEEK_START }).entries.map(entry => [entry.playerId, entry.value])).toEqual([
+      ['bob', 51], ['dave', 2], ['carol', 1]
+    ]);
+    expect(ranking('xp', { seedType: 'usdc_sprout' }).entries.map(entry => [entry.playerId, entry.value])).toEqual([
+      ['dave', 2], ['bob', 1], ['carol', 1]
+    ]);
+  });
+
+  test('should serve cached pages until invalidated', () => {
+    const leaderboards = new LeaderboardService(unitOfWork.leaderboards);
+    const getRanking = vi.spyOn(unitOfWork.leaderboards, 'getRanking');
+    const query = { metric: 'invested' as const, window: 'weekly' as const, limit: 10, offset: 0 };
+
+    leaderboards.getLeaderboard(query, THIS_WEEK);
+    plant('dave', 'whale_forest', 1000, THIS_WEEK);
+    expect(leaderboards.getLeaderboard(query, THIS_WEEK).total).toBe(2);
+
+    leaderboards.invalidate();
+    expect(leaderboards.getLeaderboard(query, THIS_WEEK).entries[0].playerId).toBe('dave');
+    expect(getRanking).toHaveBeenCalledTimes(2);
+  });
+});
\ No newline at end of file
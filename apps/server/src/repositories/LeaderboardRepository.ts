@@ -0,0 +1,105 @@
+import Database from 'better-sqlite3';
+import { LeaderboardMetric, LeaderboardPage } from '@defivalley/shared';
+import { ILeaderboardRepository, LeaderboardFilters } from './interfaces/ILeaderboardRepository';
+
+export class LeaderboardRepository implements ILeaderboardRepository {
+  constructor(private db: Database.Database) {}
+
+  getRanking(metric: LeaderboardMetric, filters: LeaderboardFilters, limit: number, offset: number): LeaderboardPage {
+    // All-time XP is stored on the player and filtered XP summed from the XP ledger; every other ranking is summed from crops
+    const { totals, params } = metric === 'xp'
+      ? this.buildXPTotals(filters)
+      : this.buildCropTotals(metric, filters);
+    
+    const rows = this.db.prepare(`
+      WITH totals AS (${totals})
+      SELECT 
+        t.playerId,
+        COALESCE(p.name, t.playerId) as playerName,
+        t.value,
+        RANK() OVER (ORDER BY t.value DESC) as rank
+      FROM totals t
+      LEFT JOIN players p ON p.id = t.playerId
+      ORDER BY t.value DESC, t.playerId ASC
+      LIMIT ? OFFSET ?
+    `).all(...params, limit, offset) as any[];
+    
+    const { total } = this.db.prepare(`
+      WITH totals AS (${totals})
+      SELECT COUNT(*) as total FROM totals
+    `).get(...params) as { total: number };
+    
+    return {
+      entries: rows.map(row => ({
+        rank: row.rank,
+        playerId: row.playerId,
+        playerName: row.playerName,
+        value: row.value
+      })),
+      total
+    };
+  }
+
+  private buildXPTotals(filters: LeaderboardFilters): { totals: string; params: any[] } {
+    if (!filters.since && !filters.seedType) {
+      return { totals: 'SELECT id as playerId, xp as value FROM players WHERE xp > 0', params: [] };
+    }
+    
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filters.since) {
+      conditions.push('x.earned_at >= ?');
+      params.push(filters.since.toISOString());
+    }
+    if (filters.seedType) {
+      conditions.push('x.seed_type = ?');
+      params.push(filters.seedType);
+    }
+    
+    return {
+      totals: `
+        SELECT x.player_id as playerId, SUM(x.amount) as value
+        FROM xp_ledger x
+        WHERE ${conditions.join(' AND ')}
+        GROUP BY x.player_id
+        HAVING value > 0
+      `,
+      params
+    };
+  }
+
+  private buildCropTotals(metric: Exclude<LeaderboardMetric, 'xp'>, filters: LeaderboardFilters): { totals: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    let value: string;
+    
+    if (metric === 'invested') {
+      value = 'ROUND(SUM(c.investment_amount), 2)';
+    } else {
+      value = 'ROUND(SUM(c.yield_amount), 2)';
+      conditions.push('c.harvested = 1');
+    }
+    
+    if (filters.since) {
+      conditions.push(metric === 'harvested' ? 'c.harvested_at >= ?' : 'c.planted_at >= ?');
+      params.push(filters.since.toISOString());
+    }
+    
+    if (filters.seedType) {
+      conditions.push('c.seed_type = ?');
+      params.push(filters.seedType);
+    }
+    
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return {
+      totals: `
+        SELECT c.player_id as playerId, ${value} as value
+        FROM crops c
+        ${where}
+        GROUP BY c.player_id
+        HAVING value > 0
+      `,
+      params
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import Database from 'better-sqlite3';
+import { ILedgerRepository, LedgerEntry } from './interfaces/ILedgerRepository';
+
+export class LedgerRepository implements ILedgerRepository {
+  constructor(private db: Database.Database) {}
+
+  credit(entry: Pick<LedgerEntry, 'playerId' | 'amount' | 'reason'> & { cropId?: string; worldId?: string }): LedgerEntry {
+    const stmt = this.db.prepare(`
+      INSERT INTO balance_ledger (player_id, amount, reason, crop_id, world_id, created_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+    const result = stmt.run(
+      entry.playerId,
+      entry.amount,
+      entry.reason,
+      entry.cropId ?? null,
+      entry.worldId ?? null
+    );
+    
+    const row = this.db.prepare('SELECT * FROM balance_ledger WHERE id = ?').get(result.lastInsertRowid);
+    return this.mapRowToEntry(row);
+  }
+
+  getBalance(playerId: string): number {
+    const stmt = this.db.prepare('SELECT COALESCE(SUM(amount), 0) as balance FROM balance_ledger WHERE player_id = ?');
+    const result = stmt.get(playerId) as { balance: number };
+    return Math.round(result.balance * 100) / 100;
+  }
+
+  findByPlayer(playerId: string, limit: number, offset: number = 0): LedgerEntry[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM balance_ledger 
+      WHERE player_id = ? 
+      ORDER BY id DESC 
+      LIMIT ? OFFSET ?
+    `);
+    const rows = stmt.all(playerId, limit, offset) as any[];
+    
+    return rows.map(row => this.mapRowToEntry(row));
+  }
+
+  private mapRowToEntry(row: any): LedgerEntry {
+    return {
+      id: row.id,
+      playerId: row.player_id,
+      amount: row.amount,
+      reason: row.reason,
+      cropId: row.crop_id,
+      worldId: row.world_id,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
\ No newline at end of file
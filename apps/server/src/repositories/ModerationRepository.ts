@@ -0,0 +1,85 @@
+import Database from 'better-sqlite3';
+import { AuditLogEntry, IModerationRepository, PlayerBan } from './interfaces/IModerationRepository';
+
+export class ModerationRepository implements IModerationRepository {
+  constructor(private db: Database.Database) {}
+
+  findBan(playerId: string): PlayerBan | undefined {
+    const stmt = this.db.prepare('SELECT * FROM player_bans WHERE player_id = ?');
+    const row = stmt.get(playerId.toLowerCase()) as any;
+    
+    return row ? this.mapRowToBan(row) : undefined;
+  }
+
+  findBans(): PlayerBan[] {
+    const stmt = this.db.prepare('SELECT * FROM player_bans ORDER BY banned_at DESC');
+    const rows = stmt.all() as any[];
+    
+    return rows.map(row => this.mapRowToBan(row));
+  }
+
+  ban(ban: PlayerBan): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO player_bans (player_id, reason, banned_by, banned_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT (player_id)
+      DO UPDATE SET reason = excluded.reason, banned_by = excluded.banned_by, banned_at = excluded.banned_at
+    `);
+    stmt.run(ban.playerId.toLowerCase(), ban.reason, ban.bannedBy, ban.bannedAt);
+  }
+
+  unban(playerId: string): boolean {
+    const stmt = this.db.prepare('DELETE FROM player_bans WHERE player_id = ?');
+    return stmt.run(playerId.toLowerCase()).changes > 0;
+  }
+
+  recordAction(entry: Omit<AuditLogEntry, 'id'>): AuditLogEntry {
+    const stmt = this.db.prepare(`
+      INSERT INTO admin_audit_log (admin_id, action, target_id, details, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      entry.adminId,
+      entry.action,
+      entry.targetId,
+      JSON.stringify(entry.details),
+      entry.createdAt
+    );
+    
+    return { id: Number(result.lastInsertRowid), ...entry };
+  }
+
+  findAuditLog(limit: number, offset: number = 0, targetId?: string): AuditLogEntry[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM admin_audit_log
+      WHERE (? IS NULL OR target_id = ?)
+      ORDER BY id DESC
+      LIMIT ? OFFSET ?
+    `);
+    const rows = stmt.all(targetId ?? null, targetId ?? null, limit, offset) as any[];
+    
+    return rows.map(row => ({
+      id: row.id,
+      adminId: row.admin_id,
+      action: row.action,
+      targetId: row.target_id,
+      details: JSON.parse(row.details),
+      createdAt: row.created_at
+    }));
+  }
+
+  countAuditLog(targetId?: string): number {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM admin_audit_log WHERE (? IS NULL OR target_id = ?)');
+    const result = stmt.get(targetId ?? null, targetId ?? null) as { count: number };
+    return result.count;
+  }
+
+  private mapRowToBan(row: any): PlayerBan {
+    return {
+      playerId: row.player_id,
+      reason: row.reason,
+      bannedBy: row.banned_by,
+      bannedAt: row.banned_at
+    };
+  }
+}
\ No newline at end of file
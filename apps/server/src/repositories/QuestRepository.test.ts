@@ -0,0 +1,117 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { QuestDefinition } from '@defivalley/shared';
+import { DatabaseConnection } from '../services/DatabaseConnection';
+import { IUnitOfWork } from './interfaces/IUnitOfWork';
+import { InMemoryUnitOfWork } from './memory/InMemoryUnitOfWork';
+import { QuestService } from '../domain/services/QuestService';
+import { LeaderboardService } from '../domain/services/LeaderboardService';
+
+const QUESTS: QuestDefinition[] = [
+  {
+    id: 'first_sprout',
+    title: 'First Sprout',
+    description: 'Plant a USDC Sprout',
+    objective: { event: 'crop_planted', count: 1, where: { seedType: 'usdc_sprout' } },
+    reward: { xp: 5 }
+  },
+  {
+    id: 'farm_tourist',
+    title: 'Farm Tourist',
+    description: 'Visit 2 farms',
+    objective: { event: 'farm_visited', count: 2, distinct: 'worldId' },
+    reward: { xp: 10, cosmetic: 'straw_hat' }
+  },
+  {
+    id: 'saver',
+    title: 'Saver',
+    description: 'Deposit into the bank',
+    objective: { event: 'bank_deposit', count: 1 },
+    reward: { cosmetic: 'bank_badge' }
+  }
+];
+
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+const backends: [string, () => IUnitOfWork][] = [
+  ['SQLite', () => new DatabaseConnection(':memory:').unitOfWork],
+  ['in-memory repositories', () => new InMemoryUnitOfWork()]
+];
+
+describe.each(backends)('Quests (%s)', (_backend, createUnitOfWork) => {
+  let unitOfWork: IUnitOfWork;
+  let quests: QuestService;
+
+  const progressOf = (playerId: string, questId: string) =>
+    quests.getQuestLog(playerId).find(entry => entry.id === questId)!;
+
+  beforeEach(() => {
+    unitOfWork = createUnitOfWork();
+    quests = new QuestService(unitOfWork, QUESTS);
+  });
+
+  test('should list every quest with no progress for new players', () => {
+    expect(quests.getQuestLog('alice').map(entry => [entry.id, entry.progress, entry.completed])).toEqual([
+      ['first_sprout', 0, false],
+      ['farm_tourist', 0, false],
+      ['saver', 0, false]
+    ]);
+  });
+
+  test('should complete a quest and grant its XP once', () => {
+    const ignored = quests.record('alice', 'Alice', { type: 'crop_planted', data: { seedType: 'premium_tree' } });
+    expect(ignored.updated).toEqual([]);
+
+    const update = quests.record('alice', 'Alice', { type: 'crop_planted', data: { seedType: 'usdc_sprout' } });
+    expect(update.updated).toEqual([expect.objectContaining({ id: 'first_sprout', progress: 1, completed: true })]);
+    expect(update.completed).toEqual([{ quest: QUESTS[0], previousXP: 0, newXP: 5 }]);
+    expect(unitOfWork.players.findById('alice')!.xp).toBe(5);
+
+    const again = quests.record('alice', 'Alice', { type: 'crop_planted', data: { seedType: 'usdc_sprout' } });
+    expect(again).toEqual({ updated: [], completed: [] });
+    expect(unitOfWork.players.findById('alice')!.xp).toBe(5);
+  });
+
+  test('should put quest XP on the weekly leaderboard straight away', () => {
+    const now = new Date('2025-01-07T12:00:00.000Z');
+    const leaderboards = new LeaderboardService(unitOfWork.leaderboards);
+    const invalidate = vi.spyOn(leaderboards, 'invalidate');
+    quests = new QuestService(unitOfWork, QUESTS, undefined, leaderboards);
+    const weekly = { metric: 'xp' as const, window: 'weekly' as const, limit: 10, offset: 0 };
+    expect(leaderboards.getLeaderboard(weekly, now).entries).toEqual([]);
+
+    quests.record('alice', 'Alice', { type: 'crop_planted', data: { seedType: 'usdc_sprout' } }, now);
+
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(leaderboards.getLeaderboard(weekly, now).entries).toEqual([
+      { rank: 1, playerId: 'alice', playerName: 'Alice', value: 5 }
+    ]);
+  });
+
+  test('should only count each distinct value once', () => {
+    quests.record('alice', 'Alice', { type: 'farm_visited', data: { worldId: 'bob' } });
+    quests.record('alice', 'Alice', { type: 'farm_visited', data: { worldId: 'bob' } });
+    expect(progressOf('alice', 'farm_tourist')).toMatchObject({ progress: 1, completed: false });
+
+    const update = quests.record('alice', 'Alice', { type: 'farm_visited', data: { worldId: 'carol' } });
+    expect(update.completed.map(completion => completion.quest.id)).toEqual(['farm_tourist']);
+    expect(progressOf('alice', 'farm_tourist')).toMatchObject({ progress: 2, completed: true });
+    expect(unitOfWork.quests.getCosmetics('alice')).toEqual(['straw_hat']);
+  });
+
+  test('should keep progress per player', () => {
+    quests.record('alice', 'Alice', { type: 'farm_visited', data: { worldId: 'bob' } });
+
+    expect(progressOf('alice', 'farm_tourist').progress).toBe(1);
+    expect(progressOf('bob', 'farm_tourist').progress).toBe(0);
+  });
+
+  test('should count each on-chain transaction once', () => {
+    const update = quests.recordTransaction('alice', 'Alice', 'bank_deposit', 747474, TX_HASH);
+    expect(update?.completed.map(completion => completion.quest.id)).toEqual(['saver']);
+    expect(unitOfWork.quests.getCosmetics('alice')).toEqual(['bank_badge']);
+
+    // The same transaction reported again, even by someone else and with different casing
+    expect(quests.recordTransaction('bob', 'Bob', 'bank_deposit', 747474, TX_HASH.toUpperCase().replace('0X', '0x'))).toBeNull();
+    expect(progressOf('bob', 'saver').completed).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,59 @@
+import Database from 'better-sqlite3';
+import { OnChainQuestAction } from '@defivalley/shared';
+import { IQuestRepository, QuestProgressRecord } from './interfaces/IQuestRepository';
+
+export class QuestRepository implements IQuestRepository {
+  constructor(private db: Database.Database) {}
+
+  findByPlayer(playerId: string): QuestProgressRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM quest_progress WHERE player_id = ?');
+    const rows = stmt.all(playerId) as any[];
+
+    return rows.map(row => ({
+      playerId: row.player_id,
+      questId: row.quest_id,
+      progress: row.progress,
+      seenKeys: JSON.parse(row.seen_keys),
+      completedAt: row.completed_at ? new Date(row.completed_at) : null
+    }));
+  }
+
+  save(record: QuestProgressRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO quest_progress (player_id, quest_id, progress, seen_keys, completed_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (player_id, quest_id)
+      DO UPDATE SET
+        progress = excluded.progress,
+        seen_keys = excluded.seen_keys,
+        completed_at = excluded.completed_at,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+    stmt.run(
+      record.playerId,
+      record.questId,
+      record.progress,
+      JSON.stringify(record.seenKeys),
+      record.completedAt?.toISOString() ?? null
+    );
+  }
+
+  unlockCosmetic(playerId: string, cosmeticId: string): void {
+    const stmt = this.db.prepare('INSERT OR IGNORE INTO player_cosmetics (player_id, cosmetic_id) VALUES (?, ?)');
+    stmt.run(playerId, cosmeticId);
+  }
+
+  getCosmetics(playerId: string): string[] {
+    const stmt = this.db.prepare('SELECT cosmetic_id FROM player_cosmetics WHERE player_id = ? ORDER BY unlocked_at, cosmetic_id');
+    const rows = stmt.all(playerId) as { cosmetic_id: string }[];
+    return rows.map(row => row.cosmetic_id);
+  }
+
+  claimTransaction(chainId: number, txHash: string, playerId: string, action: OnChainQuestAction): boolean {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO verified_transactions (chain_id, tx_hash, player_id, action)
+      VALUES (?, ?, ?, ?)
+    `);
+    return stmt.run(chainId, txHash.toLowerCase(), playerId, action).changes > 0;
+  }
+}
\ No newline at end of file
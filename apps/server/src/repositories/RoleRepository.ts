@@ -0,0 +1,41 @@
+import Database from 'better-sqlite3';
+import { GrantableRole } from '@defivalley/shared';
+import { IRoleRepository, WorldRoleGrant } from './interfaces/IRoleRepository';
+
+export class RoleRepository implements IRoleRepository {
+  constructor(private db: Database.Database) {}
+
+  findRole(worldId: string, playerId: string): GrantableRole | undefined {
+    const stmt = this.db.prepare('SELECT role FROM world_roles WHERE world_id = ? AND player_id = ?');
+    const row = stmt.get(worldId.toLowerCase(), playerId.toLowerCase()) as { role: GrantableRole } | undefined;
+    return row?.role;
+  }
+
+  findByWorld(worldId: string): WorldRoleGrant[] {
+    const stmt = this.db.prepare('SELECT * FROM world_roles WHERE world_id = ? ORDER BY granted_at DESC');
+    const rows = stmt.all(worldId.toLowerCase()) as any[];
+    
+    return rows.map(row => ({
+      worldId: row.world_id,
+      playerId: row.player_id,
+      role: row.role,
+      grantedBy: row.granted_by,
+      grantedAt: new Date(row.granted_at)
+    }));
+  }
+
+  grant(worldId: string, playerId: string, role: GrantableRole, grantedBy: string): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO world_roles (world_id, player_id, role, granted_by, granted_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (world_id, player_id) 
+      DO UPDATE SET role = excluded.role, granted_by = excluded.granted_by, granted_at = CURRENT_TIMESTAMP
+    `);
+    stmt.run(worldId.toLowerCase(), playerId.toLowerCase(), role, grantedBy);
+  }
+
+  revoke(worldId: string, playerId: string): boolean {
+    const stmt = this.db.prepare('DELETE FROM world_roles WHERE world_id = ? AND player_id = ?');
+    return stmt.run(worldId.toLowerCase(), playerId.toLowerCase()).changes > 0;
+  }
+}
\ No newline at end of file
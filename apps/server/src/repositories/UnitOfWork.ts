@@ -3,14 +3,35 @@ import { IUnitOfWork } from './interfaces/IUnitOfWork';
 import { IPlayerRepository } from './interfaces/IPlayerRepository';
 import { ICropRepository } from './interfaces/ICropRepository';
 import { IWorldRepository } from './interfaces/IWorldRepository';
+import { IChatRepository } from './interfaces/IChatRepository';
+import { IRoleRepository } from './interfaces/IRoleRepository';
+import { ILedgerRepository } from './interfaces/ILedgerRepository';
+import { ILeaderboardRepository } from './interfaces/ILeaderboardRepository';
+import { IQuestRepository } from './interfaces/IQuestRepository';
+import { IModerationRepository } from './interfaces/IModerationRepository';
+import { IXPLedgerRepository } from './interfaces/IXPLedgerRepository';
 import { PlayerRepository } from './PlayerRepository';
 import { CropRepository } from './CropRepository';
 import { WorldRepository } from './WorldRepository';
+import { ChatRepository } from './ChatRepository';
+import { RoleRepository } from './RoleRepository';
+import { LedgerRepository } from './LedgerRepository';
+import { LeaderboardRepository } from './LeaderboardRepository';
+import { QuestRepository } from './QuestRepository';
+import { ModerationRepository } from './ModerationRepository';
+import { XPLedgerRepository } from './XPLedgerRepository';
 
 export class UnitOfWork implements IUnitOfWork {
   public readonly players: IPlayerRepository;
   public readonly crops: ICropRepository;
   public readonly worlds: IWorldRepository;
+  public readonly chat: IChatRepository;
+  public readonly roles: IRoleRepository;
+  public readonly ledger: ILedgerRepository;
+  public readonly leaderboards: ILeaderboardRepository;
+  public readonly quests: IQuestRepository;
+  public readonly moderation: IModerationRepository;
+  public readonly xpLedger: IXPLedgerRepository;
   
   private transactionInProgress = false;
 
@@ -18,6 +39,13 @@ export class UnitOfWork implements IUnitOfWork {
     this.players = new PlayerRepository(db);
     this.crops = new CropRepository(db);
     this.worlds = new WorldRepository(db);
+    this.chat = new ChatRepository(db);
+    this.roles = new RoleRepository(db);
+    this.ledger = new LedgerRepository(db);
+    this.leaderboards = new LeaderboardRepository(db);
+    this.quests = new QuestRepository(db);
+    this.moderation = new ModerationRepository(db);
+    this.xpLedger = new XPLedgerRepository(db);
   }
 
   beginTransaction(): void {
@@ -0,0 +1,139 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { DEFAULT_BUILDING_MANIFESTS, DEFAULT_TERRAIN_GENERATION, DEFAULT_WORLD_SETTINGS, SEED_CONFIGS, createDefaultTerrain, decodeTerrain, encodeTerrain, moveBuildings } from '@defivalley/shared';
+import { DatabaseConnection } from '../services/DatabaseConnection';
+import { Crop } from '../domain/entities/Crop';
+import { IUnitOfWork } from './interfaces/IUnitOfWork';
+import { validateBuildingManifest, validateTerrainGeneration, validateWorldSettings } from '../utils/validation';
+
+describe('World settings', () => {
+  let unitOfWork: IUnitOfWork;
+
+  beforeEach(() => {
+    unitOfWork = new DatabaseConnection(':memory:').unitOfWork;
+    unitOfWork.players.findByIdOrCreate('alice', 'Alice');
+    unitOfWork.players.findByIdOrCreate('bob', 'Bob');
+    unitOfWork.players.findByIdOrCreate('carol', 'Carol');
+  });
+
+  test('should use the defaults until the owner saves settings', () => {
+    expect(unitOfWork.worlds.getSettings('alice')).toEqual(DEFAULT_WORLD_SETTINGS);
+
+    const settings = { title: 'Sunny Acres', description: 'Come say hi', tags: ['cozy', 'defi'], visibility: 'friends' as const, maxVisitors: 4 };
+    unitOfWork.worlds.saveSettings('alice', settings);
+
+    expect(unitOfWork.worlds.getSettings('alice')).toEqual(settings);
+  });
+
+  test('should list public and friends-only worlds but never unlisted ones', () => {
+    unitOfWork.worlds.saveSettings('alice', { ...DEFAULT_WORLD_SETTINGS, title: 'Sunny Acres', tags: ['cozy'] });
+    unitOfWork.worlds.saveSettings('bob', { ...DEFAULT_WORLD_SETTINGS, visibility: 'unlisted' });
+    unitOfWork.worlds.saveSettings('carol', { ...DEFAULT_WORLD_SETTINGS, visibility: 'friends', tags: ['cozy', 'defi'] });
+
+    const listed = (filters = {}) => unitOfWork.worlds.getActiveWorlds(20, 0, filters).map(world => world.playerId).sort();
+
+    expect(listed()).toEqual(['alice', 'carol']);
+    expect(listed({ visibility: 'friends' })).toEqual(['carol']);
+    expect(listed({ visibility: 'unlisted' })).toEqual([]);
+    expect(listed({ tag: 'cozy' })).toEqual(['alice', 'carol']);
+    expect(listed({ tag: 'defi' })).toEqual(['carol']);
+    expect(listed({ search: 'sunny' })).toEqual(['alice']);
+    expect(unitOfWork.worlds.getTotalWorldsCount({ tag: 'cozy' })).toBe(2);
+  });
+
+  test('should count the crops growing in each farm, whoever planted them', () => {
+    const plant = (playerId: string, worldId: string) =>
+      unitOfWork.crops.save(Crop.create(playerId, worldId, 'usdc_sprout', 100, 100, SEED_CONFIGS.usdc_sprout.growthTime, 10));
+    plant('alice', 'alice');
+    plant('bob', 'alice'); // A helper planting in Alice's farm
+    plant('alice', 'carol');
+
+    const counts = Object.fromEntries(unitOfWork.worlds.getActiveWorlds(20, 0).map(world => [world.playerId, world.cropCount]));
+
+    expect(counts).toEqual({ alice: 2, bob: 0, carol: 1 });
+  });
+
+  test('should narrow and order the list by live presence', () => {
+    unitOfWork.players.findByIdOrCreate('dan', 'Dan');
+
+    const listed = (filters = {}, rankFirst?: string[]) => unitOfWork.worlds.getActiveWorlds(20, 0, filters, rankFirst).map(world => world.playerId);
+
+    expect(listed({ worldIds: ['carol', 'alice'] }).sort()).toEqual(['alice', 'carol']);
+    expect(listed({ worldIds: [] })).toEqual([]);
+    expect(unitOfWork.worlds.getTotalWorldsCount({ worldIds: ['bob'] })).toBe(1);
+    expect(listed({}, ['dan', 'bob']).slice(0, 2)).toEqual(['dan', 'bob']);
+    expect(listed({ worldIds: ['alice', 'bob'] }, ['bob', 'alice'])).toEqual(['bob', 'alice']);
+  });
+
+  test('should store terrain per world until the owner saves over it', () => {
+    expect(unitOfWork.worlds.getTerrain('alice')).toBeNull();
+
+    const layout = createDefaultTerrain();
+    layout[10][20] = 'cliff_large';
+    unitOfWork.worlds.saveTerrain('alice', encodeTerrain(layout));
+    expect(decodeTerrain(unitOfWork.worlds.getTerrain('alice')!)).toEqual(layout);
+    expect(unitOfWork.worlds.getTerrain('bob')).toBeNull();
+
+    unitOfWork.worlds.saveTerrain('alice', encodeTerrain(createDefaultTerrain()));
+    expect(unitOfWork.worlds.getTerrain('alice')!.runs).toHaveLength(2);
+  });
+
+  test('should keep generation parameters when the generated terrain is edited', () => {
+    const generation = { ...DEFAULT_TERRAIN_GENERATION, seed: 1234 };
+    expect(unitOfWork.worlds.getTerrainGeneration('alice')).toBeNull();
+
+    unitOfWork.worlds.saveTerrain('alice', encodeTerrain(createDefaultTerrain()), generation);
+    unitOfWork.worlds.saveTerrain('alice', encodeTerrain(createDefaultTerrain()));
+
+    expect(unitOfWork.worlds.getTerrainGeneration('alice')).toEqual(generation);
+  });
+
+  test('should store building layouts per world and network', () => {
+    const moved = moveBuildings(DEFAULT_BUILDING_MANIFESTS.katana, { bank: { x: 640, y: 480 } });
+    expect(unitOfWork.worlds.getBuildingManifest('alice', 'katana')).toBeNull();
+
+    unitOfWork.worlds.saveBuildingManifest('alice', moved);
+
+    expect(unitOfWork.worlds.getBuildingManifest('alice', 'katana')).toEqual(moved);
+    expect(unitOfWork.worlds.getBuildingManifest('alice', 'flow')).toBeNull();
+    expect(unitOfWork.worlds.getBuildingManifest('bob', 'katana')).toBeNull();
+  });
+
+  test('should accept the default building manifests and reject invalid ones', () => {
+    const katana = DEFAULT_BUILDING_MANIFESTS.katana;
+    const [bank] = katana.buildings;
+    const withBank = (changes: object) => ({ ...katana, buildings: [{ ...bank, ...changes }] });
+
+    expect(validateBuildingManifest(katana, 'katana')).toEqual({ manifest: katana });
+    expect(validateBuildingManifest(DEFAULT_BUILDING_MANIFESTS.flow, 'flow')).toEqual({ manifest: DEFAULT_BUILDING_MANIFESTS.flow });
+    expect(validateBuildingManifest(katana, 'flow')).toHaveProperty('error');
+    expect(validateBuildingManifest({ ...katana, buildings: [bank, bank] }, 'katana')).toHaveProperty('error');
+    expect(validateBuildingManifest(withBank({ x: 'left' }), 'katana')).toHaveProperty('error');
+    expect(validateBuildingManifest(withBank({ sprite: { ...bank.sprite, url: 'https://example.com/bank.png' } }), 'katana')).toHaveProperty('error');
+    expect(validateBuildingManifest(withBank({ interaction: { ...bank.interaction, glowColor: 'gold' } }), 'katana')).toHaveProperty('error');
+    expect(validateBuildingManifest(null, 'katana')).toHaveProperty('error');
+  });
+
+  test('should fill in terrain generation defaults and reject invalid parameters', () => {
+    expect(validateTerrainGeneration({ lakeCount: 4 }, () => 99)).toEqual({
+      params: { ...DEFAULT_TERRAIN_GENERATION, seed: 99, lakeCount: 4 }
+    });
+    expect(validateTerrainGeneration({ seed: 7, pathLayout: 'ring' }, () => 99)).toEqual({
+      params: { ...DEFAULT_TERRAIN_GENERATION, seed: 7, pathLayout: 'ring' }
+    });
+    expect(validateTerrainGeneration({ seed: -1 }, () => 99)).toHaveProperty('error');
+    expect(validateTerrainGeneration({ lakeCount: 100 }, () => 99)).toHaveProperty('error');
+    expect(validateTerrainGeneration({ cliffDensity: 2 }, () => 99)).toHaveProperty('error');
+    expect(validateTerrainGeneration({ pathLayout: 'maze' }, () => 99)).toHaveProperty('error');
+    expect(validateTerrainGeneration(null, () => 99)).toHaveProperty('error');
+  });
+
+  test('should merge valid updates and reject invalid fields', () => {
+    const result = validateWorldSettings({ title: '  My\u202E Farm ', tags: ['Cozy Farm', 'cozy-farm'] }, DEFAULT_WORLD_SETTINGS);
+
+    expect(result).toEqual({ settings: { ...DEFAULT_WORLD_SETTINGS, title: 'My Farm', tags: ['cozy-farm'] } });
+    expect(validateWorldSettings({ visibility: 'private' }, DEFAULT_WORLD_SETTINGS)).toHaveProperty('error');
+    expect(validateWorldSettings({ maxVisitors: 0 }, DEFAULT_WORLD_SETTINGS)).toHaveProperty('error');
+    expect(validateWorldSettings({ tags: ['yield!'] }, DEFAULT_WORLD_SETTINGS)).toHaveProperty('error');
+    expect(validateWorldSettings(null, DEFAULT_WORLD_SETTINGS)).toHaveProperty('error');
+  });
+});
\ No newline at end of file
@@ -1,59 +1,165 @@
 import Database from 'better-sqlite3';
-import { IWorldRepository, WorldSummary } from './interfaces/IWorldRepository';
+import { BuildingManifest, BuildingNetwork, DEFAULT_WORLD_SETTINGS, EncodedTerrain, TerrainGenerationParams, WorldSettings } from '@defivalley/shared';
+import { IWorldRepository, WorldFilters, WorldSummary } from './interfaces/IWorldRepository';
 
 export class WorldRepository implements IWorldRepository {
   constructor(private db: Database.Database) {}
 
-  getActiveWorlds(limit: number = 20, offset: number = 0, search?: string): WorldSummary[] {
-    let query = `
+  getActiveWorlds(limit: number = 20, offset: number = 0, filters: WorldFilters = {}, rankFirst: string[] = []): WorldSummary[] {
+    const { where, params } = this.buildFilters(filters);
+    
+    const query = `
       SELECT 
         p.id as playerId,
         p.name as playerName,
         p.updated_at as lastActivity,
+        w.title,
+        w.description,
+        w.tags,
+        w.visibility,
+        w.max_visitors as maxVisitors,
         COUNT(c.id) as cropCount
       FROM players p
-      LEFT JOIN crops c ON p.id = c.player_id AND c.harvested = FALSE
-    `;
-    
-    const params: any[] = [];
-    
-    if (search) {
-      query += ` WHERE p.id LIKE ? OR p.name LIKE ?`;
-      const searchPattern = `%${search}%`;
-      params.push(searchPattern, searchPattern);
-    }
-    
-    query += `
+      LEFT JOIN worlds w ON w.id = p.id
+      LEFT JOIN crops c ON c.world_id = p.id AND c.harvested = FALSE
+      LEFT JOIN json_each(?) r ON r.value = p.id
+      ${where}
       GROUP BY p.id, p.name, p.updated_at
-      ORDER BY p.updated_at DESC
+      ORDER BY MIN(r.key) IS NULL, MIN(r.key), p.updated_at DESC
       LIMIT ? OFFSET ?
     `;
     
-    params.push(limit, offset);
-    
     const stmt = this.db.prepare(query);
-    const rows = stmt.all(...params) as any[];
+    const rows = stmt.all(JSON.stringify(rankFirst), ...params, limit, offset) as any[];
     
     return rows.map(row => ({
       playerId: row.playerId,
       playerName: row.playerName,
       cropCount: row.cropCount,
-      lastActivity: new Date(row.lastActivity)
+      lastActivity: new Date(row.lastActivity),
+      ...this.mapSettings(row)
     }));
   }
 
-  getTotalWorldsCount(search?: string): number {
-    let query = 'SELECT COUNT(DISTINCT id) as count FROM players';
+  getTotalWorldsCount(filters: WorldFilters = {}): number {
+    const { where, params } = this.buildFilters(filters);
+    
+    const stmt = this.db.prepare(`
+      SELECT COUNT(DISTINCT p.id) as count
+      FROM players p
+      LEFT JOIN worlds w ON w.id = p.id
+      ${where}
+    `);
+    const result = stmt.get(...params) as { count: number };
+    return result.count;
+  }
+
+  getSettings(worldId: string): WorldSettings {
+    const stmt = this.db.prepare('SELECT title, description, tags, visibility, max_visitors as maxVisitors FROM worlds WHERE id = ?');
+    const row = stmt.get(worldId) as any;
+    return row ? this.mapSettings(row) : { ...DEFAULT_WORLD_SETTINGS, tags: [] };
+  }
+
+  saveSettings(worldId: string, settings: WorldSettings): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO worlds (id, title, description, tags, visibility, max_visitors, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (id) 
+      DO UPDATE SET 
+        title = excluded.title,
+        description = excluded.description,
+        tags = excluded.tags,
+        visibility = excluded.visibility,
+        max_visitors = excluded.max_visitors,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+    stmt.run(
+      worldId,
+      settings.title,
+      settings.description,
+      JSON.stringify(settings.tags),
+      settings.visibility,
+      settings.maxVisitors
+    );
+  }
+
+  getTerrain(worldId: string): EncodedTerrain | null {
+    const stmt = this.db.prepare('SELECT data FROM world_terrain WHERE world_id = ?');
+    const row = stmt.get(worldId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  getTerrainGeneration(worldId: string): TerrainGenerationParams | null {
+    const stmt = this.db.prepare('SELECT generation FROM world_terrain WHERE world_id = ?');
+    const row = stmt.get(worldId) as { generation: string | null } | undefined;
+    return row?.generation ? JSON.parse(row.generation) : null;
+  }
+
+  saveTerrain(worldId: string, terrain: EncodedTerrain, generation?: TerrainGenerationParams): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO world_terrain (world_id, data, generation, updated_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (world_id)
+      DO UPDATE SET
+        data = excluded.data,
+        generation = COALESCE(excluded.generation, world_terrain.generation),
+        updated_at = CURRENT_TIMESTAMP
+    `);
+    stmt.run(worldId, JSON.stringify(terrain), generation ? JSON.stringify(generation) : null);
+  }
+
+  getBuildingManifest(worldId: string, network: BuildingNetwork): BuildingManifest | null {
+    const stmt = this.db.prepare('SELECT manifest FROM world_buildings WHERE world_id = ? AND network = ?');
+    const row = stmt.get(worldId, network) as { manifest: string } | undefined;
+    return row ? JSON.parse(row.manifest) : null;
+  }
+
+  saveBuildingManifest(worldId: string, manifest: BuildingManifest): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO world_buildings (world_id, network, manifest, updated_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (world_id, network)
+      DO UPDATE SET manifest = excluded.manifest, updated_at = CURRENT_TIMESTAMP
+    `);
+    stmt.run(worldId, manifest.network, JSON.stringify(manifest));
+  }
+
+  // Worlds without a settings row are public
+  private buildFilters(filters: WorldFilters): { where: string; params: any[] } {
+    const conditions = [`COALESCE(w.visibility, 'public') != 'unlisted'`];
     const params: any[] = [];
     
-    if (search) {
-      query += ' WHERE id LIKE ? OR name LIKE ?';
-      const searchPattern = `%${search}%`;
-      params.push(searchPattern, searchPattern);
+    if (filters.search) {
+      conditions.push('(p.id LIKE ? OR p.name LIKE ? OR w.title LIKE ?)');
+      const searchPattern = `%${filters.search}%`;
+      params.push(searchPattern, searchPattern, searchPattern);
     }
     
-    const stmt = this.db.prepare(query);
-    const result = stmt.get(...params) as { count: number };
-    return result.count;
+    if (filters.visibility) {
+      conditions.push(`COALESCE(w.visibility, 'public') = ?`);
+      params.push(filters.visibility);
+    }
+    
+    if (filters.tag) {
+      conditions.push('EXISTS (SELECT 1 FROM json_each(w.tags) WHERE json_each.value = ?)');
+      params.push(filters.tag);
+    }
+    
+    if (filters.worldIds) {
+      conditions.push('p.id IN (SELECT value FROM json_each(?))');
+      params.push(JSON.stringify(filters.worldIds));
+    }
+    
+    return { where: `WHERE ${conditions.join(' AND ')}`, params };
+  }
+
+  private mapSettings(row: any): WorldSettings {
+    return {
+      title: row.title ?? DEFAULT_WORLD_SETTINGS.title,
+      description: row.description ?? DEFAULT_WORLD_SETTINGS.description,
+      tags: row.tags ? JSON.parse(row.tags) : [],
+      visibility: row.visibility ?? DEFAULT_WORLD_SETTINGS.visibility,
+      maxVisitors: row.maxVisitors ?? DEFAULT_WORLD_SETTINGS.maxVisitors
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,14 @@
+import Database from 'better-sqlite3';
+import { IXPLedgerRepository, XPGain } from './interfaces/IXPLedgerRepository';
+
+export class XPLedgerRepository implements IXPLedgerRepository {
+  constructor(private db: Database.Database) {}
+
+  record(gain: XPGain): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO xp_ledger (player_id, amount, reason, seed_type, earned_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    stmt.run(gain.playerId, gain.amount, gain.reason, gain.seedType, gain.earnedAt.toISOString());
+  }
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+export interface ChatMessageRecord {
+  id: number;
+  worldId: string;
+  playerId: string;
+  playerName: string;
+  message: string;
+  timestamp: number;
+}
+
+export interface IChatRepository {
+  save(message: Omit<ChatMessageRecord, 'id'>): ChatMessageRecord;
+  findById(id: number): ChatMessageRecord | undefined;
+  // Newest messages first
+  findByWorld(worldId: string, limit: number, offset?: number): ChatMessageRecord[];
+  countByWorld(worldId: string): number;
+  delete(worldId: string, id: number): boolean;
+}
\ No newline at end of file
@@ -4,8 +4,9 @@ import { IRepository } from './IRepository';
 export interface ICropRepository extends IRepository<Crop, string> {
   findByPlayerId(playerId: string): Crop[];
   findUnharvestedByPlayerId(playerId: string): Crop[];
+  findUnharvestedByWorldId(worldId: string): Crop[];
   findInArea(minX: number, minY: number, maxX: number, maxY: number, playerId?: string): Crop[];
-  findAtPosition(x: number, y: number, radius: number): Crop[];
+  findAtPosition(x: number, y: number, radius: number, worldId?: string): Crop[];
   markAsHarvested(cropId: string): void;
   countByPlayerId(playerId: string, harvested?: boolean): number;
 }
\ No newline at end of file
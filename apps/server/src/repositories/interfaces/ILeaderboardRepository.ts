@@ -0,0 +1,11 @@
+import { LeaderboardMetric, LeaderboardPage, SeedType } from '@defivalley/shared';
+
+export interface LeaderboardFilters {
+  since?: Date;        // Only count crops planted (or for 'harvested', harvested), or XP earned, from this time
+  seedType?: SeedType; // Only count crops of this seed type, or XP earned planting it
+}
+
+export interface ILeaderboardRepository {
+  // Players ranked by the metric, highest first; ties share a rank and are ordered by player ID
+  getRanking(metric: LeaderboardMetric, filters: LeaderboardFilters, limit: number, offset: number): LeaderboardPage;
+}
\ No newline at end of file
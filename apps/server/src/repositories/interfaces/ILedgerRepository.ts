@@ -0,0 +1,18 @@
+export type LedgerReason = 'harvest';
+
+export interface LedgerEntry {
+  id: number;
+  playerId: string;
+  amount: number;
+  reason: LedgerReason;
+  cropId: string | null;
+  worldId: string | null;
+  createdAt: Date;
+}
+
+export interface ILedgerRepository {
+  credit(entry: Pick<LedgerEntry, 'playerId' | 'amount' | 'reason'> & { cropId?: string; worldId?: string }): LedgerEntry;
+  getBalance(playerId: string): number;
+  // Newest entries first
+  findByPlayer(playerId: string, limit: number, offset?: number): LedgerEntry[];
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+export interface PlayerBan {
+  playerId: string;
+  reason: string;
+  bannedBy: string;
+  bannedAt: number;
+}
+
+export type AdminAction =
+  | 'room.kick'
+  | 'player.ban'
+  | 'player.unban'
+  | 'player.rename'
+  | 'crop.harvest'
+  | 'crop.delete';
+
+export interface AuditLogEntry {
+  id: number;
+  adminId: string;
+  action: AdminAction;
+  targetId: string;
+  details: Record<string, unknown>;
+  createdAt: number;
+}
+
+export interface IModerationRepository {
+  // Player IDs are matched case-insensitively
+  findBan(playerId: string): PlayerBan | undefined;
+  // Newest bans first
+  findBans(): PlayerBan[];
+  ban(ban: PlayerBan): void;
+  unban(playerId: string): boolean;
+  recordAction(entry: Omit<AuditLogEntry, 'id'>): AuditLogEntry;
+  // Newest entries first, optionally only those about one target
+  findAuditLog(limit: number, offset?: number, targetId?: string): AuditLogEntry[];
+  countAuditLog(targetId?: string): number;
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { OnChainQuestAction } from '@defivalley/shared';
+
+export interface QuestProgressRecord {
+  playerId: string;
+  questId: string;
+  progress: number;
+  seenKeys: string[]; // Values already counted by a distinct objective
+  completedAt: Date | null;
+}
+
+export interface IQuestRepository {
+  findByPlayer(playerId: string): QuestProgressRecord[];
+  save(record: QuestProgressRecord): void;
+  unlockCosmetic(playerId: string, cosmeticId: string): void;
+  getCosmetics(playerId: string): string[];
+  // Record an on-chain transaction as counted; false if it already was
+  claimTransaction(chainId: number, txHash: string, playerId: string, action: OnChainQuestAction): boolean;
+}
\ No newline at end of file
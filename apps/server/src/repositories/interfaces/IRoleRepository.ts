@@ -0,0 +1,18 @@
+import { GrantableRole } from '@defivalley/shared';
+
+export interface WorldRoleGrant {
+  worldId: string;
+  playerId: string;
+  role: GrantableRole;
+  grantedBy: string;
+  grantedAt: Date;
+}
+
+// World and player IDs are matched case-insensitively (stored lowercase), so checksummed
+// and lowercased wallet addresses find the same grant
+export interface IRoleRepository {
+  findRole(worldId: string, playerId: string): GrantableRole | undefined;
+  findByWorld(worldId: string): WorldRoleGrant[];
+  grant(worldId: string, playerId: string, role: GrantableRole, grantedBy: string): void;
+  revoke(worldId: string, playerId: string): boolean;
+}
\ No newline at end of file
@@ -1,11 +1,25 @@
 import { IPlayerRepository } from './IPlayerRepository';
 import { ICropRepository } from './ICropRepository';
 import { IWorldRepository } from './IWorldRepository';
+import { IChatRepository } from './IChatRepository';
+import { IRoleRepository } from './IRoleRepository';
+import { ILedgerRepository } from './ILedgerRepository';
+import { ILeaderboardRepository } from './ILeaderboardRepository';
+import { IQuestRepository } from './IQuestRepository';
+import { IModerationRepository } from './IModerationRepository';
+import { IXPLedgerRepository } from './IXPLedgerRepository';
 
 export interface IUnitOfWork {
   players: IPlayerRepository;
   crops: ICropRepository;
   worlds: IWorldRepository;
+  chat: IChatRepository;
+  roles: IRoleRepository;
+  ledger: ILedgerRepository;
+  leaderboards: ILeaderboardRepository;
+  quests: IQuestRepository;
+  moderation: IModerationRepository;
+  xpLedger: IXPLedgerRepository;
   
   beginTransaction(): void;
   commit(): void;
@@ -1,11 +1,34 @@
-export interface WorldSummary {
+import { BuildingManifest, BuildingNetwork, EncodedTerrain, TerrainGenerationParams, WorldSettings, WorldVisibility } from '@defivalley/shared';
+
+export interface WorldSummary extends WorldSettings {
   playerId: string;
   playerName: string;
   cropCount: number;
   lastActivity: Date;
 }
 
+// Narrows the world browser listing; unlisted worlds are never listed
+export interface WorldFilters {
+  search?: string; // Matches owner ID, owner name or title
+  visibility?: WorldVisibility;
+  tag?: string;
+  worldIds?: string[]; // Only these worlds, e.g. the ones whose host is online
+}
+
 export interface IWorldRepository {
-  getActiveWorlds(limit: number, offset: number, search?: string): WorldSummary[];
-  getTotalWorldsCount(search?: string): number;
+  // Most recently active first; worlds in `rankFirst` come ahead of the rest, in that order
+  getActiveWorlds(limit: number, offset: number, filters?: WorldFilters, rankFirst?: string[]): WorldSummary[];
+  getTotalWorldsCount(filters?: WorldFilters): number;
+  // Settings of a world, or the defaults if its owner never saved any
+  getSettings(worldId: string): WorldSettings;
+  saveSettings(worldId: string, settings: WorldSettings): void;
+  // Saved terrain of a world, or null if its owner never edited it
+  getTerrain(worldId: string): EncodedTerrain | null;
+  // Parameters the terrain was last generated from, or null if it never was
+  getTerrainGeneration(worldId: string): TerrainGenerationParams | null;
+  // Pass `generation` when the terrain was (re)generated; edits keep the stored parameters
+  saveTerrain(worldId: string, terrain: EncodedTerrain, generation?: TerrainGenerationParams): void;
+  // Saved building layout of a world on a network, or null if it uses the default manifest
+  getBuildingManifest(worldId: string, network: BuildingNetwork): BuildingManifest | null;
+  saveBuildingManifest(worldId: string, manifest: BuildingManifest): void;
 }
\ No newline at end of file
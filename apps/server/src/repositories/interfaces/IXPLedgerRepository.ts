@@ -0,0 +1,15 @@
+import { SeedType } from '@defivalley/shared';
+
+export type XPReason = 'plant' | 'quest';
+
+export interface XPGain {
+  playerId: string;
+  amount: number;            // XP actually granted, after any world event multiplier
+  reason: XPReason;
+  seedType: SeedType | null; // Seed planted, for planting XP
+  earnedAt: Date;
+}
+
+export interface IXPLedgerRepository {
+  record(gain: XPGain): void;
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { ChatMessageRecord, IChatRepository } from '../interfaces/IChatRepository';
+
+export class InMemoryChatRepository implements IChatRepository {
+  private messages: ChatMessageRecord[] = [];
+  private nextId = 1;
+
+  save(message: Omit<ChatMessageRecord, 'id'>): ChatMessageRecord {
+    const record = { ...message, id: this.nextId++ };
+    this.messages.push(record);
+    return record;
+  }
+
+  findById(id: number): ChatMessageRecord | undefined {
+    return this.messages.find(message => message.id === id);
+  }
+
+  findByWorld(worldId: string, limit: number, offset: number = 0): ChatMessageRecord[] {
+    return this.messages
+      .filter(message => message.worldId === worldId)
+      .reverse()
+      .slice(offset, offset + limit);
+  }
+
+  countByWorld(worldId: string): number {
+    return this.messages.filter(message => message.worldId === worldId).length;
+  }
+
+  delete(worldId: string, id: number): boolean {
+    const index = this.messages.findIndex(message => message.id === id && message.worldId === worldId);
+    if (index === -1) return false;
+    
+    this.messages.splice(index, 1);
+    return true;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { Crop } from '../../domain/entities/Crop';
+import { ICropRepository } from '../interfaces/ICropRepository';
+
+export class InMemoryCropRepository implements ICropRepository {
+  private crops = new Map<string, Crop>();
+
+  findById(id: string): Crop | undefined {
+    return this.crops.get(id);
+  }
+
+  findAll(): Crop[] {
+    return Array.from(this.crops.values());
+  }
+
+  findByPlayerId(playerId: string): Crop[] {
+    return this.findAll().filter(crop => crop.playerId === playerId);
+  }
+
+  findUnharvestedByPlayerId(playerId: string): Crop[] {
+    return this.findByPlayerId(playerId).filter(crop => !crop.harvested);
+  }
+
+  findUnharvestedByWorldId(worldId: string): Crop[] {
+    return this.findAll().filter(crop => crop.worldId === worldId && !crop.harvested);
+  }
+
+  findInArea(minX: number, minY: number, maxX: number, maxY: number, playerId?: string): Crop[] {
+    return this.findAll().filter(crop =>
+      !crop.harvested &&
+      crop.x >= minX && crop.x <= maxX &&
+      crop.y >= minY && crop.y <= maxY &&
+      (!playerId || crop.playerId === playerId)
+    );
+  }
+
+  findAtPosition(x: number, y: number, radius: number, worldId?: string): Crop[] {
+    return this.findAll().filter(crop =>
+      !crop.harvested &&
+      (crop.x - x) * (crop.x - x) + (crop.y - y) * (crop.y - y) <= radius * radius &&
+      (!worldId || crop.worldId === worldId)
+    );
+  }
+
+  save(crop: Crop): void {
+    this.crops.set(crop.id, crop);
+  }
+
+  markAsHarvested(cropId: string): void {
+    const crop = this.crops.get(cropId);
+    if (crop) {
+      crop.harvested = true;
+      crop.updatedAt = new Date();
+    }
+  }
+
+  delete(id: string): void {
+    this.crops.delete(id);
+  }
+
+  exists(id: string): boolean {
+    return this.crops.has(id);
+  }
+
+  countByPlayerId(playerId: string, harvested?: boolean): number {
+    return this.findByPlayerId(playerId).filter(crop => harvested === undefined || crop.harvested === harvested).length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { LeaderboardMetric, LeaderboardPage } from '@defivalley/shared';
+import { ILeaderboardRepository, LeaderboardFilters } from '../interfaces/ILeaderboardRepository';
+import { InMemoryPlayerRepository } from './InMemoryPlayerRepository';
+import { InMemoryCropRepository } from './InMemoryCropRepository';
+import { InMemoryXPLedgerRepository } from './InMemoryXPLedgerRepository';
+
+export class InMemoryLeaderboardRepository implements ILeaderboardRepository {
+  constructor(
+    private players: InMemoryPlayerRepository,
+    private crops: InMemoryCropRepository,
+    private xpLedger: InMemoryXPLedgerRepository
+  ) {}
+
+  getRanking(metric: LeaderboardMetric, filters: LeaderboardFilters, limit: number, offset: number): LeaderboardPage {
+    const totals = metric === 'xp'
+      ? this.sumXP(filters)
+      : this.sumCrops(metric, filters);
+    
+    const ranked = Array.from(totals.entries())
+      .filter(([, value]) => value > 0)
+      .sort(([aId, a], [bId, b]) => b - a || (aId < bId ? -1 : aId > bId ? 1 : 0));
+    
+    const entries = ranked.slice(offset, offset + limit).map(([playerId, value]) => ({
+      // Rank is one more than the number of players with a higher value
+      rank: ranked.findIndex(([, other]) => other === value) + 1,
+      playerId,
+      playerName: this.players.findById(playerId)?.name ?? playerId,
+      value
+    }));
+    
+    return { entries, total: ranked.length };
+  }
+
+  private sumXP({ since, seedType }: LeaderboardFilters): Map<string, number> {
+    if (!since && !seedType) {
+      return new Map(this.players.findAll().map(player => [player.id, player.xp]));
+    }
+    
+    const totals = new Map<string, number>();
+    for (const gain of this.xpLedger.findAll()) {
+      if (seedType && gain.seedType !== seedType) continue;
+      if (since && gain.earnedAt < since) continue;
+      totals.set(gain.playerId, (totals.get(gain.playerId) ?? 0) + gain.amount);
+    }
+    return totals;
+  }
+
+  private sumCrops(metric: Exclude<LeaderboardMetric, 'xp'>, { since, seedType }: LeaderboardFilters): Map<string, number> {
+    const totals = new Map<string, number>();
+    
+    for (const crop of this.crops.findAll()) {
+      if (seedType && crop.seedType !== seedType) continue;
+      if (metric === 'harvested' && !crop.harvested) continue;
+      
+      const countedAt = metric === 'harvested' ? crop.harvestedAt : crop.plantedAt;
+      if (since && (!countedAt || countedAt < since)) continue;
+      
+      const value = metric === 'invested' ? crop.investmentAmount : crop.yieldAmount ?? 0;
+      totals.set(crop.playerId, (totals.get(crop.playerId) ?? 0) + value);
+    }
+    
+    // Money totals are rounded to cents, as in SQLite
+    totals.forEach((value, playerId) => totals.set(playerId, Math.round(value * 100) / 100));
+    return totals;
+  }
+}
\ No newline at end of file
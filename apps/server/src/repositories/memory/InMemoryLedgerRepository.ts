@@ -0,0 +1,38 @@
+import { ILedgerRepository, LedgerEntry } from '../interfaces/ILedgerRepository';
+
+export class InMemoryLedgerRepository implements ILedgerRepository {
+  private entries: LedgerEntry[] = [];
+
+  credit(entry: Pick<LedgerEntry, 'playerId' | 'amount' | 'reason'> & { cropId?: string; worldId?: string }): LedgerEntry {
+    // Mirrors the unique index on harvest credits
+    if (entry.reason === 'harvest' && this.entries.some(existing => existing.reason === 'harvest' && existing.cropId === entry.cropId)) {
+      throw new Error(`Crop ${entry.cropId} has already been credited`);
+    }
+    
+    const record: LedgerEntry = {
+      id: this.entries.length + 1,
+      playerId: entry.playerId,
+      amount: entry.amount,
+      reason: entry.reason,
+      cropId: entry.cropId ?? null,
+      worldId: entry.worldId ?? null,
+      createdAt: new Date()
+    };
+    this.entries.push(record);
+    return record;
+  }
+
+  getBalance(playerId: string): number {
+    const balance = this.entries
+      .filter(entry => entry.playerId === playerId)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    return Math.round(balance * 100) / 100;
+  }
+
+  findByPlayer(playerId: string, limit: number, offset: number = 0): LedgerEntry[] {
+    return this.entries
+      .filter(entry => entry.playerId === playerId)
+      .reverse()
+      .slice(offset, offset + limit);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { AuditLogEntry, IModerationRepository, PlayerBan } from '../interfaces/IModerationRepository';
+
+export class InMemoryModerationRepository implements IModerationRepository {
+  private bans = new Map<string, PlayerBan>();
+  private auditLog: AuditLogEntry[] = [];
+  private nextId = 1;
+
+  findBan(playerId: string): PlayerBan | undefined {
+    return this.bans.get(playerId.toLowerCase());
+  }
+
+  findBans(): PlayerBan[] {
+    return Array.from(this.bans.values()).sort((a, b) => b.bannedAt - a.bannedAt);
+  }
+
+  ban(ban: PlayerBan): void {
+    const playerId = ban.playerId.toLowerCase();
+    this.bans.set(playerId, { ...ban, playerId });
+  }
+
+  unban(playerId: string): boolean {
+    return this.bans.delete(playerId.toLowerCase());
+  }
+
+  recordAction(entry: Omit<AuditLogEntry, 'id'>): AuditLogEntry {
+    const record = { ...entry, id: this.nextId++ };
+    this.auditLog.push(record);
+    return record;
+  }
+
+  findAuditLog(limit: number, offset: number = 0, targetId?: string): AuditLogEntry[] {
+    return this.auditLog
+      .filter(entry => targetId === undefined || entry.targetId === targetId)
+      .reverse()
+      .slice(offset, offset + limit);
+  }
+
+  countAuditLog(targetId?: string): number {
+    return this.auditLog.filter(entry => targetId === undefined || entry.targetId === targetId).length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { Player } from '../../domain/entities/Player';
+import { IPlayerRepository } from '../interfaces/IPlayerRepository';
+
+export class InMemoryPlayerRepository implements IPlayerRepository {
+  private players = new Map<string, Player>();
+
+  findById(id: string): Player | undefined {
+    return this.players.get(id);
+  }
+
+  findByIdOrCreate(id: string, name: string): Player {
+    let player = this.findById(id);
+    
+    if (!player) {
+      player = Player.create(id, name);
+      this.save(player);
+    }
+    
+    return player;
+  }
+
+  findAll(): Player[] {
+    return Array.from(this.players.values());
+  }
+
+  save(player: Player): void {
+    this.players.set(player.id, player);
+  }
+
+  updateXP(playerId: string, xp: number): void {
+    const player = this.players.get(playerId);
+    if (player) {
+      player.xp = xp;
+      player.updatedAt = new Date();
+    }
+  }
+
+  delete(id: string): void {
+    this.players.delete(id);
+  }
+
+  exists(id: string): boolean {
+    return this.players.has(id);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { OnChainQuestAction } from '@defivalley/shared';
+import { IQuestRepository, QuestProgressRecord } from '../interfaces/IQuestRepository';
+
+export class InMemoryQuestRepository implements IQuestRepository {
+  private progress = new Map<string, QuestProgressRecord>();
+  private cosmetics = new Map<string, string[]>();
+  private transactions = new Set<string>();
+
+  findByPlayer(playerId: string): QuestProgressRecord[] {
+    return Array.from(this.progress.values())
+      .filter(record => record.playerId === playerId)
+      .map(record => ({ ...record, seenKeys: [...record.seenKeys] }));
+  }
+
+  save(record: QuestProgressRecord): void {
+    this.progress.set(`${record.playerId}:${record.questId}`, { ...record, seenKeys: [...record.seenKeys] });
+  }
+
+  unlockCosmetic(playerId: string, cosmeticId: string): void {
+    const unlocked = this.cosmetics.get(playerId) ?? [];
+    if (!unlocked.includes(cosmeticId)) {
+      this.cosmetics.set(playerId, [...unlocked, cosmeticId]);
+    }
+  }
+
+  getCosmetics(playerId: string): string[] {
+    return [...(this.cosmetics.get(playerId) ?? [])];
+  }
+
+  claimTransaction(chainId: number, txHash: string, _playerId: string, _action: OnChainQuestAction): boolean {
+    const key = `${chainId}:${txHash.toLowerCase()}`;
+    if (this.transactions.has(key)) return false;
+
+    this.transactions.add(key);
+    return true;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { GrantableRole } from '@defivalley/shared';
+import { IRoleRepository, WorldRoleGrant } from '../interfaces/IRoleRepository';
+
+export class InMemoryRoleRepository implements IRoleRepository {
+  private grants: WorldRoleGrant[] = [];
+
+  findRole(worldId: string, playerId: string): GrantableRole | undefined {
+    return this.grants.find(grant => grant.worldId === worldId.toLowerCase() && grant.playerId === playerId.toLowerCase())?.role;
+  }
+
+  findByWorld(worldId: string): WorldRoleGrant[] {
+    return this.grants
+      .filter(grant => grant.worldId === worldId.toLowerCase())
+      .sort((a, b) => b.grantedAt.getTime() - a.grantedAt.getTime());
+  }
+
+  grant(worldId: string, playerId: string, role: GrantableRole, grantedBy: string): void {
+    this.revoke(worldId, playerId);
+    this.grants.push({ worldId: worldId.toLowerCase(), playerId: playerId.toLowerCase(), role, grantedBy, grantedAt: new Date() });
+  }
+
+  revoke(worldId: string, playerId: string): boolean {
+    const count = this.grants.length;
+    this.grants = this.grants.filter(grant => !(grant.worldId === worldId.toLowerCase() && grant.playerId === playerId.toLowerCase()));
+    return this.grants.length < count;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { IUnitOfWork } from '../interfaces/IUnitOfWork';
+import { InMemoryCropRepository } from './InMemoryCropRepository';
+import { InMemoryPlayerRepository } from './InMemoryPlayerRepository';
+import { InMemoryWorldRepository } from './InMemoryWorldRepository';
+import { InMemoryChatRepository } from './InMemoryChatRepository';
+import { InMemoryRoleRepository } from './InMemoryRoleRepository';
+import { InMemoryLedgerRepository } from './InMemoryLedgerRepository';
+import { InMemoryLeaderboardRepository } from './InMemoryLeaderboardRepository';
+import { InMemoryQuestRepository } from './InMemoryQuestRepository';
+import { InMemoryModerationRepository } from './InMemoryModerationRepository';
+import { InMemoryXPLedgerRepository } from './InMemoryXPLedgerRepository';
+
+/**
+ * Repositories backed by plain maps, for unit tests.
+ * Transactions run their callback directly and are not rolled back on error.
+ */
+export class InMemoryUnitOfWork implements IUnitOfWork {
+  public readonly players = new InMemoryPlayerRepository();
+  public readonly crops = new InMemoryCropRepository();
+  public readonly worlds = new InMemoryWorldRepository(this.players, this.crops);
+  public readonly chat = new InMemoryChatRepository();
+  public readonly roles = new InMemoryRoleRepository();
+  public readonly ledger = new InMemoryLedgerRepository();
+  public readonly xpLedger = new InMemoryXPLedgerRepository();
+  public readonly leaderboards = new InMemoryLeaderboardRepository(this.players, this.crops, this.xpLedger);
+  public readonly quests = new InMemoryQuestRepository();
+  public readonly moderation = new InMemoryModerationRepository();
+
+  beginTransaction(): void {}
+
+  commit(): void {}
+
+  rollback(): void {}
+
+  transaction<T>(fn: () => T): T {
+    return fn();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { BuildingManifest, BuildingNetwork, DEFAULT_WORLD_SETTINGS, EncodedTerrain, TerrainGenerationParams, WorldSettings } from '@defivalley/shared';
+import { IWorldRepository, WorldFilters, WorldSummary } from '../interfaces/IWorldRepository';
+import { InMemoryPlayerRepository } from './InMemoryPlayerRepository';
+import { InMemoryCropRepository } from './InMemoryCropRepository';
+
+export class InMemoryWorldRepository implements IWorldRepository {
+  private settings = new Map<string, WorldSettings>();
+  private terrain = new Map<string, EncodedTerrain>();
+  private terrainGeneration = new Map<string, TerrainGenerationParams>();
+  private buildingManifests = new Map<string, string>(); // JSON by "worldId:network", so callers get copies
+
+  constructor(
+    private players: InMemoryPlayerRepository,
+    private crops: InMemoryCropRepository
+  ) {}
+
+  getActiveWorlds(limit: number = 20, offset: number = 0, filters: WorldFilters = {}, rankFirst: string[] = []): WorldSummary[] {
+    const rank = (id: string) => {
+      const index = rankFirst.indexOf(id);
+      return index === -1 ? rankFirst.length : index;
+    };
+
+    return this.findWorlds(filters)
+      .sort((a, b) => rank(a.id) - rank(b.id) || b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(offset, offset + limit)
+      .map(player => ({
+        playerId: player.id,
+        playerName: player.name,
+        cropCount: this.crops.findUnharvestedByWorldId(player.id).length,
+        lastActivity: player.updatedAt,
+        ...this.getSettings(player.id)
+      }));
+  }
+
+  getTotalWorldsCount(filters: WorldFilters = {}): number {
+    return this.findWorlds(filters).length;
+  }
+
+  getSettings(worldId: string): WorldSettings {
+    const settings = this.settings.get(worldId) ?? DEFAULT_WORLD_SETTINGS;
+    return { ...settings, tags: [...settings.tags] };
+  }
+
+  saveSettings(worldId: string, settings: WorldSettings): void {
+    this.settings.set(worldId, { ...settings, tags: [...settings.tags] });
+  }
+
+  getTerrain(worldId: string): EncodedTerrain | null {
+    const terrain = this.terrain.get(worldId);
+    return terrain ? { ...terrain, palette: [...terrain.palette], runs: [...terrain.runs] } : null;
+  }
+
+  getTerrainGeneration(worldId: string): TerrainGenerationParams | null {
+    const generation = this.terrainGeneration.get(worldId);
+    return generation ? { ...generation } : null;
+  }
+
+  saveTerrain(worldId: string, terrain: EncodedTerrain, generation?: TerrainGenerationParams): void {
+    this.terrain.set(worldId, { ...terrain, palette: [...terrain.palette], runs: [...terrain.runs] });
+    if (generation) {
+      this.terrainGeneration.set(worldId, { ...generation });
+    }
+  }
+
+  getBuildingManifest(worldId: string, network: BuildingNetwork): BuildingManifest | null {
+    const manifest = this.buildingManifests.get(`${worldId}:${network}`);
+    return manifest ? JSON.parse(manifest) : null;
+  }
+
+  saveBuildingManifest(worldId: string, manifest: BuildingManifest): void {
+    this.buildingManifests.set(`${worldId}:${manifest.network}`, JSON.stringify(manifest));
+  }
+
+  private findWorlds({ search, visibility, tag, worldIds }: WorldFilters) {
+    return this.players.findAll().filter(player => {
+      const settings = this.getSettings(player.id);
+      
+      if (settings.visibility === 'unlisted') return false;
+      if (visibility && settings.visibility !== visibility) return false;
+      if (tag && !settings.tags.includes(tag)) return false;
+      if (worldIds && !worldIds.includes(player.id)) return false;
+      return !search || player.id.includes(search) || player.name.includes(search) || settings.title.includes(search);
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { IXPLedgerRepository, XPGain } from '../interfaces/IXPLedgerRepository';
+
+export class InMemoryXPLedgerRepository implements IXPLedgerRepository {
+  private gains: XPGain[] = [];
+
+  record(gain: XPGain): void {
+    this.gains.push({ ...gain });
+  }
+
+  findAll(): XPGain[] {
+    return [...this.gains];
+  }
+}
\ No newline at end of file
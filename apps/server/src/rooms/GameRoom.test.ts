@@ -0,0 +1,762 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client, Protocol, getMessageBytes } from 'colyseus';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { DEFAULT_BUILDING_MANIFESTS, DEFAULT_TERRAIN_GENERATION, DEFAULT_WORLD_SETTINGS, KATANA_CHAIN_ID, TerrainTileEdit, WorldSettings, decodeTerrain, encodeTerrain, generateTerrain, moveBuildings } from '@defivalley/shared';
+import { GameRoom, createGameRoomDependencies } from './GameRoom';
+import { DatabaseConnection } from '../services/DatabaseConnection';
+import { IUnitOfWork } from '../repositories/interfaces/IUnitOfWork';
+import { InMemoryUnitOfWork } from '../repositories/memory/InMemoryUnitOfWork';
+import { WorldPresenceRegistry } from '../utils/worldPresence';
+import { LiveRoomRegistry } from '../utils/liveRooms';
+import { createAuthSession } from '../utils/auth';
+import { JoinOptions } from '../types/auth.types';
+import { ClientMessages, ERROR_CODES, EditTerrainMessage, GenerateTerrainMessage, HarvestCropMessage, PlantSeedMessage, ReportOnChainActionMessage, SEED_CONFIGS } from '../types/game.types';
+import { ON_CHAIN_ACTION_CONTRACTS } from '../utils/onChainActions';
+import { WorldEventScheduler } from '../domain/services/WorldEventScheduler';
+import { AdminService } from '../domain/services/AdminService';
+import { FakeClock } from '../utils/clock';
+
+const PLANTED_AT = new Date('2025-01-01T00:00:00.000Z');
+
+// Record the room's broadcasts instead of sending them (the tests' rooms have no transport)
+function muteBroadcasts(room: GameRoom) {
+  return vi.spyOn(room, 'broadcast').mockImplementation(() => {});
+}
+
+// Deliver a client message through Colyseus' own dispatch: encoded as it arrives over the network,
+// then decoded and passed to the handler the room registered with onMessage
+function dispatch<K extends keyof ClientMessages>(room: GameRoom, client: Client, type: K, message?: ClientMessages[K]) {
+  const colyseusRoom = room as unknown as { _onMessage(client: Client, buffer: Buffer): void };
+  colyseusRoom._onMessage(client, getMessageBytes.raw(Protocol.ROOM_DATA, type, message));
+}
+
+// Messages of one type the room sent to a test client
+function sent(client: { send: ReturnType<typeof vi.fn> }, type: string) {
+  return client.send.mock.calls.filter(([messageType]) => messageType === type).map(([, message]) => message);
+}
+
+// The room runs against the SQLite repositories and their in-memory test doubles alike
+const backends: [string, () => IUnitOfWork][] = [
+  ['SQLite', () => new DatabaseConnection(':memory:').unitOfWork],
+  ['in-memory repositories', () => new InMemoryUnitOfWork()]
+];
+
+describe.each(backends)('GameRoom crops (%s)', (_backend, createUnitOfWork) => {
+  const owner = privateKeyToAccount(generatePrivateKey()).address;
+  const helper = privateKeyToAccount(generatePrivateKey()).address;
+  const visitor = privateKeyToAccount(generatePrivateKey()).address;
+
+  let unitOfWork: IUnitOfWork;
+  let room: GameRoom;
+  let broadcast: ReturnType<typeof muteBroadcasts>;
+  let nextSession = 0;
+
+  function join(playerId: string) {
+    const client = {
+      sessionId: `session_${++nextSession}`,
+      send: vi.fn(),
+      leave: vi.fn()
+    } as unknown as Client & { send: ReturnType<typeof vi.fn> };
+    const options: JoinOptions = { playerId, authToken: createAuthSession(playerId), name: playerId.slice(0, 8) };
+
+    room.onJoin(client, options, room.onAuth(client, options));
+    return client;
+  }
+
+  function plant(client: Client, x: number, investmentAmount: number = 1000): string {
+    dispatch(room, client, 'plant_seed', { seedType: 'usdc_sprout', x, y: 500, investmentAmount });
+    const cropId = Array.from(room.state.crops.keys()).pop();
+    expect(cropId).toBeDefined();
+    return cropId!;
+  }
+
+  function harvest(client: Client, cropId: string) {
+    dispatch(room, client, 'harvest_crop', { cropId });
+  }
+
+  function growFully() {
+    vi.setSystemTime(PLANTED_AT.getTime() + SEED_CONFIGS.usdc_sprout.growthTime);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(PLANTED_AT);
+
+    unitOfWork = createUnitOfWork();
+    unitOfWork.roles.grant(owner, helper, 'helper', owner);
+
+    room = new GameRoom(createGameRoomDependencies(unitOfWork));
+    broadcast = muteBroadcasts(room);
+    room.onCreate({ worldOwnerId: owner });
+  });
+
+  afterEach(() => {
+    room.clock.clear();
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  test('should let the owner harvest their crop once it has grown', () => {
+    const ownerClient = join(owner);
+    const cropId = plant(ownerClient, 400);
+
+    growFully();
+    harvest(ownerClient, cropId);
+
+    // 1000 USDC at 5% APY for one day
+    const expectedYield = 0.14;
+    const harvestedAt = new Date(PLANTED_AT.getTime() + SEED_CONFIGS.usdc_sprout.growthTime).toISOString();
+
+    const stored = unitOfWork.crops.findById(cropId)!;
+    expect(stored.harvested).toBe(true);
+    expect(stored.yieldAmount).toBe(expectedYield);
+    expect(stored.harvestedAt!.toISOString()).toBe(harvestedAt);
+
+    expect(unitOfWork.ledger.getBalance(owner)).toBe(expectedYield);
+    expect(room.state.crops.get(cropId)!.harvested).toBe(true);
+
+    expect(sent(ownerClient, 'game_error')).toEqual([]);
+    expect(sent(ownerClient, 'crop_harvested')).toEqual([{
+      cropId,
+      ownerId: owner,
+      investmentAmount: 1000,
+      yieldAmount: expectedYield,
+      totalReturn: 1000 + expectedYield,
+      harvestedAt,
+      ownerBalance: expectedYield
+    }]);
+    expect(broadcast).toHaveBeenCalledWith('harvest_event', expect.objectContaining({
+      playerId: owner,
+      ownerId: owner,
+      cropId,
+      yieldAmount: expectedYield,
+      totalReturn: 1000 + expectedYield,
+      harvestedAt
+    }));
+  });
+
+  test('should let a helper harvest and credit the player who planted', () => {
+    const ownerClient = join(owner);
+    const helperClient = join(helper);
+    const cropId = plant(ownerClient, 400);
+
+    growFully();
+    harvest(helperClient, cropId);
+
+    expect(sent(helperClient, 'game_error')).toEqual([]);
+    expect(unitOfWork.ledger.getBalance(owner)).toBe(0.14);
+    expect(unitOfWork.ledger.getBalance(helper)).toBe(0);
+    expect(broadcast).toHaveBeenCalledWith('harvest_event', expect.objectContaining({
+      playerId: helper,
+      ownerId: owner
+    }));
+  });
+
+  test('should reject harvesting before the crop is ready', () => {
+    const ownerClient = join(owner);
+    const cropId = plant(ownerClient, 400);
+
+    vi.setSystemTime(PLANTED_AT.getTime() + SEED_CONFIGS.usdc_sprout.growthTime / 2);
+    harvest(ownerClient, cropId);
+
+    expect(sent(ownerClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.CROP_NOT_READY })
+    ]);
+    expect(unitOfWork.ledger.getBalance(owner)).toBe(0);
+  });
+
+  test('should reject harvest requests without a crop ID', () => {
+    const ownerClient = join(owner);
+
+    dispatch(room, ownerClient, 'harvest_crop', undefined as unknown as HarvestCropMessage);
+    dispatch(room, ownerClient, 'harvest_crop', { cropId: 42 } as unknown as HarvestCropMessage);
+
+    expect(sent(ownerClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.INVALID_REQUEST, details: { cropId: undefined } }),
+      expect.objectContaining({ code: ERROR_CODES.INVALID_REQUEST, details: { cropId: 42 } })
+    ]);
+  });
+
+  test('should only credit a crop once', () => {
+    const ownerClient = join(owner);
+    const cropId = plant(ownerClient, 400);
+
+    growFully();
+    harvest(ownerClient, cropId);
+    harvest(ownerClient, cropId);
+
+    expect(sent(ownerClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.CROP_ALREADY_HARVESTED })
+    ]);
+    expect(unitOfWork.ledger.findByPlayer(owner, 10)).toHaveLength(1);
+  });
+
+  test('should push growth stage changes from the simulation loop', () => {
+    const ownerClient = join(owner);
+    const cropId = plant(ownerClient, 400);
+    expect(room.state.crops.get(cropId)!.stage).toBe('seed');
+
+    vi.setSystemTime(PLANTED_AT.getTime() + SEED_CONFIGS.usdc_sprout.growthTime * 0.2);
+    room.update(100);
+
+    expect(room.state.crops.get(cropId)!.stage).toBe('sprout');
+    expect(broadcast).toHaveBeenCalledWith('crop_stage_changed', { cropId, previousStage: 'seed', stage: 'sprout' });
+    expect(broadcast).not.toHaveBeenCalledWith('crop_ready', expect.anything());
+
+    growFully();
+    room.update(100);
+
+    expect(room.state.crops.get(cropId)!.stage).toBe('ready');
+    expect(broadcast).toHaveBeenCalledWith('crop_ready', { cropId, playerId: owner, seedType: 'usdc_sprout' });
+  });
+
+  test('should load crops at their current stage', () => {
+    const cropId = plant(join(owner), 400);
+
+    growFully();
+    const lateRoom = new GameRoom(createGameRoomDependencies(unitOfWork));
+    lateRoom.onCreate({ worldOwnerId: owner });
+
+    expect(lateRoom.state.crops.get(cropId)!.stage).toBe('ready');
+    lateRoom.clock.clear();
+  });
+
+  test('should let helpers water crops to speed up growth', () => {
+    const ownerClient = join(owner);
+    const helperClient = join(helper);
+    const cropId = plant(ownerClient, 400);
+    const { growthTime } = SEED_CONFIGS.usdc_sprout;
+
+    vi.setSystemTime(PLANTED_AT.getTime() + growthTime * 0.15);
+    dispatch(room, helperClient, 'water_crop', { cropId });
+    dispatch(room, helperClient, 'water_crop', { cropId });
+
+    expect(unitOfWork.crops.findById(cropId)!.growthBoost).toBe(growthTime * 0.05);
+    expect(room.state.crops.get(cropId)!.stage).toBe('sprout');
+    expect(broadcast).toHaveBeenCalledWith('crop_watered', expect.objectContaining({ cropId, playerId: helper }));
+    expect(sent(helperClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.CROP_CANNOT_BE_WATERED, details: { cropId, reason: 'cooldown' } })
+    ]);
+  });
+
+  test('should not let visitors harvest', () => {
+    const ownerClient = join(owner);
+    const visitorClient = join(visitor);
+    const cropId = plant(ownerClient, 400);
+
+    growFully();
+    harvest(visitorClient, cropId);
+
+    expect(sent(visitorClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.PERMISSION_DENIED })
+    ]);
+    expect(room.state.crops.get(cropId)!.harvested).toBe(false);
+    expect(unitOfWork.ledger.getBalance(owner)).toBe(0);
+  });
+
+  test('should save owner terrain edits, share them and block movement on new cliffs', () => {
+    const ownerClient = join(owner);
+    const visitorClient = join(visitor);
+    const wall: TerrainTileEdit[] = [{ x: 15, y: 15, tile: 'cliff_large' }, { x: 15, y: 16, tile: 'cliff_large' }]; // West of spawn
+
+    dispatch(room, visitorClient, 'edit_terrain', { edits: wall });
+    expect(sent(visitorClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.PERMISSION_DENIED })
+    ]);
+    dispatch(room, ownerClient, 'edit_terrain', { edits: [{ x: 15, y: 15, tile: 'lava' }] } as unknown as EditTerrainMessage);
+    expect(sent(ownerClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.INVALID_REQUEST })
+    ]);
+    expect(unitOfWork.worlds.getTerrain(owner)).toBeNull();
+
+    dispatch(room, ownerClient, 'edit_terrain', { edits: wall, requestId: 'save_1' });
+    expect(broadcast).toHaveBeenCalledWith('terrain_updated', { edits: wall, editedBy: owner }, { except: ownerClient });
+    expect(sent(ownerClient, 'terrain_saved')).toEqual([{ requestId: 'save_1', changed: 2 }]);
+    expect(decodeTerrain(unitOfWork.worlds.getTerrain(owner)!)[15][15]).toBe('cliff_large');
+
+    // Spawn is inside the buildings' footprint, so step clear of it first
+    dispatch(room, visitorClient, 'move', { seq: 1, dx: -90, dy: 0 });
+    dispatch(room, visitorClient, 'move', { seq: 2, dx: -60, dy: 0 });
+    expect(sent(visitorClient, 'position_correction')).toEqual([
+      expect.objectContaining({ seq: 2, reason: 'collision' })
+    ]);
+
+    // Rooms opened later start from the saved terrain
+    room.clock.clear();
+    room = new GameRoom(createGameRoomDependencies(unitOfWork));
+    room.onCreate({ worldOwnerId: owner });
+    const [welcome] = sent(join(visitor), 'welcome');
+    expect(decodeTerrain(welcome.terrain)[16][15]).toBe('cliff_large');
+  });
+
+  test('should tell the owner which terrain save was dropped by the rate limit', () => {
+    const ownerClient = join(owner);
+    const edits: TerrainTileEdit[] = [{ x: 15, y: 15, tile: 'cliff_large' }];
+
+    for (let save = 1; save <= 11; save++) {
+      dispatch(room, ownerClient, 'edit_terrain', { edits, requestId: `save_${save}` });
+    }
+
+    expect(sent(ownerClient, 'terrain_saved')).toHaveLength(10);
+    expect(sent(ownerClient, 'game_error')).toEqual([
+      expect.objectContaining({ requestId: 'save_11', code: ERROR_CODES.RATE_LIMITED, details: { type: 'edit_terrain' } })
+    ]);
+  });
+
+  test('should apply the rate limits it was given', () => {
+    room.clock.clear();
+    room = new GameRoom({
+      ...createGameRoomDependencies(unitOfWork),
+      rateLimits: { limits: { edit_terrain: { capacity: 1, refillPerSecond: 0 } }, maxViolations: 1, violationWindowMs: 10000 }
+    });
+    broadcast = muteBroadcasts(room);
+    room.onCreate({ worldOwnerId: owner });
+    const ownerClient = join(owner);
+    const edits: TerrainTileEdit[] = [{ x: 15, y: 15, tile: 'cliff_large' }];
+
+    for (let save = 1; save <= 3; save++) {
+      dispatch(room, ownerClient, 'edit_terrain', { edits, requestId: `save_${save}` });
+    }
+
+    expect(sent(ownerClient, 'terrain_saved')).toHaveLength(1);
+    expect(sent(ownerClient, 'game_error').map(error => error.requestId)).toEqual(['save_2', 'save_3']);
+    expect(ownerClient.leave).toHaveBeenCalledTimes(1);
+  });
+
+  test('should let the owner generate the terrain from a seed and share it with everyone', () => {
+    const ownerClient = join(owner);
+    const visitorClient = join(visitor);
+    const params = { ...DEFAULT_TERRAIN_GENERATION, seed: 2024, lakeCount: 3 };
+
+    dispatch(room, visitorClient, 'generate_terrain', { params });
+    expect(sent(visitorClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.PERMISSION_DENIED })
+    ]);
+    dispatch(room, ownerClient, 'generate_terrain', { params: { pathLayout: 'maze' } } as unknown as GenerateTerrainMessage);
+    expect(sent(ownerClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.INVALID_REQUEST })
+    ]);
+
+    dispatch(room, ownerClient, 'generate_terrain', { params: { seed: 2024, lakeCount: 3 } });
+
+    const terrain = encodeTerrain(generateTerrain(owner, params));
+    expect(broadcast).toHaveBeenCalledWith('terrain', { terrain, generation: params });
+    expect(unitOfWork.worlds.getTerrain(owner)).toEqual(terrain);
+    expect(unitOfWork.worlds.getTerrainGeneration(owner)).toEqual(params);
+    expect(sent(join(visitor), 'welcome')[0]).toMatchObject({ terrain, terrainGeneration: params });
+  });
+
+  test('should save the owner\'s building layout, share it and move building collisions', () => {
+    const ownerClient = join(owner);
+    const visitorClient = join(visitor);
+    const defaults = DEFAULT_BUILDING_MANIFESTS.katana;
+    const moved = moveBuildings(defaults, { bank: { x: 2400, y: 1800 }, marketplace: { x: 2400, y: 600 } });
+    expect(sent(visitorClient, 'welcome')[0].buildings.katana).toEqual(defaults);
+
+    dispatch(room, visitorClient, 'save_buildings', { manifest: moved });
+    expect(sent(visitorClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.PERMISSION_DENIED })
+    ]);
+
+    // Buildings may not stand on cliffs; the owner gets the current layout back
+    dispatch(room, ownerClient, 'edit_terrain', { edits: [{ x: 75, y: 56, tile: 'cliff_large' }] });
+    dispatch(room, ownerClient, 'save_buildings', { manifest: moved });
+    expect(sent(ownerClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.INVALID_REQUEST, details: { problems: ['bank stands on solid terrain at tile (75, 56)'] } })
+    ]);
+    expect(sent(ownerClient, 'buildings_updated')).toEqual([{ manifest: defaults, editedBy: null }]);
+    expect(unitOfWork.worlds.getBuildingManifest(owner, 'katana')).toBeNull();
+
+    dispatch(room, ownerClient, 'edit_terrain', { edits: [{ x: 75, y: 56, tile: 'grass_main' }] });
+    // Spawn is inside the buildings' footprint: step out west, then the bank blocks the way back
+    dispatch(room, visitorClient, 'move', { seq: 1, dx: -90, dy: 0 });
+    dispatch(room, visitorClient, 'move', { seq: 2, dx: 90, dy: 0 });
+    expect(sent(visitorClient, 'position_correction')).toEqual([
+      expect.objectContaining({ seq: 2, reason: 'collision' })
+    ]);
+    dispatch(room, ownerClient, 'save_buildings', { manifest: moved });
+
+    expect(broadcast).toHaveBeenCalledWith('buildings_updated', { manifest: moved, editedBy: owner }, { except: ownerClient });
+    expect(unitOfWork.worlds.getBuildingManifest(owner, 'katana')).toEqual(moved);
+    dispatch(room, visitorClient, 'move', { seq: 3, dx: 90, dy: 0 });
+    expect(sent(visitorClient, 'position_correction')).toHaveLength(1); // Where the bank used to stand
+    expect(sent(join(visitor), 'welcome')[0].buildings.katana).toEqual(moved);
+  });
+
+  test('should not let players plant seed tiers above their level', () => {
+    const ownerClient = join(owner);
+
+    dispatch(room, ownerClient, 'plant_seed', { seedType: 'whale_forest', x: 400, y: 500, investmentAmount: 1000, requestId: 'r1' });
+
+    expect(sent(ownerClient, 'game_error')).toEqual([expect.objectContaining({
+      requestId: 'r1',
+      code: ERROR_CODES.LEVEL_TOO_LOW,
+      details: { seedType: 'whale_forest', level: 1, requiredLevel: SEED_CONFIGS.whale_forest.requiredLevel }
+    })]);
+    expect(room.state.crops.size).toBe(0);
+  });
+
+  test('should refuse investments that are not finite or above the seed maximum', () => {
+    const ownerClient = join(owner);
+    const { maxInvestment } = SEED_CONFIGS.usdc_sprout;
+
+    for (const investmentAmount of [maxInvestment + 1, Infinity, NaN, '50']) {
+      dispatch(room, ownerClient, 'plant_seed', { seedType: 'usdc_sprout', x: 400, y: 500, investmentAmount } as PlantSeedMessage);
+    }
+
+    expect(sent(ownerClient, 'game_error').map(error => error.code)).toEqual([
+      ERROR_CODES.INVESTMENT_TOO_LARGE,
+      ERROR_CODES.INVESTMENT_TOO_LARGE,
+      ERROR_CODES.INSUFFICIENT_INVESTMENT,
+      ERROR_CODES.INVALID_REQUEST
+    ]);
+    expect(room.state.crops.size).toBe(0);
+    expect(unitOfWork.crops.findByPlayerId(owner)).toEqual([]);
+
+    plant(ownerClient, 400, maxInvestment);
+    expect(unitOfWork.leaderboards.getRanking('invested', {}, 10, 0).entries).toEqual([
+      expect.objectContaining({ playerId: owner, value: maxInvestment })
+    ]);
+  });
+
+  test('should announce level ups from planting', () => {
+    const ownerClient = join(owner);
+    unitOfWork.players.updateXP(owner, 9);
+
+    plant(ownerClient, 400);
+
+    const player = room.state.players.get(ownerClient.sessionId)!;
+    expect(player.level).toBe(2);
+    expect(broadcast).toHaveBeenCalledWith('player:levelUp', {
+      sessionId: ownerClient.sessionId,
+      playerId: owner,
+      oldLevel: 1,
+      newLevel: 2
+    });
+
+    plant(ownerClient, 600);
+    expect(broadcast.mock.calls.filter(([type]) => type === 'player:levelUp')).toHaveLength(1);
+  });
+
+  test('should apply world event modifiers while the event runs and announce it', () => {
+    const hour = 60 * 60 * 1000;
+    const festival = new WorldEventScheduler([{
+      id: 'harvest_festival',
+      name: 'Harvest Festival',
+      description: 'Bumper crops',
+      startsAt: new Date(PLANTED_AT.getTime() + hour).toISOString(),
+      endsAt: new Date(PLANTED_AT.getTime() + 48 * hour).toISOString(),
+      modifiers: { xpMultiplier: 10, growthTimeMultiplier: 1.5, yieldMultiplier: 2 }
+    }], { now: () => Date.now() });
+
+    room.clock.clear();
+    room = new GameRoom(createGameRoomDependencies(unitOfWork, undefined, undefined, undefined, undefined, festival));
+    broadcast = muteBroadcasts(room);
+    room.onCreate({ worldOwnerId: owner });
+
+    const ownerClient = join(owner);
+    const earlyCrop = plant(ownerClient, 400);
+    expect(room.state.crops.get(earlyCrop)!.growthTime).toBe(SEED_CONFIGS.usdc_sprout.growthTime);
+    expect(sent(ownerClient, 'seed_planted')[0]).toEqual(expect.objectContaining({ xpGained: 1 }));
+
+    vi.setSystemTime(PLANTED_AT.getTime() + hour);
+    room.update(100);
+    expect(broadcast).toHaveBeenCalledWith('world_event_started', {
+      event: expect.objectContaining({ id: 'harvest_festival', endsAt: PLANTED_AT.getTime() + 48 * hour })
+    });
+    expect(sent(join(helper), 'welcome')[0].worldEvents).toEqual([expect.objectContaining({ id: 'harvest_festival' })]);
+
+    const festivalCrop = plant(ownerClient, 600);
+    expect(room.state.crops.get(festivalCrop)!.growthTime).toBe(SEED_CONFIGS.usdc_sprout.growthTime * 1.5);
+    expect(sent(ownerClient, 'seed_planted')[1]).toEqual(expect.objectContaining({ xpGained: 10 }));
+
+    // Twice the 0.14 USDC a day's growth normally yields
+    growFully();
+    harvest(ownerClient, earlyCrop);
+    expect(unitOfWork.crops.findById(earlyCrop)!.yieldAmount).toBe(0.27);
+
+    vi.setSystemTime(PLANTED_AT.getTime() + 48 * hour);
+    room.update(100);
+    expect(broadcast).toHaveBeenCalledWith('world_event_ended', { eventId: 'harvest_festival', name: 'Harvest Festival' });
+    expect(broadcast.mock.calls.filter(([type]) => type === 'world_event_started')).toHaveLength(1);
+  });
+
+  test('should let admins fast-forward a dev room through a whole crop cycle', () => {
+    vi.stubEnv('ENABLE_DEBUG_COMMANDS', 'true');
+    vi.stubEnv('ADMIN_PLAYER_IDS', owner);
+    const clock = new FakeClock(PLANTED_AT.getTime());
+
+    room.clock.clear();
+    room = new GameRoom(createGameRoomDependencies(unitOfWork, undefined, undefined, undefined, clock));
+    broadcast = muteBroadcasts(room);
+    room.onCreate({ worldOwnerId: owner });
+
+    const ownerClient = join(owner);
+    const helperClient = join(helper);
+    const cropId = plant(ownerClient, 400);
+    const { growthTime } = SEED_CONFIGS.usdc_sprout;
+
+    dispatch(room, helperClient, 'debug_fast_forward', { ms: growthTime });
+    expect(sent(helperClient, 'game_error')).toEqual([expect.objectContaining({ code: ERROR_CODES.PERMISSION_DENIED })]);
+    expect(room.state.crops.get(cropId)!.stage).toBe('seed');
+
+    // Real time stands still; only the room's clock moves
+    dispatch(room, ownerClient, 'debug_fast_forward', { ms: growthTime });
+    expect(clock.now()).toBe(PLANTED_AT.getTime() + growthTime);
+    expect(room.state.crops.get(cropId)!.stage).toBe('ready');
+    expect(broadcast).toHaveBeenCalledWith('debug_time_advanced', { advancedBy: growthTime, now: clock.now() });
+
+    harvest(ownerClient, cropId);
+    expect(sent(ownerClient, 'game_error')).toEqual([]);
+    expect(unitOfWork.crops.findById(cropId)!.yieldAmount).toBe(0.14);
+  });
+
+  test('should refuse to fast-forward unless debug commands are enabled', () => {
+    vi.stubEnv('ADMIN_PLAYER_IDS', owner);
+    const ownerClient = join(owner);
+
+    dispatch(room, ownerClient, 'debug_fast_forward', { ms: 1000 });
+
+    expect(sent(ownerClient, 'game_error')).toEqual([expect.objectContaining({ code: ERROR_CODES.PERMISSION_DENIED })]);
+  });
+
+  test('should count farm visits towards quests', () => {
+    const visitorClient = join(visitor);
+
+    expect(sent(visitorClient, 'quest_progress')).toEqual([{
+      quests: [expect.objectContaining({ id: 'farm_tourist', progress: 1, completed: false })]
+    }]);
+
+    // Visiting your own farm doesn't count
+    const ownerClient = join(owner);
+    expect(sent(ownerClient, 'quest_progress')).toEqual([]);
+  });
+
+  test('should count verified on-chain actions towards quests once', async () => {
+    const morpho = ON_CHAIN_ACTION_CONTRACTS[KATANA_CHAIN_ID].bank_deposit![0];
+    room.clock.clear();
+    room = new GameRoom({
+      ...createGameRoomDependencies(unitOfWork),
+      readTransaction: async () => ({ status: 'success', from: owner, to: morpho })
+    });
+    broadcast = muteBroadcasts(room);
+    room.onCreate({ worldOwnerId: owner });
+
+    const ownerClient = join(owner);
+    const report: ReportOnChainActionMessage = { action: 'bank_deposit', chainId: KATANA_CHAIN_ID, txHash: `0x${'ab'.repeat(32)}` };
+    dispatch(room, ownerClient, 'report_onchain_action', report);
+    await vi.advanceTimersByTimeAsync(0); // Let the chain lookup resolve
+
+    expect(sent(ownerClient, 'quest_completed')).toEqual([
+      expect.objectContaining({ questId: 'first_deposit', reward: expect.objectContaining({ cosmetic: 'bank_badge' }) })
+    ]);
+    expect(unitOfWork.quests.getCosmetics(owner)).toEqual(['bank_badge']);
+
+    dispatch(room, ownerClient, 'report_onchain_action', report);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sent(ownerClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.INVALID_TRANSACTION, message: 'Transaction was already counted' })
+    ]);
+    expect(sent(ownerClient, 'quest_completed')).toHaveLength(1);
+  });
+});
+
+describe.each(backends)('GameRoom world access (%s)', (_backend, createUnitOfWork) => {
+  const owner = privateKeyToAccount(generatePrivateKey()).address;
+  const friend = privateKeyToAccount(generatePrivateKey()).address;
+  const stranger = privateKeyToAccount(generatePrivateKey()).address;
+
+  let unitOfWork: IUnitOfWork;
+  let presence: WorldPresenceRegistry;
+  let rooms: LiveRoomRegistry;
+  let room: GameRoom;
+  let nextSession = 0;
+
+  function join(playerId?: string) {
+    const client = {
+      sessionId: `access_${++nextSession}`,
+      send: vi.fn(),
+      leave: vi.fn()
+    } as unknown as Client & { send: ReturnType<typeof vi.fn> };
+    const options: JoinOptions = playerId
+      ? { playerId, authToken: createAuthSession(playerId), name: playerId.slice(0, 8) }
+      : { playerId: 'guest', name: 'Guest' };
+
+    room.onJoin(client, options, room.onAuth(client, options));
+    room.clients.push(client); // Colyseus adds joined clients itself after onJoin
+    return client;
+  }
+
+  function openRoom(settings: Partial<WorldSettings>) {
+    unitOfWork.worlds.saveSettings(owner, { ...DEFAULT_WORLD_SETTINGS, ...settings });
+    room = new GameRoom(createGameRoomDependencies(unitOfWork, presence, undefined, undefined, undefined, undefined, rooms));
+    muteBroadcasts(room);
+    room.onCreate({ worldOwnerId: owner });
+  }
+
+  beforeEach(() => {
+    unitOfWork = createUnitOfWork();
+    presence = new WorldPresenceRegistry();
+    rooms = new LiveRoomRegistry();
+    unitOfWork.roles.grant(owner, friend, 'friend', owner);
+  });
+
+  afterEach(() => {
+    room.clock.clear();
+  });
+
+  test('should only let the owner and granted roles into friends-only farms', () => {
+    openRoom({ visibility: 'friends' });
+
+    expect(() => join(stranger)).toThrow('only open to friends');
+    expect(() => join()).toThrow('only open to friends');
+    join(friend);
+    join(owner);
+
+    expect(room.state.players.size).toBe(2);
+  });
+
+  test('should accept players who signed in on another region', async () => {
+    vi.resetModules();
+    const otherRegion = await import('../utils/auth'); // A fresh copy shares no state with this server's
+    openRoom({ visibility: 'friends' });
+
+    const client = { sessionId: 'other_region', send: vi.fn(), leave: vi.fn() } as unknown as Client;
+    const options: JoinOptions = { playerId: friend, authToken: otherRegion.createAuthSession(friend), name: 'Friend' };
+
+    expect(room.onAuth(client, options)).toEqual({ playerId: friend, isHost: false, role: 'friend', isGuest: false });
+  });
+
+  test('should load the farm saved under its checksummed address however the room was asked for', () => {
+    unitOfWork.worlds.saveSettings(owner, { ...DEFAULT_WORLD_SETTINGS, visibility: 'friends' });
+    room = new GameRoom(createGameRoomDependencies(unitOfWork, presence, undefined, undefined, undefined, undefined, rooms));
+    muteBroadcasts(room);
+    room.onCreate({ worldOwnerId: owner.toLowerCase() });
+
+    expect(() => join(stranger)).toThrow('only open to friends');
+    join(owner);
+    expect(presence.list()).toEqual([expect.objectContaining({ worldId: owner, hostOnline: true })]);
+  });
+
+  test('should match granted roles however the wallet address is cased', () => {
+    openRoom({});
+    const ownerClient = join(owner);
+    const strangerClient = join(stranger);
+
+    dispatch(room, ownerClient, 'set_role', { playerId: stranger.toLowerCase(), role: 'helper' });
+
+    expect(sent(strangerClient, 'role_changed')).toEqual([{ role: 'helper' }]);
+    expect(unitOfWork.roles.findRole(owner.toLowerCase(), stranger)).toBe('helper');
+
+    dispatch(room, ownerClient, 'set_role', { playerId: stranger, role: null });
+    expect(unitOfWork.roles.findRole(owner, stranger.toLowerCase())).toBeUndefined();
+  });
+
+  test('should refuse to grant roles to guests', () => {
+    openRoom({});
+    const ownerClient = join(owner);
+    join();
+    const guest = room.describe().players.find(player => player.playerId !== owner)!;
+
+    dispatch(room, ownerClient, 'set_role', { playerId: guest.playerId, role: 'helper' });
+
+    expect(sent(ownerClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.INVALID_REQUEST, details: { playerId: guest.playerId, role: 'helper' } })
+    ]);
+    expect(unitOfWork.roles.findByWorld(owner)).toHaveLength(1); // Only the friend granted in beforeEach
+  });
+
+  test('should turn away visitors over the limit without locking the room', () => {
+    openRoom({ maxVisitors: 2 });
+
+    join(friend);
+    join(stranger);
+    expect(() => join()).toThrow('full');
+    join(owner);
+
+    expect(room.state.players.size).toBe(3);
+    // A locked room would make matchmaking open a second room for the same farm
+    expect(room.hasReachedMaxClients()).toBe(false);
+    expect(room.describe().maxClients).toBe(3);
+  });
+
+  test('should apply settings saved while the room is open to new joins', () => {
+    openRoom({ visibility: 'unlisted' });
+    join(stranger);
+
+    unitOfWork.worlds.saveSettings(owner, { ...DEFAULT_WORLD_SETTINGS, visibility: 'friends' });
+
+    expect(() => join()).toThrow('only open to friends');
+  });
+
+  test('should publish who is in the farm as players join and leave', () => {
+    openRoom({});
+    const friendClient = join(friend);
+    join(owner);
+
+    expect(presence.list()).toEqual([{ worldId: owner, playerCount: 2, hostOnline: true, visitors: [friend.slice(0, 8)] }]);
+
+    room.onLeave(friendClient, true);
+    expect(presence.list()).toEqual([{ worldId: owner, playerCount: 1, hostOnline: true, visitors: [] }]);
+
+    room.onDispose();
+    expect(presence.list()).toEqual([]);
+  });
+
+  test('should disconnect banned players and refuse them until the ban is lifted', () => {
+    openRoom({});
+    const strangerClient = join(stranger);
+    join(owner);
+    const admin = new AdminService(unitOfWork, rooms);
+
+    expect(admin.getRoom(room.roomId)!.players.map(player => player.playerId)).toEqual([stranger, owner]);
+
+    expect(admin.banPlayer(owner, stranger.toLowerCase(), 'griefing').sessionsClosed).toBe(1);
+    expect(strangerClient.send).toHaveBeenCalledWith('kicked', { reason: 'Banned: griefing' });
+    expect(strangerClient.leave).toHaveBeenCalledWith(4403);
+    room.onLeave(strangerClient, false);
+
+    expect(() => join(stranger)).toThrow('You are banned: griefing');
+
+    admin.unbanPlayer(owner, stranger);
+    join(stranger);
+    expect(room.describe().players.map(player => player.playerId)).toEqual([owner, stranger]);
+
+    room.onDispose();
+    expect(rooms.list()).toEqual([]);
+  });
+
+  test('should keep banned players who rejoin as guests out of chat', () => {
+    openRoom({});
+    const strangerClient = join(stranger);
+    join(owner);
+    new AdminService(unitOfWork, rooms).banPlayer(owner, stranger, 'spam');
+    room.onLeave(strangerClient, false);
+
+    expect(() => join(stranger)).toThrow('You are banned: spam');
+    const guestClient = join();
+
+    dispatch(room, guestClient, 'chat', { text: 'back again' });
+
+    expect(sent(guestClient, 'game_error')).toEqual([
+      expect.objectContaining({ code: ERROR_CODES.SIGN_IN_REQUIRED, message: 'Sign in with your wallet to chat' })
+    ]);
+    expect(unitOfWork.chat.countByWorld(owner)).toBe(0);
+  });
+
+  test('should log database failures and only tell the client what failed', () => {
+    openRoom({});
+    const ownerClient = join(owner);
+    const failure = new Error('SQLITE_BUSY: database is locked at /srv/defivalley/game.db');
+    vi.spyOn(unitOfWork.chat, 'save').mockImplementation(() => { throw failure; });
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    dispatch(room, ownerClient, 'chat', { text: 'hello' });
+
+    expect(sent(ownerClient, 'game_error')).toEqual([
+      { code: ERROR_CODES.DATABASE_ERROR, message: 'Failed to send chat message' }
+    ]);
+    expect(logged).toHaveBeenCalledWith('❌ Error saving chat message:', failure);
+    logged.mockRestore();
+  });
+});
\ No newline at end of file
@@ -1,69 +1,305 @@
-import { Room, Client } from "colyseus";
+import { Room, Client, ServerError } from "colyseus";
+import {
+  ActiveWorldEvent,
+  BuildingManifest,
+  BuildingNetwork,
+  BUILDING_NETWORKS,
+  CHAT_MAX_LENGTH,
+  CollisionGrid,
+  DEFAULT_BUILDING_MANIFESTS,
+  DEFAULT_WORLD_SETTINGS,
+  GrowthStage,
+  MAX_MOVE_BUDGET,
+  MAX_TERRAIN_EDITS,
+  PLAYER_CONFIG,
+  WorldPermission,
+  WorldRole,
+  WorldSettings,
+  WorldVisibility,
+  QuestDefinition,
+  QuestEvent,
+  TerrainGenerationParams,
+  TerrainLayout,
+  accrueMoveBudget,
+  applyTerrainEdits,
+  createDefaultTerrain,
+  decodeTerrain,
+  encodeTerrain,
+  generateTerrain,
+  getBuildingFootprints,
+  getBuildingNetwork,
+  getLevelForXP,
+  hasPermission,
+  isBuildingNetwork,
+  isGrantableRole,
+  isOnChainQuestAction,
+  isSeedType,
+  isSeedUnlocked,
+  isValidTerrainEdit,
+  isWalletPlayerId,
+  randomTerrainSeed,
+  terrainTileHasCollision,
+  updateTerrainCollision,
+  validateBuildingPlacement,
+  validateMove
+} from "@defivalley/shared";
 import { GameState, Player, Crop } from "../schema/GameState";
-import { databaseService } from "../services/DatabaseService";
+import { databaseConnection } from "../services/DatabaseConnection";
+import { leaderboardService } from "../services/leaderboards";
+import { CropService } from "../domain/services/CropService";
+import { LeaderboardService } from "../domain/services/LeaderboardService";
+import { QuestService, QuestUpdate } from "../domain/services/QuestService";
+import { WorldEventScheduler } from "../domain/services/WorldEventScheduler";
+import { Crop as CropEntity } from "../domain/entities/Crop";
+import { IUnitOfWork } from "../repositories/interfaces/IUnitOfWork";
+import { IPlayerRepository } from "../repositories/interfaces/IPlayerRepository";
+import { IChatRepository } from "../repositories/interfaces/IChatRepository";
+import { IRoleRepository } from "../repositories/interfaces/IRoleRepository";
+import { IWorldRepository } from "../repositories/interfaces/IWorldRepository";
+import { IModerationRepository } from "../repositories/interfaces/IModerationRepository";
 import { 
   SeedType, 
-  SEED_CONFIGS, 
   PlantSeedMessage, 
   HarvestCropMessage,
+  WaterCropMessage,
+  SetRoleMessage,
+  EditTerrainMessage,
+  GenerateTerrainMessage,
+  TerrainUpdatedMessage,
+  TerrainSavedMessage,
+  SaveBuildingsMessage,
+  BuildingsUpdatedMessage,
+  MoveMessage,
+  SetChainMessage,
+  ChatInputMessage,
+  DeleteChatMessage,
+  ChatBroadcast,
+  toChatBroadcast,
+  CHAT_HISTORY_LIMIT,
+  PositionCorrectionMessage,
+  MovementState,
   GameError,
   ERROR_CODES,
-  CROP_COLLISION_RADIUS 
+  CropStageChangedMessage,
+  CropReadyMessage,
+  LevelUpMessage,
+  QuestCompletedMessage,
+  ReportOnChainActionMessage,
+  WorldEventStartedMessage,
+  WorldEventEndedMessage,
+  DebugFastForwardMessage,
+  ClientMessages,
+  MAX_FAST_FORWARD_MS,
+  SEED_CONFIGS
 } from "../types/game.types";
-import { JoinOptions, AuthenticatedClient } from "../types/auth.types";
-import { hashPlayerId } from "../utils/auth";
+import { JoinOptions, AuthenticatedClient, JoinAuthData } from "../types/auth.types";
+import { hashPlayerId, isAdmin } from "../utils/auth";
+import { resolveWorldAccess } from "../utils/worldAccess";
+import { normalizeWorldId, sanitizeChatMessage, validateBuildingManifest, validateTerrainGeneration } from "../utils/validation";
+import { MessageRateLimiter } from "../utils/rateLimiter";
+import { CropStageTracker } from "../utils/cropStages";
+import { WorldPresenceRegistry, worldPresence } from "../utils/worldPresence";
+import { LiveRoomDetails, LiveRoomRegistry, ModeratedRoom, liveRooms } from "../utils/liveRooms";
+import { loadQuestDefinitions } from "../utils/questDefinitions";
+import { loadWorldEventDefinitions } from "../utils/worldEventDefinitions";
+import { TransactionReader, readTransaction, verifyOnChainAction } from "../utils/onChainActions";
+import { DEFAULT_RATE_LIMIT_CONFIG, RateLimitConfig, RateLimitCounters } from "../types/rateLimit.types";
+import { Clock, OffsetClock, isAdjustableClock, systemClock } from "../utils/clock";
 
-export class GameRoom extends Room<GameState> {
-  maxClients = 10;
+// WebSocket close code sent to clients disconnected for flooding the room
+const RATE_LIMIT_CLOSE_CODE = 4429;
+
+// WebSocket close code sent to clients an admin kicked or banned
+const ADMIN_KICK_CLOSE_CODE = 4403;
+
+// Dev servers set ENABLE_DEBUG_COMMANDS=true to let admins fast-forward their rooms' clocks
+function debugCommandsEnabled(): boolean {
+  return process.env.ENABLE_DEBUG_COMMANDS === 'true';
+}
+
+// Wallet addresses may arrive checksummed or lowercased
+function isSamePlayer(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Everything the room reads and writes, injected so handlers can be tested against in-memory repositories
+export interface GameRoomDependencies {
+  cropService: CropService;
+  players: IPlayerRepository;
+  chat: IChatRepository;
+  roles: IRoleRepository;
+  worlds: IWorldRepository;
+  moderation: IModerationRepository;
+  worldPresence: WorldPresenceRegistry;
+  liveRooms: LiveRoomRegistry;
+  leaderboards: LeaderboardService;
+  quests: QuestService;
+  worldEvents: WorldEventScheduler;
+  readTransaction: TransactionReader;
+  clock: Clock; // Game time: crop growth, yields, events and quests (movement and rate limits use real time)
+  rateLimits: RateLimitConfig; // Per-session message limits
+}
+
+export function createGameRoomDependencies(
+  unitOfWork: IUnitOfWork,
+  presenceRegistry: WorldPresenceRegistry = worldPresence,
+  leaderboards: LeaderboardService = new LeaderboardService(unitOfWork.leaderboards),
+  questDefinitions: QuestDefinition[] = loadQuestDefinitions(),
+  clock: Clock = debugCommandsEnabled() ? new OffsetClock() : systemClock,
+  worldEvents: WorldEventScheduler = new WorldEventScheduler(loadWorldEventDefinitions(), clock),
+  roomRegistry: LiveRoomRegistry = liveRooms
+): GameRoomDependencies {
+  return {
+    cropService: new CropService(unitOfWork, clock),
+    players: unitOfWork.players,
+    chat: unitOfWork.chat,
+    roles: unitOfWork.roles,
+    worlds: unitOfWork.worlds,
+    moderation: unitOfWork.moderation,
+    worldPresence: presenceRegistry,
+    liveRooms: roomRegistry,
+    leaderboards,
+    quests: new QuestService(unitOfWork, questDefinitions, clock, leaderboards),
+    worldEvents,
+    readTransaction,
+    clock,
+    rateLimits: DEFAULT_RATE_LIMIT_CONFIG
+  };
+}
+
+export class GameRoom extends Room<GameState> implements ModeratedRoom {
+  // maxClients stays unlimited: Colyseus locks a full room and matchmaking would then open a
+  // second room for the same farm, so onAuth enforces the world's visitor limit instead
+  private maxVisitors = DEFAULT_WORLD_SETTINGS.maxVisitors;
   private worldOwnerId: string = 'default';
   private authenticatedClients = new Map<string, AuthenticatedClient>();
+  private movementStates = new Map<string, MovementState>();
+  private rateLimiter: MessageRateLimiter;
+  private cropStages = new CropStageTracker();
+  
+  // World events running in this farm, by event ID
+  private runningEvents = new Map<string, ActiveWorldEvent>();
   
-  // World size constants to match the client
-  private worldWidth = 3200;
-  private worldHeight = 2400;
+  // The farm's terrain, loaded once and kept in sync with every saved edit
+  private terrain: TerrainLayout = createDefaultTerrain();
+  
+  // The farm's building layout per network, defaults replaced by whatever the owner saved
+  private buildingManifests: Record<BuildingNetwork, BuildingManifest> = { ...DEFAULT_BUILDING_MANIFESTS };
+  
+  // Collision grids per building layout (terrain plus buildings), built on first use
+  private collisionGrids = new Map<BuildingNetwork, CollisionGrid>();
+  
+  private cropService: CropService;
+  private players: IPlayerRepository;
+  private chat: IChatRepository;
+  private roles: IRoleRepository;
+  private worlds: IWorldRepository;
+  private moderation: IModerationRepository;
+  private worldPresence: WorldPresenceRegistry;
+  private liveRooms: LiveRoomRegistry;
+  private leaderboards: LeaderboardService;
+  private quests: QuestService;
+  private worldEvents: WorldEventScheduler;
+  private readTransaction: TransactionReader;
+  private gameClock: Clock; // `clock` is taken by Colyseus' own timer
+  private visibility: WorldVisibility = DEFAULT_WORLD_SETTINGS.visibility;
+
+  constructor(
+    dependencies: GameRoomDependencies = createGameRoomDependencies(databaseConnection.unitOfWork, worldPresence, leaderboardService)
+  ) {
+    super();
+    this.cropService = dependencies.cropService;
+    this.players = dependencies.players;
+    this.chat = dependencies.chat;
+    this.roles = dependencies.roles;
+    this.worlds = dependencies.worlds;
+    this.moderation = dependencies.moderation;
+    this.worldPresence = dependencies.worldPresence;
+    this.liveRooms = dependencies.liveRooms;
+    this.leaderboards = dependencies.leaderboards;
+    this.quests = dependencies.quests;
+    this.worldEvents = dependencies.worldEvents;
+    this.readTransaction = dependencies.readTransaction;
+    this.gameClock = dependencies.clock;
+    this.rateLimiter = new MessageRateLimiter(dependencies.rateLimits);
+  }
 
   onCreate(options: any) {
     this.setState(new GameState());
     
-    // Get the world owner ID from options (defaults to 'default' for fallback)
-    this.worldOwnerId = options.worldOwnerId || 'default';
+    // Get the world owner ID from options (defaults to 'default' for fallback), in the form every
+    // repository keys the farm by
+    this.worldOwnerId = typeof options.worldOwnerId === 'string' && options.worldOwnerId
+      ? normalizeWorldId(options.worldOwnerId)
+      : 'default';
     
     console.log(`🎮 GameRoom created for world: ${this.worldOwnerId}`, options);
     
     // Load world-specific data from database
     this.loadWorldFromDatabase(this.worldOwnerId);
+    this.loadTerrain();
+    this.loadBuildings();
+    this.liveRooms.add(this);
+    this.loadWorldSettings();
+    this.syncWorldEvents();
     
-    // Set up message handlers
-    this.onMessage("move", (client, message) => {
-      const player = this.state.players.get(client.sessionId);
-      if (!player) return;
-      
-      player.x = Math.max(0, Math.min(this.worldWidth, message.x));
-      player.y = Math.max(0, Math.min(this.worldHeight, message.y));
-      player.lastActive = Date.now();
+    // Set up message handlers (each message type is rate limited per client)
+    this.onLimitedMessage("move", (client, message: MoveMessage) => {
+      this.handleMove(client, message);
     });
     
-    this.onMessage("chat", (client, message) => {
-      const player = this.state.players.get(client.sessionId);
-      if (!player) return;
+    this.onLimitedMessage("set_chain", (client, message: SetChainMessage) => {
+      const movement = this.movementStates.get(client.sessionId);
+      if (!movement || typeof message?.chainId !== 'number') return;
       
-      this.broadcast('chat', {
-        playerId: player.id,
-        name: player.name,
-        message: message.text,
-        timestamp: Date.now()
-      });
+      movement.network = getBuildingNetwork(message.chainId);
+    });
+    
+    this.onLimitedMessage("chat", (client, message: ChatInputMessage) => {
+      this.handleChat(client, message);
+    });
+    
+    this.onLimitedMessage("delete_chat", (client, message: DeleteChatMessage) => {
+      this.handleDeleteChat(client, message);
     });
     
-    this.onMessage("plant_seed", (client, message: PlantSeedMessage) => {
+    this.onLimitedMessage("plant_seed", (client, message: PlantSeedMessage) => {
       this.handlePlantSeed(client, message);
     });
     
-    this.onMessage("harvest_crop", (client, message: HarvestCropMessage) => {
+    this.onLimitedMessage("harvest_crop", (client, message: HarvestCropMessage) => {
       this.handleHarvestCrop(client, message);
     });
     
-    this.onMessage("ping", (client, message) => {
+    this.onLimitedMessage("water_crop", (client, message: WaterCropMessage) => {
+      this.handleWaterCrop(client, message);
+    });
+    
+    this.onLimitedMessage("set_role", (client, message: SetRoleMessage) => {
+      this.handleSetRole(client, message);
+    });
+    
+    this.onLimitedMessage("edit_terrain", (client, message: EditTerrainMessage) => {
+      this.handleEditTerrain(client, message);
+    });
+    
+    this.onLimitedMessage("generate_terrain", (client, message: GenerateTerrainMessage) => {
+      this.handleGenerateTerrain(client, message);
+    });
+    
+    this.onLimitedMessage("save_buildings", (client, message: SaveBuildingsMessage) => {
+      this.handleSaveBuildings(client, message);
+    });
+    
+    this.onLimitedMessage("report_onchain_action", (client, message: ReportOnChainActionMessage) => {
+      return this.handleReportOnChainAction(client, message);
+    });
+    
+    this.onLimitedMessage("debug_fast_forward", (client, message: DebugFastForwardMessage) => {
+      this.handleDebugFastForward(client, message);
+    });
+    
+    this.onLimitedMessage("ping", (client, message) => {
       client.send('pong', { timestamp: Date.now() });
     });
     
@@ -71,37 +307,69 @@ export class GameRoom extends Room<GameState> {
     this.setSimulationInterval((deltaTime) => this.update(deltaTime), 100);
   }
 
-  onJoin(client: Client, options: JoinOptions) {
-    // Get the actual player ID from options (validated on frontend)
-    const playerId = options.playerId || hashPlayerId(client.sessionId);
-    
-    // Determine if this client is the world owner (host) or a visitor
-    const isHost = playerId === this.worldOwnerId;
+  onAuth(client: Client, options: JoinOptions): JoinAuthData {
+    // Re-read the settings so changes made while the room is open apply to new joins
+    const settings = this.loadWorldSettings();
+
+    // The player ID comes from the verified wallet session, never from options.playerId
+    const { playerId, isHost, role } = resolveWorldAccess(options.authToken, this.worldOwnerId, settings, {
+      roles: this.roles,
+      moderation: this.moderation
+    });
+    const auth: JoinAuthData = {
+      playerId: playerId ?? hashPlayerId(client.sessionId),
+      isHost,
+      role,
+      isGuest: playerId === null
+    };
+
+    // The owner can always enter their own farm
+    if (!isHost) {
+      this.checkVisitorCapacity(settings);
+    }
+
+    return auth;
+  }
+
+  onJoin(client: Client, options: JoinOptions, auth: JoinAuthData) {
+    const { playerId, isHost, role, isGuest } = auth;
     
     // Store authenticated client info
     this.authenticatedClients.set(client.sessionId, {
       sessionId: client.sessionId,
       playerId,
-      isHost
+      isHost,
+      role,
+      isGuest
     });
     
-    console.log(`👋 ${client.sessionId} (${playerId}) joined world ${this.worldOwnerId} as ${isHost ? 'HOST' : 'VISITOR'}`);
+    console.log(`👋 ${client.sessionId} (${playerId}) joined world ${this.worldOwnerId} as ${role.toUpperCase()}`);
     
     // Create a new player
     const player = new Player();
     player.id = playerId;  // Use the actual player ID
     player.name = options.name || `Player ${playerId.substr(0, 8)}`;
-    player.x = Math.random() * this.worldWidth; // Random spawn position
-    player.y = Math.random() * this.worldHeight;
+    player.x = PLAYER_CONFIG.spawnPosition.x;
+    player.y = PLAYER_CONFIG.spawnPosition.y;
     player.connected = true;
+    player.role = role;
+    
+    // Start with a full budget so the first updates after joining are accepted
+    this.movementStates.set(client.sessionId, {
+      budget: MAX_MOVE_BUDGET,
+      lastMoveAt: Date.now(),
+      network: getBuildingNetwork(options.chainId)
+    });
     
     // Load player data from database (only load XP for the world owner)
     if (isHost) {
-      const dbPlayer = databaseService.getPlayer(playerId, player.name);
+      const dbPlayer = this.players.findByIdOrCreate(playerId, player.name);
       player.xp = dbPlayer.xp;
+      player.level = dbPlayer.getLevel();
     } else {
-      // Visitors start with 0 XP in this world context
+      // Visitors start with 0 XP in this world context, but keep their level
       player.xp = 0;
+      player.level = this.players.findById(playerId)?.getLevel() ?? 1;
     }
     
     // Add player to game state
@@ -118,8 +386,15 @@ export class GameRoom extends Room<GameState> {
       playerId: playerId,  // Send the actual player ID
       sessionId: client.sessionId,  // Also send session ID for client reference
       isHost: isHost,
+      role: role,
       worldOwnerId: this.worldOwnerId,
-      worldOwnerName: worldOwnerName
+      worldOwnerName: worldOwnerName,
+      chatHistory: this.getChatHistory(),
+      quests: this.getQuestLog(playerId),
+      worldEvents: Array.from(this.runningEvents.values()),
+      terrain: encodeTerrain(this.terrain),
+      terrainGeneration: this.getTerrainGeneration(),
+      buildings: this.buildingManifests
     });
     
     // Broadcast to all other clients
@@ -129,6 +404,13 @@ export class GameRoom extends Room<GameState> {
       isHost: isHost,
       totalPlayers: this.state.players.size
     }, { except: client });
+    
+    // Visiting someone else's farm counts towards exploration quests
+    if (!isHost && this.worldOwnerId !== 'default') {
+      this.recordQuestEvent(client, player, playerId, { type: 'farm_visited', data: { worldId: this.worldOwnerId } });
+    }
+    
+    this.publishPresence();
   }
 
 
@@ -137,6 +419,9 @@ export class GameRoom extends Room<GameState> {
     
     // Clean up authenticated client info
     this.authenticatedClients.delete(client.sessionId);
+    this.movementStates.delete(client.sessionId);
+    this.rateLimiter.removeSession(client.sessionId);
+    this.publishPresence();
     
     const player = this.state.players.get(client.sessionId);
     if (player) {
@@ -155,7 +440,122 @@ export class GameRoom extends Room<GameState> {
   }
 
   onDispose() {
-    console.log("🗑️ GameRoom disposed");
+    this.worldPresence.remove(this.roomId);
+    this.liveRooms.remove(this.roomId);
+    const counters = this.rateLimiter.getCounters();
+    console.log(`🗑️ GameRoom disposed (messages allowed: ${counters.allowed}, rate limited: ${counters.limited}, clients disconnected: ${counters.disconnected})`);
+  }
+
+  /**
+   * Who is connected and what is running, for the admin API
+   */
+  describe(): LiveRoomDetails {
+    return {
+      roomId: this.roomId,
+      worldId: this.worldOwnerId,
+      playerCount: this.clients.length,
+      maxClients: this.maxVisitors + 1, // A seat for the owner on top of the visitors
+      cropCount: this.state.crops.size,
+      players: Array.from(this.authenticatedClients.values()).map(info => ({
+        sessionId: info.sessionId,
+        playerId: info.playerId,
+        name: this.state.players.get(info.sessionId)?.name ?? '',
+        role: info.role,
+        isHost: info.isHost
+      })),
+      worldEvents: Array.from(this.runningEvents.keys())
+    };
+  }
+
+  /**
+   * Disconnect every session of a player (admin kick or ban), returning how many were closed
+   */
+  kickPlayer(playerId: string, reason: string): number {
+    let closed = 0;
+    for (const client of this.sessionsOf(playerId)) {
+      client.send('kicked', { reason });
+      client.leave(ADMIN_KICK_CLOSE_CODE);
+      closed++;
+    }
+
+    if (closed > 0) {
+      console.log(`🚫 Removed ${playerId} from world ${this.worldOwnerId}: ${reason}`);
+    }
+    return closed;
+  }
+
+  /**
+   * Show a name an admin gave a player on their connected sessions
+   */
+  renamePlayer(playerId: string, name: string) {
+    const sessions = this.sessionsOf(playerId);
+    for (const client of sessions) {
+      const player = this.state.players.get(client.sessionId);
+      if (player) {
+        player.name = name;
+      }
+    }
+
+    if (sessions.length > 0) {
+      this.publishPresence();
+    }
+  }
+
+  /**
+   * Mirror a crop an admin harvested or deleted
+   */
+  removeCrop(cropId: string, harvested: boolean) {
+    const crop = this.state.crops.get(cropId);
+    if (!crop) return;
+
+    this.cropStages.untrack(cropId);
+    if (!harvested) {
+      this.state.crops.delete(cropId);
+      return;
+    }
+
+    // Like a normal harvest, the crop stays visible as harvested for a moment
+    crop.harvested = true;
+    setTimeout(() => {
+      this.state.crops.delete(cropId);
+    }, 5000);
+  }
+
+  /**
+   * Rate limiting counters for this room
+   */
+  getRateLimitCounters(): RateLimitCounters {
+    return this.rateLimiter.getCounters();
+  }
+
+  /**
+   * Register a message handler that only runs while the client is within its rate limit
+   */
+  private onLimitedMessage<K extends keyof ClientMessages>(
+    type: K,
+    handler: (client: Client, message: ClientMessages[K]) => void | Promise<void>
+  ) {
+    this.onMessage(type, (client: Client, message: ClientMessages[K]): void | Promise<void> => {
+      const result = this.rateLimiter.consume(client.sessionId, type);
+      
+      if (result === 'allowed') {
+        return handler(client, message);
+      }
+      
+      // Echo the request ID so the client can roll back whatever it was waiting on
+      const requestId = (message as { requestId?: unknown } | undefined)?.requestId;
+      this.sendError(client, {
+        requestId: typeof requestId === 'string' ? requestId : undefined,
+        code: ERROR_CODES.RATE_LIMITED,
+        message: `Too many "${type}" messages, slow down`,
+        details: { type }
+      });
+      
+      if (result === 'disconnect') {
+        console.warn(`🚫 Disconnecting ${client.sessionId} from world ${this.worldOwnerId} for repeatedly exceeding rate limits`);
+        client.leave(RATE_LIMIT_CLOSE_CODE);
+      }
+    });
   }
 
   update(deltaTime: number) {
@@ -169,11 +569,137 @@ export class GameRoom extends Room<GameState> {
         player.connected = false;
       }
     });
+    
+    // Advance crops that reached their next growth stage
+    for (const change of this.cropStages.advance(this.gameClock.now())) {
+      const crop = this.state.crops.get(change.cropId);
+      if (crop && !crop.harvested) {
+        this.setCropStage(crop, change.stage);
+      }
+    }
+
+    this.syncWorldEvents();
+  }
+
+  /**
+   * Announce world events that started or ended since the last check
+   */
+  private syncWorldEvents() {
+    let active: ActiveWorldEvent[];
+    try {
+      active = this.worldEvents.getActiveEvents(this.worldOwnerId);
+    } catch (error) {
+      console.error('❌ Error checking world events:', error);
+      return;
+    }
+
+    const activeIds = new Set(active.map(event => event.id));
+    for (const [eventId, event] of this.runningEvents) {
+      if (activeIds.has(eventId)) continue;
+
+      this.runningEvents.delete(eventId);
+      const ended: WorldEventEndedMessage = { eventId, name: event.name };
+      this.broadcast('world_event_ended', ended);
+      console.log(`🏁 World event ${eventId} ended in world ${this.worldOwnerId}`);
+    }
+
+    for (const event of active) {
+      if (this.runningEvents.has(event.id)) continue;
+
+      this.runningEvents.set(event.id, event);
+      const started: WorldEventStartedMessage = { event };
+      this.broadcast('world_event_started', started);
+      console.log(`🎉 World event ${event.id} started in world ${this.worldOwnerId}`);
+    }
+  }
+
+  /**
+   * (Re)schedule a crop's growth stage updates, e.g. after planting or watering
+   */
+  private trackCropStage(crop: Crop, now: number = this.gameClock.now()) {
+    const stage = this.cropStages.track(crop.id, {
+      plantedAt: new Date(crop.plantedAt).getTime(),
+      growthTime: crop.growthTime,
+      growthBoost: crop.growthBoost
+    }, now);
+    this.setCropStage(crop, stage);
+  }
+
+  private setCropStage(crop: Crop, stage: GrowthStage) {
+    if (crop.stage === stage) return;
+    
+    const previousStage = crop.stage as GrowthStage;
+    crop.stage = stage;
+    
+    const stageChanged: CropStageChangedMessage = { cropId: crop.id, previousStage, stage };
+    this.broadcast('crop_stage_changed', stageChanged);
+    
+    if (stage === 'ready') {
+      const ready: CropReadyMessage = { cropId: crop.id, playerId: crop.playerId, seedType: crop.seedType as SeedType };
+      this.broadcast('crop_ready', ready);
+    }
+  }
+
+  /**
+   * Sync a player's level after they gained XP, announcing it to the room if it went up
+   */
+  private updateLevel(client: Client, player: Player, previousXP: number, newXP: number) {
+    const oldLevel = getLevelForXP(previousXP);
+    const newLevel = getLevelForXP(newXP);
+    player.level = newLevel;
+
+    if (newLevel > oldLevel) {
+      const levelUp: LevelUpMessage = { sessionId: client.sessionId, playerId: player.id, oldLevel, newLevel };
+      this.broadcast('player:levelUp', levelUp);
+      console.log(`⭐ ${player.name} reached level ${newLevel}`);
+    }
+  }
+
+  /**
+   * A player's quests with their progress (empty if progress can't be loaded)
+   */
+  private getQuestLog(playerId: string) {
+    try {
+      return this.quests.getQuestLog(playerId);
+    } catch (error) {
+      console.error('❌ Error loading quest log:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Count an action towards the player's quests. Quest failures are logged, never
+   * surfaced, so they can't break the action that triggered them.
+   */
+  private recordQuestEvent(client: Client, player: Player, playerId: string, event: QuestEvent) {
+    try {
+      this.sendQuestUpdate(client, player, this.quests.record(playerId, player.name, event));
+    } catch (error) {
+      console.error(`❌ Error recording quest event ${event.type}:`, error);
+    }
+  }
+
+  private sendQuestUpdate(client: Client, player: Player, update: QuestUpdate) {
+    if (update.updated.length > 0) {
+      client.send('quest_progress', { quests: update.updated });
+    }
+
+    for (const { quest, previousXP, newXP } of update.completed) {
+      const completed: QuestCompletedMessage = { questId: quest.id, title: quest.title, reward: quest.reward };
+      client.send('quest_completed', completed);
+      console.log(`🏅 ${player.name} completed quest ${quest.id}`);
+
+      // The room only mirrors the owner's XP (see onJoin), but everyone's level
+      if (this.authenticatedClients.get(client.sessionId)?.isHost) {
+        player.xp = newXP;
+      }
+      this.updateLevel(client, player, previousXP, newXP);
+    }
   }
 
   private loadWorldFromDatabase(worldOwnerId: string) {
     try {
-      const worldData = databaseService.getWorldData(worldOwnerId);
+      const worldData = this.cropService.getWorldData(worldOwnerId);
       
       if (!worldData.player) {
         console.log(`🆕 Creating new world for player: ${worldOwnerId}`);
@@ -181,17 +707,13 @@ export class GameRoom extends Room<GameState> {
       }
       
       // Load crops specific to this world
-      for (const dbCrop of worldData.crops) {
-        const crop = new Crop();
-        crop.id = dbCrop.id;
-        crop.playerId = dbCrop.player_id;
-        crop.seedType = dbCrop.seed_type;
-        crop.x = dbCrop.x;
-        crop.y = dbCrop.y;
-        crop.plantedAt = dbCrop.planted_at;
-        crop.growthTime = dbCrop.growth_time;
-        crop.investmentAmount = dbCrop.investment_amount;
-        crop.harvested = dbCrop.harvested;
+      for (const cropEntity of worldData.crops) {
+        const crop = this.toCropState(cropEntity);
+        crop.stage = this.cropStages.track(crop.id, {
+          plantedAt: cropEntity.plantedAt.getTime(),
+          growthTime: crop.growthTime,
+          growthBoost: crop.growthBoost
+        }, this.gameClock.now());
         
         this.state.crops.set(crop.id, crop);
       }
@@ -202,133 +724,374 @@ export class GameRoom extends Room<GameState> {
     }
   }
 
+  private toCropState(cropEntity: CropEntity): Crop {
+    const crop = new Crop();
+    crop.id = cropEntity.id;
+    crop.playerId = cropEntity.playerId;
+    crop.seedType = cropEntity.seedType;
+    crop.x = cropEntity.x;
+    crop.y = cropEntity.y;
+    crop.plantedAt = cropEntity.plantedAt.toISOString();
+    crop.growthTime = cropEntity.growthTime;
+    crop.investmentAmount = cropEntity.investmentAmount;
+    crop.harvested = cropEntity.harvested;
+    crop.growthBoost = cropEntity.growthBoost;
+    crop.lastWatered = cropEntity.lastWateredAt?.toISOString() ?? '';
+    return crop;
+  }
+
+  /**
+   * Load the farm's saved terrain, falling back to plain grass if it has none or it is corrupt
+   */
+  private loadTerrain() {
+    try {
+      const saved = this.worlds.getTerrain(this.worldOwnerId);
+      if (saved) {
+        this.terrain = decodeTerrain(saved);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading terrain for ${this.worldOwnerId}:`, error);
+    }
+  }
+
+  /**
+   * Load the building layouts the owner saved; networks without one keep the default manifest
+   */
+  private loadBuildings() {
+    for (const network of BUILDING_NETWORKS) {
+      try {
+        const saved = this.worlds.getBuildingManifest(this.worldOwnerId, network);
+        if (saved) {
+          this.buildingManifests[network] = saved;
+        }
+      } catch (error) {
+        console.error(`❌ Error loading ${network} buildings for ${this.worldOwnerId}:`, error);
+      }
+    }
+  }
+
+  private getTerrainGeneration(): TerrainGenerationParams | null {
+    try {
+      return this.worlds.getTerrainGeneration(this.worldOwnerId);
+    } catch (error) {
+      console.error('❌ Error loading terrain generation:', error);
+      return null;
+    }
+  }
+
   private getWorldOwnerName(): string {
     try {
-      const worldData = databaseService.getWorldData(this.worldOwnerId);
-      return worldData.player?.name || `Player_${this.worldOwnerId.slice(0, 8)}`;
+      return this.players.findById(this.worldOwnerId)?.name || `Player_${this.worldOwnerId.slice(0, 8)}`;
     } catch (error) {
       return `Player_${this.worldOwnerId.slice(0, 8)}`;
     }
   }
 
+  /**
+   * Load the world's settings (visitor limit and visibility) into the room
+   */
+  private loadWorldSettings(): WorldSettings {
+    let settings: WorldSettings;
+    try {
+      settings = this.worlds.getSettings(this.worldOwnerId);
+    } catch (error) {
+      console.error('❌ Error loading world settings:', error);
+      settings = { ...DEFAULT_WORLD_SETTINGS, tags: [] };
+    }
+
+    this.maxVisitors = settings.maxVisitors;
+    this.visibility = settings.visibility;
+    return settings;
+  }
+
+  /**
+   * Report who is connected to the world browser's presence registry
+   */
+  private publishPresence() {
+    // The generic 'game' room is not anyone's farm
+    if (this.worldOwnerId === 'default') return;
+
+    const connected = Array.from(this.authenticatedClients.values());
+    const visitors = connected
+      .filter(info => !info.isHost)
+      .map(info => this.state.players.get(info.sessionId)?.name ?? `Player ${info.playerId.substr(0, 8)}`);
+
+    this.worldPresence.update(this.roomId, {
+      worldId: this.worldOwnerId,
+      playerCount: connected.length,
+      hostOnline: connected.some(info => info.isHost),
+      visitors,
+      visibility: this.visibility
+    });
+  }
+
+  /**
+   * Refuse a non-owner join when the farm already holds its maximum number of visitors
+   */
+  private checkVisitorCapacity(settings: WorldSettings) {
+    const visitors = Array.from(this.authenticatedClients.values()).filter(info => !info.isHost).length;
+    if (visitors >= settings.maxVisitors) {
+      throw new ServerError(403, `This farm is full (${settings.maxVisitors} visitors)`);
+    }
+  }
+
+  // Connected clients signed in as the player (wallet addresses may differ in case)
+  private sessionsOf(playerId: string): Client[] {
+    return this.clients.filter(client =>
+      this.authenticatedClients.get(client.sessionId)?.playerId.toLowerCase() === playerId.toLowerCase()
+    );
+  }
+
   private sendError(client: Client, error: GameError) {
     client.send('game_error', error);
   }
 
-  private handlePlantSeed(client: Client, message: PlantSeedMessage) {
+  /**
+   * The client's auth info if its role allows the action, otherwise sends PERMISSION_DENIED
+   */
+  private authorize(client: Client, permission: WorldPermission, action: string, requestId?: string): AuthenticatedClient | undefined {
+    const authClient = this.authenticatedClients.get(client.sessionId);
+    if (authClient && hasPermission(authClient.role, permission)) {
+      return authClient;
+    }
+    
+    this.sendError(client, {
+      requestId,
+      code: ERROR_CODES.PERMISSION_DENIED,
+      message: `You don't have permission to ${action} on this farm`,
+      details: { worldOwnerId: this.worldOwnerId, role: authClient?.role || 'visitor', permission }
+    });
+    return undefined;
+  }
+
+  /**
+   * Recent chat for this world, oldest first
+   */
+  private getChatHistory(): ChatBroadcast[] {
+    try {
+      return this.chat
+        .findByWorld(this.worldOwnerId, CHAT_HISTORY_LIMIT)
+        .reverse()
+        .map(toChatBroadcast);
+    } catch (error) {
+      console.error('❌ Error loading chat history:', error);
+      return [];
+    }
+  }
+
+  private handleChat(client: Client, message: ChatInputMessage) {
     const player = this.state.players.get(client.sessionId);
-    if (!player) {
+    if (!player) return;
+    
+    // Guests get a fresh identity on every join, so a ban can't hold them: only
+    // signed-in players may chat, otherwise a banned player could rejoin as a guest to talk
+    if (this.authenticatedClients.get(client.sessionId)?.isGuest !== false) {
       this.sendError(client, {
-        code: ERROR_CODES.PLAYER_NOT_FOUND,
-        message: 'Player not found'
+        code: ERROR_CODES.SIGN_IN_REQUIRED,
+        message: 'Sign in with your wallet to chat'
       });
       return;
     }
-
-    // Check if player is the world owner (only host can plant)
-    const authClient = this.authenticatedClients.get(client.sessionId);
-    if (!authClient || !authClient.isHost) {
+    
+    const text = sanitizeChatMessage(message?.text);
+    if (!text) {
       this.sendError(client, {
-        code: ERROR_CODES.INVALID_REQUEST,
-        message: 'Only the farm owner can plant seeds',
-        details: { worldOwnerId: this.worldOwnerId, playerId: authClient?.playerId || 'unknown' }
+        code: ERROR_CODES.INVALID_CHAT_MESSAGE,
+        message: `Chat messages must be between 1 and ${CHAT_MAX_LENGTH} characters`
       });
       return;
     }
+    
+    try {
+      const record = this.chat.save({
+        worldId: this.worldOwnerId,
+        playerId: player.id,
+        playerName: player.name,
+        message: text,
+        timestamp: Date.now()
+      });
+      
+      this.broadcast('chat', toChatBroadcast(record));
+    } catch (error) {
+      console.error('❌ Error saving chat message:', error);
+      this.sendError(client, {
+        code: ERROR_CODES.DATABASE_ERROR,
+        message: 'Failed to send chat message'
+      });
+    }
+  }
 
-    // Validate the plant seed request
-    const { seedType, x, y, investmentAmount } = message;
+  private handleDeleteChat(client: Client, message: DeleteChatMessage) {
+    if (!this.authorize(client, 'moderate_chat', 'delete chat messages')) return;
     
-    if (!seedType || typeof x !== 'number' || typeof y !== 'number' || !investmentAmount) {
+    if (!Number.isInteger(message?.messageId)) {
       this.sendError(client, {
         code: ERROR_CODES.INVALID_REQUEST,
-        message: 'Invalid plant seed request',
-        details: { seedType, x, y, investmentAmount }
+        message: 'Invalid chat message ID'
       });
       return;
     }
-
-    // Check if position is already occupied (with radius checking)
-    if (databaseService.isPositionOccupied(x, y, CROP_COLLISION_RADIUS)) {
+    
+    try {
+      if (!this.chat.delete(this.worldOwnerId, message.messageId)) {
+        this.sendError(client, {
+          code: ERROR_CODES.CHAT_MESSAGE_NOT_FOUND,
+          message: 'Chat message not found'
+        });
+        return;
+      }
+      
+      console.log(`🧹 Chat message ${message.messageId} deleted in world ${this.worldOwnerId}`);
+      this.broadcast('chat_deleted', { messageId: message.messageId });
+    } catch (error) {
+      console.error('❌ Error deleting chat message:', error);
       this.sendError(client, {
-        code: ERROR_CODES.POSITION_OCCUPIED,
-        message: 'Position already occupied or too close to another crop',
-        details: { x, y, radius: CROP_COLLISION_RADIUS }
+        code: ERROR_CODES.DATABASE_ERROR,
+        message: 'Failed to delete chat message'
       });
+    }
+  }
+
+  private getCollisionGrid(network: BuildingNetwork): CollisionGrid {
+    let grid = this.collisionGrids.get(network);
+    if (!grid) {
+      grid = new CollisionGrid();
+      grid.markTerrain(this.terrain, terrainTileHasCollision);
+      for (const footprint of getBuildingFootprints(this.buildingManifests[network])) {
+        grid.markRect(footprint);
+      }
+      this.collisionGrids.set(network, grid);
+    }
+    return grid;
+  }
+
+  private handleMove(client: Client, message: MoveMessage) {
+    const player = this.state.players.get(client.sessionId);
+    const movement = this.movementStates.get(client.sessionId);
+    if (!player || !movement || !message) return;
+
+    // Drop duplicate or out-of-order inputs
+    const seq = typeof message.seq === 'number' ? message.seq : player.lastAckSeq + 1;
+    if (seq <= player.lastAckSeq) return;
+
+    const from = { x: player.x, y: player.y };
+    const to = message.dx !== undefined || message.dy !== undefined
+      ? { x: from.x + Number(message.dx ?? 0), y: from.y + Number(message.dy ?? 0) }
+      : { x: Number(message.x), y: Number(message.y) };
+
+    const now = Date.now();
+    const budget = accrueMoveBudget(movement.budget, now - movement.lastMoveAt);
+    const result = validateMove(from, to, budget, this.getCollisionGrid(movement.network));
+
+    movement.budget = result.budget;
+    movement.lastMoveAt = now;
+    player.lastActive = now;
+    player.lastAckSeq = seq;
+
+    if (!result.accepted) {
+      // Tell the client where it really is so it can replay its pending inputs
+      const correction: PositionCorrectionMessage = {
+        seq,
+        x: result.x,
+        y: result.y,
+        reason: result.reason!
+      };
+      client.send('position_correction', correction);
       return;
     }
 
-    // Validate seed type
-    const seedConfig = SEED_CONFIGS[seedType];
-    if (!seedConfig) {
+    player.x = result.x;
+    player.y = result.y;
+  }
+
+  private handlePlantSeed(client: Client, message: PlantSeedMessage) {
+    const requestId = typeof message?.requestId === 'string' ? message.requestId : undefined;
+    const player = this.state.players.get(client.sessionId);
+    if (!player) {
       this.sendError(client, {
-        code: ERROR_CODES.INVALID_SEED_TYPE,
-        message: 'Invalid seed type',
-        details: { seedType, validTypes: Object.keys(SEED_CONFIGS) }
+        requestId,
+        code: ERROR_CODES.PLAYER_NOT_FOUND,
+        message: 'Player not found'
       });
       return;
     }
 
-    if (investmentAmount < seedConfig.minInvestment) {
+    // The owner and helpers can plant (helpers invest their own funds)
+    const authClient = this.authorize(client, 'plant', 'plant seeds', requestId);
+    if (!authClient) return;
+
+    // Validate the plant seed request
+    const { seedType, x, y, investmentAmount } = message;
+    
+    if (!seedType || typeof x !== 'number' || typeof y !== 'number' || typeof investmentAmount !== 'number') {
       this.sendError(client, {
-        code: ERROR_CODES.INSUFFICIENT_INVESTMENT,
-        message: `Minimum investment for ${seedType} is ${seedConfig.minInvestment} USDC`,
-        details: { seedType, minInvestment: seedConfig.minInvestment, provided: investmentAmount }
+        requestId,
+        code: ERROR_CODES.INVALID_REQUEST,
+        message: 'Invalid plant seed request',
+        details: { seedType, x, y, investmentAmount }
       });
       return;
     }
 
-    // Use transaction to ensure atomicity
-    try {
-      const result = databaseService.transaction(() => {
-        // Create crop in database
-        const now = new Date().toISOString();
-        const cropId = databaseService.saveCrop({
-          player_id: authClient.playerId,
-          seed_type: seedType,
-          x: x,
-          y: y,
-          planted_at: now,
-          growth_time: seedConfig.growthTime,
-          investment_amount: investmentAmount,
-          harvested: false
+    // Higher seed tiers unlock as the planter levels up
+    if (isSeedType(seedType)) {
+      const level = this.players.findById(authClient.playerId)?.getLevel() ?? 1;
+      if (!isSeedUnlocked(seedType, level)) {
+        const requiredLevel = SEED_CONFIGS[seedType].requiredLevel;
+        this.sendError(client, {
+          requestId,
+          code: ERROR_CODES.LEVEL_TOO_LOW,
+          message: `Reach level ${requiredLevel} to plant ${seedType}`,
+          details: { seedType, level, requiredLevel }
         });
+        return;
+      }
+    }
 
-        // Update player XP
-        const newXP = player.xp + seedConfig.xpGain;
-        databaseService.updatePlayerXP(authClient.playerId, newXP);
+    try {
+      const result = this.cropService.plantCrop(
+        authClient.playerId,
+        player.name,
+        this.worldOwnerId,
+        seedType,
+        x,
+        y,
+        investmentAmount,
+        new Date(this.gameClock.now()),
+        this.worldEvents.getModifiers(this.worldOwnerId)
+      );
+      
+      if (!result.success || !result.crop) {
+        this.sendError(client, { requestId, ...result.error! });
+        return;
+      }
 
-        return { cropId, now, newXP };
-      });
+      this.leaderboards.invalidate();
 
       // Create crop in game state
-      const crop = new Crop();
-      crop.id = result.cropId;
-      crop.playerId = authClient.playerId;
-      crop.seedType = seedType;
-      crop.x = x;
-      crop.y = y;
-      crop.plantedAt = result.now;
-      crop.growthTime = seedConfig.growthTime;
-      crop.investmentAmount = investmentAmount;
-      crop.harvested = false;
-
-      this.state.crops.set(result.cropId, crop);
-      player.xp = result.newXP;
+      const crop = this.toCropState(result.crop);
+      this.state.crops.set(crop.id, crop);
+      this.trackCropStage(crop);
+      if (authClient.isHost) {
+        player.xp = result.newXP!;
+      }
+      this.updateLevel(client, player, result.newXP! - result.xpGained!, result.newXP!);
+      this.recordQuestEvent(client, player, authClient.playerId, { type: 'crop_planted', data: { seedType } });
 
       // Send success response
       client.send('seed_planted', {
-        cropId: result.cropId,
+        requestId,
+        cropId: crop.id,
         seedType: seedType,
         x: x,
         y: y,
-        xpGained: seedConfig.xpGain,
+        xpGained: result.xpGained,
         newXP: result.newXP
       });
 
       // Broadcast to all players
       this.broadcast('crop_planted', {
-        cropId: result.cropId,
+        cropId: crop.id,
         playerId: authClient.playerId,
         playerName: player.name,
         seedType: seedType,
@@ -338,9 +1101,9 @@ export class GameRoom extends Room<GameState> {
     } catch (error) {
       console.error('❌ Error planting seed:', error);
       this.sendError(client, {
+        requestId,
         code: ERROR_CODES.DATABASE_ERROR,
-        message: 'Failed to plant seed',
-        details: error
+        message: 'Failed to plant seed'
       });
     }
 
@@ -356,18 +1119,20 @@ export class GameRoom extends Room<GameState> {
       return;
     }
 
-    // Check if player is the world owner (only host can harvest)
-    const authClient = this.authenticatedClients.get(client.sessionId);
-    if (!authClient || !authClient.isHost) {
+    // The owner and helpers can harvest
+    const authClient = this.authorize(client, 'harvest', 'harvest crops');
+    if (!authClient) return;
+
+    const { cropId } = message ?? {};
+    if (typeof cropId !== 'string' || !cropId) {
       this.sendError(client, {
         code: ERROR_CODES.INVALID_REQUEST,
-        message: 'Only the farm owner can harvest crops',
-        details: { worldOwnerId: this.worldOwnerId, playerId: authClient?.playerId || 'unknown' }
+        message: 'Invalid harvest request',
+        details: { cropId }
       });
       return;
     }
 
-    const { cropId } = message;
     const crop = this.state.crops.get(cropId);
     
     if (!crop) {
@@ -379,16 +1144,6 @@ export class GameRoom extends Room<GameState> {
       return;
     }
 
-    // Verify ownership
-    if (crop.playerId !== client.sessionId) {
-      this.sendError(client, {
-        code: ERROR_CODES.INVALID_REQUEST,
-        message: 'You can only harvest your own crops',
-        details: { cropId }
-      });
-      return;
-    }
-
     // Check if already harvested
     if (crop.harvested) {
       this.sendError(client, {
@@ -399,63 +1154,49 @@ export class GameRoom extends Room<GameState> {
       return;
     }
 
-    // Check if crop is ready
-    const plantedTime = new Date(crop.plantedAt).getTime();
-    const currentTime = Date.now();
-    const timeElapsed = currentTime - plantedTime;
-
-    if (timeElapsed < crop.growthTime) {
-      const timeRemaining = crop.growthTime - timeElapsed;
-      this.sendError(client, {
-        code: ERROR_CODES.CROP_NOT_READY,
-        message: 'Crop is not ready for harvest',
-        details: { 
-          cropId, 
-          timeRemaining,
-          readyAt: new Date(plantedTime + crop.growthTime).toISOString()
-        }
-      });
-      return;
-    }
-
-    // Calculate yield
-    const seedConfig = SEED_CONFIGS[crop.seedType as SeedType];
-    const yieldAmount = databaseService.calculateYield(
-      crop.investmentAmount,
-      crop.plantedAt,
-      seedConfig.baseYieldRate
-    );
-
     try {
-      // Update database
-      databaseService.transaction(() => {
-        databaseService.harvestCrop(cropId);
-        // In a real implementation, we would also:
-        // - Update player's wallet balance
-        // - Record the yield transaction
-        // - Update any DeFi protocol state
-      });
+      // Records the yield and credits it to the player who invested in the crop
+      const result = this.cropService.harvestCrop(cropId, this.worldOwnerId, new Date(this.gameClock.now()), this.worldEvents.getModifiers(this.worldOwnerId));
+      if (!result.success) {
+        this.sendError(client, result.error!);
+        return;
+      }
+      
+      const yieldAmount = result.yieldAmount!;
+      const balance = result.balance!;
+      const harvestedAt = result.crop!.harvestedAt!.toISOString();
+      this.leaderboards.invalidate();
 
       // Update game state
       crop.harvested = true;
+      this.cropStages.untrack(cropId);
 
       // Send success response
       client.send('crop_harvested', {
         cropId: cropId,
+        ownerId: crop.playerId,
         investmentAmount: crop.investmentAmount,
         yieldAmount: yieldAmount,
-        totalReturn: crop.investmentAmount + yieldAmount
+        totalReturn: crop.investmentAmount + yieldAmount,
+        harvestedAt,
+        ownerBalance: balance
       });
 
       // Broadcast harvest event
       this.broadcast('harvest_event', {
         playerId: authClient.playerId,
         playerName: player.name,
+        ownerId: crop.playerId,
         cropId: cropId,
         seedType: crop.seedType,
-        totalReturn: crop.investmentAmount + yieldAmount
+        investmentAmount: crop.investmentAmount,
+        yieldAmount: yieldAmount,
+        totalReturn: crop.investmentAmount + yieldAmount,
+        harvestedAt
       });
 
+      this.recordQuestEvent(client, player, authClient.playerId, { type: 'crop_harvested', data: { seedType: crop.seedType } });
+
       // Remove crop from active state after a delay
       setTimeout(() => {
         this.state.crops.delete(cropId);
@@ -465,9 +1206,354 @@ export class GameRoom extends Room<GameState> {
       console.error('❌ Error harvesting crop:', error);
       this.sendError(client, {
         code: ERROR_CODES.DATABASE_ERROR,
-        message: 'Failed to harvest crop',
-        details: error
+        message: 'Failed to harvest crop'
       });
     }
   }
+
+  /**
+   * Skip the room's clock ahead so QA can run a whole crop cycle in seconds.
+   * Only admins may use it, and only on servers started with ENABLE_DEBUG_COMMANDS=true.
+   */
+  private handleDebugFastForward(client: Client, message: DebugFastForwardMessage) {
+    const authClient = this.authenticatedClients.get(client.sessionId);
+    if (!debugCommandsEnabled() || !isAdjustableClock(this.gameClock) || !authClient || !isAdmin(authClient.playerId)) {
+      this.sendError(client, {
+        code: ERROR_CODES.PERMISSION_DENIED,
+        message: 'Debug commands are only available to admins in dev rooms'
+      });
+      return;
+    }
+
+    const ms = message?.ms;
+    if (typeof ms !== 'number' || !Number.isFinite(ms) || ms <= 0 || ms > MAX_FAST_FORWARD_MS) {
+      this.sendError(client, {
+        code: ERROR_CODES.INVALID_REQUEST,
+        message: `Fast-forward by 1 to ${MAX_FAST_FORWARD_MS} ms`,
+        details: { ms }
+      });
+      return;
+    }
+
+    this.gameClock.advance(ms);
+    console.log(`⏩ ${authClient.playerId} fast-forwarded world ${this.worldOwnerId} by ${ms}ms`);
+
+    // Apply growth stages and world events reached in the skipped time right away
+    this.update(0);
+    this.broadcast('debug_time_advanced', { advancedBy: ms, now: this.gameClock.now() });
+  }
+
+  private handleWaterCrop(client: Client, message: WaterCropMessage) {
+    const player = this.state.players.get(client.sessionId);
+    if (!player) {
+      this.sendError(client, {
+        code: ERROR_CODES.PLAYER_NOT_FOUND,
+        message: 'Player not found'
+      });
+      return;
+    }
+
+    // The owner, helpers and friends can water
+    const authClient = this.authorize(client, 'water', 'water crops');
+    if (!authClient) return;
+
+    const cropId = message?.cropId;
+    const crop = typeof cropId === 'string' ? this.state.crops.get(cropId) : undefined;
+    if (!crop || crop.harvested) {
+      this.sendError(client, {
+        code: ERROR_CODES.CROP_NOT_FOUND,
+        message: 'Crop not found',
+        details: { cropId }
+      });
+      return;
+    }
+
+    try {
+      const result = this.cropService.waterCrop(crop.id, this.worldOwnerId);
+      if (!result.success) {
+        this.sendError(client, result.error!);
+        return;
+      }
+
+      const growthBoost = result.crop!.growthBoost;
+      crop.growthBoost = growthBoost;
+      crop.lastWatered = result.crop!.lastWateredAt!.toISOString();
+
+      this.broadcast('crop_watered', {
+        cropId: crop.id,
+        playerId: authClient.playerId,
+        playerName: player.name,
+        boost: result.boost,
+        growthBoost
+      });
+      
+      // Watering can move the crop into its next stage straight away
+      this.trackCropStage(crop);
+
+      this.recordQuestEvent(client, player, authClient.playerId, { type: 'crop_watered', data: { seedType: crop.seedType } });
+    } catch (error) {
+      console.error('❌ Error watering crop:', error);
+      this.sendError(client, {
+        code: ERROR_CODES.DATABASE_ERROR,
+        message: 'Failed to water crop'
+      });
+    }
+  }
+
+  /**
+   * Verify a DeFi transaction the client reports against the chain, then count it towards quests
+   */
+  private async handleReportOnChainAction(client: Client, message: ReportOnChainActionMessage) {
+    const requestId = typeof message?.requestId === 'string' ? message.requestId : undefined;
+    const authClient = this.authenticatedClients.get(client.sessionId);
+    if (!authClient || !this.state.players.has(client.sessionId)) {
+      this.sendError(client, {
+        requestId,
+        code: ERROR_CODES.PLAYER_NOT_FOUND,
+        message: 'Player not found'
+      });
+      return;
+    }
+
+    const { action, chainId, txHash } = message ?? {};
+    if (!isOnChainQuestAction(action) || typeof chainId !== 'number' || typeof txHash !== 'string') {
+      this.sendError(client, {
+        requestId,
+        code: ERROR_CODES.INVALID_REQUEST,
+        message: 'Invalid on-chain action report',
+        details: { action, chainId, txHash }
+      });
+      return;
+    }
+
+    try {
+      const verification = await verifyOnChainAction({ action, chainId, txHash }, authClient.playerId, this.readTransaction);
+      if (!verification.verified) {
+        this.sendError(client, {
+          requestId,
+          code: ERROR_CODES.INVALID_TRANSACTION,
+          message: verification.reason,
+          details: { action, chainId, txHash }
+        });
+        return;
+      }
+
+      // The player may have left while the chain was queried
+      const player = this.state.players.get(client.sessionId);
+      if (!player) return;
+
+      const update = this.quests.recordTransaction(authClient.playerId, player.name, action, chainId, txHash);
+      if (!update) {
+        this.sendError(client, {
+          requestId,
+          code: ERROR_CODES.INVALID_TRANSACTION,
+          message: 'Transaction was already counted',
+          details: { action, chainId, txHash }
+        });
+        return;
+      }
+
+      this.sendQuestUpdate(client, player, update);
+    } catch (error) {
+      console.error('❌ Error verifying on-chain action:', error);
+      this.sendError(client, {
+        requestId,
+        code: ERROR_CODES.INVALID_TRANSACTION,
+        message: 'Could not verify the transaction, try again later',
+        details: { action, chainId, txHash }
+      });
+    }
+  }
+
+  private handleSetRole(client: Client, message: SetRoleMessage) {
+    const authClient = this.authorize(client, 'manage_roles', 'manage roles');
+    if (!authClient) return;
+
+    // Only wallet players can hold roles: a guest's ID changes with every session
+    const { playerId, role } = message ?? {};
+    if (!isWalletPlayerId(playerId) || isSamePlayer(playerId, this.worldOwnerId) || (role !== null && !isGrantableRole(role))) {
+      this.sendError(client, {
+        code: ERROR_CODES.INVALID_REQUEST,
+        message: 'Invalid role change',
+        details: { playerId, role }
+      });
+      return;
+    }
+
+    try {
+      if (role) {
+        this.roles.grant(this.worldOwnerId, playerId, role, authClient.playerId);
+      } else {
+        this.roles.revoke(this.worldOwnerId, playerId);
+      }
+    } catch (error) {
+      console.error('❌ Error updating world role:', error);
+      this.sendError(client, {
+        code: ERROR_CODES.DATABASE_ERROR,
+        message: 'Failed to update role'
+      });
+      return;
+    }
+
+    // Apply the new role to the player's connected sessions immediately
+    const newRole: WorldRole = role ?? 'visitor';
+    for (const other of this.clients) {
+      const otherAuth = this.authenticatedClients.get(other.sessionId);
+      if (!otherAuth || !isSamePlayer(otherAuth.playerId, playerId)) continue;
+
+      otherAuth.role = newRole;
+      const otherPlayer = this.state.players.get(other.sessionId);
+      if (otherPlayer) {
+        otherPlayer.role = newRole;
+      }
+      other.send('role_changed', { role: newRole });
+    }
+
+    console.log(`🔑 ${playerId} is now ${newRole} in world ${this.worldOwnerId}`);
+    client.send('role_updated', { playerId, role: newRole });
+  }
+
+  private handleEditTerrain(client: Client, message: EditTerrainMessage) {
+    const requestId = message?.requestId;
+    const authClient = this.authorize(client, 'edit_terrain', 'edit the terrain', requestId);
+    if (!authClient) {
+      client.send('terrain', { terrain: encodeTerrain(this.terrain) });
+      return;
+    }
+
+    const edits = message?.edits;
+    if (!Array.isArray(edits) || edits.length === 0 || edits.length > MAX_TERRAIN_EDITS || !edits.every(edit => isValidTerrainEdit(edit))) {
+      this.sendError(client, {
+        requestId,
+        code: ERROR_CODES.INVALID_REQUEST,
+        message: `Terrain edits must change between 1 and ${MAX_TERRAIN_EDITS} known tiles inside the farm`,
+        details: { count: Array.isArray(edits) ? edits.length : 0 }
+      });
+      // Undo whatever the client already applied locally
+      client.send('terrain', { terrain: encodeTerrain(this.terrain) });
+      return;
+    }
+
+    // Apply to a copy so a failed save leaves the room's terrain untouched
+    const layout = this.terrain.map(row => [...row]);
+    const changed = applyTerrainEdits(layout, edits.map(({ x, y, tile }) => ({ x, y, tile })));
+    const saved: TerrainSavedMessage = { requestId, changed: changed.length };
+    if (changed.length === 0) {
+      client.send('terrain_saved', saved);
+      return;
+    }
+
+    try {
+      this.worlds.saveTerrain(this.worldOwnerId, encodeTerrain(layout));
+    } catch (error) {
+      console.error('❌ Error saving terrain:', error);
+      this.sendError(client, {
+        requestId,
+        code: ERROR_CODES.DATABASE_ERROR,
+        message: 'Failed to save terrain'
+      });
+      client.send('terrain', { terrain: encodeTerrain(this.terrain) });
+      return;
+    }
+
+    this.terrain = layout;
+    for (const [network, grid] of this.collisionGrids) {
+      updateTerrainCollision(grid, changed, getBuildingFootprints(this.buildingManifests[network]));
+    }
+
+    console.log(`🗺️ ${authClient.playerId} changed ${changed.length} terrain tiles in world ${this.worldOwnerId}`);
+    const update: TerrainUpdatedMessage = { edits: changed, editedBy: authClient.playerId };
+    this.broadcast('terrain_updated', update, { except: client });
+    client.send('terrain_saved', saved);
+  }
+
+  private handleGenerateTerrain(client: Client, message: GenerateTerrainMessage) {
+    const requestId = message?.requestId;
+    const authClient = this.authorize(client, 'edit_terrain', 'generate the terrain', requestId);
+    if (!authClient) return;
+
+    const result = validateTerrainGeneration(message?.params ?? {}, randomTerrainSeed);
+    if ('error' in result) {
+      this.sendError(client, {
+        requestId,
+        code: ERROR_CODES.INVALID_REQUEST,
+        message: result.error,
+        details: message?.params
+      });
+      return;
+    }
+
+    const layout = generateTerrain(this.worldOwnerId, result.params);
+    const terrain = encodeTerrain(layout);
+    try {
+      this.worlds.saveTerrain(this.worldOwnerId, terrain, result.params);
+    } catch (error) {
+      console.error('❌ Error saving generated terrain:', error);
+      this.sendError(client, {
+        requestId,
+        code: ERROR_CODES.DATABASE_ERROR,
+        message: 'Failed to save terrain'
+      });
+      return;
+    }
+
+    // The whole map changed, so rebuild collision grids on next use
+    this.terrain = layout;
+    this.collisionGrids.clear();
+
+    console.log(`🗺️ ${authClient.playerId} generated terrain for world ${this.worldOwnerId} from seed ${result.params.seed}`);
+    this.broadcast('terrain', { terrain, generation: result.params });
+  }
+
+  private handleSaveBuildings(client: Client, message: SaveBuildingsMessage) {
+    const requestId = message?.requestId;
+    const authClient = this.authorize(client, 'edit_buildings', 'save the building layout', requestId);
+    if (!authClient) return;
+
+    const network = message?.manifest?.network;
+    if (!isBuildingNetwork(network)) {
+      this.sendError(client, {
+        requestId,
+        code: ERROR_CODES.INVALID_REQUEST,
+        message: 'Building manifest must name a known network',
+        details: { network }
+      });
+      return;
+    }
+
+    // Put the sender's buildings back where they were if the layout is rejected
+    const rejectLayout = (code: string, errorMessage: string, details?: unknown) => {
+      this.sendError(client, { requestId, code, message: errorMessage, details });
+      const current: BuildingsUpdatedMessage = { manifest: this.buildingManifests[network], editedBy: null };
+      client.send('buildings_updated', current);
+    };
+
+    const result = validateBuildingManifest(message.manifest, network);
+    if ('error' in result) {
+      rejectLayout(ERROR_CODES.INVALID_REQUEST, result.error);
+      return;
+    }
+
+    const problems = validateBuildingPlacement(result.manifest.buildings, this.terrain);
+    if (problems.length > 0) {
+      rejectLayout(ERROR_CODES.INVALID_REQUEST, 'Buildings cannot be placed there', { problems });
+      return;
+    }
+
+    try {
+      this.worlds.saveBuildingManifest(this.worldOwnerId, result.manifest);
+    } catch (error) {
+      console.error('❌ Error saving buildings:', error);
+      rejectLayout(ERROR_CODES.DATABASE_ERROR, 'Failed to save the building layout', error);
+      return;
+    }
+
+    // Building footprints moved, so rebuild this network's collision grid on next use
+    this.buildingManifests[network] = result.manifest;
+    this.collisionGrids.delete(network);
+
+    console.log(`🏠 ${authClient.playerId} saved the ${network} building layout in world ${this.worldOwnerId}`);
+    const update: BuildingsUpdatedMessage = { manifest: result.manifest, editedBy: authClient.playerId };
+    this.broadcast('buildings_updated', update, { except: client });
+  }
 }
\ No newline at end of file
@@ -8,6 +8,9 @@ export class Player extends Schema {
   @type("boolean") connected: boolean = false;
   @type("number") lastActive: number = Date.now();
   @type("number") xp: number = 0;
+  @type("number") level: number = 1;  // Player's overall level, shown on their nameplate
+  @type("number") lastAckSeq: number = 0;  // Last movement input sequence the server processed
+  @type("string") role: string = 'visitor';  // WorldRole in this room's world
 }
 
 export class Crop extends Schema {
@@ -20,6 +23,9 @@ export class Crop extends Schema {
   @type("number") growthTime!: number;
   @type("number") investmentAmount!: number;
   @type("boolean") harvested: boolean = false;
+  @type("number") growthBoost: number = 0;  // Growth time (ms) skipped by watering
+  @type("string") lastWatered: string = '';  // ISO timestamp, empty if never watered
+  @type("string") stage: string = 'seed';  // GrowthStage, advanced by the room's simulation loop
 }
 
 export class GameState extends Schema {
@@ -0,0 +1,110 @@
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import { MigrationService } from './MigrationService';
+import { UnitOfWork } from '../repositories/UnitOfWork';
+
+/**
+ * Opens the SQLite database, brings its schema up to date and exposes the
+ * repositories through a UnitOfWork
+ */
+export class DatabaseConnection {
+  public readonly db: Database.Database;
+  public readonly unitOfWork: UnitOfWork;
+  private migrationService: MigrationService;
+
+  constructor(dbPath: string = DatabaseConnection.defaultPath()) {
+    console.log(`📁 Database location: ${dbPath}`);
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL'); // Enable Write-Ahead Logging for better concurrency
+
+    // Initialize migration service
+    this.migrationService = new MigrationService(this.db);
+
+    this.init();
+
+    this.unitOfWork = new UnitOfWork(this.db);
+  }
+
+  /**
+   * Database file location: DATABASE_PATH (e.g. ':memory:' for tests) or defivalley.db in DATABASE_DIR
+   */
+  private static defaultPath(): string {
+    if (process.env.DATABASE_PATH) {
+      return process.env.DATABASE_PATH;
+    }
+    const dbDir = process.env.DATABASE_DIR || join(__dirname, '..', '..');
+    return join(dbDir, 'defivalley.db');
+  }
+
+  private init() {
+    // Create initial tables if they don't exist
+    // The migration system will handle schema updates
+
+    // Create players table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS players (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        xp INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Initial crops table (migrations will update it)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS crops (
+        id TEXT PRIMARY KEY,
+        player_id TEXT NOT NULL,
+        seed_type TEXT NOT NULL,
+        x INTEGER NOT NULL,
+        y INTEGER NOT NULL,
+        planted_at DATETIME NOT NULL,
+        growth_time INTEGER NOT NULL,
+        investment_amount REAL NOT NULL,
+        harvested BOOLEAN DEFAULT FALSE,
+        yield_amount REAL DEFAULT NULL,
+        harvested_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (player_id) REFERENCES players (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create performance indexes
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_crops_player_id ON crops (player_id);
+      CREATE INDEX IF NOT EXISTS idx_crops_harvested ON crops (harvested);
+      -- Spatial grid indexes will be created by migration 002
+      -- Additional optimized indexes for world queries
+      CREATE INDEX IF NOT EXISTS idx_crops_player_harvested ON crops(player_id, harvested) WHERE harvested = FALSE;
+      CREATE INDEX IF NOT EXISTS idx_players_updated_at ON players(updated_at DESC);
+    `);
+
+    // Run any pending migrations
+    try {
+      this.migrationService.runMigrations();
+    } catch (error) {
+      console.error('❌ Failed to run migrations:', error);
+      // Continue without migrations - database might still work
+    }
+  }
+
+  /**
+   * Every migration file and whether it has been applied
+   */
+  getMigrationStatus() {
+    return this.migrationService.getMigrationStatus();
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+// Export singleton instance
+export const databaseConnection = new DatabaseConnection();
\ No newline at end of file
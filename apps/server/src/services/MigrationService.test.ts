@@ -0,0 +1,30 @@
+import { describe, test, expect } from 'vitest';
+import Database from 'better-sqlite3';
+import { SEED_CONFIGS } from '@defivalley/shared';
+import { MigrationService } from './MigrationService';
+
+describe('Migrations', () => {
+  test('should backfill planting XP at the configured seed rates', () => {
+    // The tables as they were before any migration
+    const db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE players (id TEXT PRIMARY KEY, name TEXT NOT NULL, xp INTEGER DEFAULT 0, created_at DATETIME DEFAULT CURRENT_TIMESTAMP, updated_at DATETIME DEFAULT CURRENT_TIMESTAMP);
+      CREATE TABLE crops (
+        id TEXT PRIMARY KEY, player_id TEXT NOT NULL, seed_type TEXT NOT NULL, x INTEGER NOT NULL, y INTEGER NOT NULL,
+        planted_at DATETIME NOT NULL, growth_time INTEGER NOT NULL, investment_amount REAL NOT NULL,
+        harvested BOOLEAN DEFAULT FALSE, yield_amount REAL DEFAULT NULL, harvested_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP, updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO players (id, name) VALUES ('alice', 'Alice');
+      INSERT INTO crops (id, player_id, seed_type, x, y, planted_at, growth_time, investment_amount)
+      VALUES ('crop_1', 'alice', 'premium_tree', 100, 100, '2024-01-01T00:00:00.000Z', 1000, 100),
+             ('crop_2', 'alice', 'retired_seed', 200, 100, '2024-01-02T00:00:00.000Z', 1000, 10);
+    `);
+
+    new MigrationService(db).runMigrations();
+
+    expect(db.prepare('SELECT player_id, amount, reason, seed_type, earned_at FROM xp_ledger').all()).toEqual([
+      { player_id: 'alice', amount: SEED_CONFIGS.premium_tree.xpGain, reason: 'plant', seed_type: 'premium_tree', earned_at: '2024-01-01T00:00:00.000Z' }
+    ]);
+  });
+});
\ No newline at end of file
@@ -1,6 +1,7 @@
 import Database from 'better-sqlite3';
 import { join } from 'path';
 import { readFileSync, readdirSync, existsSync } from 'fs';
+import { SEED_CONFIGS, isSeedType } from '@defivalley/shared';
 
 export interface Migration {
   id: number;
@@ -8,6 +9,26 @@ export interface Migration {
   applied_at?: string;
 }
 
+/**
+ * Steps SQL can't express, e.g. because they need game config, run right after the migration
+ * file they belong to and in its transaction
+ */
+const DATA_MIGRATIONS: Record<string, (db: Database.Database) => void> = {
+  // Planting XP earned before the XP ledger existed, at each seed's rate (multipliers weren't recorded)
+  '007_add_leaderboard_indexes.sql': db => {
+    const insert = db.prepare(`
+      INSERT INTO xp_ledger (player_id, amount, reason, seed_type, earned_at)
+      VALUES (?, ?, 'plant', ?, ?)
+    `);
+    const crops = db.prepare('SELECT player_id, seed_type, planted_at FROM crops').all() as { player_id: string; seed_type: string; planted_at: string }[];
+    for (const crop of crops) {
+      if (isSeedType(crop.seed_type)) {
+        insert.run(crop.player_id, SEED_CONFIGS[crop.seed_type].xpGain, crop.seed_type, crop.planted_at);
+      }
+    }
+  }
+};
+
 export class MigrationService {
   private db: Database.Database;
   private migrationsPath: string;
@@ -65,6 +86,7 @@ export class MigrationService {
         // Run migration in a transaction
         this.db.transaction(() => {
           this.db.exec(migrationSql);
+          DATA_MIGRATIONS[file]?.(this.db);
           
           // Record that migration was applied
           const stmt = this.db.prepare('INSERT INTO migrations (name) VALUES (?)');
@@ -0,0 +1,5 @@
+import { LeaderboardService } from '../domain/services/LeaderboardService';
+import { databaseConnection } from './DatabaseConnection';
+
+// Shared by the REST endpoints and every room, so plants and harvests in any room invalidate the pages the endpoints serve
+export const leaderboardService = new LeaderboardService(databaseConnection.unitOfWork.leaderboards);
\ No newline at end of file
@@ -2,10 +2,13 @@
  * Authentication-related types for the game server
  */
 
+import { WorldRole } from '@defivalley/shared';
+
 export interface JoinOptions {
   name?: string;
-  authToken?: string;
-  playerId: string;  // The actual player ID (wallet address or similar)
+  authToken?: string;  // Session token from /api/auth/verify; omitted for guests
+  playerId: string;  // Claimed player ID (informational only - identity comes from authToken)
+  chainId?: number;  // Client's chain, selects the building layout used for movement collision
   [key: string]: any;
 }
 
@@ -13,4 +16,16 @@ export interface AuthenticatedClient {
   sessionId: string;
   playerId: string;  // The validated player ID
   isHost: boolean;
+  role: WorldRole;  // Role in the current world ('owner' for the host)
+  isGuest: boolean;  // Joined without a wallet session; playerId is derived from the session ID
+}
+
+// Identity resolved by GameRoom.onAuth and passed to onJoin
+export type JoinAuthData = Omit<AuthenticatedClient, 'sessionId'>;
+
+export interface AuthChallenge {
+  address: string;   // Checksummed wallet address the challenge was issued to
+  nonce: string;
+  message: string;   // The exact message the wallet must sign
+  expiresAt: number;
 }
\ No newline at end of file
@@ -1,50 +1,218 @@
 // Game-specific type definitions
 
-export type SeedType = 'usdc_sprout' | 'premium_tree' | 'whale_forest';
-
-export interface SeedConfig {
-  minInvestment: number;
-  growthTime: number; // in milliseconds
-  xpGain: number;
-  baseYieldRate: number; // APY as decimal (e.g., 0.05 for 5%)
-}
-
-export const SEED_CONFIGS: Record<SeedType, SeedConfig> = {
-  'usdc_sprout': { 
-    minInvestment: 10, 
-    growthTime: 24 * 60 * 60 * 1000, // 24 hours
-    xpGain: 1,
-    baseYieldRate: 0.05 // 5% APY
-  },
-  'premium_tree': { 
-    minInvestment: 100, 
-    growthTime: 48 * 60 * 60 * 1000, // 48 hours
-    xpGain: 10,
-    baseYieldRate: 0.05 // 5% APY
-  },
-  'whale_forest': { 
-    minInvestment: 1000, 
-    growthTime: 72 * 60 * 60 * 1000, // 72 hours
-    xpGain: 100,
-    baseYieldRate: 0.05 // 5% APY
-  }
-};
+import {
+  ActiveWorldEvent,
+  BuildingNetwork,
+  GrantableRole,
+  GrowthStage,
+  MoveRejectionReason,
+  OnChainQuestAction,
+  QuestReward,
+  SeedType,
+  BuildingManifest,
+  TerrainGenerationParams,
+  TerrainTileEdit
+} from '@defivalley/shared';
+import { ChatMessageRecord } from '../repositories/interfaces/IChatRepository';
+
+// Seed definitions are shared with the client
+export { SEED_CONFIGS, CROP_COLLISION_RADIUS } from '@defivalley/shared';
+export type { SeedType, SeedConfig } from '@defivalley/shared';
 
 export interface PlantSeedMessage {
   seedType: SeedType;
   x: number;
   y: number;
   investmentAmount: number;
+  requestId?: string;  // Client-generated ID echoed in seed_planted/game_error for optimistic updates
 }
 
 export interface HarvestCropMessage {
   cropId: string;
 }
 
+export interface WaterCropMessage {
+  cropId: string;
+}
+
+// Owner grants (or, with role null, revokes) a role on their farm
+export interface SetRoleMessage {
+  playerId: string;
+  role: GrantableRole | null;
+}
+
+// Movement input: a relative step (dx/dy) or, for legacy clients, an absolute position (x/y)
+export interface MoveMessage {
+  seq?: number;
+  dx?: number;
+  dy?: number;
+  x?: number;
+  y?: number;
+}
+
+export interface ChatInputMessage {
+  text: string;
+}
+
+export interface DeleteChatMessage {
+  messageId: number;
+}
+
+// Chat message as broadcast to clients and replayed in the welcome payload
+export interface ChatBroadcast {
+  id: number;
+  playerId: string;
+  name: string;
+  message: string;
+  timestamp: number;
+}
+
+export function toChatBroadcast(record: ChatMessageRecord): ChatBroadcast {
+  return {
+    id: record.id,
+    playerId: record.playerId,
+    name: record.playerName,
+    message: record.message,
+    timestamp: record.timestamp
+  };
+}
+
+// Number of recent chat messages sent to players when they join
+export const CHAT_HISTORY_LIMIT = 50;
+
+// Pushed by the simulation loop when a crop enters a new growth stage
+export interface CropStageChangedMessage {
+  cropId: string;
+  previousStage: GrowthStage;
+  stage: GrowthStage;
+}
+
+// Pushed alongside the 'ready' stage change
+export interface CropReadyMessage {
+  cropId: string;
+  playerId: string; // Player who planted the crop
+  seedType: SeedType;
+}
+
+// Sent by the client after a DeFi transaction confirms, to count it towards quests
+export interface ReportOnChainActionMessage {
+  requestId?: string;
+  action: OnChainQuestAction;
+  chainId: number;
+  txHash: string;
+}
+
+// Sent to a player when one of their quests is completed
+export interface QuestCompletedMessage {
+  questId: string;
+  title: string;
+  reward: QuestReward;
+}
+
+// Broadcast when a player in the room reaches a new level
+export interface LevelUpMessage {
+  sessionId: string;
+  playerId: string;
+  oldLevel: number;
+  newLevel: number;
+}
+
+// Broadcast when a world event starts running in the room's farm
+export interface WorldEventStartedMessage {
+  event: ActiveWorldEvent;
+}
+
+// Broadcast when a world event stops running in the room's farm
+export interface WorldEventEndedMessage {
+  eventId: string;
+  name: string;
+}
+
+// Owner edits to the farm's terrain, one entry per changed tile
+export interface EditTerrainMessage {
+  edits: TerrainTileEdit[];
+  requestId?: string;
+}
+
+// Broadcast to everyone else in the room once terrain edits are saved
+export interface TerrainUpdatedMessage {
+  edits: TerrainTileEdit[]; // Only the tiles that actually changed
+  editedBy: string;         // Player ID of the owner who made the edits
+}
+
+// Sent back to the owner once their terrain edits are saved
+export interface TerrainSavedMessage {
+  requestId?: string;
+  changed: number; // Tiles that actually changed
+}
+
+// Owner request to regenerate the farm's terrain; omitted fields use the defaults and a new seed
+export interface GenerateTerrainMessage {
+  params: Partial<TerrainGenerationParams>;
+  requestId?: string;
+}
+
+// Owner saves the building layout of one network (e.g. after moving buildings in the editor)
+export interface SaveBuildingsMessage {
+  manifest: BuildingManifest;
+  requestId?: string;
+}
+
+// Sent to everyone else in the room once a building layout is saved, and back to the sender if its save is rejected
+export interface BuildingsUpdatedMessage {
+  manifest: BuildingManifest;
+  editedBy: string | null; // Player ID of the owner who saved it, null when resyncing a rejected save
+}
+
+// Admin-only debug command: move the room's clock forward (dev rooms only)
+export interface DebugFastForwardMessage {
+  ms: number;
+}
+
+// Longest jump a single fast-forward may make
+export const MAX_FAST_FORWARD_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface SetChainMessage {
+  chainId: number;
+}
+
+// Payload of every message type a client may send to a GameRoom
+export interface ClientMessages {
+  move: MoveMessage;
+  set_chain: SetChainMessage;
+  chat: ChatInputMessage;
+  delete_chat: DeleteChatMessage;
+  plant_seed: PlantSeedMessage;
+  harvest_crop: HarvestCropMessage;
+  water_crop: WaterCropMessage;
+  set_role: SetRoleMessage;
+  edit_terrain: EditTerrainMessage;
+  generate_terrain: GenerateTerrainMessage;
+  save_buildings: SaveBuildingsMessage;
+  report_onchain_action: ReportOnChainActionMessage;
+  debug_fast_forward: DebugFastForwardMessage;
+  ping: void;
+}
+
+export interface PositionCorrectionMessage {
+  seq: number;  // Input sequence that was rejected
+  x: number;
+  y: number;
+  reason: MoveRejectionReason;
+}
+
+// Server-side movement tracking per connected client
+export interface MovementState {
+  budget: number;       // Distance (pixels) the player may still travel
+  lastMoveAt: number;   // Timestamp of the last accepted or rejected move
+  network: BuildingNetwork;  // Building layout used for collision checks
+}
+
 export interface GameError {
   code: string;
   message: string;
   details?: any;
+  requestId?: string;  // Echoed from the request that failed, when it had one
 }
 
 export const ERROR_CODES = {
@@ -53,11 +221,17 @@ export const ERROR_CODES = {
   POSITION_OCCUPIED: 'POSITION_OCCUPIED',
   INVALID_SEED_TYPE: 'INVALID_SEED_TYPE',
   INSUFFICIENT_INVESTMENT: 'INSUFFICIENT_INVESTMENT',
+  INVESTMENT_TOO_LARGE: 'INVESTMENT_TOO_LARGE',
+  LEVEL_TOO_LOW: 'LEVEL_TOO_LOW',
+  INVALID_TRANSACTION: 'INVALID_TRANSACTION',
   CROP_NOT_FOUND: 'CROP_NOT_FOUND',
   CROP_NOT_READY: 'CROP_NOT_READY',
   CROP_ALREADY_HARVESTED: 'CROP_ALREADY_HARVESTED',
+  INVALID_CHAT_MESSAGE: 'INVALID_CHAT_MESSAGE',
+  CHAT_MESSAGE_NOT_FOUND: 'CHAT_MESSAGE_NOT_FOUND',
+  RATE_LIMITED: 'RATE_LIMITED',
+  PERMISSION_DENIED: 'PERMISSION_DENIED',
+  SIGN_IN_REQUIRED: 'SIGN_IN_REQUIRED',
+  CROP_CANNOT_BE_WATERED: 'CROP_CANNOT_BE_WATERED',
   DATABASE_ERROR: 'DATABASE_ERROR'
-} as const;
-
-// Position validation constants
-export const CROP_COLLISION_RADIUS = 50; // pixels
\ No newline at end of file
+} as const;
\ No newline at end of file
@@ -0,0 +1,49 @@
+/**
+ * Rate limiting types for per-client room messages
+ */
+
+export interface TokenBucketConfig {
+  capacity: number;         // Maximum burst size (messages)
+  refillPerSecond: number;  // Sustained rate (messages per second)
+}
+
+export interface RateLimitConfig {
+  limits: Record<string, TokenBucketConfig>;  // Keyed by message type; unlisted types are not limited
+  maxViolations: number;      // Limited messages tolerated within the window before disconnecting
+  violationWindowMs: number;
+}
+
+export type RateLimitResult = 'allowed' | 'limited' | 'disconnect';
+
+export interface MessageTypeCounters {
+  allowed: number;
+  limited: number;
+}
+
+export interface RateLimitCounters {
+  allowed: number;
+  limited: number;
+  disconnected: number;
+  byType: Record<string, MessageTypeCounters>;
+}
+
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  limits: {
+    move: { capacity: 30, refillPerSecond: 20 },  // Client sends at 10Hz
+    set_chain: { capacity: 3, refillPerSecond: 0.2 },
+    chat: { capacity: 5, refillPerSecond: 0.5 },
+    delete_chat: { capacity: 10, refillPerSecond: 2 },
+    plant_seed: { capacity: 5, refillPerSecond: 1 },
+    harvest_crop: { capacity: 10, refillPerSecond: 2 },
+    water_crop: { capacity: 10, refillPerSecond: 2 },
+    set_role: { capacity: 5, refillPerSecond: 1 },
+    edit_terrain: { capacity: 10, refillPerSecond: 2 },  // Client batches brush strokes
+    generate_terrain: { capacity: 2, refillPerSecond: 0.1 },
+    save_buildings: { capacity: 3, refillPerSecond: 0.5 },
+    report_onchain_action: { capacity: 3, refillPerSecond: 0.1 },  // Each report queries an RPC node
+    debug_fast_forward: { capacity: 5, refillPerSecond: 1 },
+    ping: { capacity: 5, refillPerSecond: 1 }
+  },
+  maxViolations: 20,
+  violationWindowMs: 10000
+};
\ No newline at end of file
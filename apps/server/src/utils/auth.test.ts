@@ -0,0 +1,152 @@
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import {
+  createAuthChallenge,
+  verifyAuthChallenge,
+  createAuthSession,
+  getSessionExpiry,
+  validateSession,
+  verifyWorldPermission
+} from './auth';
+
+describe('Wallet challenge authentication', () => {
+  const account = privateKeyToAccount(generatePrivateKey());
+  const otherAccount = privateKeyToAccount(generatePrivateKey());
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should issue a challenge containing the checksummed address and nonce', () => {
+    const challenge = createAuthChallenge(account.address.toLowerCase());
+
+    expect(challenge).not.toBeNull();
+    expect(challenge!.address).toBe(account.address);
+    expect(challenge!.message).toContain(account.address);
+    expect(challenge!.message).toContain(`Nonce: ${challenge!.nonce}`);
+  });
+
+  test('should reject invalid addresses', () => {
+    expect(createAuthChallenge('not-an-address')).toBeNull();
+    expect(createAuthChallenge('')).toBeNull();
+  });
+
+  test('should create a session for a correctly signed challenge', async () => {
+    const challenge = createAuthChallenge(account.address)!;
+    const signature = await account.signMessage({ message: challenge.message });
+
+    const token = await verifyAuthChallenge(account.address, challenge.nonce, signature);
+
+    expect(token).toBeTruthy();
+    expect(validateSession(token!)).toBe(account.address);
+  });
+
+  test('should reject a challenge signed by a different wallet', async () => {
+    const challenge = createAuthChallenge(account.address)!;
+    const signature = await otherAccount.signMessage({ message: challenge.message });
+
+    expect(await verifyAuthChallenge(account.address, challenge.nonce, signature)).toBeNull();
+  });
+
+  test('should only accept each challenge once', async () => {
+    const challenge = createAuthChallenge(account.address)!;
+    const signature = await account.signMessage({ message: challenge.message });
+
+    expect(await verifyAuthChallenge(account.address, challenge.nonce, signature)).toBeTruthy();
+    expect(await verifyAuthChallenge(account.address, challenge.nonce, signature)).toBeNull();
+  });
+
+  test('should keep a challenge valid when another is requested for the same wallet', async () => {
+    const first = createAuthChallenge(account.address)!;
+    const second = createAuthChallenge(account.address)!;
+    const signature = await account.signMessage({ message: first.message });
+
+    expect(await verifyAuthChallenge(account.address, second.nonce, signature)).toBeNull();
+    expect(await verifyAuthChallenge(account.address, first.nonce, signature)).toBeTruthy();
+  });
+
+  test('should keep a challenge after a wrong signature', async () => {
+    const challenge = createAuthChallenge(account.address)!;
+    const forged = await otherAccount.signMessage({ message: challenge.message });
+    const signature = await account.signMessage({ message: challenge.message });
+
+    expect(await verifyAuthChallenge(account.address, challenge.nonce, forged)).toBeNull();
+    expect(await verifyAuthChallenge(account.address, challenge.nonce, signature)).toBeTruthy();
+  });
+
+  test('should only accept a challenge from the wallet it was issued to', async () => {
+    const challenge = createAuthChallenge(account.address)!;
+    const signature = await otherAccount.signMessage({ message: challenge.message });
+
+    expect(await verifyAuthChallenge(otherAccount.address, challenge.nonce, signature)).toBeNull();
+  });
+
+  test('should reject an expired challenge', async () => {
+    vi.useFakeTimers();
+    const challenge = createAuthChallenge(account.address)!;
+    const signature = await account.signMessage({ message: challenge.message });
+
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+
+    expect(await verifyAuthChallenge(account.address, challenge.nonce, signature)).toBeNull();
+  });
+
+  test('should grant world permission only to the signed-in owner', async () => {
+    const challenge = createAuthChallenge(account.address)!;
+    const signature = await account.signMessage({ message: challenge.message });
+    const token = (await verifyAuthChallenge(account.address, challenge.nonce, signature))!;
+
+    expect(verifyWorldPermission(token, account.address)).toBe(true);
+    expect(verifyWorldPermission(token, account.address.toLowerCase())).toBe(true);
+    expect(verifyWorldPermission(token, otherAccount.address)).toBe(false);
+    expect(verifyWorldPermission('forged-token', account.address)).toBe(false);
+  });
+});
+
+describe('Sessions', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  // A fresh copy of the module has none of this one's state, like a game server in another region
+  const otherServer = () => import('./auth');
+
+  test('should accept sessions signed by another server sharing the secret', async () => {
+    const token = (await otherServer()).createAuthSession('0xabc');
+
+    expect(validateSession(token)).toBe('0xabc');
+  });
+
+  test('should reject sessions signed with a different secret', async () => {
+    vi.stubEnv('SESSION_SECRET', 'another-secret');
+    const token = (await otherServer()).createAuthSession('0xabc');
+    vi.unstubAllEnvs();
+
+    expect(validateSession(token)).toBeNull();
+  });
+
+  test('should reject tampered sessions', () => {
+    const [, signature] = createAuthSession('0xabc').split('.');
+    const forged = Buffer.from(JSON.stringify({ playerId: '0xdef', createdAt: Date.now() })).toString('base64url');
+
+    expect(validateSession(`${forged}.${signature}`)).toBeNull();
+    expect(validateSession(`${forged}.`)).toBeNull();
+    expect(validateSession('forged-token')).toBeNull();
+  });
+
+  test('should expire sessions after an hour', () => {
+    vi.useFakeTimers();
+    const token = createAuthSession('0xabc');
+
+    expect(getSessionExpiry(token)).toBe(Date.now() + 60 * 60 * 1000);
+
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    expect(validateSession(token)).toBe('0xabc');
+
+    vi.advanceTimersByTime(1);
+    expect(validateSession(token)).toBeNull();
+    expect(getSessionExpiry(token)).toBeNull();
+  });
+});
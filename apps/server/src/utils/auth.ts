@@ -1,67 +1,104 @@
 import crypto from 'crypto';
+import { getAddress, isAddress, verifyMessage } from 'viem';
+import { AuthChallenge } from '../types/auth.types';
 
 /**
  * Authentication utilities for secure player identification
  */
 
-// Store authenticated sessions (in production, use Redis or similar)
-const authenticatedSessions = new Map<string, { playerId: string; createdAt: number }>();
+// Pending sign-in challenges keyed by nonce. A wallet may have several, so requesting a challenge
+// for someone else's address can't cancel theirs
+const pendingChallenges = new Map<string, AuthChallenge>();
 
 // Session timeout (1 hour)
 const SESSION_TIMEOUT = 60 * 60 * 1000;
 
+// Challenge timeout (5 minutes)
+const CHALLENGE_TIMEOUT = 5 * 60 * 1000;
+
+// Used when SESSION_SECRET is not set, so sessions only work on this server until it restarts
+let localSessionSecret: string | null = null;
+
+interface SessionPayload {
+  playerId: string;
+  createdAt: number;
+}
+
 /**
- * Generate a secure session token
+ * Secret session tokens are signed with. Every game server region must share the same
+ * SESSION_SECRET to accept sessions signed in on another region
  */
-export function generateSessionToken(): string {
-  return crypto.randomBytes(32).toString('hex');
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+
+  if (!localSessionSecret) {
+    console.warn('⚠️ SESSION_SECRET is not set; sessions will not be accepted by other servers or after a restart');
+    localSessionSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return localSessionSecret;
+}
+
+function signSessionPayload(payload: string): string {
+  return crypto.createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
 }
 
 /**
  * Create an authenticated session for a player
+ * Sessions aren't stored: the token carries the player ID and is signed, so any server can validate it
  */
 export function createAuthSession(playerId: string): string {
-  const token = generateSessionToken();
-  authenticatedSessions.set(token, {
-    playerId,
-    createdAt: Date.now()
-  });
-  
-  // Clean up old sessions periodically
-  cleanupExpiredSessions();
-  
-  return token;
+  const session: SessionPayload = { playerId, createdAt: Date.now() };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${signSessionPayload(payload)}`;
 }
 
-/**
- * Validate a session token and return the player ID
- */
-export function validateSession(token: string): string | null {
-  const session = authenticatedSessions.get(token);
-  
-  if (!session) {
+// The session a token carries, or null if it is forged, malformed or expired
+function readSession(token: string): SessionPayload | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(signSessionPayload(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  let session: Partial<SessionPayload>;
+  try {
+    session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch (error) {
+    return null;
+  }
+
+  if (typeof session.playerId !== 'string' || typeof session.createdAt !== 'number') {
     return null;
   }
-  
+
   // Check if session has expired
   if (Date.now() - session.createdAt > SESSION_TIMEOUT) {
-    authenticatedSessions.delete(token);
     return null;
   }
-  
-  return session.playerId;
+
+  return { playerId: session.playerId, createdAt: session.createdAt };
 }
 
 /**
- * Remove expired sessions
+ * Validate a session token and return the player ID
  */
-function cleanupExpiredSessions(): void {
-  const now = Date.now();
-  for (const [token, session] of authenticatedSessions.entries()) {
-    if (now - session.createdAt > SESSION_TIMEOUT) {
-      authenticatedSessions.delete(token);
-    }
-  }
+export function validateSession(token: string): string | null {
+  return readSession(token)?.playerId ?? null;
+}
+
+/**
+ * When a valid session token stops being accepted (ms since epoch), so clients can sign in again first
+ */
+export function getSessionExpiry(token: string): number | null {
+  const session = readSession(token);
+  return session ? session.createdAt + SESSION_TIMEOUT : null;
 }
 
 /**
@@ -76,5 +113,125 @@ export function hashPlayerId(playerId: string): string {
  */
 export function verifyWorldPermission(authToken: string, worldOwnerId: string): boolean {
   const playerId = validateSession(authToken);
-  return playerId === worldOwnerId;
+  if (!playerId) {
+    return false;
+  }
+
+  // Wallet addresses may arrive checksummed or lowercased
+  return playerId.toLowerCase() === worldOwnerId.toLowerCase();
+}
+
+/**
+ * Whether a player may use admin-only commands (ADMIN_PLAYER_IDS: comma-separated wallet addresses)
+ */
+export function isAdmin(playerId: string): boolean {
+  const admins = (process.env.ADMIN_PLAYER_IDS || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(playerId.toLowerCase());
+}
+
+/**
+ * Extract the session token from an "Authorization: Bearer <token>" header
+ */
+export function parseBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Build the sign-in-with-Ethereum style message a wallet must sign
+ */
+export function buildChallengeMessage(address: string, nonce: string, issuedAt: string): string {
+  return [
+    'DeFi Valley wants you to sign in with your Ethereum account:',
+    address,
+    '',
+    'Sign in to join DeFi Valley farms. This request will not trigger a blockchain transaction or cost any gas.',
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`
+  ].join('\n');
+}
+
+/**
+ * Issue a one-time sign-in challenge for a wallet address
+ * Returns null if the address is not a valid Ethereum address
+ */
+export function createAuthChallenge(address: string): AuthChallenge | null {
+  if (!isAddress(address, { strict: false })) {
+    return null;
+  }
+
+  const checksummed = getAddress(address);
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const issuedAt = Date.now();
+
+  const challenge: AuthChallenge = {
+    address: checksummed,
+    nonce,
+    message: buildChallengeMessage(checksummed, nonce, new Date(issuedAt).toISOString()),
+    expiresAt: issuedAt + CHALLENGE_TIMEOUT
+  };
+
+  pendingChallenges.set(nonce, challenge);
+  cleanupExpiredChallenges();
+
+  return challenge;
+}
+
+/**
+ * Verify a signed challenge and create an authenticated session
+ * Returns the session token, or null if the signature is invalid or the challenge expired
+ */
+export async function verifyAuthChallenge(address: string, nonce: string, signature: string): Promise<string | null> {
+  if (!isAddress(address, { strict: false }) || typeof nonce !== 'string' || typeof signature !== 'string' || !signature.startsWith('0x')) {
+    return null;
+  }
+
+  const checksummed = getAddress(address);
+  const challenge = pendingChallenges.get(nonce);
+
+  if (!challenge || challenge.address !== checksummed) {
+    return null;
+  }
+
+  if (Date.now() > challenge.expiresAt) {
+    pendingChallenges.delete(nonce);
+    return null;
+  }
+
+  let valid: boolean;
+  try {
+    valid = await verifyMessage({
+      address: checksummed,
+      message: challenge.message,
+      signature: signature as `0x${string}`
+    });
+  } catch (error) {
+    console.error(`❌ Error verifying signature for ${checksummed}:`, error);
+    return null;
+  }
+
+  // A wrong signature leaves the challenge for its wallet to sign; a right one uses it up,
+  // unless a concurrent request with the same signature already did
+  if (!valid || pendingChallenges.get(nonce) !== challenge) {
+    return null;
+  }
+  pendingChallenges.delete(nonce);
+
+  return createAuthSession(checksummed);
+}
+
+/**
+ * Remove expired challenges
+ */
+function cleanupExpiredChallenges(): void {
+  const now = Date.now();
+  for (const [nonce, challenge] of pendingChallenges.entries()) {
+    if (now > challenge.expiresAt) {
+      pendingChallenges.delete(nonce);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { describe, test, expect } from 'vitest';
+import { FakeClock, OffsetClock, isAdjustableClock, systemClock } from './clock';
+
+describe('Clocks', () => {
+  test('should only move a fake clock when told to', () => {
+    const clock = new FakeClock(1000);
+    expect(clock.now()).toBe(1000);
+
+    clock.advance(500);
+    expect(clock.now()).toBe(1500);
+
+    clock.set(new Date('2025-01-01T00:00:00.000Z'));
+    expect(clock.now()).toBe(Date.parse('2025-01-01T00:00:00.000Z'));
+  });
+
+  test('should run an offset clock ahead of its base clock', () => {
+    const base = new FakeClock(1000);
+    const clock = new OffsetClock(base);
+
+    clock.advance(60000);
+    base.advance(10);
+    expect(clock.now()).toBe(61010);
+  });
+
+  test('should tell adjustable clocks apart from the system clock', () => {
+    expect(isAdjustableClock(new FakeClock())).toBe(true);
+    expect(isAdjustableClock(new OffsetClock())).toBe(true);
+    expect(isAdjustableClock(systemClock)).toBe(false);
+  });
+});
\ No newline at end of file
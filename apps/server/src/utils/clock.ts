@@ -0,0 +1,56 @@
+/**
+ * Where the server reads the current time. Domain services and rooms take a Clock
+ * instead of calling Date.now() so tests (and QA rooms) can control time.
+ */
+export interface Clock {
+  now(): number; // ms timestamp
+}
+
+// A clock that can be moved forward, e.g. to skip a crop's growth time
+export interface AdjustableClock extends Clock {
+  advance(ms: number): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+/**
+ * A clock that only moves when told to, for deterministic tests
+ */
+export class FakeClock implements AdjustableClock {
+  constructor(private time: number = 0) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  set(time: number | Date): void {
+    this.time = typeof time === 'number' ? time : time.getTime();
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+/**
+ * Real time shifted by however far it has been fast-forwarded (used by rooms with debug commands enabled)
+ */
+export class OffsetClock implements AdjustableClock {
+  private offset = 0;
+
+  constructor(private base: Clock = systemClock) {}
+
+  now(): number {
+    return this.base.now() + this.offset;
+  }
+
+  advance(ms: number): void {
+    this.offset += ms;
+  }
+}
+
+export function isAdjustableClock(clock: Clock): clock is AdjustableClock {
+  return typeof (clock as AdjustableClock).advance === 'function';
+}
\ No newline at end of file
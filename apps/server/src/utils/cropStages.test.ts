@@ -0,0 +1,66 @@
+import { describe, test, expect } from 'vitest';
+import { CropStageTracker } from './cropStages';
+
+describe('Crop stage tracking', () => {
+  const timing = { plantedAt: 0, growthTime: 1000, growthBoost: 0 };
+
+  test('should report the current stage when tracking starts', () => {
+    const tracker = new CropStageTracker();
+
+    expect(tracker.track('a', timing, 0)).toBe('seed');
+    expect(tracker.track('b', timing, 600)).toBe('growing');
+  });
+
+  test('should report each stage change once', () => {
+    const tracker = new CropStageTracker();
+    tracker.track('a', timing, 0);
+
+    expect(tracker.advance(100)).toEqual([]);
+    expect(tracker.advance(200)).toEqual([{ cropId: 'a', previousStage: 'seed', stage: 'sprout' }]);
+    expect(tracker.advance(300)).toEqual([]);
+    expect(tracker.advance(850)).toEqual([{ cropId: 'a', previousStage: 'sprout', stage: 'mature' }]);
+  });
+
+  test('should stop tracking crops once they are ready', () => {
+    const tracker = new CropStageTracker();
+    tracker.track('a', timing, 900);
+
+    expect(tracker.advance(1000)).toEqual([{ cropId: 'a', previousStage: 'mature', stage: 'ready' }]);
+    expect(tracker.size).toBe(0);
+    expect(tracker.advance(5000)).toEqual([]);
+
+    // Crops that are already ready are never tracked
+    tracker.track('b', timing, 1000);
+    expect(tracker.size).toBe(0);
+  });
+
+  test('should reschedule a crop when it is tracked again', () => {
+    const tracker = new CropStageTracker();
+    tracker.track('a', timing, 0);
+
+    // Watering skipped 300ms of growth
+    expect(tracker.track('a', { ...timing, growthBoost: 300 }, 100)).toBe('sprout');
+    expect(tracker.advance(200)).toEqual([{ cropId: 'a', previousStage: 'sprout', stage: 'growing' }]);
+  });
+
+  test('should forget untracked crops', () => {
+    const tracker = new CropStageTracker();
+    tracker.track('a', timing, 0);
+    tracker.untrack('a');
+
+    expect(tracker.advance(1000)).toEqual([]);
+  });
+
+  test('should scale to many crops', () => {
+    const tracker = new CropStageTracker();
+    for (let i = 0; i < 500; i++) {
+      tracker.track(`crop_${i}`, { ...timing, plantedAt: i }, i);
+    }
+
+    expect(tracker.advance(150)).toEqual([]);
+    expect(tracker.advance(1000)).toHaveLength(500);
+    expect(tracker.size).toBe(499);
+    expect(tracker.advance(1499).every(change => change.stage === 'ready')).toBe(true);
+    expect(tracker.size).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { GrowthStage, getGrowthStage, getNextStageAt } from '@defivalley/shared';
+
+/**
+ * Tracks when each crop in a room enters its next growth stage so the
+ * simulation loop only recomputes stages for crops that are due, and skips
+ * the scan entirely on ticks where nothing is due.
+ */
+
+export interface CropTiming {
+  plantedAt: number; // ms timestamp
+  growthTime: number; // in milliseconds
+  growthBoost: number; // Growth time (ms) skipped by watering
+}
+
+export interface StageChange {
+  cropId: string;
+  previousStage: GrowthStage;
+  stage: GrowthStage;
+}
+
+interface TrackedCrop extends CropTiming {
+  stage: GrowthStage;
+  nextStageAt: number;
+}
+
+export class CropStageTracker {
+  // Only crops that still have a stage ahead of them
+  private crops = new Map<string, TrackedCrop>();
+  private nextDueAt = Infinity;
+
+  /**
+   * Start (or restart, e.g. after watering) tracking a crop. Returns its current stage.
+   */
+  track(cropId: string, timing: CropTiming, now: number = Date.now()): GrowthStage {
+    const stage = getGrowthStage(timing.plantedAt, timing.growthTime, now, timing.growthBoost);
+    const nextStageAt = getNextStageAt(timing.plantedAt, timing.growthTime, now, timing.growthBoost);
+
+    if (nextStageAt === undefined) {
+      this.crops.delete(cropId);
+    } else {
+      this.crops.set(cropId, { ...timing, stage, nextStageAt });
+      this.nextDueAt = Math.min(this.nextDueAt, nextStageAt);
+    }
+
+    return stage;
+  }
+
+  untrack(cropId: string): void {
+    this.crops.delete(cropId);
+  }
+
+  /**
+   * Stage changes since the last call. Crops that become ready stop being tracked.
+   */
+  advance(now: number = Date.now()): StageChange[] {
+    if (now < this.nextDueAt) return [];
+
+    const changes: StageChange[] = [];
+    let nextDueAt = Infinity;
+
+    this.crops.forEach((crop, cropId) => {
+      if (now >= crop.nextStageAt) {
+        const stage = getGrowthStage(crop.plantedAt, crop.growthTime, now, crop.growthBoost);
+        if (stage !== crop.stage) {
+          changes.push({ cropId, previousStage: crop.stage, stage });
+          crop.stage = stage;
+        }
+
+        const nextStageAt = getNextStageAt(crop.plantedAt, crop.growthTime, now, crop.growthBoost);
+        if (nextStageAt === undefined) {
+          this.crops.delete(cropId);
+          return;
+        }
+        // Never reschedule into the past, or a rounding error would rescan every tick
+        crop.nextStageAt = Math.max(nextStageAt, now + 1);
+      }
+
+      nextDueAt = Math.min(nextDueAt, crop.nextStageAt);
+    });
+
+    this.nextDueAt = nextDueAt;
+    return changes;
+  }
+
+  get size(): number {
+    return this.crops.size;
+  }
+}
\ No newline at end of file
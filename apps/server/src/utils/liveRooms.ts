@@ -0,0 +1,61 @@
+import { WorldRole } from '@defivalley/shared';
+
+/**
+ * Every game room open in this server process, registered by the rooms themselves
+ * so the admin API can inspect and moderate them
+ */
+
+export interface LiveRoomPlayer {
+  sessionId: string;
+  playerId: string;
+  name: string;
+  role: WorldRole;
+  isHost: boolean;
+}
+
+export interface LiveRoomSummary {
+  roomId: string;
+  worldId: string;
+  playerCount: number;
+  maxClients: number;
+  cropCount: number;
+}
+
+export interface LiveRoomDetails extends LiveRoomSummary {
+  players: LiveRoomPlayer[];
+  worldEvents: string[]; // IDs of the world events running in the room
+}
+
+// What the admin API may do to a running room
+export interface ModeratedRoom {
+  readonly roomId: string;
+  describe(): LiveRoomDetails;
+  // Disconnect every session of a player, returning how many were closed
+  kickPlayer(playerId: string, reason: string): number;
+  renamePlayer(playerId: string, name: string): void;
+  // Mirror a crop harvested or deleted outside the room
+  removeCrop(cropId: string, harvested: boolean): void;
+}
+
+export class LiveRoomRegistry {
+  private rooms = new Map<string, ModeratedRoom>();
+
+  add(room: ModeratedRoom): void {
+    this.rooms.set(room.roomId, room);
+  }
+
+  remove(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+
+  get(roomId: string): ModeratedRoom | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  list(): ModeratedRoom[] {
+    return Array.from(this.rooms.values());
+  }
+}
+
+// Shared by every room in this server process
+export const liveRooms = new LiveRoomRegistry();
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { describe, test, expect, vi } from 'vitest';
+import { KATANA_CHAIN_ID } from '@defivalley/shared';
+import { ON_CHAIN_ACTION_CONTRACTS, TransactionSummary, verifyOnChainAction } from './onChainActions';
+
+const PLAYER = '0x1111111111111111111111111111111111111111';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+const MORPHO = ON_CHAIN_ACTION_CONTRACTS[KATANA_CHAIN_ID].bank_deposit![0];
+
+describe('On-chain action verification', () => {
+  const report = { action: 'bank_deposit' as const, chainId: KATANA_CHAIN_ID, txHash: TX_HASH };
+
+  const verify = (receipt: TransactionSummary | null, overrides = {}) =>
+    verifyOnChainAction({ ...report, ...overrides }, PLAYER, async () => receipt);
+
+  test('should accept a successful transaction from the player to the action contract', async () => {
+    expect(await verify({ status: 'success', from: PLAYER, to: MORPHO.toLowerCase() })).toEqual({ verified: true });
+  });
+
+  test('should reject transactions that do not prove the action', async () => {
+    expect(await verify(null)).toMatchObject({ verified: false, reason: expect.stringContaining('not found') });
+    expect(await verify({ status: 'reverted', from: PLAYER, to: MORPHO })).toMatchObject({ verified: false });
+    expect(await verify({ status: 'success', from: `0x${'2'.repeat(40)}`, to: MORPHO })).toMatchObject({
+      verified: false,
+      reason: expect.stringContaining('another account')
+    });
+    expect(await verify({ status: 'success', from: PLAYER, to: `0x${'3'.repeat(40)}` })).toMatchObject({ verified: false });
+  });
+
+  test('should not query the chain for unsupported or malformed reports', async () => {
+    const readReceipt = vi.fn();
+
+    expect(await verifyOnChainAction({ ...report, chainId: 1 }, PLAYER, readReceipt)).toMatchObject({ verified: false });
+    expect(await verifyOnChainAction({ ...report, txHash: '0x1234' }, PLAYER, readReceipt)).toMatchObject({ verified: false });
+    expect(readReceipt).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
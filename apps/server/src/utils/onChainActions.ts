@@ -0,0 +1,101 @@
+import { createPublicClient, http, PublicClient } from 'viem';
+import { FLOW_CHAIN_ID, KATANA_CHAIN_ID, OnChainQuestAction } from '@defivalley/shared';
+
+// A DeFi action the client says it completed, to be checked against the chain
+export interface OnChainActionReport {
+  action: OnChainQuestAction;
+  chainId: number;
+  txHash: string;
+}
+
+// The parts of a transaction receipt the verifier looks at
+export interface TransactionSummary {
+  status: 'success' | 'reverted';
+  from: string;
+  to: string | null;
+}
+
+// Looks up a mined transaction, or null if the chain has no receipt for it
+export type TransactionReader = (chainId: number, txHash: `0x${string}`) => Promise<TransactionSummary | null>;
+
+export type OnChainVerification = { verified: true } | { verified: false; reason: string };
+
+/**
+ * Contracts a transaction must call to count as each action, per chain.
+ * Katana's bank is Morpho and its marketplace swaps through SushiSwap's RouteProcessor;
+ * Flow's marketplace swaps through PunchSwap.
+ */
+export const ON_CHAIN_ACTION_CONTRACTS: Record<number, Partial<Record<OnChainQuestAction, string[]>>> = {
+  [KATANA_CHAIN_ID]: {
+    bank_deposit: ['0xD50F2DffFd62f94Ee4AEd9ca05C61d0753268aBc'],
+    market_swap: ['0xAC4c6e212A361c968F1725b4d055b47E63F80b75']
+  },
+  [FLOW_CHAIN_ID]: {
+    market_swap: ['0xf45AFe28fd5519d5f8C1d4787a4D5f724C0eFa4d']
+  }
+};
+
+const RPC_URLS: Record<number, string | undefined> = {
+  [KATANA_CHAIN_ID]: process.env.KATANA_RPC_URL || 'https://rpc-katana.t.conduit.xyz/MekJWT3Kd9YJyktBPJxVMk75TaFG7pdvq',
+  [FLOW_CHAIN_ID]: process.env.FLOW_RPC_URL || 'https://mainnet.evm.nodes.onflow.org'
+};
+
+const clients = new Map<number, PublicClient>();
+
+/**
+ * Read receipts over JSON-RPC (KATANA_RPC_URL and FLOW_RPC_URL)
+ */
+export const readTransaction: TransactionReader = async (chainId, txHash) => {
+  const url = RPC_URLS[chainId];
+  if (!url) {
+    throw new Error(`No RPC endpoint for chain ${chainId}`);
+  }
+
+  let client = clients.get(chainId);
+  if (!client) {
+    client = createPublicClient({ transport: http(url) });
+    clients.set(chainId, client);
+  }
+
+  try {
+    const receipt = await client.getTransactionReceipt({ hash: txHash });
+    return { status: receipt.status, from: receipt.from, to: receipt.to };
+  } catch (error) {
+    if ((error as Error).name === 'TransactionReceiptNotFoundError') return null;
+    throw error;
+  }
+};
+
+/**
+ * Check that a reported transaction was sent by the player, succeeded and called a
+ * contract for the reported action
+ */
+export async function verifyOnChainAction(
+  report: OnChainActionReport,
+  playerId: string,
+  readReceipt: TransactionReader = readTransaction
+): Promise<OnChainVerification> {
+  const contracts = ON_CHAIN_ACTION_CONTRACTS[report.chainId]?.[report.action];
+  if (!contracts) {
+    return { verified: false, reason: `${report.action} is not available on chain ${report.chainId}` };
+  }
+  if (!/^0x[0-9a-fA-F]{64}$/.test(report.txHash)) {
+    return { verified: false, reason: 'Invalid transaction hash' };
+  }
+
+  const receipt = await readReceipt(report.chainId, report.txHash as `0x${string}`);
+  if (!receipt) {
+    return { verified: false, reason: 'Transaction not found or not yet mined' };
+  }
+  if (receipt.status !== 'success') {
+    return { verified: false, reason: 'Transaction failed' };
+  }
+  if (receipt.from.toLowerCase() !== playerId.toLowerCase()) {
+    return { verified: false, reason: 'Transaction was sent by another account' };
+  }
+  if (!receipt.to || !contracts.some(contract => contract.toLowerCase() === receipt.to!.toLowerCase())) {
+    return { verified: false, reason: `Transaction did not call a ${report.action} contract` };
+  }
+
+  return { verified: true };
+}
\ No newline at end of file
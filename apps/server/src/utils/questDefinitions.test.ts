@@ -0,0 +1,34 @@
+import { describe, test, expect } from 'vitest';
+import { loadQuestDefinitions, parseQuestDefinitions } from './questDefinitions';
+
+describe('Quest definitions', () => {
+  const quest = {
+    id: 'first_sprout',
+    title: 'First Sprout',
+    description: 'Plant your first USDC Sprout',
+    objective: { event: 'crop_planted', count: 1, where: { seedType: 'usdc_sprout' } },
+    reward: { xp: 5 }
+  };
+
+  test('should load the quests shipped with the server', () => {
+    const quests = loadQuestDefinitions();
+
+    expect(quests.length).toBeGreaterThan(0);
+    expect(quests.map(({ objective }) => objective.event)).toEqual(
+      expect.arrayContaining(['crop_planted', 'farm_visited', 'bank_deposit', 'market_swap'])
+    );
+  });
+
+  test('should accept a valid definition', () => {
+    expect(parseQuestDefinitions([quest])).toEqual([quest]);
+  });
+
+  test('should reject invalid definitions', () => {
+    expect(() => parseQuestDefinitions({})).toThrow('must be a list');
+    expect(() => parseQuestDefinitions([quest, quest])).toThrow('defined twice');
+    expect(() => parseQuestDefinitions([{ ...quest, id: 'First Sprout' }])).toThrow('needs an id');
+    expect(() => parseQuestDefinitions([{ ...quest, objective: { event: 'jump', count: 1 } }])).toThrow('unknown objective event');
+    expect(() => parseQuestDefinitions([{ ...quest, objective: { event: 'crop_planted', count: 0 } }])).toThrow('positive whole');
+    expect(() => parseQuestDefinitions([{ ...quest, reward: {} }])).toThrow('xp or cosmetic');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { QuestDefinition, QuestObjective, QuestReward, isQuestEventType } from '@defivalley/shared';
+
+/**
+ * Quest definitions file: QUESTS_PATH, or the quests.json shipped with the server.
+ * Designers add quests by editing this file; rooms created afterwards pick them up.
+ */
+export function getQuestDefinitionsPath(): string {
+  return process.env.QUESTS_PATH || join(__dirname, '..', 'quests', 'quests.json');
+}
+
+export function loadQuestDefinitions(path: string = getQuestDefinitionsPath()): QuestDefinition[] {
+  return parseQuestDefinitions(JSON.parse(readFileSync(path, 'utf8')));
+}
+
+/**
+ * Check parsed JSON against the quest definition format, throwing on the first problem
+ */
+export function parseQuestDefinitions(raw: unknown): QuestDefinition[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Quest definitions must be a list');
+  }
+
+  const seen = new Set<string>();
+  return raw.map((entry, index) => {
+    const quest = parseQuest(entry, index);
+    if (seen.has(quest.id)) {
+      throw new Error(`Quest "${quest.id}" is defined twice`);
+    }
+    seen.add(quest.id);
+    return quest;
+  });
+}
+
+function parseQuest(entry: unknown, index: number): QuestDefinition {
+  const { id, title, description, objective, reward } = (entry ?? {}) as Record<string, unknown>;
+
+  if (typeof id !== 'string' || !/^[a-z0-9_]+$/.test(id)) {
+    throw new Error(`Quest ${index} needs an id of lowercase letters, digits and underscores`);
+  }
+  if (typeof title !== 'string' || !title.trim() || typeof description !== 'string') {
+    throw new Error(`Quest "${id}" needs a title and description`);
+  }
+
+  return {
+    id,
+    title: title.trim(),
+    description,
+    objective: parseObjective(id, objective),
+    reward: parseReward(id, reward)
+  };
+}
+
+function parseObjective(questId: string, raw: unknown): QuestObjective {
+  const { event, count, where, distinct } = (raw ?? {}) as Record<string, unknown>;
+
+  if (!isQuestEventType(event)) {
+    throw new Error(`Quest "${questId}" has an unknown objective event: ${String(event)}`);
+  }
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1) {
+    throw new Error(`Quest "${questId}" needs a positive whole objective count`);
+  }
+  if (where !== undefined && (typeof where !== 'object' || where === null ||
+      !Object.values(where).every(value => typeof value === 'string'))) {
+    throw new Error(`Quest "${questId}" objective "where" must map fields to strings`);
+  }
+  if (distinct !== undefined && typeof distinct !== 'string') {
+    throw new Error(`Quest "${questId}" objective "distinct" must name an event field`);
+  }
+
+  return {
+    event,
+    count,
+    ...(where !== undefined && { where: where as Record<string, string> }),
+    ...(distinct !== undefined && { distinct })
+  };
+}
+
+function parseReward(questId: string, raw: unknown): QuestReward {
+  const { xp, cosmetic } = (raw ?? {}) as Record<string, unknown>;
+
+  if (xp !== undefined && (typeof xp !== 'number' || !Number.isInteger(xp) || xp < 0)) {
+    throw new Error(`Quest "${questId}" reward xp must be a whole number`);
+  }
+  if (cosmetic !== undefined && (typeof cosmetic !== 'string' || !cosmetic)) {
+    throw new Error(`Quest "${questId}" reward cosmetic must be a name`);
+  }
+  if (xp === undefined && cosmetic === undefined) {
+    throw new Error(`Quest "${questId}" needs an xp or cosmetic reward`);
+  }
+
+  return {
+    ...(xp !== undefined && { xp }),
+    ...(cosmetic !== undefined && { cosmetic })
+  };
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'vitest';
+import { MessageRateLimiter } from './rateLimiter';
+import { RateLimitConfig } from '../types/rateLimit.types';
+
+describe('Message rate limiting', () => {
+  const config: RateLimitConfig = {
+    limits: {
+      chat: { capacity: 2, refillPerSecond: 1 }
+    },
+    maxViolations: 2,
+    violationWindowMs: 10000
+  };
+
+  test('should allow a burst up to capacity and then limit', () => {
+    const limiter = new MessageRateLimiter(config);
+
+    expect(limiter.consume('a', 'chat', 0)).toBe('allowed');
+    expect(limiter.consume('a', 'chat', 0)).toBe('allowed');
+    expect(limiter.consume('a', 'chat', 0)).toBe('limited');
+  });
+
+  test('should refill tokens over time', () => {
+    const limiter = new MessageRateLimiter(config);
+    limiter.consume('a', 'chat', 0);
+    limiter.consume('a', 'chat', 0);
+
+    expect(limiter.consume('a', 'chat', 500)).toBe('limited');
+    expect(limiter.consume('a', 'chat', 1000)).toBe('allowed');
+  });
+
+  test('should track sessions and message types independently', () => {
+    const limiter = new MessageRateLimiter(config);
+    limiter.consume('a', 'chat', 0);
+    limiter.consume('a', 'chat', 0);
+
+    expect(limiter.consume('b', 'chat', 0)).toBe('allowed');
+    expect(limiter.consume('a', 'move', 0)).toBe('allowed');
+  });
+
+  test('should disconnect repeat offenders', () => {
+    const limiter = new MessageRateLimiter(config);
+    limiter.consume('a', 'chat', 0);
+    limiter.consume('a', 'chat', 0);
+
+    expect(limiter.consume('a', 'chat', 0)).toBe('limited');
+    expect(limiter.consume('a', 'chat', 0)).toBe('limited');
+    expect(limiter.consume('a', 'chat', 0)).toBe('disconnect');
+  });
+
+  test('should forget old violations outside the window', () => {
+    const limiter = new MessageRateLimiter({ ...config, limits: { chat: { capacity: 0, refillPerSecond: 0 } } });
+
+    limiter.consume('a', 'chat', 0);
+    limiter.consume('a', 'chat', 0);
+
+    expect(limiter.consume('a', 'chat', 20000)).toBe('limited');
+  });
+
+  test('should count allowed and limited messages per type', () => {
+    const limiter = new MessageRateLimiter(config);
+    limiter.consume('a', 'chat', 0);
+    limiter.consume('a', 'chat', 0);
+    limiter.consume('a', 'chat', 0);
+
+    const counters = limiter.getCounters();
+    expect(counters.allowed).toBe(2);
+    expect(counters.limited).toBe(1);
+    expect(counters.byType.chat).toEqual({ allowed: 2, limited: 1 });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,96 @@
+import {
+  RateLimitConfig,
+  RateLimitCounters,
+  RateLimitResult,
+  DEFAULT_RATE_LIMIT_CONFIG
+} from '../types/rateLimit.types';
+
+/**
+ * Per-session, per-message-type token bucket rate limiting for room messages
+ */
+
+interface TokenBucket {
+  tokens: number;
+  lastRefill: number;
+}
+
+interface SessionState {
+  buckets: Map<string, TokenBucket>;
+  violations: number[];  // Timestamps of recent limited messages
+}
+
+export class MessageRateLimiter {
+  private sessions = new Map<string, SessionState>();
+  private counters: RateLimitCounters = { allowed: 0, limited: 0, disconnected: 0, byType: {} };
+
+  constructor(private config: RateLimitConfig = DEFAULT_RATE_LIMIT_CONFIG) {}
+
+  /**
+   * Take a token for a message. Returns 'disconnect' once a session has
+   * exceeded its limits more than maxViolations times within the window.
+   */
+  consume(sessionId: string, type: string, now: number = Date.now()): RateLimitResult {
+    const limit = this.config.limits[type];
+    if (!limit) return 'allowed';
+
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { buckets: new Map(), violations: [] };
+      this.sessions.set(sessionId, session);
+    }
+
+    let bucket = session.buckets.get(type);
+    if (!bucket) {
+      bucket = { tokens: limit.capacity, lastRefill: now };
+      session.buckets.set(type, bucket);
+    }
+
+    // Refill based on time since the last message of this type
+    const elapsedSeconds = Math.max(0, now - bucket.lastRefill) / 1000;
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + elapsedSeconds * limit.refillPerSecond);
+    bucket.lastRefill = now;
+
+    let typeCounters = this.counters.byType[type];
+    if (!typeCounters) {
+      typeCounters = { allowed: 0, limited: 0 };
+      this.counters.byType[type] = typeCounters;
+    }
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      this.counters.allowed++;
+      typeCounters.allowed++;
+      return 'allowed';
+    }
+
+    this.counters.limited++;
+    typeCounters.limited++;
+
+    session.violations = session.violations.filter(t => now - t < this.config.violationWindowMs);
+    session.violations.push(now);
+
+    if (session.violations.length > this.config.maxViolations) {
+      this.counters.disconnected++;
+      return 'disconnect';
+    }
+    return 'limited';
+  }
+
+  /**
+   * Forget a session's buckets (call when the client leaves)
+   */
+  removeSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Snapshot of message counters since the limiter was created
+   */
+  getCounters(): RateLimitCounters {
+    const byType: RateLimitCounters['byType'] = {};
+    for (const [type, counters] of Object.entries(this.counters.byType)) {
+      byType[type] = { ...counters };
+    }
+    return { ...this.counters, byType };
+  }
+}
\ No newline at end of file
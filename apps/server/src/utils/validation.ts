@@ -2,6 +2,26 @@
  * Validation utilities for input sanitization and security
  */
 
+import {
+  BuildingDefinition,
+  BuildingSprite,
+  BuildingManifest,
+  BuildingNetwork,
+  CHAT_MAX_LENGTH,
+  MAX_BUILDINGS_PER_MANIFEST,
+  WORLD_CONFIG,
+  DEFAULT_TERRAIN_GENERATION,
+  TERRAIN_GENERATION_LIMITS,
+  TerrainGenerationParams,
+  WORLD_SETTINGS_LIMITS,
+  WorldSettings,
+  isTerrainPathLayout,
+  isValidWorldTag,
+  isWorldVisibility,
+  normalizeWorldTag
+} from '@defivalley/shared';
+import { getAddress, isAddress } from 'viem';
+
 /**
  * Validates a world ID (player ID) to prevent SQL injection
  * World IDs should be alphanumeric with possible underscores or hyphens
@@ -19,14 +39,23 @@ export function isValidWorldId(worldId: string): boolean {
 }
 
 /**
- * Sanitizes a world ID for safe database usage
+ * The one form a world ID is stored and looked up in. World IDs are their owner's player ID, so
+ * wallet addresses are checksummed like the player IDs sessions hand out, however they were typed
+ */
+export function normalizeWorldId(worldId: string): string {
+  const trimmed = worldId.trim();
+  return isAddress(trimmed, { strict: false }) ? getAddress(trimmed) : trimmed;
+}
+
+/**
+ * Sanitizes and normalizes a world ID for safe database usage
  * Returns null if invalid
  */
 export function sanitizeWorldId(worldId: string): string | null {
   if (!isValidWorldId(worldId)) {
     return null;
   }
-  return worldId.trim();
+  return normalizeWorldId(worldId);
 }
 
 /**
@@ -40,4 +69,292 @@ export function validatePagination(page?: string, limit?: string) {
     page: Math.max(1, isNaN(pageNum) ? 1 : pageNum),
     limit: Math.min(100, Math.max(1, isNaN(limitNum) ? 20 : limitNum))
   };
+}
+
+/**
+ * Sanitizes a chat message: strips control and bidi override characters and collapses whitespace
+ * Returns null if the message is not a string, empty, or longer than CHAT_MAX_LENGTH
+ */
+export function sanitizeChatMessage(text: unknown): string | null {
+  if (typeof text !== 'string') {
+    return null;
+  }
+  
+  const cleaned = cleanText(text);
+  
+  if (cleaned.length === 0 || cleaned.length > CHAT_MAX_LENGTH) {
+    return null;
+  }
+  return cleaned;
+}
+
+// Longest display name an admin can give a player
+export const PLAYER_NAME_MAX_LENGTH = 32;
+
+/**
+ * Sanitizes a player display name the same way as chat messages
+ * Returns null if the name is not a string, empty, or longer than PLAYER_NAME_MAX_LENGTH
+ */
+export function sanitizePlayerName(name: unknown): string | null {
+  if (typeof name !== 'string') {
+    return null;
+  }
+  
+  const cleaned = cleanText(name);
+  
+  if (cleaned.length === 0 || cleaned.length > PLAYER_NAME_MAX_LENGTH) {
+    return null;
+  }
+  return cleaned;
+}
+
+/**
+ * Validates an owner's world settings update and merges it over the current settings
+ * Fields left out of the update keep their current value; returns an error for the first invalid field
+ */
+export function validateWorldSettings(update: unknown, current: WorldSettings): { settings: WorldSettings } | { error: string } {
+  if (!update || typeof update !== 'object' || Array.isArray(update)) {
+    return { error: 'Settings must be an object' };
+  }
+  
+  const { title, description, tags, visibility, maxVisitors } = update as Record<string, unknown>;
+  const settings: WorldSettings = { ...current, tags: [...current.tags] };
+  
+  if (title !== undefined) {
+    if (typeof title !== 'string' || cleanText(title).length > WORLD_SETTINGS_LIMITS.titleMaxLength) {
+      return { error: `Title must be a string of at most ${WORLD_SETTINGS_LIMITS.titleMaxLength} characters` };
+    }
+    settings.title = cleanText(title);
+  }
+  
+  if (description !== undefined) {
+    if (typeof description !== 'string' || cleanText(description).length > WORLD_SETTINGS_LIMITS.descriptionMaxLength) {
+      return { error: `Description must be a string of at most ${WORLD_SETTINGS_LIMITS.descriptionMaxLength} characters` };
+    }
+    settings.description = cleanText(description);
+  }
+  
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || tags.length > WORLD_SETTINGS_LIMITS.maxTags) {
+      return { error: `Tags must be a list of at most ${WORLD_SETTINGS_LIMITS.maxTags} tags` };
+    }
+    const normalized = tags.map(tag => typeof tag === 'string' ? normalizeWorldTag(tag) : '');
+    if (!normalized.every(isValidWorldTag)) {
+      return { error: `Tags may only contain letters, numbers and hyphens (at most ${WORLD_SETTINGS_LIMITS.tagMaxLength} characters)` };
+    }
+    settings.tags = Array.from(new Set(normalized));
+  }
+  
+  if (visibility !== undefined) {
+    if (!isWorldVisibility(visibility)) {
+      return { error: 'Visibility must be public, unlisted or friends' };
+    }
+    settings.visibility = visibility;
+  }
+  
+  if (maxVisitors !== undefined) {
+    const { minVisitors, maxVisitors: visitorLimit } = WORLD_SETTINGS_LIMITS;
+    if (!Number.isInteger(maxVisitors) || (maxVisitors as number) < minVisitors || (maxVisitors as number) > visitorLimit) {
+      return { error: `Max visitors must be a whole number from ${minVisitors} to ${visitorLimit}` };
+    }
+    settings.maxVisitors = maxVisitors as number;
+  }
+  
+  return { settings };
+}
+
+/**
+ * Validates an owner's terrain generation request, filling in defaults for fields left out
+ * A missing seed is replaced with `newSeed()`; returns an error for the first invalid field
+ */
+export function validateTerrainGeneration(input: unknown, newSeed: () => number): { params: TerrainGenerationParams } | { error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Terrain generation parameters must be an object' };
+  }
+  
+  const { seed, lakeCount, cliffDensity, pathLayout } = input as Record<string, unknown>;
+  const params: TerrainGenerationParams = { ...DEFAULT_TERRAIN_GENERATION, seed: 0 };
+  
+  if (seed !== undefined && (!Number.isInteger(seed) || (seed as number) < 0 || (seed as number) > TERRAIN_GENERATION_LIMITS.maxSeed)) {
+    return { error: `Seed must be a whole number from 0 to ${TERRAIN_GENERATION_LIMITS.maxSeed}` };
+  }
+  params.seed = seed === undefined ? newSeed() : seed as number;
+  
+  if (lakeCount !== undefined) {
+    if (!Number.isInteger(lakeCount) || (lakeCount as number) < 0 || (lakeCount as number) > TERRAIN_GENERATION_LIMITS.maxLakes) {
+      return { error: `Lake count must be a whole number from 0 to ${TERRAIN_GENERATION_LIMITS.maxLakes}` };
+    }
+    params.lakeCount = lakeCount as number;
+  }
+  
+  if (cliffDensity !== undefined) {
+    if (typeof cliffDensity !== 'number' || !(cliffDensity >= 0 && cliffDensity <= 1)) {
+      return { error: 'Cliff density must be a number from 0 to 1' };
+    }
+    params.cliffDensity = cliffDensity;
+  }
+  
+  if (pathLayout !== undefined) {
+    if (!isTerrainPathLayout(pathLayout)) {
+      return { error: 'Path layout must be none, cross, ring or winding' };
+    }
+    params.pathLayout = pathLayout;
+  }
+  
+  return { params };
+}
+
+const BUILDING_KEY_PATTERN = /^[a-zA-Z0-9_-]{1,40}$/; // Building IDs, types, events and modals
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/;
+const BUILDING_TEXT_MAX_LENGTH = 500;
+
+/**
+ * Validates an owner's building layout for one network
+ * Text is cleaned and sprites may only load images served by the game; returns an error for the first invalid building
+ */
+export function validateBuildingManifest(input: unknown, network: BuildingNetwork): { manifest: BuildingManifest } | { error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Building manifest must be an object' };
+  }
+  
+  const { network: manifestNetwork, buildings } = input as Record<string, unknown>;
+  if (manifestNetwork !== network) {
+    return { error: `Building manifest is for ${String(manifestNetwork)}, expected ${network}` };
+  }
+  if (!Array.isArray(buildings) || buildings.length === 0 || buildings.length > MAX_BUILDINGS_PER_MANIFEST) {
+    return { error: `A farm must have between 1 and ${MAX_BUILDINGS_PER_MANIFEST} buildings` };
+  }
+  
+  const validated: BuildingDefinition[] = [];
+  for (const building of buildings) {
+    const result = validateBuildingDefinition(building);
+    if ('error' in result) {
+      return result;
+    }
+    if (validated.some(other => other.id === result.building.id)) {
+      return { error: `Building ID ${result.building.id} is used twice` };
+    }
+    validated.push(result.building);
+  }
+  
+  return { manifest: { network, buildings: validated } };
+}
+
+function validateBuildingDefinition(input: unknown): { building: BuildingDefinition } | { error: string } {
+  const { id, type, name, x, y, collision, sprite, interaction } = asRecord(input);
+  
+  if (!isBuildingKey(id)) {
+    return { error: 'Building IDs must be 1-40 letters, numbers, hyphens or underscores' };
+  }
+  if (!isBuildingKey(type)) {
+    return { error: `Building ${id} has an invalid type` };
+  }
+  if (!isBuildingText(name)) {
+    return { error: `Building ${id} needs a name` };
+  }
+  if (typeof x !== 'number' || !Number.isFinite(x) || typeof y !== 'number' || !Number.isFinite(y)) {
+    return { error: `Building ${id} needs a numeric position` };
+  }
+  const { width, height } = asRecord(collision);
+  if (!isNumberUpTo(width, WORLD_CONFIG.width) || !isNumberUpTo(height, WORLD_CONFIG.height)) {
+    return { error: `Building ${id} needs a collision size inside the world` };
+  }
+  
+  const { texture, url, atlas, scale, tint, animation } = asRecord(sprite);
+  if (!isBuildingKey(texture) || !isLocalAsset(url) || (atlas !== undefined && !isLocalAsset(atlas))) {
+    return { error: `Building ${id} needs a texture and an image served by the game` };
+  }
+  if ((scale !== undefined && !isNumberUpTo(scale, 10)) || (tint !== undefined && !isHexColor(tint))) {
+    return { error: `Building ${id} has an invalid sprite scale or tint` };
+  }
+  let spriteAnimation: BuildingSprite['animation'];
+  if (animation !== undefined) {
+    const { prefix, suffix, start, end, frameRate } = asRecord(animation);
+    if (typeof prefix !== 'string' || typeof suffix !== 'string' ||
+      !isInteger(start) || !isInteger(end) || !isNumberUpTo(frameRate, Infinity)) {
+      return { error: `Building ${id} has an invalid animation` };
+    }
+    spriteAnimation = { prefix, suffix, start, end, frameRate };
+  }
+  
+  const { event, prompt, glowColor, promptColor, character, dialogue, modal } = asRecord(interaction);
+  if (!isBuildingKey(event) || (modal !== undefined && !isBuildingKey(modal))) {
+    return { error: `Building ${id} has an invalid interaction event or modal` };
+  }
+  if (!isBuildingText(prompt) || !isBuildingText(character) || !isBuildingText(dialogue)) {
+    return { error: `Building ${id} needs a prompt, character and dialogue` };
+  }
+  if (!isHexColor(glowColor) || (promptColor !== undefined && !isHexColor(promptColor))) {
+    return { error: `Building ${id} has an invalid glow or prompt colour` };
+  }
+  
+  return {
+    building: {
+      id,
+      type,
+      name: cleanText(name),
+      x,
+      y,
+      collision: { width, height },
+      sprite: {
+        texture,
+        url,
+        ...(atlas !== undefined && { atlas }),
+        ...(scale !== undefined && { scale }),
+        ...(tint !== undefined && { tint }),
+        ...(spriteAnimation && { animation: spriteAnimation })
+      },
+      interaction: {
+        event,
+        prompt: cleanText(prompt),
+        glowColor,
+        ...(promptColor !== undefined && { promptColor }),
+        character: cleanText(character),
+        dialogue: cleanText(dialogue),
+        ...(modal !== undefined && { modal })
+      }
+    }
+  };
+}
+
+// The fields of a nested object, or none when it's missing or not an object
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function isInteger(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+// A positive number no larger than max
+function isNumberUpTo(value: unknown, max: number): value is number {
+  return typeof value === 'number' && value > 0 && value <= max;
+}
+
+function isBuildingKey(value: unknown): value is string {
+  return typeof value === 'string' && BUILDING_KEY_PATTERN.test(value);
+}
+
+function isBuildingText(value: unknown): value is string {
+  return typeof value === 'string' && cleanText(value).length > 0 && value.length <= BUILDING_TEXT_MAX_LENGTH;
+}
+
+function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR_PATTERN.test(value);
+}
+
+// Site-relative asset path, e.g. "/sprites/bank.png" (no other hosts or parent directories)
+function isLocalAsset(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= 200 && /^\/[a-zA-Z0-9_\-./]+$/.test(value) &&
+    !value.startsWith('//') && !value.includes('..');
+}
+
+/**
+ * Strips control and bidi override characters and collapses whitespace
+ */
+function cleanText(text: string): string {
+  return text
+    .replace(/[\u0000-\u001F\u007F-\u009F\u200B-\u200F\u202A-\u202E\u2066-\u2069]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { DEFAULT_WORLD_SETTINGS, WorldSettings } from '@defivalley/shared';
+import { createAuthSession } from './auth';
+import { WorldAccessRepositories, resolveWorldAccess } from './worldAccess';
+import { InMemoryRoleRepository } from '../repositories/memory/InMemoryRoleRepository';
+import { InMemoryModerationRepository } from '../repositories/memory/InMemoryModerationRepository';
+
+describe('World access', () => {
+  const owner = '0x1111111111111111111111111111111111111111';
+  const friend = '0x2222222222222222222222222222222222222222';
+  const stranger = '0x3333333333333333333333333333333333333333';
+  const publicFarm: WorldSettings = { ...DEFAULT_WORLD_SETTINGS, visibility: 'public' };
+  const friendsFarm: WorldSettings = { ...DEFAULT_WORLD_SETTINGS, visibility: 'friends' };
+  let repositories: WorldAccessRepositories;
+
+  beforeEach(() => {
+    repositories = { roles: new InMemoryRoleRepository(), moderation: new InMemoryModerationRepository() };
+    repositories.roles.grant(owner, friend, 'friend', owner);
+  });
+
+  test('should resolve the session player and their role on the farm', () => {
+    expect(resolveWorldAccess(createAuthSession(owner), owner, publicFarm, repositories))
+      .toEqual({ playerId: owner, isHost: true, role: 'owner' });
+    expect(resolveWorldAccess(createAuthSession(friend), owner, publicFarm, repositories))
+      .toEqual({ playerId: friend, isHost: false, role: 'friend' });
+    expect(resolveWorldAccess(undefined, owner, publicFarm, repositories))
+      .toEqual({ playerId: null, isHost: false, role: 'visitor' });
+  });
+
+  test('should only let the owner and granted roles into friends-only farms', () => {
+    expect(resolveWorldAccess(createAuthSession(owner), owner, friendsFarm, repositories).role).toBe('owner');
+    expect(resolveWorldAccess(createAuthSession(friend), owner, friendsFarm, repositories).role).toBe('friend');
+    expect(() => resolveWorldAccess(createAuthSession(stranger), owner, friendsFarm, repositories)).toThrow('only open to friends');
+    expect(() => resolveWorldAccess(null, owner, friendsFarm, repositories)).toThrow('only open to friends');
+  });
+
+  test('should refuse expired sessions and banned players', () => {
+    expect(() => resolveWorldAccess('not-a-session', owner, publicFarm, repositories)).toThrow('Invalid or expired auth token');
+
+    repositories.moderation.ban({ playerId: owner, reason: 'spam', bannedBy: stranger, bannedAt: Date.now() });
+    expect(() => resolveWorldAccess(createAuthSession(owner), owner, publicFarm, repositories)).toThrow('You are banned: spam');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { ServerError } from 'colyseus';
+import { WorldRole, WorldSettings } from '@defivalley/shared';
+import { IRoleRepository } from '../repositories/interfaces/IRoleRepository';
+import { IModerationRepository } from '../repositories/interfaces/IModerationRepository';
+import { validateSession, verifyWorldPermission } from './auth';
+
+export interface WorldAccess {
+  playerId: string | null; // null for guests without a signed-in wallet
+  isHost: boolean;
+  role: WorldRole;
+}
+
+export interface WorldAccessRepositories {
+  roles: IRoleRepository;
+  moderation: IModerationRepository;
+}
+
+/**
+ * Who the holder of a session token is on a farm, for joining its room or reading its chat history.
+ * Throws a ServerError (401 or 403) for expired sessions, banned players and visitors a friends-only
+ * farm doesn't let in; how many visitors the farm can hold is left to the room
+ */
+export function resolveWorldAccess(
+  authToken: string | null | undefined,
+  worldId: string,
+  settings: WorldSettings,
+  repositories: WorldAccessRepositories
+): WorldAccess {
+  // Guests without a signed-in wallet can still visit, but never as host
+  if (!authToken) {
+    return checkVisibility({ playerId: null, isHost: false, role: 'visitor' }, settings);
+  }
+
+  const playerId = validateSession(authToken);
+  if (!playerId) {
+    throw new ServerError(401, 'Invalid or expired auth token');
+  }
+
+  // Banned players are refused everywhere, including their own farm
+  const ban = repositories.moderation.findBan(playerId);
+  if (ban) {
+    throw new ServerError(403, ban.reason ? `You are banned: ${ban.reason}` : 'You are banned from DeFi Valley');
+  }
+
+  // The owner can always enter their own farm
+  if (verifyWorldPermission(authToken, worldId)) {
+    return { playerId, isHost: true, role: 'owner' };
+  }
+
+  return checkVisibility({ playerId, isHost: false, role: findGrantedRole(worldId, playerId, repositories.roles) }, settings);
+}
+
+function checkVisibility(access: WorldAccess, settings: WorldSettings): WorldAccess {
+  if (settings.visibility === 'friends' && access.role === 'visitor') {
+    throw new ServerError(403, 'This farm is only open to friends of the owner');
+  }
+  return access;
+}
+
+// Role granted to a player on a world by its owner ('visitor' if none)
+function findGrantedRole(worldId: string, playerId: string, roles: IRoleRepository): WorldRole {
+  try {
+    return roles.findRole(worldId, playerId) ?? 'visitor';
+  } catch (error) {
+    console.error('❌ Error loading world role:', error);
+    return 'visitor';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest';
+import { loadWorldEventDefinitions, parseWorldEventDefinitions } from './worldEventDefinitions';
+
+describe('World event definitions', () => {
+  const event = {
+    id: 'harvest_festival',
+    name: 'Harvest Festival',
+    description: 'Planting earns 1.5x XP',
+    startsAt: '2025-01-04T00:00:00.000Z',
+    endsAt: '2025-01-06T00:00:00.000Z',
+    repeat: 'weekly',
+    modifiers: { xpMultiplier: 1.5 }
+  };
+
+  test('should load the events shipped with the server', () => {
+    expect(loadWorldEventDefinitions().length).toBeGreaterThan(0);
+  });
+
+  test('should accept a valid definition', () => {
+    expect(parseWorldEventDefinitions([event])).toEqual([event]);
+
+    const { repeat, ...oneOff } = event;
+    expect(parseWorldEventDefinitions([{ ...oneOff, worldId: '0x123' }])).toEqual([{ ...oneOff, worldId: '0x123' }]);
+  });
+
+  test('should reject invalid definitions', () => {
+    expect(() => parseWorldEventDefinitions({})).toThrow('must be a list');
+    expect(() => parseWorldEventDefinitions([event, event])).toThrow('defined twice');
+    expect(() => parseWorldEventDefinitions([{ ...event, id: 'Harvest Festival' }])).toThrow('needs an id');
+    expect(() => parseWorldEventDefinitions([{ ...event, startsAt: 'saturday' }])).toThrow('ISO 8601');
+    expect(() => parseWorldEventDefinitions([{ ...event, endsAt: event.startsAt }])).toThrow('end after it starts');
+    expect(() => parseWorldEventDefinitions([{ ...event, repeat: 'daily' }])).toThrow('longer than it takes to repeat');
+    expect(() => parseWorldEventDefinitions([{ ...event, modifiers: { xpMultiplier: 0 } }])).toThrow('positive number');
+    expect(() => parseWorldEventDefinitions([{ ...event, modifiers: {} }])).toThrow('at least one modifier');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { WORLD_EVENT_REPEAT_PERIODS, WorldEventDefinition, WorldEventModifiers, isWorldEventRepeat } from '@defivalley/shared';
+
+/**
+ * World events file: WORLD_EVENTS_PATH, or the events.json shipped with the server.
+ * Rooms created after the file changes pick up the new schedule.
+ */
+export function getWorldEventDefinitionsPath(): string {
+  return process.env.WORLD_EVENTS_PATH || join(__dirname, '..', 'events', 'events.json');
+}
+
+export function loadWorldEventDefinitions(path: string = getWorldEventDefinitionsPath()): WorldEventDefinition[] {
+  return parseWorldEventDefinitions(JSON.parse(readFileSync(path, 'utf8')));
+}
+
+/**
+ * Check parsed JSON against the world event format, throwing on the first problem
+ */
+export function parseWorldEventDefinitions(raw: unknown): WorldEventDefinition[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('World events must be a list');
+  }
+
+  const seen = new Set<string>();
+  return raw.map((entry, index) => {
+    const event = parseWorldEvent(entry, index);
+    if (seen.has(event.id)) {
+      throw new Error(`World event "${event.id}" is defined twice`);
+    }
+    seen.add(event.id);
+    return event;
+  });
+}
+
+function parseWorldEvent(entry: unknown, index: number): WorldEventDefinition {
+  const { id, name, description, worldId, startsAt, endsAt, repeat, modifiers } = (entry ?? {}) as Record<string, unknown>;
+
+  if (typeof id !== 'string' || !/^[a-z0-9_]+$/.test(id)) {
+    throw new Error(`World event ${index} needs an id of lowercase letters, digits and underscores`);
+  }
+  if (typeof name !== 'string' || !name.trim() || typeof description !== 'string') {
+    throw new Error(`World event "${id}" needs a name and description`);
+  }
+  if (worldId !== undefined && (typeof worldId !== 'string' || !worldId)) {
+    throw new Error(`World event "${id}" worldId must be a player ID`);
+  }
+  if (typeof startsAt !== 'string' || typeof endsAt !== 'string' ||
+      Number.isNaN(Date.parse(startsAt)) || Number.isNaN(Date.parse(endsAt))) {
+    throw new Error(`World event "${id}" needs ISO 8601 startsAt and endsAt times`);
+  }
+
+  const duration = Date.parse(endsAt) - Date.parse(startsAt);
+  if (duration <= 0) {
+    throw new Error(`World event "${id}" must end after it starts`);
+  }
+  if (repeat !== undefined && !isWorldEventRepeat(repeat)) {
+    throw new Error(`World event "${id}" repeat must be "daily" or "weekly"`);
+  }
+  if (repeat !== undefined && duration > WORLD_EVENT_REPEAT_PERIODS[repeat]) {
+    throw new Error(`World event "${id}" lasts longer than it takes to repeat`);
+  }
+
+  return {
+    id,
+    name: name.trim(),
+    description,
+    ...(worldId !== undefined && { worldId }),
+    startsAt,
+    endsAt,
+    ...(repeat !== undefined && { repeat }),
+    modifiers: parseModifiers(id, modifiers)
+  };
+}
+
+function parseModifiers(eventId: string, raw: unknown): WorldEventModifiers {
+  const { xpMultiplier, yieldMultiplier, growthTimeMultiplier } = (raw ?? {}) as Record<string, unknown>;
+  const modifiers = { xpMultiplier, yieldMultiplier, growthTimeMultiplier };
+
+  for (const [name, value] of Object.entries(modifiers)) {
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      throw new Error(`World event "${eventId}" ${name} must be a positive number`);
+    }
+  }
+  if (Object.values(modifiers).every(value => value === undefined)) {
+    throw new Error(`World event "${eventId}" needs at least one modifier`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(modifiers).filter(([, value]) => value !== undefined)
+  ) as WorldEventModifiers;
+}
\ No newline at end of file
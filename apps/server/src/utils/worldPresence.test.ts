@@ -0,0 +1,41 @@
+import { describe, test, expect } from 'vitest';
+import { WorldPresenceRegistry } from './worldPresence';
+
+describe('World presence', () => {
+  const room = (worldId: string, visitors: string[], hostOnline = false, visibility: 'public' | 'unlisted' | 'friends' = 'public') => ({
+    worldId,
+    playerCount: visitors.length + (hostOnline ? 1 : 0),
+    hostOnline,
+    visitors,
+    visibility
+  });
+
+  test('should list occupied worlds busiest first', () => {
+    const registry = new WorldPresenceRegistry();
+    registry.update('room-a', room('alice', ['Bob'], true));
+    registry.update('room-b', room('carol', ['Dan', 'Eve', 'Fay']));
+    registry.update('room-c', room('gus', []));
+
+    expect(registry.list().map(world => [world.worldId, world.playerCount])).toEqual([['carol', 3], ['alice', 2]]);
+  });
+
+  test('should merge the rooms of one world', () => {
+    const registry = new WorldPresenceRegistry();
+    registry.update('room-a', room('alice', ['Bob']));
+    registry.update('room-b', room('alice', ['Cat'], true));
+
+    expect(registry.list()).toEqual([{ worldId: 'alice', playerCount: 3, hostOnline: true, visitors: ['Bob', 'Cat'] }]);
+  });
+
+  test('should hide unlisted worlds, friends-only visitors and disposed rooms', () => {
+    const registry = new WorldPresenceRegistry();
+    registry.update('room-a', room('alice', ['Bob'], false, 'unlisted'));
+    registry.update('room-b', room('carol', ['Dan'], false, 'friends'));
+
+    expect(registry.list().map(world => world.worldId)).toEqual(['carol']);
+    expect(registry.list()[0]).toEqual({ worldId: 'carol', playerCount: 1, hostOnline: false, visitors: [] }); // Friends-only farms keep visitors private
+
+    registry.remove('room-b');
+    expect(registry.list()).toEqual([]);
+  });
+});
\ No newline at end of file
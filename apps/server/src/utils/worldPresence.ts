@@ -0,0 +1,54 @@
+import { WorldPresence, WorldVisibility, isListedVisibility } from '@defivalley/shared';
+
+/**
+ * Live presence of every open world room, published by the rooms as players join and leave
+ */
+
+export interface RoomPresence extends WorldPresence {
+  visibility: WorldVisibility;
+}
+
+export class WorldPresenceRegistry {
+  private rooms = new Map<string, RoomPresence>();
+
+  // Replace a room's presence (a world has one room, but a new one may open as the old one is disposed)
+  update(roomId: string, presence: RoomPresence): void {
+    this.rooms.set(roomId, presence);
+  }
+
+  remove(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+
+  /**
+   * Presence of every listed world with at least one player, merged across its rooms, busiest first.
+   * Only public farms name their visitors: who visits a friends-only farm is the owner's business
+   */
+  list(): WorldPresence[] {
+    const worlds = new Map<string, WorldPresence>();
+
+    for (const room of this.rooms.values()) {
+      if (!isListedVisibility(room.visibility) || room.playerCount === 0) continue;
+
+      const visitors = room.visibility === 'public' ? room.visitors : [];
+      const world = worlds.get(room.worldId);
+      if (world) {
+        world.playerCount += room.playerCount;
+        world.hostOnline = world.hostOnline || room.hostOnline;
+        world.visitors.push(...visitors);
+      } else {
+        worlds.set(room.worldId, {
+          worldId: room.worldId,
+          playerCount: room.playerCount,
+          hostOnline: room.hostOnline,
+          visitors: [...visitors]
+        });
+      }
+    }
+
+    return Array.from(worlds.values()).sort((a, b) => b.playerCount - a.playerCount);
+  }
+}
+
+// Shared by every room in this server process
+export const worldPresence = new WorldPresenceRegistry();
\ No newline at end of file
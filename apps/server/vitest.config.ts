@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    env: {
+      // Tests run against a throwaway in-memory database
+      DATABASE_PATH: ':memory:',
+      // Every game server region shares the secret sessions are signed with
+      SESSION_SECRET: 'test-session-secret'
+    }
+  }
+});
\ No newline at end of file
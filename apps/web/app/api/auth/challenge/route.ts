@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { fetchGameServer, forwardedFor } from '@/lib/gameServer';
+import { gameServerErrorResponse } from '../../errors';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+
+    // Request a sign-in challenge from the Colyseus server
+    const data = await fetchGameServer('/api/auth/challenge', {
+      method: 'POST',
+      headers: forwardedFor(request),
+      body: JSON.stringify({ address: body?.address }),
+    });
+
+    return NextResponse.json(data);
+  } catch (error) {
+    return gameServerErrorResponse(error, 'Error requesting auth challenge');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { fetchGameServer, forwardedFor } from '@/lib/gameServer';
+import { gameServerErrorResponse } from '../../errors';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+
+    // Exchange the signed challenge for a session token
+    const data = await fetchGameServer('/api/auth/verify', {
+      method: 'POST',
+      headers: forwardedFor(request),
+      body: JSON.stringify({ address: body?.address, nonce: body?.nonce, signature: body?.signature }),
+    });
+
+    return NextResponse.json(data);
+  } catch (error) {
+    return gameServerErrorResponse(error, 'Error verifying auth challenge');
+  }
+}
\ No newline at end of file
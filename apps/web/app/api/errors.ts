@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { GameServerError, GameServerErrorCode, GameServerErrorResponse } from '@/lib/gameServer';
+
+const STATUS_BY_CODE: Record<GameServerErrorCode, number> = {
+  INVALID_CONFIG: 500,
+  UNREACHABLE: 502,
+  BAD_RESPONSE: 502,
+  TIMEOUT: 504
+};
+
+/**
+ * Turn a failed game server call into a typed error response.
+ * Client errors from the game server (4xx) keep their status; everything else is a 502/504.
+ */
+export function gameServerErrorResponse(error: unknown, context: string): NextResponse<GameServerErrorResponse> {
+  const serverError = error instanceof GameServerError
+    ? error
+    : new GameServerError('UNREACHABLE', (error as Error)?.message || 'Unknown error');
+
+  console.error(`${context}:`, serverError.message);
+
+  const status = serverError.status && serverError.status < 500
+    ? serverError.status
+    : STATUS_BY_CODE[serverError.code];
+
+  return NextResponse.json(
+    { error: { code: serverError.code, message: serverError.message } },
+    { status }
+  );
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { fetchGameServer, forwardedFor } from '@/lib/gameServer';
+import { gameServerErrorResponse } from '../../errors';
+
+interface RouteContext {
+  params: Promise<{ metric: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { metric } = await params;
+
+    // Pass window, seedType and pagination through; the server validates them
+    const data = await fetchGameServer(
+      `/api/leaderboards/${encodeURIComponent(metric)}?${request.nextUrl.searchParams}`,
+      { headers: forwardedFor(request) }
+    );
+
+    return NextResponse.json(data);
+  } catch (error) {
+    return gameServerErrorResponse(error, 'Error fetching leaderboard');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { fetchWorldServer, forwardedFor } from '@/lib/gameServer';
+import { gameServerErrorResponse } from '../../../errors';
+
+interface RouteContext {
+  params: Promise<{ worldId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { worldId } = await params;
+
+    // Check the world exists on the game server region that hosts it
+    const data = await fetchWorldServer<{ exists: boolean; worldId: string }>(
+      worldId,
+      `/api/worlds/${encodeURIComponent(worldId)}/exists`,
+      { headers: forwardedFor(request) }
+    );
+
+    return NextResponse.json(data);
+  } catch (error) {
+    return gameServerErrorResponse(error, 'Error checking world existence');
+  }
+}
\ No newline at end of file
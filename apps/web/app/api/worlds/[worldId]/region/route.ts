@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getWorldRegion } from '@/lib/gameServer';
+import { gameServerErrorResponse } from '../../../errors';
+
+interface RouteContext {
+  params: Promise<{ worldId: string }>;
+}
+
+// The game server region that hosts the world; clients join its room there, however far away it is
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { worldId } = await params;
+    const { id, name, wsUrl, httpUrl } = getWorldRegion(worldId);
+
+    return NextResponse.json({ worldId, region: { id, name, wsUrl, httpUrl } });
+  } catch (error) {
+    return gameServerErrorResponse(error, 'Error resolving world region');
+  }
+}
\ No newline at end of file
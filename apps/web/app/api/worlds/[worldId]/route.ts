@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { fetchWorldServer, forwardedFor } from '@/lib/gameServer';
+import { gameServerErrorResponse } from '../../errors';
+
+interface RouteContext {
+  params: Promise<{ worldId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { worldId } = await params;
+
+    // Fetch the world's settings from the game server region that hosts it
+    const data = await fetchWorldServer(worldId, `/api/worlds/${encodeURIComponent(worldId)}`, {
+      headers: forwardedFor(request)
+    });
+
+    return NextResponse.json(data);
+  } catch (error) {
+    return gameServerErrorResponse(error, 'Error fetching world settings');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { worldId } = await params;
+    // Invalid JSON is sent on as null so the server reports it as a validation error
+    const body = await request.json().catch(() => null);
+
+    // Only the owner's session token is accepted by the server
+    const data = await fetchWorldServer(worldId, `/api/worlds/${encodeURIComponent(worldId)}`, {
+      method: 'PATCH',
+      headers: {
+        ...forwardedFor(request),
+        Authorization: request.headers.get('authorization') || '',
+      },
+      body: JSON.stringify(body),
+    });
+
+    return NextResponse.json(data);
+  } catch (error) {
+    return gameServerErrorResponse(error, 'Error updating world settings');
+  }
+}
\ No newline at end of file
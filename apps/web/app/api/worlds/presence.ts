@@ -0,0 +1,13 @@
+import { WorldPresence } from '@defivalley/shared';
+import { fetchEveryRegion } from '@/lib/gameServer';
+
+/**
+ * Who is in each listed world right now, from every region (a world's room only runs in its
+ * home region), busiest first
+ */
+export async function fetchWorldPresence(): Promise<WorldPresence[]> {
+  const regions = await fetchEveryRegion<{ worlds: WorldPresence[] }>('/api/worlds/presence');
+  return regions
+    .flatMap(({ data }) => data.worlds || [])
+    .sort((a, b) => b.playerCount - a.playerCount);
+}
\ No newline at end of file
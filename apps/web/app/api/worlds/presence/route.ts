@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { fetchWorldPresence } from '../presence';
+import { gameServerErrorResponse } from '../../errors';
+
+// Who is in each listed world right now; the game server doesn't rate limit this, so the
+// world browser polls it instead of reloading the whole list
+export async function GET() {
+  try {
+    return NextResponse.json({ worlds: await fetchWorldPresence(), updatedAt: Date.now() });
+  } catch (error) {
+    return gameServerErrorResponse(error, 'Error fetching world presence');
+  }
+}
\ No newline at end of file
@@ -1,49 +1,139 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
+import { WorldPresence } from '@defivalley/shared';
+import { GameServerRegion, fetchGameServer, forwardedFor, getGameServerRegions, getWorldRegion } from '@/lib/gameServer';
+import { gameServerErrorResponse } from '../errors';
+import { fetchWorldPresence } from './presence';
+
+interface ListedWorld {
+  playerId: string;
+  lastActivity: string;
+}
+
+interface WorldListResponse {
+  worlds: ListedWorld[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+// Largest page the game server returns
+const MAX_SERVER_PAGE_SIZE = 100;
+
+// Live presence is optional: the list still loads if it can't be fetched
+async function fetchPresence(): Promise<Map<string, WorldPresence>> {
+  try {
+    const presence = await fetchWorldPresence();
+    return new Map(presence.map(world => [world.worldId, world]));
+  } catch (error) {
+    console.error('Error fetching world presence:', (error as Error).message);
+    return new Map();
+  }
+}
+
+/**
+ * The worlds one region lists first, up to `count` of them
+ */
+async function fetchRegionWorlds(region: GameServerRegion, filters: URLSearchParams, count: number, init: RequestInit): Promise<{ worlds: ListedWorld[]; total: number }> {
+  const worlds: ListedWorld[] = [];
+  let total = 0;
+
+  for (let page = 1; worlds.length < count; page++) {
+    const query = new URLSearchParams(filters);
+    query.set('page', String(page));
+    query.set('limit', String(MAX_SERVER_PAGE_SIZE));
+    const data = await fetchGameServer<WorldListResponse>(`/api/worlds?${query}`, init, undefined, region);
+
+    worlds.push(...(data.worlds || []));
+    total = data.pagination.total;
+    if (page >= data.pagination.totalPages || !data.worlds?.length) break;
+  }
+  return { worlds: worlds.slice(0, count), total };
+}
+
+/**
+ * One page of the world list across every region, in the order the game servers list it:
+ * most recently active first, or busiest first with sort=visitors.
+ * Each region lists the players in its own database, and visitors get a row in every region
+ * they visit, so a world is only taken from its home region
+ */
+async function fetchWorldList(
+  filters: URLSearchParams,
+  page: number,
+  limit: number,
+  init: RequestInit,
+  presence: Promise<Map<string, WorldPresence>>
+): Promise<WorldListResponse> {
+  const regions = getGameServerRegions();
+  if (regions.length === 1) {
+    const query = new URLSearchParams(filters);
+    query.set('page', String(page));
+    query.set('limit', String(limit));
+    return fetchGameServer<WorldListResponse>(`/api/worlds?${query}`, init);
+  }
+
+  const [lists, presenceByWorld] = await Promise.all([
+    Promise.all(regions.map(region => fetchRegionWorlds(region, filters, page * limit, init))),
+    presence
+  ]);
+  const playerCount = (world: ListedWorld) => presenceByWorld.get(world.playerId)?.playerCount ?? 0;
+  const byVisitors = filters.get('sort') === 'visitors';
+  const worlds = lists
+    .flatMap(({ worlds }, index) => worlds.filter(world => getWorldRegion(world.playerId).id === regions[index].id))
+    .sort((a, b) =>
+      (byVisitors ? playerCount(b) - playerCount(a) : 0) || Date.parse(b.lastActivity) - Date.parse(a.lastActivity)
+    );
+  // Players who visited other regions are counted there too, so this can run slightly high
+  const total = lists.reduce((sum, list) => sum + list.total, 0);
+
+  return {
+    worlds: worlds.slice((page - 1) * limit, page * limit),
+    pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+  };
+}
 
 export async function GET(request: NextRequest) {
   try {
     // Get query parameters
     const searchParams = request.nextUrl.searchParams;
-    const page = searchParams.get('page') || '1';
-    const limit = searchParams.get('limit') || '20';
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(MAX_SERVER_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
     const search = searchParams.get('search') || '';
-    
+    const visibility = searchParams.get('visibility') || '';
+    const tag = searchParams.get('tag') || '';
+    const hostOnline = searchParams.get('hostOnline') === 'true';
+    const sort = searchParams.get('sort') === 'visitors' ? 'visitors' : '';
+
     // Build query string
-    const queryParams = new URLSearchParams({
-      page,
-      limit,
-      ...(search && { search })
-    });
-    
-    // Fetch active worlds from the Colyseus server
-    const response = await fetch(`http://localhost:2567/api/worlds?${queryParams}`, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    const filters = new URLSearchParams({
+      ...(search && { search }),
+      ...(visibility && { visibility }),
+      ...(tag && { tag }),
+      ...(hostOnline && { hostOnline: 'true' }),
+      ...(sort && { sort })
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch worlds: ${response.status}`);
-    }
+    // Fetch active worlds and who is in them right now from the game servers
+    const presence = fetchPresence();
+    const data = await fetchWorldList(filters, page, limit, { headers: forwardedFor(request) }, presence);
+    const presenceByWorld = await presence;
 
-    const data = await response.json();
-    
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error('Error fetching worlds:', error);
-    return NextResponse.json(
-      { 
-        error: 'Failed to fetch worlds', 
-        worlds: [],
-        pagination: {
-          page: 1,
-          limit: 20,
-          total: 0,
-          totalPages: 0
+    return NextResponse.json({
+      ...data,
+      worlds: (data.worlds || []).map(world => ({
+        ...world,
+        presence: presenceByWorld.get(world.playerId) || {
+          worldId: world.playerId,
+          playerCount: 0,
+          hostOnline: false,
+          visitors: []
         }
-      },
-      { status: 200 } // Return 200 to avoid error on client
-    );
+      }))
+    });
+  } catch (error) {
+    return gameServerErrorResponse(error, 'Error fetching worlds');
   }
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import { createStore, useStore as useZustandStore } from 'zustand';
 import { devtools, persist, createJSONStorage } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { createContext, useContext, useMemo } from 'react';
+import { DEFAULT_YIELD_MODEL, calculateYield, getLevelForXP } from '@defivalley/shared';
 import { AppState, AppActions, initialState } from './store-types';
 
 // Create a memory storage for the server-side rendering
@@ -289,8 +290,7 @@ export const makeStore = () => {
           },
           
           calculateLevel: (experience) => {
-            // Simple level calculation: level = floor(experience / 100) + 1
-            return Math.floor(experience / 100) + 1;
+            return getLevelForXP(experience);
           },
           
           estimateYield: (amount, seedType, plantTime) => {
@@ -300,11 +300,13 @@ export const makeStore = () => {
             
             if (!seedTypeData) return BigInt(0);
             
-            // Simple yield calculation: APY-based compounding
+            // Same yield model the server pays harvests with
             // Convert BigInt to Number for calculations, then back to BigInt
-            const yearlyYield = (Number(amount) * seedTypeData.apy) / 100;
-            const secondsInYear = 365 * 24 * 60 * 60;
-            const currentYield = (yearlyYield * elapsed) / secondsInYear;
+            const currentYield = calculateYield(DEFAULT_YIELD_MODEL, {
+              principal: Number(amount),
+              apy: seedTypeData.apy / 100,
+              elapsedMs: elapsed * 1000
+            });
             
             return BigInt(Math.floor(currentYield));
           }
@@ -7,27 +7,29 @@ import {
   ContextMenuItem,
   ContextMenuTrigger,
   ContextMenuSeparator,
-  ContextMenuSub,
-  ContextMenuSubContent,
-  ContextMenuSubTrigger,
 } from '@/components/ui/context-menu';
-import { CropType, CROP_CONFIGS } from '@/lib/CropSystem';
+import { SeedType, CROP_CONFIGS } from '@/lib/CropSystem';
+import { SEED_CONFIGS, WorldPermission, isSeedUnlocked } from '@defivalley/shared';
 
 interface CropContextMenuProps {
   children: React.ReactNode;
-  onPlantCrop: (cropType: CropType, x: number, y: number) => void;
-  onRemoveCrop: (x: number, y: number) => void;
+  onPlantCrop: (seedType: SeedType, x: number, y: number) => void;
   onHarvestCrop: (x: number, y: number) => void;
+  onWaterCrop: (x: number, y: number) => void;
+  can: (permission: WorldPermission) => boolean;  // Whether the player's farm role allows an action
   canPlantAt: (x: number, y: number) => boolean;
-  getCropAt: (x: number, y: number) => { id: string; type: CropType; stage: string } | null;
+  playerLevel: number;  // Higher seed tiers unlock as the player levels up
+  getCropAt: (x: number, y: number) => { id: string; seedType: SeedType; stage: string } | null;
 }
 
 export function CropContextMenu({
   children,
   onPlantCrop,
-  onRemoveCrop,
   onHarvestCrop,
+  onWaterCrop,
+  can,
   canPlantAt,
+  playerLevel,
   getCropAt,
 }: CropContextMenuProps) {
   const [contextMenuPosition, setContextMenuPosition] = useState<{ x: number; y: number } | null>(null);
@@ -53,45 +55,38 @@ export function CropContextMenu({
     setContextMenuPosition({ x: gameX, y: gameY });
   }, [gameContainerRect]);
 
-  const handlePlantCrop = (cropType: CropType) => {
+  const handlePlantCrop = (seedType: SeedType) => {
     if (!contextMenuPosition) return;
     
     const { x, y } = contextMenuPosition;
     
     if (canPlantAt(x, y)) {
-      onPlantCrop(cropType, x, y);
-    } else {
+      onPlantCrop(seedType, x, y);
     }
     
     setContextMenuPosition(null);
   };
 
-  const handleRemoveCrop = () => {
+  const handleHarvestCrop = () => {
     if (!contextMenuPosition) return;
     
     const { x, y } = contextMenuPosition;
-    onRemoveCrop(x, y);
+    onHarvestCrop(x, y);
     setContextMenuPosition(null);
   };
 
-  const handleHarvestCrop = () => {
+  const handleWaterCrop = () => {
     if (!contextMenuPosition) return;
     
     const { x, y } = contextMenuPosition;
-    onHarvestCrop(x, y);
+    onWaterCrop(x, y);
     setContextMenuPosition(null);
   };
 
-  // Group crops by category for better UX
-  const cropCategories = {
-    'Root Vegetables': ['potato', 'carrot'] as CropType[],
-    'Leafy Greens': ['lettuce', 'cabbage'] as CropType[],
-    'Fruits': ['tomato', 'strawberry', 'watermelon'] as CropType[],
-    'Grains & Others': ['corn', 'pumpkin', 'pepper'] as CropType[]
-  };
+  const seedTypes = Object.keys(SEED_CONFIGS) as SeedType[];
 
   const currentCrop = contextMenuPosition ? getCropAt(contextMenuPosition.x, contextMenuPosition.y) : null;
-  const canPlant = contextMenuPosition ? canPlantAt(contextMenuPosition.x, contextMenuPosition.y) : false;
+  const canPlant = contextMenuPosition ? can('plant') && canPlantAt(contextMenuPosition.x, contextMenuPosition.y) : false;
 
   return (
     <ContextMenu>
@@ -104,14 +99,14 @@ export function CropContextMenu({
           // Crop exists at this position
           <>
             <ContextMenuItem className="font-medium text-green-600">
-              🌱 {CROP_CONFIGS[currentCrop.type].name}
+              🌱 {CROP_CONFIGS[currentCrop.seedType].name}
             </ContextMenuItem>
             <ContextMenuItem className="text-sm text-muted-foreground">
               Stage: {currentCrop.stage}
             </ContextMenuItem>
             <ContextMenuSeparator />
             
-            {currentCrop.stage === 'ready' && (
+            {currentCrop.stage === 'ready' && can('harvest') && (
               <ContextMenuItem 
                 onClick={handleHarvestCrop}
                 className="text-blue-600 focus:text-blue-600"
@@ -120,12 +115,14 @@ export function CropContextMenu({
               </ContextMenuItem>
             )}
             
-            <ContextMenuItem 
-              onClick={handleRemoveCrop}
-              className="text-red-600 focus:text-red-600"
-            >
-              🗑️ Remove Crop
-            </ContextMenuItem>
+            {currentCrop.stage !== 'ready' && can('water') && (
+              <ContextMenuItem 
+                onClick={handleWaterCrop}
+                className="text-sky-600 focus:text-sky-600"
+              >
+                💧 Water Crop
+              </ContextMenuItem>
+            )}
           </>
         ) : canPlant ? (
           // No crop, but can plant here
@@ -135,32 +132,27 @@ export function CropContextMenu({
             </ContextMenuItem>
             <ContextMenuSeparator />
             
-            {Object.entries(cropCategories).map(([category, crops]) => (
-              <ContextMenuSub key={category}>
-                <ContextMenuSubTrigger>
-                  {category}
-                </ContextMenuSubTrigger>
-                <ContextMenuSubContent>
-                  {crops.map((cropType) => {
-                    const config = CROP_CONFIGS[cropType];
-                    return (
-                      <ContextMenuItem
-                        key={cropType}
-                        onClick={() => handlePlantCrop(cropType)}
-                        className="cursor-pointer"
-                      >
-                        <div className="flex items-center justify-between w-full">
-                          <span>{config.name}</span>
-                          <span className="text-xs text-muted-foreground">
-                            {config.growthTime}s
-                          </span>
-                        </div>
-                      </ContextMenuItem>
-                    );
-                  })}
-                </ContextMenuSubContent>
-              </ContextMenuSub>
-            ))}
+            {seedTypes.map((seedType) => {
+              const seedConfig = SEED_CONFIGS[seedType];
+              const unlocked = isSeedUnlocked(seedType, playerLevel);
+              return (
+                <ContextMenuItem
+                  key={seedType}
+                  onClick={() => handlePlantCrop(seedType)}
+                  disabled={!unlocked}
+                  className="cursor-pointer"
+                >
+                  <div className="flex items-center justify-between w-full">
+                    <span>{CROP_CONFIGS[seedType].name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {unlocked
+                        ? `${seedConfig.growthTime / (60 * 60 * 1000)}h · ${seedConfig.minInvestment} USDC`
+                        : `🔒 Level ${seedConfig.requiredLevel}`}
+                    </span>
+                  </div>
+                </ContextMenuItem>
+              );
+            })}
           </>
         ) : (
           // Cannot plant here
@@ -169,7 +161,7 @@ export function CropContextMenu({
               ❌ Cannot plant here
             </ContextMenuItem>
             <ContextMenuItem className="text-xs text-muted-foreground">
-              Try planting in the farming area
+              {can('plant') ? 'Try planting in the farming area' : 'Ask the farm owner to make you a helper'}
             </ContextMenuItem>
           </>
         )}
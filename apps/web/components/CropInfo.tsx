@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { CropData, CROP_CONFIGS } from '@/lib/CropSystem';
+import { DEFAULT_YIELD_MODEL, SEED_CONFIGS, calculateYield, getGrowthProgress, roundYield } from '@defivalley/shared';
 
 interface CropInfoProps {
   crop: CropData | null;
@@ -14,16 +15,13 @@ export function CropInfo({ crop, onClose }: CropInfoProps) {
   useEffect(() => {
     if (!crop) return;
 
-    const config = CROP_CONFIGS[crop.type];
     const interval = setInterval(() => {
-      const now = Date.now();
-      const elapsed = (now - crop.plantedAt) / 1000;
-      const remaining = Math.max(0, config.growthTime - elapsed);
+      const remaining = Math.max(0, crop.plantedAt + crop.growthTime - crop.growthBoost - Date.now());
       
       if (remaining > 0) {
-        const minutes = Math.floor(remaining / 60);
-        const seconds = Math.floor(remaining % 60);
-        setTimeRemaining(`${minutes}:${seconds.toString().padStart(2, '0')}`);
+        const hours = Math.floor(remaining / (60 * 60 * 1000));
+        const minutes = Math.floor((remaining % (60 * 60 * 1000)) / (60 * 1000));
+        setTimeRemaining(`${hours}h ${minutes.toString().padStart(2, '0')}m`);
       } else {
         setTimeRemaining('Ready to harvest!');
       }
@@ -34,9 +32,15 @@ export function CropInfo({ crop, onClose }: CropInfoProps) {
 
   if (!crop) return null;
 
-  const config = CROP_CONFIGS[crop.type];
-  const elapsed = (Date.now() - crop.plantedAt) / 1000;
-  const progress = Math.min(elapsed / config.growthTime, 1) * 100;
+  const config = CROP_CONFIGS[crop.seedType];
+  const progress = getGrowthProgress(crop.plantedAt, crop.growthTime, Date.now(), crop.growthBoost) * 100;
+
+  // What the crop would pay if harvested now (world events may change the final amount)
+  const yieldSoFar = roundYield(calculateYield(DEFAULT_YIELD_MODEL, {
+    principal: crop.investmentAmount,
+    apy: SEED_CONFIGS[crop.seedType].baseYieldRate,
+    elapsedMs: Date.now() - crop.plantedAt
+  }));
 
   return (
     <div className="fixed top-4 right-4 bg-white rounded-lg shadow-lg p-4 min-w-[240px] border border-gray-200 z-[1000]">
@@ -59,8 +63,13 @@ export function CropInfo({ crop, onClose }: CropInfoProps) {
         </div>
         
         <div className="flex justify-between">
-          <span className="text-sm text-gray-600">Health:</span>
-          <span className="text-sm font-medium">{crop.health}%</span>
+          <span className="text-sm text-gray-600">Investment:</span>
+          <span className="text-sm font-medium">{crop.investmentAmount} USDC</span>
+        </div>
+        
+        <div className="flex justify-between">
+          <span className="text-sm text-gray-600">Yield so far:</span>
+          <span className="text-sm font-medium text-green-600">{yieldSoFar.toFixed(2)} USDC</span>
         </div>
         
         <div className="flex justify-between">
@@ -1,7 +1,9 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Copy, Move, Info, Download } from 'lucide-react';
+import { Copy, Move, Info, Map as MapIcon, Paintbrush, Square, PaintBucket, Undo2, Redo2, Save } from 'lucide-react';
+import { TilesetConfig } from '../lib/tilemap.config';
+import { TERRAIN_BRUSH_SIZES, TerrainTool } from '@defivalley/shared';
 
 export interface EditorObject {
   name: string;
@@ -10,21 +12,83 @@ export interface EditorObject {
   type: 'building' | 'player' | 'other';
 }
 
+export type EditorMode = 'info' | 'move' | 'terrain';
+
+export interface TerrainBrushSettings {
+  tool: TerrainTool;
+  tile: string;
+  size: number; // Brush width in tiles
+  autoTile: boolean; // Add cliff-base transitions around painted cliffs
+}
+
+export interface TerrainEditorState extends TerrainBrushSettings {
+  canUndo: boolean;
+  canRedo: boolean;
+  unsavedChanges: number; // Tiles that differ from the farm's saved terrain
+  saving: boolean; // A save was sent and the server hasn't confirmed it yet
+  validation: { errors: string[]; warnings: string[] } | null; // Result of the last save attempt
+}
+
+export interface BuildingLayoutState {
+  problems: string[]; // Why the last save attempt was refused, e.g. a building on a cliff
+}
+
 interface EditorPanelProps {
   selectedObject: EditorObject | null;
-  mode: 'info' | 'move';
-  onModeChange: (mode: 'info' | 'move') => void;
-  onExportConfig: () => void;
+  mode: EditorMode;
+  onModeChange: (mode: EditorMode) => void;
+  onSaveBuildings: () => void;
   onCopyCoords: () => void;
+  buildingLayout: BuildingLayoutState | null;
+  canEditBuildings: boolean;
+  terrain: TerrainEditorState | null;
+  canEditTerrain: boolean;
+  onTerrainBrushChange: (settings: Partial<TerrainBrushSettings>) => void;
+  onUndoTerrain: () => void;
+  onRedoTerrain: () => void;
+  onSaveTerrain: () => void;
+  onDiscardTerrain: () => void;
   isVisible: boolean;
 }
 
+const TERRAIN_TOOLS: { tool: TerrainTool; label: string; icon: typeof Paintbrush }[] = [
+  { tool: 'brush', label: 'Brush', icon: Paintbrush },
+  { tool: 'rect', label: 'Rectangle', icon: Square },
+  { tool: 'fill', label: 'Fill', icon: PaintBucket }
+];
+
+// Palette swatch: the tile's top-left 32x32 cell of the tileset image
+function TileSwatch({ name, selected, onSelect }: { name: string; selected: boolean; onSelect: () => void }) {
+  const tile = TilesetConfig.tiles[name];
+  return (
+    <button
+      onClick={onSelect}
+      title={name}
+      className={`w-8 h-8 rounded-sm border-2 ${selected ? 'border-yellow-400' : 'border-transparent hover:border-gray-500'}`}
+      style={{
+        backgroundImage: 'url(/tilesets/LPC_cliffs_grass.png)',
+        backgroundPosition: `-${tile.x}px -${tile.y}px`,
+        imageRendering: 'pixelated'
+      }}
+    />
+  );
+}
+
 export function EditorPanel({ 
   selectedObject, 
   mode, 
   onModeChange, 
-  onExportConfig,
+  onSaveBuildings,
   onCopyCoords,
+  buildingLayout,
+  canEditBuildings,
+  terrain,
+  canEditTerrain,
+  onTerrainBrushChange,
+  onUndoTerrain,
+  onRedoTerrain,
+  onSaveTerrain,
+  onDiscardTerrain,
   isVisible 
 }: EditorPanelProps) {
   const [copyFeedback, setCopyFeedback] = useState(false);
@@ -71,63 +135,238 @@ export function EditorPanel({
           <Move size={16} />
           <span>Move</span>
         </button>
+        <button
+          onClick={() => onModeChange('terrain')}
+          disabled={!canEditTerrain}
+          title={canEditTerrain ? undefined : 'Only the farm owner can edit terrain'}
+          className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+            mode === 'terrain'
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+          }`}
+        >
+          <MapIcon size={16} />
+          <span>Terrain</span>
+        </button>
       </div>
 
-      {/* Selected Object Info */}
-      <div className="bg-gray-800 rounded p-3 mb-4">
-        <h3 className="text-sm font-semibold text-gray-400 mb-2">Selected Object</h3>
-        {selectedObject ? (
-          <>
-            <div className="text-sm space-y-1">
-              <div className="flex justify-between">
-                <span className="text-gray-400">Name:</span>
-                <span className="font-mono text-yellow-400">{selectedObject.name}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-400">Type:</span>
-                <span className="font-mono text-blue-400">{selectedObject.type}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-400">X:</span>
-                <span className="font-mono text-green-400">{Math.round(selectedObject.x)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-400">Y:</span>
-                <span className="font-mono text-green-400">{Math.round(selectedObject.y)}</span>
-              </div>
-            </div>
+      {mode === 'terrain' && terrain ? (
+        <TerrainEditorSection
+          terrain={terrain}
+          onBrushChange={onTerrainBrushChange}
+          onUndo={onUndoTerrain}
+          onRedo={onRedoTerrain}
+          onSave={onSaveTerrain}
+          onDiscard={onDiscardTerrain}
+        />
+      ) : (
+        <>
+          {/* Selected Object Info */}
+          <div className="bg-gray-800 rounded p-3 mb-4">
+            <h3 className="text-sm font-semibold text-gray-400 mb-2">Selected Object</h3>
+            {selectedObject ? (
+              <>
+                <div className="text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Name:</span>
+                    <span className="font-mono text-yellow-400">{selectedObject.name}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Type:</span>
+                    <span className="font-mono text-blue-400">{selectedObject.type}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">X:</span>
+                    <span className="font-mono text-green-400">{Math.round(selectedObject.x)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Y:</span>
+                    <span className="font-mono text-green-400">{Math.round(selectedObject.y)}</span>
+                  </div>
+                </div>
             
-            {/* Copy Coordinates Button */}
+                {/* Copy Coordinates Button */}
+                <button
+                  onClick={handleCopyCoords}
+                  className="mt-3 w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded text-sm transition-colors"
+                >
+                  <Copy size={14} />
+                  <span>{copyFeedback ? 'Copied!' : 'Copy Coords'}</span>
+                </button>
+              </>
+            ) : (
+              <p className="text-gray-500 text-sm italic">
+                {mode === 'info' ? 'Click an object to inspect' : 'Click an object to select for moving'}
+              </p>
+            )}
+          </div>
+
+          {/* Problems from the last save attempt */}
+          {buildingLayout && buildingLayout.problems.length > 0 && (
+            <div className="bg-gray-800 rounded p-3 mb-3 text-xs space-y-1 max-h-32 overflow-y-auto">
+              {buildingLayout.problems.map(problem => (
+                <p key={problem} className="text-red-400">✗ {problem}</p>
+              ))}
+            </div>
+          )}
+
+          {/* Save Button */}
+          <button
+            onClick={onSaveBuildings}
+            disabled={!canEditBuildings}
+            title={canEditBuildings ? undefined : 'Only the farm owner can move buildings'}
+            className="w-full flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 px-4 py-2 rounded font-semibold transition-colors disabled:opacity-40 disabled:hover:bg-green-600"
+          >
+            <Save size={16} />
+            <span>Save Layout</span>
+          </button>
+
+          {/* Instructions */}
+          <div className="mt-4 text-xs text-gray-400 space-y-1">
+            <p>• {mode === 'info' ? 'Click objects to view details' : 'Click object, then click to move'}</p>
+            <p>• Save Layout keeps building positions for this network</p>
+            <p>• Press ~ to toggle editor</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface TerrainEditorSectionProps {
+  terrain: TerrainEditorState;
+  onBrushChange: (settings: Partial<TerrainBrushSettings>) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSave: () => void;
+  onDiscard: () => void;
+}
+
+function TerrainEditorSection({ terrain, onBrushChange, onUndo, onRedo, onSave, onDiscard }: TerrainEditorSectionProps) {
+  const { validation } = terrain;
+
+  return (
+    <>
+      {/* Tools */}
+      <div className="flex gap-2 mb-3">
+        {TERRAIN_TOOLS.map(({ tool, label, icon: Icon }) => (
+          <button
+            key={tool}
+            onClick={() => onBrushChange({ tool })}
+            className={`flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded text-sm transition-colors ${
+              terrain.tool === tool ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            <Icon size={14} />
+            <span>{label}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Brush size and auto-tiling */}
+      <div className="flex items-center justify-between mb-3 text-sm">
+        <div className="flex items-center gap-1">
+          <span className="text-gray-400 mr-1">Size:</span>
+          {TERRAIN_BRUSH_SIZES.map(size => (
             <button
-              onClick={handleCopyCoords}
-              className="mt-3 w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded text-sm transition-colors"
+              key={size}
+              onClick={() => onBrushChange({ size })}
+              disabled={terrain.tool !== 'brush'}
+              className={`w-8 py-1 rounded transition-colors disabled:opacity-40 ${
+                terrain.size === size ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
             >
-              <Copy size={14} />
-              <span>{copyFeedback ? 'Copied!' : 'Copy Coords'}</span>
+              {size}
             </button>
-          </>
-        ) : (
-          <p className="text-gray-500 text-sm italic">
-            {mode === 'info' ? 'Click an object to inspect' : 'Click an object to select for moving'}
-          </p>
-        )}
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-gray-300">
+          <input
+            type="checkbox"
+            checked={terrain.autoTile}
+            onChange={(e) => onBrushChange({ autoTile: e.target.checked })}
+          />
+          Auto-tile cliffs
+        </label>
+      </div>
+
+      {/* Tile palette */}
+      <div className="bg-gray-800 rounded p-3 mb-3">
+        <h3 className="text-sm font-semibold text-gray-400 mb-2">
+          Tile: <span className="font-mono text-yellow-400">{terrain.tile}</span>
+        </h3>
+        <div className="grid grid-cols-8 gap-1">
+          {Object.keys(TilesetConfig.tiles).map(name => (
+            <TileSwatch
+              key={name}
+              name={name}
+              selected={terrain.tile === name}
+              onSelect={() => onBrushChange({ tile: name })}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* History */}
+      <div className="flex gap-2 mb-3">
+        <button
+          onClick={onUndo}
+          disabled={!terrain.canUndo}
+          className="flex-1 flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded text-sm transition-colors disabled:opacity-40"
+        >
+          <Undo2 size={14} />
+          <span>Undo</span>
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!terrain.canRedo}
+          className="flex-1 flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded text-sm transition-colors disabled:opacity-40"
+        >
+          <Redo2 size={14} />
+          <span>Redo</span>
+        </button>
       </div>
 
-      {/* Export Button */}
-      <button
-        onClick={onExportConfig}
-        className="w-full flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 px-4 py-2 rounded font-semibold transition-colors"
-      >
-        <Download size={16} />
-        <span>Export Config</span>
-      </button>
+      {/* Validation from the last save attempt */}
+      {validation && (validation.errors.length > 0 || validation.warnings.length > 0) && (
+        <div className="bg-gray-800 rounded p-3 mb-3 text-xs space-y-1 max-h-32 overflow-y-auto">
+          {validation.errors.slice(0, 5).map(error => (
+            <p key={error} className="text-red-400">✗ {error}</p>
+          ))}
+          {validation.errors.length > 5 && (
+            <p className="text-red-400">…and {validation.errors.length - 5} more errors</p>
+          )}
+          {validation.warnings.length > 0 && (
+            <p className="text-yellow-400">⚠ {validation.warnings.length} warnings (see console)</p>
+          )}
+        </div>
+      )}
+
+      {/* Save */}
+      <div className="flex gap-2">
+        <button
+          onClick={onSave}
+          disabled={terrain.unsavedChanges === 0 || terrain.saving}
+          className="flex-1 flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 px-4 py-2 rounded font-semibold transition-colors disabled:opacity-40 disabled:hover:bg-green-600"
+        >
+          <Save size={16} />
+          <span>{terrain.saving ? 'Saving...' : terrain.unsavedChanges > 0 ? `Save ${terrain.unsavedChanges} tiles` : 'Saved'}</span>
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={terrain.unsavedChanges === 0 || terrain.saving}
+          className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded text-sm transition-colors disabled:opacity-40"
+        >
+          Discard
+        </button>
+      </div>
 
       {/* Instructions */}
       <div className="mt-4 text-xs text-gray-400 space-y-1">
-        <p>• {mode === 'info' ? 'Click objects to view details' : 'Click object, then click to move'}</p>
-        <p>• Export copies config to clipboard</p>
-        <p>• Press ~ to toggle editor</p>
+        <p>• {terrain.tool === 'brush' ? 'Click and drag to paint' : terrain.tool === 'rect' ? 'Drag to fill a rectangle' : 'Click to fill an area of one tile type'}</p>
+        <p>• Ctrl+Z to undo, Ctrl+Shift+Z or Ctrl+Y to redo</p>
+        <p>• Terrain is checked for errors before saving</p>
       </div>
-    </div>
+    </>
   );
 }
\ No newline at end of file
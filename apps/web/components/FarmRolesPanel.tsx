@@ -0,0 +1,65 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { GrantableRole, WorldRole } from '@defivalley/shared';
+
+interface FarmPlayer {
+  playerId: string;
+  name: string;
+  role: WorldRole;
+}
+
+interface FarmRolesPanelProps {
+  getFarmPlayers: () => FarmPlayer[];
+  onSetRole: (playerId: string, role: GrantableRole | null) => void;
+}
+
+const ROLE_LABELS: Record<'visitor' | GrantableRole, string> = {
+  visitor: 'Visitor',
+  friend: 'Friend (can water)',
+  helper: 'Helper (can plant & harvest)'
+};
+
+export function FarmRolesPanel({ getFarmPlayers, onSetRole }: FarmRolesPanelProps) {
+  const [players, setPlayers] = useState<FarmPlayer[]>([]);
+
+  useEffect(() => {
+    const updatePlayers = () => setPlayers(getFarmPlayers());
+
+    // Refresh every second, roles and players arrive through state sync
+    const interval = setInterval(updatePlayers, 1000);
+    updatePlayers();
+
+    return () => clearInterval(interval);
+  }, [getFarmPlayers]);
+
+  if (players.length === 0) return null;
+
+  return (
+    <div className="bg-black/80 backdrop-blur-sm rounded-lg text-white p-4">
+      <h3 className="text-sm font-semibold text-green-400 mb-2">🔑 Farm Roles</h3>
+      
+      <div className="space-y-2 text-sm">
+        {players.map((player) => (
+          <div key={player.playerId} className="flex items-center justify-between gap-2">
+            <span className="truncate">{player.name}</span>
+            <select
+              value={player.role === 'owner' ? 'visitor' : player.role}
+              onChange={(e) => {
+                const role = e.target.value;
+                onSetRole(player.playerId, role === 'visitor' ? null : role as GrantableRole);
+              }}
+              className="bg-white/10 border border-white/20 rounded px-2 py-1 text-xs"
+            >
+              {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                <option key={role} value={role} className="text-black">
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -5,6 +5,7 @@ import { useAccount, useBalance } from 'wagmi';
 import { parseUnits, formatUnits } from 'viem';
 import { useCrossChainTx } from '../app/hooks/useCrossChainTx';
 import { useAppStore, usePlayerData, useConfig, SeedType } from '../app/store';
+import { DEFAULT_YIELD_MODEL, calculateYield, roundYield } from '@defivalley/shared';
 import * as DialogPrimitive from "@radix-ui/react-dialog";
 import { X } from "lucide-react";
 
@@ -329,6 +330,16 @@ export default function FixedPlantSeedDialog() {
                     <span className="text-green-600">Estimated APY:</span>
                     <span className="font-medium text-green-800">{selectedSeed.apy}%</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-green-600">Est. Yield at Harvest:</span>
+                    <span className="font-medium text-green-800">
+                      {roundYield(calculateYield(DEFAULT_YIELD_MODEL, {
+                        principal: Number(plantAmount) || 0,
+                        apy: selectedSeed.apy / 100,
+                        elapsedMs: selectedSeed.growthTime * 1000
+                      })).toFixed(2)} USDC
+                    </span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-green-600">Cross-chain Gas:</span>
                     <span className="font-medium text-green-800">
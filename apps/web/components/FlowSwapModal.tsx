@@ -18,9 +18,10 @@ import { flowMainnet } from '@/app/wagmi';
 interface FlowSwapModalProps {
   isOpen: boolean;
   onClose: () => void;
+  onSwapConfirmed?: (txHash: string) => void;
 }
 
-const FlowSwapModal = React.memo(function FlowSwapModal({ isOpen, onClose }: FlowSwapModalProps) {
+const FlowSwapModal = React.memo(function FlowSwapModal({ isOpen, onClose, onSwapConfirmed }: FlowSwapModalProps) {
   const { address, chainId } = useAccount();
   const { data: flowBalance, refetch: refetchFlowBalance } = useBalance({ 
     address,
@@ -65,7 +66,10 @@ const FlowSwapModal = React.memo(function FlowSwapModal({ isOpen, onClose }: Flo
         parsedAmount: parseUnits(amount, 18).toString()
       });
       
-      await swap(NATIVE_TOKEN_ADDRESS, FLOW_TOKENS.FROTH, parseUnits(amount, 18));
+      const result = await swap(NATIVE_TOKEN_ADDRESS, FLOW_TOKENS.FROTH, parseUnits(amount, 18));
+      if (result?.success) {
+        onSwapConfirmed?.(result.hash);
+      }
       setAmount(''); // Clear the input after successful swap
       refetchFrothBalance();
       refetchFlowBalance(); // Refetch FLOW balance after swap
@@ -84,7 +88,10 @@ const FlowSwapModal = React.memo(function FlowSwapModal({ isOpen, onClose }: Flo
       // The user will need to click again after approval confirms
     } else {
       // If already approved, perform the swap
-      await swap(FLOW_TOKENS.FROTH, FLOW_TOKENS.FVIX, frothBalance);
+      const result = await swap(FLOW_TOKENS.FROTH, FLOW_TOKENS.FVIX, frothBalance);
+      if (result?.success) {
+        onSwapConfirmed?.(result.hash);
+      }
       // Refetch balance after swap
       setTimeout(() => {
         refetchFrothBalance();
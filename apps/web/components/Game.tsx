@@ -3,16 +3,22 @@
 import { useEffect, useRef, useState } from 'react';
 import * as Phaser from 'phaser';
 import { MainScene, type ChatMessage } from '../lib/MainScene';
-import { CropData, CropType } from '../lib/CropSystem';
+import { CropData, SeedType } from '../lib/CropSystem';
 import { DialogueBox } from './DialogueBox';
 import { CropContextMenu } from './CropContextMenu';
 import { CropInfo } from './CropInfo';
 import { GameModals } from './GameModals';
 import { GameUI } from './GameUI';
+import { FarmRolesPanel } from './FarmRolesPanel';
+import { LeaderboardPanel } from './LeaderboardPanel';
+import { QuestLogPanel } from './QuestLogPanel';
+import { hasPermission, type ActiveWorldEvent, type GrantableRole, type OnChainQuestAction, type QuestLogEntry, type WorldPermission, type WorldRole } from '@defivalley/shared';
+import type { QuestCompletedMessage } from '../lib/systems/NetworkSystem';
+import { useAppStore } from '../app/store';
 import { usePrivy } from '@privy-io/react-auth';
-import { useAccount, useChainId } from 'wagmi';
+import { useAccount, useChainId, useSignMessage } from 'wagmi';
 import { BuildingInteractionManager } from '../lib/BuildingInteractionManager';
-import { EditorPanel, EditorObject } from './EditorPanel';
+import { EditorPanel, EditorObject, EditorMode, TerrainEditorState, BuildingLayoutState } from './EditorPanel';
 
 interface GameProps {
   worldId?: string;
@@ -36,15 +42,23 @@ function Game({ worldId, isOwnWorld }: GameProps) {
   const [dialogueCharacterName, setDialogueCharacterName] = useState('Guide');
   const [onDialogueContinue, setOnDialogueContinue] = useState<() => void>(() => {});
   const [playerGold, setPlayerGold] = useState(100); // Start with 100 gold for MVP
+  const [worldRole, setWorldRole] = useState<WorldRole>('visitor');
+  const [playerLevel, setPlayerLevel] = useState(1);
+  const [quests, setQuests] = useState<QuestLogEntry[]>([]);
+  const [worldEvents, setWorldEvents] = useState<ActiveWorldEvent[]>([]);
+  const addNotification = useAppStore((state) => state.addNotification);
   
   // Editor state
   const [isEditorMode, setIsEditorMode] = useState(false);
-  const [editorMode, setEditorMode] = useState<'info' | 'move'>('info');
+  const [editorMode, setEditorMode] = useState<EditorMode>('info');
   const [selectedEditorObject, setSelectedEditorObject] = useState<EditorObject | null>(null);
+  const [terrainEditor, setTerrainEditor] = useState<TerrainEditorState | null>(null);
+  const [buildingLayout, setBuildingLayout] = useState<BuildingLayoutState | null>(null);
   
   // Get user authentication info
   const { user } = usePrivy();
   const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const chainId = useChainId();
   
   // Update scene editor mode when it changes
@@ -99,7 +113,7 @@ function Game({ worldId, isOwnWorld }: GameProps) {
         
         // Configure world settings and auth info
         scene.setWorldConfiguration(worldId, isOwnWorld);
-        scene.setAuthInfo(address, user);
+        scene.setAuthInfo(address, user, (message) => signMessageAsync({ message }));
         
         // Set chain ID for network-specific buildings
         if (chainId) {
@@ -112,6 +126,61 @@ function Game({ worldId, isOwnWorld }: GameProps) {
           }
         });
 
+        // Track the player's role on this farm
+        scene.events.on('roleChanged', (role: WorldRole) => {
+          setWorldRole(role);
+        });
+
+        // Track the player's level, which unlocks seed tiers
+        scene.events.on('levelChanged', (level: number) => {
+          setPlayerLevel(level);
+        });
+
+        // Track quest progress and announce completed quests
+        scene.events.on('questLog', (entries: QuestLogEntry[]) => {
+          setQuests(entries);
+        });
+
+        scene.events.on('questProgress', (entries: QuestLogEntry[]) => {
+          setQuests(prev => prev.map(quest => entries.find(entry => entry.id === quest.id) ?? quest));
+        });
+
+        scene.events.on('questCompleted', (message: QuestCompletedMessage) => {
+          addNotification({
+            type: 'success',
+            title: 'Quest complete',
+            message: message.reward.xp ? `${message.title} (+${message.reward.xp} XP)` : message.title
+          });
+        });
+
+        // Track world events running in this farm
+        scene.events.on('worldEvents', (events: ActiveWorldEvent[]) => {
+          setWorldEvents(events);
+        });
+
+        scene.events.on('worldEventStarted', (event: ActiveWorldEvent) => {
+          setWorldEvents(prev => [...prev.filter(running => running.id !== event.id), event]);
+          addNotification({ type: 'info', title: event.name, message: event.description });
+        });
+
+        scene.events.on('worldEventEnded', (eventId: string) => {
+          setWorldEvents(prev => prev.filter(running => running.id !== eventId));
+        });
+
+        // An admin removed this player from the farm
+        scene.events.on('kicked', (reason: string) => {
+          addNotification({ type: 'error', title: 'Removed from farm', message: reason });
+        });
+
+        // Set up chat history and moderation listeners
+        scene.events.on('chatHistory', (messages: ChatMessage[]) => {
+          setChatMessages(messages);
+        });
+        
+        scene.events.on('chatDeleted', (messageId: number) => {
+          setChatMessages(prev => prev.filter(message => message.id !== messageId));
+        });
+
         // Set up crop click event listener
         scene.events.on('cropClicked', (crop: CropData) => {
           setSelectedCrop(crop);
@@ -132,6 +201,14 @@ function Game({ worldId, isOwnWorld }: GameProps) {
           setSelectedEditorObject(object);
         });
         
+        scene.events.on('terrainEditorChanged', (state: TerrainEditorState) => {
+          setTerrainEditor(state);
+        });
+        
+        scene.events.on('buildingLayoutChanged', (state: BuildingLayoutState) => {
+          setBuildingLayout(state);
+        });
+        
         // Pass editor callbacks to scene
         scene.setEditorMode(editorMode);
         
@@ -215,25 +292,48 @@ function Game({ worldId, isOwnWorld }: GameProps) {
     }
   };
 
+  const handleDeleteChatMessage = (messageId: number) => {
+    sceneRef.current?.deleteChatMessage(messageId);
+  };
+
   // Crop system handlers
-  const handlePlantCrop = (cropType: CropType, x: number, y: number) => {
+  const handlePlantCrop = (seedType: SeedType, x: number, y: number) => {
     if (sceneRef.current) {
-      sceneRef.current.plantCrop(cropType, x, y);
+      sceneRef.current.plantCrop(seedType, x, y);
     }
   };
 
-  const handleRemoveCrop = (x: number, y: number) => {
+  const handleHarvestCrop = (x: number, y: number) => {
     if (sceneRef.current) {
-      sceneRef.current.removeCropAtPosition(x, y);
+      sceneRef.current.harvestCropAtPosition(x, y);
     }
   };
 
-  const handleHarvestCrop = (x: number, y: number) => {
+  const handleWaterCrop = (x: number, y: number) => {
     if (sceneRef.current) {
-      sceneRef.current.harvestCropAtPosition(x, y);
+      sceneRef.current.waterCropAtPosition(x, y);
     }
   };
 
+  const can = (permission: WorldPermission): boolean => {
+    return sceneRef.current ? sceneRef.current.can(permission) : false;
+  };
+
+  const getFarmPlayers = () => {
+    return sceneRef.current ? sceneRef.current.getFarmPlayers() : [];
+  };
+
+  // Deposits and swaps are verified on-chain by the server before they count towards quests
+  const handleTransactionConfirmed = (action: OnChainQuestAction, txHash: string) => {
+    if (chainId) {
+      sceneRef.current?.reportOnChainAction(action, chainId, txHash);
+    }
+  };
+
+  const handleSetRole = (playerId: string, role: GrantableRole | null) => {
+    sceneRef.current?.setPlayerRole(playerId, role);
+  };
+
   const canPlantAt = (x: number, y: number): boolean => {
     return sceneRef.current ? sceneRef.current.canPlantAt(x, y) : false;
   };
@@ -265,10 +365,17 @@ function Game({ worldId, isOwnWorld }: GameProps) {
         onChatSubmit={handleChatSubmit}
         onChatInputChange={setChatInput}
         onShowChatChange={setShowChat}
+        onDeleteChatMessage={isOwnWorld ? handleDeleteChatMessage : undefined}
         getTotalCrops={getTotalCrops}
         getReadyCrops={getReadyCrops}
         getGrowingCrops={getGrowingCrops}
         playerGold={playerGold}
+        rolesPanel={worldRole === 'owner' ? (
+          <FarmRolesPanel getFarmPlayers={getFarmPlayers} onSetRole={handleSetRole} />
+        ) : undefined}
+        leaderboardPanel={<LeaderboardPanel playerId={address} />}
+        questLog={<QuestLogPanel quests={quests} />}
+        worldEvents={worldEvents}
       />
 
       <DialogueBox
@@ -281,9 +388,11 @@ function Game({ worldId, isOwnWorld }: GameProps) {
       
       <CropContextMenu
         onPlantCrop={handlePlantCrop}
-        onRemoveCrop={handleRemoveCrop}
         onHarvestCrop={handleHarvestCrop}
+        onWaterCrop={handleWaterCrop}
+        can={can}
         canPlantAt={canPlantAt}
+        playerLevel={playerLevel}
         getCropAt={getCropAt}
       >
         <div id="game-container" />
@@ -307,6 +416,7 @@ function Game({ worldId, isOwnWorld }: GameProps) {
         onCloseFlowStaking={() => setShowFlowStakingModal(false)}
         onCloseFlowSwap={() => setShowFlowSwapModal(false)}
         onClosePepe={() => setShowPepeModal(false)}
+        onTransactionConfirmed={handleTransactionConfirmed}
       />
       
       {/* Editor Panel */}
@@ -320,11 +430,16 @@ function Game({ worldId, isOwnWorld }: GameProps) {
             navigator.clipboard.writeText(`x: ${Math.round(selectedEditorObject.x)}, y: ${Math.round(selectedEditorObject.y)}`);
           }
         }}
-        onExportConfig={() => {
-          if (sceneRef.current) {
-            sceneRef.current.exportBuildingConfig();
-          }
-        }}
+        onSaveBuildings={() => sceneRef.current?.saveBuildingLayout()}
+        buildingLayout={buildingLayout}
+        canEditBuildings={hasPermission(worldRole, 'edit_buildings')}
+        terrain={terrainEditor}
+        canEditTerrain={hasPermission(worldRole, 'edit_terrain')}
+        onTerrainBrushChange={(settings) => sceneRef.current?.setTerrainBrush(settings)}
+        onUndoTerrain={() => sceneRef.current?.undoTerrainEdit()}
+        onRedoTerrain={() => sceneRef.current?.redoTerrainEdit()}
+        onSaveTerrain={() => sceneRef.current?.saveTerrainEdits()}
+        onDiscardTerrain={() => sceneRef.current?.discardTerrainEdits()}
       />
 
       <style jsx>{`
@@ -6,6 +6,7 @@ import { MarketplaceModal } from './MarketplaceModal';
 import { FlowSwapModal } from './FlowSwapModal';
 import { FlowStakingModal } from './FlowStakingModal';
 import { PepeModal } from './PepeModal';
+import type { OnChainQuestAction } from '@defivalley/shared';
 
 interface GameModalsProps {
   // Modal visibility states
@@ -21,6 +22,9 @@ interface GameModalsProps {
   onCloseFlowStaking: () => void;
   onCloseFlowSwap: () => void;
   onClosePepe: () => void;
+
+  // Called with the hash of a confirmed deposit or swap, so it can count towards quests
+  onTransactionConfirmed?: (action: OnChainQuestAction, txHash: string) => void;
 }
 
 export function GameModals({
@@ -34,6 +38,7 @@ export function GameModals({
   onCloseFlowStaking,
   onCloseFlowSwap,
   onClosePepe,
+  onTransactionConfirmed,
 }: GameModalsProps) {
   return (
     <>
@@ -41,12 +46,14 @@ export function GameModals({
       <MorphoDepositModal
         isOpen={showMorphoModal}
         onClose={onCloseMorpho}
+        onDepositConfirmed={onTransactionConfirmed && ((txHash) => onTransactionConfirmed('bank_deposit', txHash))}
       />
 
       {/* Marketplace Modal */}
       <MarketplaceModal
         isOpen={showMarketplaceModal}
         onClose={onCloseMarketplace}
+        onSwapConfirmed={onTransactionConfirmed && ((txHash) => onTransactionConfirmed('market_swap', txHash))}
       />
 
       {/* Flow Staking Modal */}
@@ -59,6 +66,7 @@ export function GameModals({
       <FlowSwapModal
         isOpen={showFlowSwapModal}
         onClose={onCloseFlowSwap}
+        onSwapConfirmed={onTransactionConfirmed && ((txHash) => onTransactionConfirmed('market_swap', txHash))}
       />
 
       {/* Pepe Modal */}
@@ -4,6 +4,8 @@ import React, { ReactNode } from 'react';
 import { UIStack } from './UIStack';
 import { ConnectWalletButton } from './ConnectWalletButton';
 import { NetworkSelector } from './NetworkSelector';
+import { WorldEventBanner } from './WorldEventBanner';
+import { CHAT_MAX_LENGTH, ActiveWorldEvent } from '@defivalley/shared';
 import type { ChatMessage } from '../lib/MainScene';
 
 interface GameUIProps {
@@ -14,6 +16,7 @@ interface GameUIProps {
   onChatSubmit: (e: React.FormEvent) => void;
   onChatInputChange: (value: string) => void;
   onShowChatChange: (show: boolean) => void;
+  onDeleteChatMessage?: (messageId: number) => void;  // Only provided for the world owner
   
   // Crop stats functions
   getTotalCrops: () => number;
@@ -22,6 +25,18 @@ interface GameUIProps {
   
   // Player stats
   playerGold?: number;
+  
+  // Farm role management, only rendered for the world owner
+  rolesPanel?: ReactNode;
+
+  // XP, investment and harvest rankings
+  leaderboardPanel?: ReactNode;
+
+  // The player's quests and their progress
+  questLog?: ReactNode;
+
+  // World events running in this farm, shown as a banner
+  worldEvents?: ActiveWorldEvent[];
 }
 
 export function GameUI({
@@ -31,19 +46,34 @@ export function GameUI({
   onChatSubmit,
   onChatInputChange,
   onShowChatChange,
+  onDeleteChatMessage,
   getTotalCrops,
   getReadyCrops,
   getGrowingCrops,
-  playerGold
+  playerGold,
+  rolesPanel,
+  leaderboardPanel,
+  questLog,
+  worldEvents = []
 }: GameUIProps) {
   // Create the chat container element
   const chatContainer = (
     <div className="chat-container">
       <div className="chat-messages">
         {chatMessages.slice(-5).map((msg, index) => (
-          <div key={index} className="chat-message">
+          <div key={msg.id ?? `local-${index}`} className="chat-message">
             <span className="chat-name">{msg.name}:</span>
             <span className="chat-text">{msg.message}</span>
+            {onDeleteChatMessage && msg.id !== undefined && (
+              <button
+                type="button"
+                className="ml-2 text-xs text-gray-400 hover:text-red-500"
+                title="Delete message"
+                onClick={() => onDeleteChatMessage(msg.id!)}
+              >
+                ×
+              </button>
+            )}
           </div>
         ))}
       </div>
@@ -56,6 +86,7 @@ export function GameUI({
             onChange={(e) => onChatInputChange(e.target.value)}
             placeholder="Type your message..."
             className="chat-input"
+            maxLength={CHAT_MAX_LENGTH}
             autoFocus
             onBlur={() => {
               // Small delay to allow form submission to process
@@ -81,12 +112,18 @@ export function GameUI({
         <NetworkSelector />
       </div>
 
+      {/* Running world events and their effects */}
+      <WorldEventBanner events={worldEvents} />
+
       {/* Left-side UI stack with chat and notifications */}
       <UIStack
         getTotalCrops={getTotalCrops}
         getReadyCrops={getReadyCrops}
         getGrowingCrops={getGrowingCrops}
         chatContainer={chatContainer}
+        rolesPanel={rolesPanel}
+        leaderboardPanel={leaderboardPanel}
+        questLog={questLog}
         playerGold={playerGold}
       />
 
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardWindow,
+  SEED_CONFIGS,
+  SeedType
+} from '@defivalley/shared';
+import { isGameServerErrorResponse } from '@/lib/gameServer';
+
+interface LeaderboardPanelProps {
+  playerId?: string; // Highlights the local player's row
+}
+
+const METRIC_LABELS: Record<LeaderboardMetric, string> = {
+  xp: 'XP',
+  invested: 'Invested',
+  harvested: 'Harvested'
+};
+
+const SEED_LABELS: Record<SeedType, string> = {
+  usdc_sprout: 'USDC Sprout',
+  premium_tree: 'Premium Tree',
+  whale_forest: 'Whale Forest'
+};
+
+const PAGE_SIZE = 10;
+
+// Leaderboards change on every plant and harvest; refresh while the panel is open
+const REFRESH_INTERVAL = 30000;
+
+export function LeaderboardPanel({ playerId }: LeaderboardPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [metric, setMetric] = useState<LeaderboardMetric>('xp');
+  const [window, setWindow] = useState<LeaderboardWindow>('all');
+  const [seedType, setSeedType] = useState<SeedType | ''>('');
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [totalPages, setTotalPages] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLeaderboard = useCallback(async () => {
+    try {
+      const queryParams = new URLSearchParams({
+        window,
+        page: String(page),
+        limit: String(PAGE_SIZE),
+        ...(seedType && { seedType })
+      });
+      const response = await fetch(`/api/leaderboards/${metric}?${queryParams}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(isGameServerErrorResponse(data) ? data.error.message : 'Failed to load leaderboard');
+        return;
+      }
+
+      setEntries(data.entries);
+      setTotalPages(Math.max(1, data.pagination.totalPages));
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching leaderboard:', error);
+      setError('Failed to load leaderboard');
+    }
+  }, [metric, window, seedType, page]);
+
+  useEffect(() => {
+    if (!expanded) return;
+
+    fetchLeaderboard();
+    const interval = setInterval(fetchLeaderboard, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [expanded, fetchLeaderboard]);
+
+  // Filters change the ranking, so start again from the top
+  const changeFilter = (update: () => void) => {
+    update();
+    setPage(1);
+  };
+
+  const formatValue = (value: number) => metric === 'xp' ? `${value} XP` : `${value.toFixed(2)} USDC`;
+
+  return (
+    <div className="bg-black/80 backdrop-blur-sm rounded-lg text-white p-4">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-sm font-semibold text-yellow-400"
+      >
+        <span>🏆 Leaderboards</span>
+        <span className="text-xs text-gray-400">{expanded ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3 text-sm">
+          <div className="flex gap-1">
+            {(Object.keys(METRIC_LABELS) as LeaderboardMetric[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => changeFilter(() => setMetric(option))}
+                className={`flex-1 rounded px-2 py-1 text-xs ${metric === option ? 'bg-yellow-500 text-black' : 'bg-white/10 hover:bg-white/20'}`}
+              >
+                {METRIC_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <select
+              value={window}
+              onChange={(e) => changeFilter(() => setWindow(e.target.value as LeaderboardWindow))}
+              className="flex-1 bg-white/10 border border-white/20 rounded px-2 py-1 text-xs"
+            >
+              <option value="all" className="text-black">All time</option>
+              <option value="weekly" className="text-black">This week</option>
+            </select>
+            <select
+              value={seedType}
+              onChange={(e) => changeFilter(() => setSeedType(e.target.value as SeedType | ''))}
+              className="flex-1 bg-white/10 border border-white/20 rounded px-2 py-1 text-xs"
+            >
+              <option value="" className="text-black">All seeds</option>
+              {(Object.keys(SEED_CONFIGS) as SeedType[]).map((type) => (
+                <option key={type} value={type} className="text-black">
+                  {SEED_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error ? (
+            <p className="text-xs text-red-400">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-xs text-gray-400">No farmers ranked yet</p>
+          ) : (
+            <ol className="space-y-1">
+              {entries.map((entry) => (
+                <li
+                  key={entry.playerId}
+                  className={`flex items-center justify-between gap-2 rounded px-2 py-1 ${
+                    entry.playerId.toLowerCase() === playerId?.toLowerCase() ? 'bg-green-700/50' : ''
+                  }`}
+                >
+                  <span className="w-6 text-gray-400">#{entry.rank}</span>
+                  <span className="flex-1 truncate">{entry.playerName}</span>
+                  <span className="font-mono text-xs">{formatValue(entry.value)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <div className="flex items-center justify-between text-xs">
+            <button
+              type="button"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+              className="px-2 py-1 rounded bg-white/10 disabled:opacity-40"
+            >
+              Prev
+            </button>
+            <span className="text-gray-400">Page {page} of {totalPages}</span>
+            <button
+              type="button"
+              disabled={page >= totalPages}
+              onClick={() => setPage(page + 1)}
+              className="px-2 py-1 rounded bg-white/10 disabled:opacity-40"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
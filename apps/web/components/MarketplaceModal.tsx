@@ -23,6 +23,7 @@ import { useTokenBalance } from '@/hooks/useTokenBalance';
 interface MarketplaceModalProps {
   isOpen: boolean;
   onClose: () => void;
+  onSwapConfirmed?: (txHash: string) => void;
 }
 
 // Token addresses on Katana
@@ -35,7 +36,7 @@ const TOKENS = {
 
 type TabType = 'menu' | 'swap' | 'wrap';
 
-export const MarketplaceModal = React.memo(function MarketplaceModal({ isOpen, onClose }: MarketplaceModalProps) {
+export const MarketplaceModal = React.memo(function MarketplaceModal({ isOpen, onClose, onSwapConfirmed }: MarketplaceModalProps) {
   const [activeTab, setActiveTab] = useState<TabType>('menu');
   const [swapAmount, setSwapAmount] = useState('');
   const [wrapAmount, setWrapAmount] = useState('');
@@ -175,6 +176,7 @@ export const MarketplaceModal = React.memo(function MarketplaceModal({ isOpen, o
       
       if (result?.success) {
         console.log('Swap successful:', result.hash);
+        onSwapConfirmed?.(result.hash);
         setSwapAmount('');
         // Refresh all token balances after successful swap
         await refreshAllBalances();
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { parseUnits, formatUnits, type Address } from 'viem';
 import {
   Dialog,
@@ -18,13 +18,15 @@ import { useMorphoDeposit, type VaultType } from '@/hooks/useMorphoDeposit';
 import { useMorphoPosition } from '@/hooks/useMorphoPosition';
 import { useAccount } from 'wagmi';
 import { MORPHO_VAULTS } from '@/constants/katana-tokens';
+import { MS_PER_DAY, calculateYield, roundYield } from '@defivalley/shared';
 
 interface MorphoDepositModalProps {
   isOpen: boolean;
   onClose: () => void;
+  onDepositConfirmed?: (txHash: string) => void;
 }
 
-export const MorphoDepositModal = React.memo(function MorphoDepositModal({ isOpen, onClose }: MorphoDepositModalProps) {
+export const MorphoDepositModal = React.memo(function MorphoDepositModal({ isOpen, onClose, onDepositConfirmed }: MorphoDepositModalProps) {
   const [depositAmount, setDepositAmount] = useState('');
   const { address } = useAccount();
   
@@ -75,6 +77,12 @@ export const MorphoDepositModal = React.memo(function MorphoDepositModal({ isOpe
     }
   }, [depositAmountBigInt, checkApproval]);
 
+  // Projected with the vault's live APY, compounded daily like in-game crops
+  const monthlyYield = useMemo(() => roundYield(calculateYield(
+    { kind: 'external', apy: supplyAPY, compounding: 'daily' },
+    { principal: userSupplyValue, apy: supplyAPY, elapsedMs: 30 * MS_PER_DAY }
+  )), [supplyAPY, userSupplyValue]);
+
   // Check if user has sufficient balance
   const hasSufficientBalance = useMemo(() => {
     if (!vbUsdcBalance || depositAmountBigInt === BigInt(0)) return true;
@@ -96,6 +104,15 @@ export const MorphoDepositModal = React.memo(function MorphoDepositModal({ isOpe
     }
   }, [isSuccess, refetchMarket, refetchPosition]);
 
+  // Report each confirmed deposit once so it counts towards quests
+  const reportedTxHash = useRef<string | null>(null);
+  useEffect(() => {
+    if (isSuccess && txHash && reportedTxHash.current !== txHash) {
+      reportedTxHash.current = txHash;
+      onDepositConfirmed?.(txHash);
+    }
+  }, [isSuccess, txHash, onDepositConfirmed]);
+
   // Handle approval
   const handleApprove = async () => {
     if (depositAmountBigInt === BigInt(0)) return;
@@ -227,6 +244,7 @@ export const MorphoDepositModal = React.memo(function MorphoDepositModal({ isOpe
                 <div className="mt-3 pt-3 border-t border-border/50">
                   <div className="text-xs text-muted-foreground">
                     💡 You're earning {(supplyAPY * 100).toFixed(2)}% APY on your {userSupplyValue.toFixed(2)} vbUSDC supply
+                    (about {monthlyYield.toFixed(2)} vbUSDC a month)
                   </div>
                 </div>
               )}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { QuestLogEntry, QuestReward } from '@defivalley/shared';
+
+interface QuestLogPanelProps {
+  quests: QuestLogEntry[];
+}
+
+function formatReward(reward: QuestReward): string {
+  const parts: string[] = [];
+  if (reward.xp) parts.push(`${reward.xp} XP`);
+  if (reward.cosmetic) parts.push(reward.cosmetic.replace(/_/g, ' '));
+  return parts.join(' + ');
+}
+
+export function QuestLogPanel({ quests }: QuestLogPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [showCompleted, setShowCompleted] = useState(false);
+
+  if (quests.length === 0) return null;
+
+  const completedCount = quests.filter(quest => quest.completed).length;
+  const visibleQuests = showCompleted ? quests : quests.filter(quest => !quest.completed);
+
+  return (
+    <div className="bg-black/80 backdrop-blur-sm rounded-lg text-white p-4">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-sm font-semibold text-purple-300"
+      >
+        <span>📜 Quests</span>
+        <span className="text-xs text-gray-400">{completedCount}/{quests.length} done</span>
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3 text-sm">
+          {visibleQuests.length === 0 ? (
+            <p className="text-xs text-gray-400">All quests completed!</p>
+          ) : (
+            visibleQuests.map((quest) => (
+              <div key={quest.id} className={quest.completed ? 'opacity-60' : ''}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{quest.completed ? '✅' : '⬜'} {quest.title}</span>
+                  <span className="text-xs text-yellow-400 whitespace-nowrap">{formatReward(quest.reward)}</span>
+                </div>
+                <p className="text-xs text-gray-400">{quest.description}</p>
+                <div className="mt-1 flex items-center gap-2">
+                  <div className="flex-1 h-1.5 rounded bg-white/10 overflow-hidden">
+                    <div
+                      className="h-full bg-purple-400"
+                      style={{ width: `${(quest.progress / quest.objective.count) * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-xs text-gray-400">{quest.progress}/{quest.objective.count}</span>
+                </div>
+              </div>
+            ))
+          )}
+
+          {completedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowCompleted(!showCompleted)}
+              className="text-xs text-gray-400 hover:text-white"
+            >
+              {showCompleted ? 'Hide completed' : `Show completed (${completedCount})`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
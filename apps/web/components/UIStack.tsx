@@ -8,10 +8,13 @@ interface UIStackProps {
   getReadyCrops: () => number;
   getGrowingCrops: () => number;
   chatContainer: ReactNode;
+  rolesPanel?: ReactNode;
+  leaderboardPanel?: ReactNode;
+  questLog?: ReactNode;
   playerGold?: number;
 }
 
-export function UIStack({ getTotalCrops, getReadyCrops, getGrowingCrops, chatContainer, playerGold = 0 }: UIStackProps) {
+export function UIStack({ getTotalCrops, getReadyCrops, getGrowingCrops, chatContainer, rolesPanel, leaderboardPanel, questLog, playerGold = 0 }: UIStackProps) {
   return (
     <div className="fixed top-4 left-4 flex flex-col gap-4 w-80 sm:w-96 md:w-80 lg:w-96 z-[1000] max-w-[calc(100vw-2rem)]">
       {/* Player Stats Panel */}
@@ -27,6 +30,15 @@ export function UIStack({ getTotalCrops, getReadyCrops, getGrowingCrops, chatCon
         {chatContainer}
       </div>
 
+      {/* Farm roles (owner only) */}
+      {rolesPanel}
+
+      {/* Quest log */}
+      {questLog}
+
+      {/* Leaderboards */}
+      {leaderboardPanel}
+
       {/* Notifications Panel */}
       <div>
         <Notifications />
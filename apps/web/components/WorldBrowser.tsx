@@ -4,15 +4,31 @@ import React, { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
-import { Loader2, Users, Sprout, Search, Home, Eye } from 'lucide-react';
+import { Loader2, Users, Sprout, Search, Home, Eye, Globe, Lock, Tag, X } from 'lucide-react';
+import { WorldPresence, WorldSettings, WorldVisibility } from '@defivalley/shared';
+import { isGameServerErrorResponse } from '@/lib/gameServer';
 
-interface ActiveWorld {
+interface ActiveWorld extends WorldSettings {
   playerId: string;
   playerName: string;
   cropCount: number;
   lastActivity: string;
+  presence: WorldPresence;
 }
 
+// How often who is online is refreshed while the browser is open. Only presence is polled:
+// the game server doesn't rate limit it, unlike the world list
+const PRESENCE_POLL_INTERVAL = 15000;
+
+const NO_PRESENCE = { playerCount: 0, hostOnline: false, visitors: [] };
+
+// Unlisted farms never appear in the list, so they are not a filter option
+const VISIBILITY_FILTERS: { value: WorldVisibility | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'public', label: 'Public' },
+  { value: 'friends', label: 'Friends only' }
+];
+
 interface WorldBrowserProps {
   onEnterWorld: (worldId: string, isOwnWorld: boolean) => void;
   currentPlayerId?: string;
@@ -21,30 +37,68 @@ interface WorldBrowserProps {
 export default function WorldBrowser({ onEnterWorld, currentPlayerId }: WorldBrowserProps) {
   const [activeWorlds, setActiveWorlds] = useState<ActiveWorld[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [customWorldId, setCustomWorldId] = useState('');
+  const [visibilityFilter, setVisibilityFilter] = useState<WorldVisibility | ''>('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [hostOnlineOnly, setHostOnlineOnly] = useState(false);
+  const [sortByVisitors, setSortByVisitors] = useState(false);
 
   // Mock current player ID if not provided
   const playerId = currentPlayerId || `player_${Math.random().toString(36).substr(2, 9)}`;
 
   useEffect(() => {
     fetchActiveWorlds();
-  }, []);
+
+    // Poll quietly so player counts stay current; skip while the tab is hidden
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        fetchPresence();
+      }
+    }, PRESENCE_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [visibilityFilter, tagFilter, hostOnlineOnly, sortByVisitors]);
+
+  // Update who is online in the loaded farms; failures keep the last counts
+  const fetchPresence = async () => {
+    try {
+      const response = await fetch('/api/worlds/presence');
+      if (!response.ok) return;
+
+      const data: { worlds: WorldPresence[] } = await response.json();
+      const presenceByWorld = new Map(data.worlds.map(world => [world.worldId, world]));
+      setActiveWorlds(worlds => worlds.map(world => ({
+        ...world,
+        presence: presenceByWorld.get(world.playerId) || { ...NO_PRESENCE, worldId: world.playerId }
+      })));
+    } catch (error) {
+      console.error('Error fetching world presence:', error);
+    }
+  };
 
   const fetchActiveWorlds = async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/worlds');
+      const queryParams = new URLSearchParams({
+        ...(visibilityFilter && { visibility: visibilityFilter }),
+        ...(tagFilter && { tag: tagFilter }),
+        ...(hostOnlineOnly && { hostOnline: 'true' }),
+        ...(sortByVisitors && { sort: 'visitors' })
+      });
+      const response = await fetch(`/api/worlds?${queryParams}`);
+      const data = await response.json();
       if (response.ok) {
-        const data = await response.json();
         setActiveWorlds(data.worlds || []);
+        setLoadError(null);
       } else {
-        console.error('Failed to fetch active worlds');
-        setActiveWorlds([]);
+        // Keep showing the last list; the error says why it is stale
+        console.error('Failed to fetch active worlds:', data);
+        setLoadError(isGameServerErrorResponse(data) ? data.error.message : `Request failed (${response.status})`);
       }
     } catch (error) {
       console.error('Error fetching active worlds:', error);
-      setActiveWorlds([]);
+      setLoadError('Could not load farms. Check your connection.');
     } finally {
       setLoading(false);
     }
@@ -62,14 +116,14 @@ export default function WorldBrowser({ onEnterWorld, currentPlayerId }: WorldBro
     if (!customWorldId.trim()) return;
 
     try {
-      const response = await fetch(`/api/worlds/${customWorldId}/exists`);
-      if (response.ok) {
-        const data = await response.json();
-        if (data.exists) {
-          onEnterWorld(customWorldId, customWorldId === playerId);
-        } else {
-          alert('World not found. The player may not have created a farm yet.');
-        }
+      const response = await fetch(`/api/worlds/${encodeURIComponent(customWorldId)}/exists`);
+      const data = await response.json();
+      if (!response.ok) {
+        alert(isGameServerErrorResponse(data) ? data.error.message : 'Error checking world. Please try again.');
+      } else if (data.exists) {
+        onEnterWorld(customWorldId, customWorldId === playerId);
+      } else {
+        alert('World not found. The player may not have created a farm yet.');
       }
     } catch (error) {
       console.error('Error checking world:', error);
@@ -77,10 +131,14 @@ export default function WorldBrowser({ onEnterWorld, currentPlayerId }: WorldBro
     }
   };
 
-  const filteredWorlds = activeWorlds.filter(world =>
-    world.playerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    world.playerId.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const filteredWorlds = activeWorlds
+    .filter(world =>
+      world.playerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      world.playerId.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      world.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      world.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      world.tags.some(tag => tag.includes(searchTerm.toLowerCase()))
+    );
 
   const formatLastActivity = (dateString: string) => {
     const date = new Date(dateString);
@@ -172,15 +230,54 @@ export default function WorldBrowser({ onEnterWorld, currentPlayerId }: WorldBro
           </CardHeader>
           <CardContent>
             {/* Search Filter */}
-            <div className="mb-4">
+            <div className="mb-4 space-y-2">
               <Input
-                placeholder="Search farms by name or ID..."
+                placeholder="Search farms by name, title, tag or ID..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="max-w-md"
               />
+              <div className="flex flex-wrap items-center gap-2">
+                {VISIBILITY_FILTERS.map(({ value, label }) => (
+                  <Button
+                    key={label}
+                    onClick={() => setVisibilityFilter(value)}
+                    variant={visibilityFilter === value ? "default" : "outline"}
+                    size="sm"
+                  >
+                    {label}
+                  </Button>
+                ))}
+                <Button
+                  onClick={() => setHostOnlineOnly(!hostOnlineOnly)}
+                  variant={hostOnlineOnly ? "default" : "outline"}
+                  size="sm"
+                >
+                  Host online
+                </Button>
+                <Button
+                  onClick={() => setSortByVisitors(!sortByVisitors)}
+                  variant={sortByVisitors ? "default" : "outline"}
+                  size="sm"
+                >
+                  Most visitors
+                </Button>
+                {tagFilter && (
+                  <Button onClick={() => setTagFilter('')} variant="secondary" size="sm">
+                    <Tag className="w-3 h-3 mr-1" />
+                    {tagFilter}
+                    <X className="w-3 h-3 ml-1" />
+                  </Button>
+                )}
+              </div>
             </div>
 
+            {loadError && (
+              <div className="mb-4 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded">
+                {loadError}
+              </div>
+            )}
+
             {loading ? (
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="w-6 h-6 animate-spin mr-2" />
@@ -188,7 +285,7 @@ export default function WorldBrowser({ onEnterWorld, currentPlayerId }: WorldBro
               </div>
             ) : filteredWorlds.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
-                {searchTerm ? 'No farms match your search' : 'No active farms found'}
+                {searchTerm || visibilityFilter || tagFilter || hostOnlineOnly ? 'No farms match your search' : 'No active farms found'}
               </div>
             ) : (
               <div className="grid gap-3 max-h-96 overflow-y-auto">
@@ -199,22 +296,66 @@ export default function WorldBrowser({ onEnterWorld, currentPlayerId }: WorldBro
                   >
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-1">
-                        <h3 className="font-medium">{world.playerName}</h3>
+                        <h3 className="font-medium">{world.title || `${world.playerName}'s Farm`}</h3>
                         {world.playerId === playerId && (
                           <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
                             You
                           </span>
                         )}
+                        {world.presence.hostOnline && (
+                          <span className="flex items-center gap-1 text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
+                            <span className="w-2 h-2 rounded-full bg-green-500" />
+                            Host online
+                          </span>
+                        )}
+                        {world.visibility === 'friends' && (
+                          <span className="flex items-center gap-1 text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded">
+                            <Lock className="w-3 h-3" />
+                            Friends only
+                          </span>
+                        )}
                       </div>
+                      {world.title && (
+                        <p className="text-sm text-gray-600">by {world.playerName}</p>
+                      )}
+                      {world.description && (
+                        <p className="text-sm text-gray-600 mb-1 line-clamp-2">{world.description}</p>
+                      )}
+                      {world.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-1">
+                          {world.tags.map(tag => (
+                            <button
+                              key={tag}
+                              onClick={() => setTagFilter(tag)}
+                              className="text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded hover:bg-blue-100"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
                       <div className="flex items-center gap-4 text-sm text-gray-500">
                         <span className="flex items-center gap-1">
                           <Sprout className="w-3 h-3" />
                           {world.cropCount} crops
                         </span>
+                        <span className="flex items-center gap-1">
+                          <Users className="w-3 h-3" />
+                          {world.presence.playerCount} here now
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Globe className="w-3 h-3" />
+                          Up to {world.maxVisitors} visitors
+                        </span>
                         <span>
                           Last active: {formatLastActivity(world.lastActivity)}
                         </span>
                       </div>
+                      {world.presence.visitors.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-1 truncate">
+                          Visiting: {world.presence.visitors.join(', ')}
+                        </p>
+                      )}
                       <p className="text-xs text-gray-400 mt-1">
                         ID: {world.playerId.slice(0, 16)}...
                       </p>
@@ -234,7 +375,7 @@ export default function WorldBrowser({ onEnterWorld, currentPlayerId }: WorldBro
 
             <div className="mt-4 pt-4 border-t">
               <Button
-                onClick={fetchActiveWorlds}
+                onClick={() => fetchActiveWorlds()}
                 variant="outline"
                 size="sm"
                 disabled={loading}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ActiveWorldEvent, WorldEventModifiers } from '@defivalley/shared';
+
+interface WorldEventBannerProps {
+  events: ActiveWorldEvent[];
+}
+
+// e.g. "1.5x XP · 20% slower growth"
+function formatModifiers(modifiers: WorldEventModifiers): string {
+  const parts: string[] = [];
+  if (modifiers.xpMultiplier && modifiers.xpMultiplier !== 1) parts.push(`${modifiers.xpMultiplier}x XP`);
+  if (modifiers.yieldMultiplier && modifiers.yieldMultiplier !== 1) parts.push(`${modifiers.yieldMultiplier}x yield`);
+  if (modifiers.growthTimeMultiplier && modifiers.growthTimeMultiplier !== 1) {
+    const percent = Math.round(Math.abs(modifiers.growthTimeMultiplier - 1) * 100);
+    parts.push(`${percent}% ${modifiers.growthTimeMultiplier > 1 ? 'slower' : 'faster'} growth`);
+  }
+  return parts.join(' · ');
+}
+
+function formatTimeLeft(ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / 60000));
+  if (minutes < 60) return `${minutes}m left`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m left`;
+  return `${Math.floor(hours / 24)}d left`;
+}
+
+export function WorldEventBanner({ events }: WorldEventBannerProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Refresh the countdowns once a minute
+  useEffect(() => {
+    if (events.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, [events.length]);
+
+  if (events.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[1000] flex flex-col items-center gap-2 max-w-[calc(100vw-2rem)] pointer-events-none">
+      {events.map((event) => (
+        <div
+          key={event.id}
+          className="bg-black/80 backdrop-blur-sm rounded-lg text-white px-4 py-2 text-sm text-center"
+          title={event.description}
+        >
+          <span className="font-semibold text-yellow-300">🎉 {event.name}</span>
+          <span className="ml-2 text-gray-300">{formatModifiers(event.modifiers)}</span>
+          <span className="ml-2 text-xs text-gray-400">{formatTimeLeft(event.endsAt - now)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,6 +1,13 @@
 import * as Phaser from 'phaser';
+import { BuildingDefinition } from '@defivalley/shared';
 
-export abstract class BaseInteractiveBuilding extends Phaser.GameObjects.Container {
+/**
+ * A building the player can walk up to and interact with. Sprite, prompt, glow,
+ * event and collision come from the building's manifest entry; subclasses only
+ * add behaviour (see BuildingRegistry for which class each building type uses).
+ */
+export class BaseInteractiveBuilding extends Phaser.GameObjects.Container {
+  protected readonly definition: BuildingDefinition;
   protected buildingSprite!: Phaser.GameObjects.Sprite;
   protected glowEffect?: Phaser.GameObjects.Graphics;
   protected interactionZone: Phaser.Geom.Circle;
@@ -9,10 +16,11 @@ export abstract class BaseInteractiveBuilding extends Phaser.GameObjects.Contain
   protected interactionKey?: Phaser.Input.Keyboard.Key;
   protected promptText?: Phaser.GameObjects.Text;
 
-  constructor(scene: Phaser.Scene, x: number, y: number) {
-    super(scene, x, y);
+  constructor(scene: Phaser.Scene, definition: BuildingDefinition) {
+    super(scene, definition.x, definition.y);
+    this.definition = definition;
     
-    // Create the building sprite using abstract method
+    // Create the building sprite from the manifest
     this.buildingSprite = scene.add.sprite(0, 0, this.getSpriteTexture());
     this.buildingSprite.setScale(this.getSpriteScale());
     
@@ -46,7 +54,7 @@ export abstract class BaseInteractiveBuilding extends Phaser.GameObjects.Contain
     this.interactionKey = scene.input.keyboard?.addKey(Phaser.Input.Keyboard.KeyCodes.E);
     
     // Log creation
-    console.log(`[${this.getBuildingName()}] Created at position (${x}, ${y})`);
+    console.log(`[${this.getBuildingName()}] Created at position (${this.x}, ${this.y})`);
   }
 
   protected createGlowEffect(): void {
@@ -169,13 +177,14 @@ export abstract class BaseInteractiveBuilding extends Phaser.GameObjects.Contain
     return false;
   }
 
+  // Footprint from the manifest, centred on the building like the server's collision grid
   public getCollisionBounds(): Phaser.Geom.Rectangle {
-    const bounds = this.buildingSprite.getBounds();
+    const { width, height } = this.definition.collision;
     return new Phaser.Geom.Rectangle(
-      this.x - bounds.width / 2,
-      this.y - bounds.height / 2,
-      bounds.width,
-      bounds.height
+      this.x - width / 2,
+      this.y - height / 2,
+      width,
+      height
     );
   }
 
@@ -188,31 +197,68 @@ export abstract class BaseInteractiveBuilding extends Phaser.GameObjects.Contain
     // Override in subclasses if needed
   }
 
-  // Abstract methods that subclasses must implement
-  protected abstract getSpriteTexture(): string;
-  protected abstract getGlowColor(): number;
-  protected abstract getPromptText(): string;
-  protected abstract getEventName(): string;
-  protected abstract getBuildingName(): string;
+  public getDefinition(): BuildingDefinition {
+    return this.definition;
+  }
+
+  // Manifest values, overridable by subclasses
+  protected getSpriteTexture(): string {
+    return this.definition.sprite.texture;
+  }
+
+  protected getGlowColor(): number {
+    return Phaser.Display.Color.HexStringToColor(this.definition.interaction.glowColor).color;
+  }
+
+  protected getPromptText(): string {
+    return this.definition.interaction.prompt;
+  }
+
+  protected getEventName(): string {
+    return this.definition.interaction.event;
+  }
+
+  protected getBuildingName(): string {
+    return this.definition.name;
+  }
   
-  // Virtual methods with defaults that can be overridden
   protected getSpriteScale(): number {
-    return 0.4;
+    return this.definition.sprite.scale ?? 0.4;
   }
   
   protected getPromptBackgroundColor(): string {
-    return '#000000aa';
+    return this.definition.interaction.promptColor ?? '#000000aa';
   }
   
   protected getSpriteTint(): number | null {
-    return null;
+    const tint = this.definition.sprite.tint;
+    return tint ? Phaser.Display.Color.HexStringToColor(tint).color : null;
   }
   
   protected isAnimatedSprite(): boolean {
-    return false;
+    return !!this.definition.sprite.animation;
   }
   
+  // Idle loop over the atlas frames named in the manifest
   protected setupAnimation(): void {
-    // Override in subclasses for animated sprites
+    const { texture, animation } = this.definition.sprite;
+    if (!animation) return;
+
+    const key = `${texture}_idle`;
+    if (!this.scene.anims.exists(key)) {
+      this.scene.anims.create({
+        key,
+        frames: this.scene.anims.generateFrameNames(texture, {
+          prefix: animation.prefix,
+          suffix: animation.suffix,
+          start: animation.start,
+          end: animation.end
+        }),
+        frameRate: animation.frameRate,
+        repeat: -1 // Loop forever
+      });
+    }
+
+    this.buildingSprite.play(key);
   }
 }
\ No newline at end of file
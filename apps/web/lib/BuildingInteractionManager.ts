@@ -33,11 +33,21 @@ export interface ModalSetters {
   setShowPepeModal: (show: boolean) => void;
 }
 
+// Modal IDs used by building manifests -> the setter that opens that modal
+const MODAL_SETTERS: Record<string, keyof ModalSetters> = {
+  morpho: 'setShowMorphoModal',
+  marketplace: 'setShowMarketplaceModal',
+  flowStaking: 'setShowFlowStakingModal',
+  flowSwap: 'setShowFlowSwapModal',
+  pepe: 'setShowPepeModal',
+};
+
 /**
  * BuildingInteractionManager
  * 
  * Centralized manager for all building interactions in the game.
  * Handles dialogue flow, modal opening, and extensible interaction patterns.
+ * Each building's dialogue and modal come from its manifest entry.
  */
 export class BuildingInteractionManager {
   private scene: Phaser.Scene;
@@ -49,7 +59,6 @@ export class BuildingInteractionManager {
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
-    this.setupDefaultInteractions();
   }
 
   /**
@@ -64,13 +73,42 @@ export class BuildingInteractionManager {
   }
 
   /**
-   * Register a building with the manager
+   * Register a building with the manager, along with the interaction its manifest entry describes
    */
   public registerBuilding(name: string, building: BaseInteractiveBuilding): void {
     this.buildings.set(name, building);
+
+    const { interaction } = building.getDefinition();
+    const modalSetter = interaction.modal ? MODAL_SETTERS[interaction.modal] : undefined;
+    if (interaction.modal && !modalSetter) {
+      console.warn(`[BuildingInteractionManager] Unknown modal "${interaction.modal}" for building: ${name}`);
+    }
+    this.registerInteraction({
+      eventName: interaction.event,
+      characterName: interaction.character,
+      dialogueContent: interaction.dialogue,
+      modalSetter: modalSetter ? (show) => this.modalSetters?.[modalSetter](show) : undefined,
+    });
     console.log(`[BuildingInteractionManager] Registered building: ${name}`);
   }
 
+  /**
+   * Destroy every building and its interaction, e.g. before placing another network's buildings
+   */
+  public clearBuildings(): void {
+    this.buildings.forEach((building) => {
+      const eventName = building.getDefinition().interaction.event;
+      const listener = this.eventListeners.get(eventName);
+      if (listener) {
+        this.scene.events.off(eventName, listener);
+        this.eventListeners.delete(eventName);
+      }
+      this.interactionConfigs.delete(eventName);
+      building.destroy();
+    });
+    this.buildings.clear();
+  }
+
   /**
    * Register a custom interaction configuration
    */
@@ -153,51 +191,6 @@ export class BuildingInteractionManager {
     this.interactionConfigs.clear();
   }
 
-  /**
-   * Setup default building interactions
-   */
-  private setupDefaultInteractions(): void {
-    // Bank (Morpho) interaction
-    this.registerInteraction({
-      eventName: 'bankInteraction',
-      characterName: 'Katana Cat',
-      dialogueContent: 'Welcome to the Katana Morpho Bank. Here you can deposit assets to earn yield. Would you like to proceed?',
-      modalSetter: (show) => this.modalSetters?.setShowMorphoModal(show),
-    });
-
-    // Marketplace interaction
-    this.registerInteraction({
-      eventName: 'marketplaceInteraction',
-      characterName: 'Shopkeeper',
-      dialogueContent: 'Welcome to the Katana Marketplace. You can swap tokens here using SushiSwap. Would you like to enter?',
-      modalSetter: (show) => this.modalSetters?.setShowMarketplaceModal(show),
-    });
-
-    // Flow Bank interaction
-    this.registerInteraction({
-      eventName: 'flowBankInteraction',
-      characterName: 'Flow Banker',
-      dialogueContent: 'This is the Flow Bank. You can stake FVIX tokens here to earn yield. Shall we go inside?',
-      modalSetter: (show) => this.modalSetters?.setShowFlowStakingModal(show),
-    });
-
-    // Flow Marketplace interaction
-    this.registerInteraction({
-      eventName: 'flowMarketplaceInteraction',
-      characterName: 'Flow Merchant',
-      dialogueContent: 'Welcome to the Flow DeFi Hub. Here you can swap FLOW for other tokens needed for staking. Ready to trade?',
-      modalSetter: (show) => this.modalSetters?.setShowFlowSwapModal(show),
-    });
-
-    // Pepe interaction
-    this.registerInteraction({
-      eventName: 'pepeInteraction',
-      characterName: 'Pepe',
-      dialogueContent: "Feels good, man... Welcome to my pump launchpad. Want to create your own meme coin?",
-      modalSetter: (show) => this.modalSetters?.setShowPepeModal(show),
-    });
-  }
-
   /**
    * Register event listeners for all configured interactions
    */
@@ -241,6 +234,12 @@ export class BuildingInteractionManager {
       this.dialogueCallbacks!.setIsDialogueOpen(true);
     };
 
+    // Replace any listener already handling this event, so it only fires once
+    const existing = this.eventListeners.get(config.eventName);
+    if (existing) {
+      this.scene.events.off(config.eventName, existing);
+    }
+
     // Store and register the listener
     this.eventListeners.set(config.eventName, listener);
     this.scene.events.on(config.eventName, listener);
@@ -257,8 +256,8 @@ export class BuildingInteractionManager {
     // Register the building
     this.registerBuilding(name, building);
 
-    // Get event name from the building
-    const eventName = (building as any).getEventName();
+    // Get event name from the building's manifest entry
+    const eventName = building.getDefinition().interaction.event;
 
     // Register the interaction
     this.registerInteraction({
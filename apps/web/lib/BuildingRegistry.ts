@@ -0,0 +1,71 @@
+/**
+ * BuildingRegistry - Maps building types from the manifests to the classes that render them
+ *
+ * A new protocol building only needs a manifest entry (packages/shared/src/manifests) and,
+ * if it behaves differently from the default building, a class registered here.
+ */
+
+import * as Phaser from 'phaser';
+import { BuildingDefinition, BuildingManifest } from '@defivalley/shared';
+import { BaseInteractiveBuilding } from './BaseInteractiveBuilding';
+import { BankBuilding } from './BankBuilding';
+import { MarketplaceBuilding } from './MarketplaceBuilding';
+import { FlowBankBuilding } from './FlowBankBuilding';
+import { FlowMarketplaceBuilding } from './FlowMarketplaceBuilding';
+import { PepeBuilding } from './PepeBuilding';
+
+export type BuildingClass = new (scene: Phaser.Scene, definition: BuildingDefinition) => BaseInteractiveBuilding;
+
+const buildingTypes = new Map<string, BuildingClass>([
+  ['bank', BankBuilding],
+  ['marketplace', MarketplaceBuilding],
+  ['flowBank', FlowBankBuilding],
+  ['flowMarketplace', FlowMarketplaceBuilding],
+  ['pepe', PepeBuilding],
+]);
+
+/**
+ * Use a custom class for buildings of the given manifest type
+ */
+export function registerBuildingType(type: string, buildingClass: BuildingClass): void {
+  buildingTypes.set(type, buildingClass);
+}
+
+/**
+ * Create a building from its manifest entry (unknown types get the default building)
+ */
+export function createBuilding(scene: Phaser.Scene, definition: BuildingDefinition): BaseInteractiveBuilding {
+  const BuildingType = buildingTypes.get(definition.type) ?? BaseInteractiveBuilding;
+  return new BuildingType(scene, definition);
+}
+
+/**
+ * Queue the sprites of every building in the manifests that isn't loaded yet
+ */
+export function queueBuildingSprites(loader: Phaser.Loader.LoaderPlugin, manifests: BuildingManifest[]): number {
+  const queued = new Set<string>();
+  for (const { sprite } of manifests.flatMap(manifest => manifest.buildings)) {
+    if (queued.has(sprite.texture) || loader.textureManager.exists(sprite.texture)) continue;
+
+    if (sprite.atlas) {
+      loader.atlas(sprite.texture, sprite.url, sprite.atlas);
+    } else {
+      loader.image(sprite.texture, sprite.url);
+    }
+    queued.add(sprite.texture);
+  }
+  return queued.size;
+}
+
+/**
+ * Load any sprites a manifest needs that weren't preloaded (e.g. from a farm's saved layout),
+ * then call onReady
+ */
+export function loadBuildingSprites(scene: Phaser.Scene, manifest: BuildingManifest, onReady: () => void): void {
+  if (queueBuildingSprites(scene.load, [manifest]) === 0) {
+    onReady();
+    return;
+  }
+  scene.load.once(Phaser.Loader.Events.COMPLETE, onReady);
+  scene.load.start();
+}
\ No newline at end of file
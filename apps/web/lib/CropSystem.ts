@@ -1,50 +1,67 @@
 /**
- * Crop System - Manages crop planting, growth, and harvesting
- * Handles crop state, sprite management, and interaction logic
+ * Crop System - Renders the room's authoritative crops
+ * Mirrors GameState.crops from the server, adds optimistic placeholders while
+ * a plant request is in flight, and manages crop sprites and interaction.
  */
 
+import {
+  CROP_COLLISION_RADIUS,
+  GrowthStage,
+  SEED_CONFIGS,
+  SeedType,
+  getGrowthProgress,
+  getGrowthStage,
+  isGrowthStage,
+  isSeedType
+} from '@defivalley/shared';
+import type { CropState } from './systems/NetworkSystem';
+
+export type { SeedType, GrowthStage };
+
 export interface CropData {
   id: string;
-  type: CropType;
+  seedType: SeedType;
+  playerId: string;
   x: number;
   y: number;
-  plantedAt: number;
+  plantedAt: number; // ms timestamp
+  growthTime: number; // in milliseconds
+  investmentAmount: number;
   stage: GrowthStage;
-  lastWatered?: number;
-  health: number;
+  pending: boolean; // Optimistic crop awaiting server confirmation
+  growthBoost: number; // Growth time (ms) skipped by watering
+  lastWatered?: number; // ms timestamp
 }
 
-export type CropType = 'potato';
-
-export type GrowthStage = 
-  | 'seed'
-  | 'sprout'
-  | 'growing'
-  | 'mature'
-  | 'ready';
-
 export interface CropConfig {
   name: string;
-  growthTime: number; // in seconds
-  spriteIndex: number;
-  stages: {
-    seed: number;
-    sprout: number;
-    growing: number;
-    mature: number;
-    ready: number;
-  };
+  spriteColumn: number; // Column in the crops spritesheet (one column per plant)
 }
 
-export const CROP_CONFIGS: Record<CropType, CropConfig> = {
-  potato: {
-    name: 'Potato',
-    growthTime: 30, // 30 seconds for MVP demo
-    spriteIndex: 0,
-    stages: { seed: 0, sprout: 1, growing: 2, mature: 3, ready: 4 }
-  }
+export const CROP_CONFIGS: Record<SeedType, CropConfig> = {
+  usdc_sprout: { name: 'USDC Sprout', spriteColumn: 9 },
+  premium_tree: { name: 'Premium Tree', spriteColumn: 18 },
+  whale_forest: { name: 'Whale Forest', spriteColumn: 27 }
+};
+
+// Spritesheet layout: 32 frames per row, rows 0-3 are growth stages, row 4 starts with a dirt mound
+const SPRITESHEET_COLUMNS = 32;
+const SEED_FRAME = 4 * SPRITESHEET_COLUMNS;
+const STAGE_ROWS: Record<Exclude<GrowthStage, 'seed'>, number> = {
+  sprout: 0,
+  growing: 1,
+  mature: 2,
+  ready: 3
 };
 
+/**
+ * Get the spritesheet frame for a seed type at a growth stage
+ */
+export function getCropFrame(seedType: SeedType, stage: GrowthStage): number {
+  if (stage === 'seed') return SEED_FRAME;
+  return STAGE_ROWS[stage] * SPRITESHEET_COLUMNS + CROP_CONFIGS[seedType].spriteColumn;
+}
+
 export interface ViewportBounds {
   left: number;
   right: number;
@@ -52,16 +69,25 @@ export interface ViewportBounds {
   bottom: number;
 }
 
+// Anything that iterates like the room's crops MapSchema
+export interface CropCollection {
+  forEach(callback: (crop: CropState, cropId: string) => void): void;
+}
+
 export class CropSystem {
   private crops: Map<string, CropData> = new Map();
   private scene: Phaser.Scene;
   private cropSprites: Map<string, Phaser.GameObjects.Sprite> = new Map();
   private cropSpritesheet: string = 'crops';
   private viewportPadding: number = 50; // Extra padding for viewport culling
-  
+
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
-    this.loadCropsFromStorage();
+
+    // Crops used to be stored locally; the server is now the source of truth
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem('defi-valley-crops');
+    }
   }
 
   preload() {
@@ -96,7 +122,7 @@ export class CropSystem {
   }
 
   create() {
-    // Create crop sprites from loaded data
+    // Create sprites for any crops synced before the scene was ready
     const viewportBounds = this.getViewportBounds();
     this.crops.forEach((crop) => {
       // Only create sprites for crops within viewport
@@ -107,39 +133,131 @@ export class CropSystem {
   }
 
   /**
-   * Plant a crop at the specified position
+   * Mirror the room's crops. Harvested and unknown crops are dropped;
+   * optimistic crops are kept until their plant request resolves.
    */
-  plantCrop(x: number, y: number, cropType: CropType = 'potato'): string {
-    const cropId = `crop_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const cropData: CropData = {
-      id: cropId,
-      type: cropType,
+  syncFromServer(serverCrops: CropCollection) {
+    const seen = new Set<string>();
+    const now = Date.now();
+
+    serverCrops.forEach((serverCrop, cropId) => {
+      if (serverCrop.harvested || !isSeedType(serverCrop.seedType)) return;
+      seen.add(cropId);
+
+      const plantedAt = Date.parse(serverCrop.plantedAt);
+      const growthBoost = serverCrop.growthBoost ?? 0;
+      const lastWatered = serverCrop.lastWatered ? Date.parse(serverCrop.lastWatered) : undefined;
+      // The room's simulation loop advances stages; fall back to the local clock if it hasn't sent one
+      const stage = isGrowthStage(serverCrop.stage)
+        ? serverCrop.stage
+        : getGrowthStage(plantedAt, serverCrop.growthTime, now, growthBoost);
+      const existing = this.crops.get(cropId);
+      if (existing) {
+        // Confirmed optimistic crops take the server's authoritative values
+        existing.playerId = serverCrop.playerId;
+        existing.plantedAt = plantedAt;
+        existing.growthTime = serverCrop.growthTime;
+        existing.investmentAmount = serverCrop.investmentAmount;
+        existing.growthBoost = growthBoost;
+        existing.lastWatered = lastWatered;
+        if (existing.stage !== stage) {
+          existing.stage = stage;
+          this.updateCropSprite(existing);
+        }
+        return;
+      }
+
+      this.addCrop({
+        id: cropId,
+        seedType: serverCrop.seedType,
+        playerId: serverCrop.playerId,
+        x: serverCrop.x,
+        y: serverCrop.y,
+        plantedAt,
+        growthTime: serverCrop.growthTime,
+        investmentAmount: serverCrop.investmentAmount,
+        stage,
+        pending: false,
+        growthBoost,
+        lastWatered
+      });
+    });
+
+    // Remove crops that were harvested or deleted on the server
+    Array.from(this.crops.values()).forEach((crop) => {
+      if (!crop.pending && !seen.has(crop.id)) {
+        this.removeCrop(crop.id);
+      }
+    });
+  }
+
+  /**
+   * Show a crop immediately while the plant request is sent to the server.
+   * The placeholder uses the request ID until the server confirms or rejects it.
+   */
+  addPendingCrop(requestId: string, x: number, y: number, seedType: SeedType, investmentAmount: number): CropData {
+    const crop: CropData = {
+      id: requestId,
+      seedType,
+      playerId: '',
       x,
       y,
       plantedAt: Date.now(),
+      growthTime: SEED_CONFIGS[seedType].growthTime,
+      investmentAmount,
       stage: 'seed',
-      health: 100
+      pending: true,
+      growthBoost: 0
     };
 
-    this.crops.set(cropId, cropData);
-    
+    this.addCrop(crop);
+    console.log(`🌱 Planting ${seedType} at (${x}, ${y})...`);
+    return crop;
+  }
+
+  /**
+   * Promote the placeholder for a confirmed plant request to the server's crop ID
+   */
+  confirmPendingCrop(requestId: string, cropId: string): boolean {
+    const crop = this.crops.get(requestId);
+    if (!crop?.pending) return false;
+
+    this.removeCrop(requestId);
+
+    // State sync may already have delivered the real crop
+    if (!this.crops.has(cropId)) {
+      crop.id = cropId;
+      crop.pending = false;
+      this.addCrop(crop);
+    }
+    return true;
+  }
+
+  /**
+   * Roll back the placeholder for a rejected plant request
+   */
+  rejectPendingCrop(requestId: string): boolean {
+    const crop = this.crops.get(requestId);
+    if (!crop?.pending) return false;
+
+    this.removeCrop(requestId);
+    console.log(`❌ Planting ${crop.seedType} at (${crop.x}, ${crop.y}) was rejected`);
+    return true;
+  }
+
+  private addCrop(crop: CropData) {
+    this.crops.set(crop.id, crop);
+
     // Only create sprite if within viewport
-    const viewportBounds = this.getViewportBounds();
-    if (this.isInViewport(x, y, viewportBounds)) {
-      this.createCropSprite(cropData);
+    if (this.isInViewport(crop.x, crop.y, this.getViewportBounds())) {
+      this.createCropSprite(crop);
     }
-    
-    this.saveCropsToStorage();
-    
-    console.log(`🌱 Planted ${cropType} at (${x}, ${y})`);
-    return cropId;
   }
 
   /**
    * Remove a crop from the field
    */
-  removeCrop(cropId: string): boolean {
+  private removeCrop(cropId: string): boolean {
     const crop = this.crops.get(cropId);
     if (!crop) return false;
 
@@ -152,43 +270,9 @@ export class CropSystem {
 
     // Remove from data
     this.crops.delete(cropId);
-    this.saveCropsToStorage();
-    
-    console.log(`🗑️ Removed crop ${cropId}`);
     return true;
   }
 
-  /**
-   * Harvest a crop (only if ready)
-   */
-  harvestCrop(cropId: string): { success: boolean; reward?: string; goldReward?: number } {
-    const crop = this.crops.get(cropId);
-    if (!crop) return { success: false };
-    
-    if (crop.stage !== 'ready') {
-      console.log(`🚫 Cannot harvest ${crop.type} - not ready yet (${crop.stage})`);
-      return { success: false };
-    }
-
-    // Remove the crop
-    this.removeCrop(cropId);
-    
-    // Calculate harvest reward - simple MVP: 10 gold per potato
-    const config = CROP_CONFIGS[crop.type];
-    const goldReward = 10; // Hardcoded for MVP
-    const reward = `Harvested ${config.name}! +${goldReward} Gold`;
-    
-    console.log(`🚜 Harvested ${crop.type}: ${reward}`);
-    
-    // Show harvest animation at crop location
-    this.showHarvestEffect(crop.x, crop.y);
-    
-    // Emit harvest event with gold reward
-    this.scene.events.emit('cropHarvested', { cropId, goldReward });
-    
-    return { success: true, reward, goldReward };
-  }
-
   /**
    * Get crop at specific position (for context menu detection)
    */
@@ -206,12 +290,10 @@ export class CropSystem {
   }
 
   /**
-   * Update crop growth stages
+   * Create and destroy crop sprites as crops enter and leave the viewport.
+   * Growth stages come from the server (see syncFromServer).
    */
   update(viewportBounds?: ViewportBounds) {
-    const now = Date.now();
-    let updated = false;
-
     // Get viewport bounds if not provided
     const bounds = viewportBounds || this.getViewportBounds();
 
@@ -233,38 +315,7 @@ export class CropSystem {
         }
       }
 
-      // Only update crops within viewport
-      if (!isInView) {
-        return; // Skip animation updates for off-screen crops
-      }
-
-      const config = CROP_CONFIGS[crop.type];
-      const timeElapsed = (now - crop.plantedAt) / 1000; // Convert to seconds
-      const growthProgress = Math.min(timeElapsed / config.growthTime, 1);
-
-      let newStage: GrowthStage;
-      if (growthProgress >= 1) {
-        newStage = 'ready';
-      } else if (growthProgress >= 0.8) {
-        newStage = 'mature';
-      } else if (growthProgress >= 0.5) {
-        newStage = 'growing';
-      } else if (growthProgress >= 0.2) {
-        newStage = 'sprout';
-      } else {
-        newStage = 'seed';
-      }
-
-      if (newStage !== crop.stage) {
-        crop.stage = newStage;
-        this.updateCropSprite(crop);
-        updated = true;
-      }
     });
-
-    if (updated) {
-      this.saveCropsToStorage();
-    }
   }
 
   /**
@@ -276,45 +327,45 @@ export class CropSystem {
       return;
     }
 
-    const config = CROP_CONFIGS[crop.type];
-    const stageIndex = config.stages[crop.stage];
-    
-    const sprite = this.scene.add.sprite(crop.x, crop.y, this.cropSpritesheet, stageIndex);
+    const sprite = this.scene.add.sprite(crop.x, crop.y, this.cropSpritesheet, getCropFrame(crop.seedType, crop.stage));
     sprite.setOrigin(0.5, 0.5);
     sprite.setScale(1.5); // Make crops slightly bigger
-    
+
+    // Pending crops are translucent until the server confirms them
+    if (crop.pending) {
+      sprite.setAlpha(0.5);
+    }
+
     // Make sprite interactive for clicks
     sprite.setInteractive();
-    
+
     // Add hover effects
     sprite.on('pointerover', () => {
       sprite.setTint(0xdddddd);
     });
-    
+
     sprite.on('pointerout', () => {
       sprite.clearTint();
     });
-    
+
     // Add click handler for crop information and harvesting
     sprite.on('pointerdown', () => {
-      console.log(`🌱 Clicked crop: ${crop.type} (${crop.stage})`);
-      
-      // If crop is ready, harvest it
+      console.log(`🌱 Clicked crop: ${crop.seedType} (${crop.stage})`);
+      if (crop.pending) return;
+
+      // If crop is ready, ask the server to harvest it
       if (crop.stage === 'ready') {
-        this.harvestCrop(crop.id);
+        this.scene.events.emit('cropHarvestRequested', crop.id);
       } else {
         // Show growth progress
-        const config = CROP_CONFIGS[crop.type];
-        const timeElapsed = (Date.now() - crop.plantedAt) / 1000;
-        const growthProgress = Math.min(timeElapsed / config.growthTime, 1);
-        const percentComplete = Math.floor(growthProgress * 100);
+        const percentComplete = Math.floor(getGrowthProgress(crop.plantedAt, crop.growthTime, Date.now(), crop.growthBoost) * 100);
         console.log(`🌱 Crop growth: ${percentComplete}% complete`);
       }
-      
+
       // Emit event for crop info display
       this.scene.events.emit('cropClicked', crop);
     });
-    
+
     // Add subtle animations
     this.scene.tweens.add({
       targets: sprite,
@@ -336,11 +387,8 @@ export class CropSystem {
     const sprite = this.cropSprites.get(crop.id);
     if (!sprite) return;
 
-    const config = CROP_CONFIGS[crop.type];
-    const stageIndex = config.stages[crop.stage];
-    
-    sprite.setFrame(stageIndex);
-    
+    sprite.setFrame(getCropFrame(crop.seedType, crop.stage));
+
     // Add growth animation
     this.scene.tweens.add({
       targets: sprite,
@@ -356,8 +404,8 @@ export class CropSystem {
    * Check if position is suitable for planting
    */
   canPlantAt(x: number, y: number): boolean {
-    // Check if there's already a crop nearby
-    const existingCrop = this.getCropAtPosition(x, y, 32);
+    // Keep the same spacing the server enforces
+    const existingCrop = this.getCropAtPosition(x, y, CROP_COLLISION_RADIUS);
     if (existingCrop) return false;
 
     // Check if position is within farming area bounds
@@ -377,20 +425,6 @@ export class CropSystem {
     );
   }
 
-  /**
-   * Get all crops
-   */
-  getAllCrops(): CropData[] {
-    return Array.from(this.crops.values());
-  }
-
-  /**
-   * Get crop by ID
-   */
-  getCrop(cropId: string): CropData | undefined {
-    return this.crops.get(cropId);
-  }
-
   /**
    * Get crop statistics
    */
@@ -411,47 +445,22 @@ export class CropSystem {
   }
 
   /**
-   * Save crops to localStorage
-   */
-  private saveCropsToStorage() {
-    if (typeof window === 'undefined') return;
-    
-    const cropsData = Array.from(this.crops.values());
-    localStorage.setItem('defi-valley-crops', JSON.stringify(cropsData));
-  }
-
-  /**
-   * Load crops from localStorage
+   * Show harvest effect animation at a crop's location
    */
-  private loadCropsFromStorage() {
-    if (typeof window === 'undefined') return;
-    
-    const savedCrops = localStorage.getItem('defi-valley-crops');
-    if (savedCrops) {
-      try {
-        const cropsData: CropData[] = JSON.parse(savedCrops);
-        cropsData.forEach((crop) => {
-          this.crops.set(crop.id, crop);
-        });
-      } catch (error) {
-        console.error('Error loading crops from storage:', error);
-      }
-    }
-  }
+  showHarvestEffect(cropId: string, amount: number) {
+    const crop = this.crops.get(cropId);
+    if (!crop) return;
+    const { x, y } = crop;
 
-  /**
-   * Show harvest effect animation
-   */
-  private showHarvestEffect(x: number, y: number) {
     // Create floating text effect
-    const harvestText = this.scene.add.text(x, y, '🎉 +10 Gold!', {
+    const harvestText = this.scene.add.text(x, y, `🎉 +${amount.toFixed(2)} USDC`, {
       fontSize: '20px',
       color: '#FFD700',
       fontStyle: 'bold'
     });
     harvestText.setOrigin(0.5);
     harvestText.setStroke('#000000', 4);
-    
+
     // Animate the text
     this.scene.tweens.add({
       targets: harvestText,
@@ -463,7 +472,7 @@ export class CropSystem {
         harvestText.destroy();
       }
     });
-    
+
     // Create sparkle effect
     for (let i = 0; i < 6; i++) {
       const sparkle = this.scene.add.circle(
@@ -472,7 +481,7 @@ export class CropSystem {
         3,
         0xFFD700
       );
-      
+
       this.scene.tweens.add({
         targets: sparkle,
         alpha: 0,
@@ -489,14 +498,61 @@ export class CropSystem {
   }
 
   /**
-   * Clear all crops (for development/reset)
+   * Show a water splash over a crop
    */
-  clearAllCrops() {
-    const crops = Array.from(this.crops.values());
-    crops.forEach((crop) => {
-      this.removeCrop(crop.id);
+  showWaterEffect(cropId: string) {
+    const crop = this.crops.get(cropId);
+    if (!crop) return;
+    const { x, y } = crop;
+
+    for (let i = 0; i < 8; i++) {
+      const droplet = this.scene.add.circle(
+        x + (Math.random() - 0.5) * 30,
+        y - 30 - Math.random() * 10,
+        2,
+        0x4FC3F7
+      );
+
+      this.scene.tweens.add({
+        targets: droplet,
+        y: y + (Math.random() - 0.5) * 10,
+        alpha: 0,
+        duration: 400 + Math.random() * 300,
+        delay: Math.random() * 200,
+        ease: 'Quad.easeIn',
+        onComplete: () => {
+          droplet.destroy();
+        }
+      });
+    }
+  }
+
+  /**
+   * Show a ready-to-harvest indicator above a crop
+   */
+  showReadyEffect(cropId: string) {
+    const crop = this.crops.get(cropId);
+    if (!crop) return;
+    const { x, y } = crop;
+
+    const readyText = this.scene.add.text(x, y - 30, '✨ Ready!', {
+      fontSize: '14px',
+      color: '#90EE90',
+      fontStyle: 'bold'
+    });
+    readyText.setOrigin(0.5);
+    readyText.setStroke('#000000', 3);
+
+    this.scene.tweens.add({
+      targets: readyText,
+      y: y - 50,
+      alpha: 0,
+      duration: 1500,
+      ease: 'Power2',
+      onComplete: () => {
+        readyText.destroy();
+      }
     });
-    localStorage.removeItem('defi-valley-crops');
   }
 
   /**
@@ -505,7 +561,7 @@ export class CropSystem {
    */
   onCameraMove() {
     const viewportBounds = this.getViewportBounds();
-    
+
     // Check all crops for viewport changes
     this.crops.forEach((crop) => {
       const isInView = this.isInViewport(crop.x, crop.y, viewportBounds);
@@ -552,4 +608,4 @@ export class CropSystem {
   getCropById(cropId: string): CropData | undefined {
     return this.crops.get(cropId);
   }
-}
\ No newline at end of file
+}
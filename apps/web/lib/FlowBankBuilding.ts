@@ -1,40 +1,12 @@
 /**
  * FlowBankBuilding - Interactive bank structure for Flow DeFi staking
- * Handles Flow bank sprite, collision detection, and player interaction
+ * Adds a press animation to the manifest-driven BaseInteractiveBuilding
  * Supports FVIX staking and sFVIX vault operations
  */
 
 import { BaseInteractiveBuilding } from './BaseInteractiveBuilding';
 
 export class FlowBankBuilding extends BaseInteractiveBuilding {
-  protected getSpriteTexture(): string {
-    return "flow_bank";
-  }
-
-  protected getGlowColor(): number {
-    return 0xffa500; // Orange glow for Flow vault
-  }
-
-  protected getPromptText(): string {
-    return "Press E for Flow Vault";
-  }
-
-  protected getPromptBackgroundColor(): string {
-    return "#ff6b35"; // Orange background to match the tint
-  }
-
-  protected getEventName(): string {
-    return "flowBankInteraction";
-  }
-
-  protected getBuildingName(): string {
-    return "🟠 Flow Bank";
-  }
-
-  protected getSpriteTint(): number | null {
-    return 0xff6b35; // Orange tint for Flow DeFi vault
-  }
-
   /**
    * Override checkInteraction to add visual feedback
    */
@@ -3,20 +3,14 @@
  * All game constants and tunable parameters in one place
  */
 
+import { PLAYER_CONFIG, WORLD_CONFIG } from '@defivalley/shared';
+
 export const GameConfig = {
-  // World dimensions
-  world: {
-    width: 5000,
-    height: 4000,
-    tileSize: 32,
-  },
+  // World dimensions (shared with the server's movement validation)
+  world: WORLD_CONFIG,
 
-  // Player movement
-  player: {
-    baseSpeed: 540, // pixels per second
-    collisionBoxSize: 16, // half the player's collision box
-    spawnPosition: { x: 650, y: 500 }, // near buildings
-  },
+  // Player movement (shared with the server's movement validation)
+  player: PLAYER_CONFIG,
 
   // Camera settings
   camera: {
@@ -26,7 +20,8 @@ export const GameConfig = {
   // Network settings
   network: {
     positionSyncInterval: 100, // ms between position updates (10Hz)
-    port: '2567',
+    interpolationDelay: 150, // ms remote players are rendered behind the newest snapshot
+    // Game server endpoints are runtime config, see lib/gameServer.ts
   },
 
   // Update intervals (in milliseconds)
@@ -35,24 +30,14 @@ export const GameConfig = {
     cropUpdate: 500, // 2 times per second
   },
 
-  // Building positions (Katana network)
-  buildings: {
-    katana: {
-      bank: { x: 800, y: 600 },
-      marketplace: { x: 800, y: 400 },
-    },
-    flow: {
-      bank: { x: 500, y: 350 },
-      marketplace: { x: 500, y: 750 },
-      pepe: { x: 750, y: 800 },
-    },
-  },
-
-  // Terrain generation
-  terrain: {
-    grassVariantChance: 0.2, // 20% chance for grass variants
-    decorationChance: 0.02, // 2% chance for decorations
-    cliffFormationCount: 5, // number of cliff outcrops
+  // Default grid of farm plots (plot objects in an imported Tiled map replace it)
+  plots: {
+    size: 80, // Size of each plot
+    spacing: 10, // Space between plots
+    startX: 600,
+    startY: 400,
+    rows: 4,
+    columns: 4,
   },
 
   // Debug settings
@@ -1,24 +1,64 @@
 import * as Phaser from 'phaser';
 import { Player, PlayerInfo } from './Player';
 import { CharacterType, CharacterDefinitions } from './character.config';
-import { TilesetConfig, TilemapUtils } from './tilemap.config';
-import { TilemapEditor } from './tilemap.editor';
-import { CropSystem, CropType, CropData } from './CropSystem';
+import { TiledCatalog, TilesetConfig, TilemapUtils } from './tilemap.config';
+import { CropSystem, SeedType } from './CropSystem';
 import { GameConfig } from './GameConfig';
-import { BankBuilding } from './BankBuilding';
-import { MarketplaceBuilding } from './MarketplaceBuilding';
-import { FlowBankBuilding } from './FlowBankBuilding';
-import { FlowMarketplaceBuilding } from './FlowMarketplaceBuilding';
-import { PepeBuilding } from './PepeBuilding';
+import {
+  BuildingManifest,
+  BuildingNetwork,
+  DEFAULT_BUILDING_MANIFESTS,
+  DEFAULT_TERRAIN_TILE,
+  GROWTH_STAGES,
+  GrantableRole,
+  OnChainQuestAction,
+  Point,
+  Rect,
+  SEED_CONFIGS,
+  TERRAIN_HEIGHT,
+  TERRAIN_WIDTH,
+  TerrainEdit,
+  TerrainGenerationParams,
+  TerrainPathLayout,
+  TerrainTileEdit,
+  TiledMap,
+  TilemapEditor,
+  WorldPermission,
+  WorldRole,
+  applyTerrainEdits,
+  decodeTerrain,
+  diffTerrain,
+  exportTiledMap,
+  getBuildingNetwork,
+  getGrowthProgress,
+  hasPermission,
+  importTiledMap,
+  isWalletPlayerId,
+  moveBuildings,
+  validateBuildingPlacement
+} from '@defivalley/shared';
 import { BuildingInteractionManager } from './BuildingInteractionManager';
-import { NetworkSystem, ChatMessage, PlayerData } from './systems/NetworkSystem';
+import { createBuilding, loadBuildingSprites, queueBuildingSprites } from './BuildingRegistry';
+import { NetworkSystem, ChatMessage, PlayerData, MessageSigner } from './systems/NetworkSystem';
 import { CollisionSystem } from './systems/CollisionSystem';
 import { CameraSystem } from './systems/CameraSystem';
 import { eventBus } from './systems/EventBus';
-import { katanaChain, flowMainnet } from '../app/wagmi';
+import type { BuildingLayoutState, EditorMode, TerrainBrushSettings, TerrainEditorState } from '../components/EditorPanel';
 
 // Network types are now imported from NetworkSystem
 
+// The default grid of farm plots from GameConfig.plots
+function getDefaultPlotRegions(): Rect[] {
+  const { size, spacing, startX, startY, rows, columns } = GameConfig.plots;
+  const regions: Rect[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      regions.push({ x: startX + col * (size + spacing), y: startY + row * (size + spacing), width: size, height: size });
+    }
+  }
+  return regions;
+}
+
 export class MainScene extends Phaser.Scene {
   private networkSystem!: NetworkSystem;
   private collisionSystem!: CollisionSystem;
@@ -31,27 +71,38 @@ export class MainScene extends Phaser.Scene {
   private sessionId!: string;
   private chatCallback?: (message: ChatMessage) => void;
   private lastDirection: string = 'down';
-  private cliffTiles: Phaser.GameObjects.Image[] = [];
+  private terrainTiles = new Map<string, Phaser.GameObjects.Image>(); // Rendered terrain tiles by "x,y"
   private terrainLayout: string[][] = [];
+  private terrainGeneration: TerrainGenerationParams | null = null; // What the farm's terrain was last generated from
+  private plotRegions: Rect[] = getDefaultPlotRegions();
+  private plotObjects: Phaser.GameObjects.GameObject[] = [];
+  private buildingManifests: Record<BuildingNetwork, BuildingManifest> = { ...DEFAULT_BUILDING_MANIFESTS }; // The farm's layouts, replaced by the server's
+  private buildingPositions: Record<string, Point> = {}; // From an imported Tiled map, by building ID, until saved
   private debugMode: boolean = false;
   private cropSystem!: CropSystem;
-  private bankBuilding!: BankBuilding;
-  private marketplaceBuilding!: MarketplaceBuilding;
-  private flowBankBuilding?: FlowBankBuilding;
-  private flowMarketplaceBuilding?: FlowMarketplaceBuilding;
-  private pepeBuilding?: PepeBuilding;
   public buildingInteractionManager!: BuildingInteractionManager;
   private worldId?: string;
   private isOwnWorld?: boolean;
   private address?: string;
   private user?: any;
+  private signMessage?: MessageSigner;
   private currentChainId?: number;
   
   // Editor properties
   private isEditorMode: boolean = false;
-  private editorMode: 'info' | 'move' = 'info';
+  private editorMode: EditorMode = 'info';
   private selectedEditorObject: any = null;
   private editorOverlay?: Phaser.GameObjects.Graphics;
+  
+  // Terrain editor: edits stay local until saved, so they can be undone and validated first
+  private terrainEditor = new TilemapEditor();
+  private terrainBrush: TerrainBrushSettings = { tool: 'brush', tile: DEFAULT_TERRAIN_TILE, size: 1, autoTile: true };
+  private savedTerrain: string[][] | null = null; // The farm's terrain as last saved, while there are unsaved edits
+  private pendingTerrainSave: { requestId: string; edits: TerrainTileEdit[] } | null = null; // Sent, not yet confirmed
+  private terrainStroke: TerrainEdit[] | null = null; // Brush stroke being painted (pointer held down)
+  private terrainRectStart: Point | null = null; // Tile where a rectangle fill was started
+  private terrainCursor?: Phaser.GameObjects.Graphics;
+  private terrainValidation: TerrainEditorState['validation'] = null;
   private backtickKey!: Phaser.Input.Keyboard.Key;
   private moveTargetGraphics?: Phaser.GameObjects.Graphics;
   
@@ -129,20 +180,8 @@ export class MainScene extends Phaser.Scene {
     // Load improved grass texture for background
     this.load.image('improved_grass', '/tilesets/Grass_Improved.png');
     
-    // Load Katana network building sprites
-    this.load.image('bank', '/bank.png');
-    this.load.image('market', '/market.png');
-
-    // Load Flow network building sprites
-    this.load.image('flow_bank', '/sprites/Coach_Wagon/Coach_Wagon.png');
-    this.load.image('flow_market', '/sprites/Wild_Orchard/Wild_Orchard.png');
-
-    // Load Pepe building animated sprite atlas
-    this.load.atlas(
-      'pepe_building_anim',
-      '/sprites/Pepe/_building_pepe/building_pepe.png',
-      '/sprites/Pepe/_building_pepe/building_pepe.json'
-    );
+    // Load the sprites of every network's default buildings (saved layouts load any others on arrival)
+    queueBuildingSprites(this.load, Object.values(DEFAULT_BUILDING_MANIFESTS));
     
     // Initialize and preload crop system
     this.cropSystem = new CropSystem(this);
@@ -186,6 +225,9 @@ export class MainScene extends Phaser.Scene {
 
     // Initialize crop system
     this.cropSystem.create();
+    this.events.on('cropHarvestRequested', (cropId: string) => {
+      this.networkSystem.sendHarvestCrop(cropId);
+    });
 
     // Initialize building interaction manager
     this.buildingInteractionManager = new BuildingInteractionManager(this);
@@ -315,22 +357,28 @@ export class MainScene extends Phaser.Scene {
       };
       
       (window as any).editTile = (x: number, y: number, tileType: string) => {
-        const result = TilemapEditor.editTile(this.terrainLayout, x, y, tileType);
+        if (!this.can('edit_terrain')) {
+          console.error('❌ Only the farm owner can edit its terrain');
+          return;
+        }
+        const result = this.applyTerrainCommand(layout => TilemapEditor.editTile(layout, x, y, tileType));
         if (result.success) {
           console.log(`✅ Tile at (${x}, ${y}) changed from ${result.oldTileType} to ${tileType}`);
-          this.refreshTerrain();
         } else {
           console.error(`❌ Failed to edit tile: ${result.error}`);
         }
       };
       
       (window as any).createIsland = (x: number, y: number, radius: number = 2) => {
-        const result = TilemapEditor.createIsland(
-          this.terrainLayout, x, y, radius, 'cliff_corner', 'cliff_grass_transition'
-        );
+        if (!this.can('edit_terrain')) {
+          console.error('❌ Only the farm owner can edit its terrain');
+          return;
+        }
+        const result = this.applyTerrainCommand(layout => TilemapEditor.createIsland(
+          layout, x, y, radius, 'cliff_round', 'grass_with_cliff_base'
+        ));
         if (result.success) {
           console.log(`🏝️ Created island at (${x}, ${y}) with radius ${radius}, changed ${result.tilesChanged} tiles`);
-          this.refreshTerrain();
         } else {
           console.error(`❌ Failed to create island: ${result.error}`);
         }
@@ -359,6 +407,41 @@ export class MainScene extends Phaser.Scene {
         }
       };
       
+      // Load a Tiled JSON map (object or JSON text), e.g. importTiledMap(await (await fetch('/maps/farm.json')).json())
+      (window as any).importTiledMap = (json: unknown) => {
+        this.loadTiledMap(json);
+      };
+      
+      (window as any).exportTiledMap = () => {
+        const exported = JSON.stringify(this.toTiledMap(), null, 2);
+        console.log('📤 Exported Tiled map:');
+        console.log(exported);
+        if (navigator.clipboard) {
+          navigator.clipboard.writeText(exported);
+          console.log('✅ Copied to clipboard! Save it as a .json file and open it in Tiled');
+        }
+      };
+      
+      // Regenerate the farm's terrain, e.g. generateTerrain(1234, 3, 0.5, 'ring') (owner only; omitted values use defaults and a new seed)
+      (window as any).generateTerrain = (seed?: number, lakeCount?: number, cliffDensity?: number, pathLayout?: TerrainPathLayout) => {
+        if (!this.can('edit_terrain')) {
+          console.error('❌ Only the farm owner can generate its terrain');
+          return;
+        }
+        this.networkSystem.sendGenerateTerrain({ seed, lakeCount, cliffDensity, pathLayout });
+        console.log('🗺️ Requested new terrain');
+      };
+      
+      (window as any).printTerrainSeed = () => {
+        console.log('🌱 Terrain generation:', this.terrainGeneration ?? 'never generated');
+      };
+      
+      // Skip the room's clock ahead, e.g. fastForward(24) to grow a sprout (admins on dev servers only)
+      (window as any).fastForward = (hours: number) => {
+        this.networkSystem.sendDebugFastForward(hours * 60 * 60 * 1000);
+        console.log(`⏩ Requested fast-forward by ${hours}h`);
+      };
+      
       (window as any).togglePhysicsDebug = () => {
         const currentDebug = this.physics.world.debugGraphic;
         if (currentDebug) {
@@ -553,6 +636,10 @@ export class MainScene extends Phaser.Scene {
       console.log('  - createIsland(x, y, radius): Create cliff island');
       console.log('  - validateTerrain(): Check terrain for issues');
       console.log('  - exportTerrain(): Export terrain to JSON');
+      console.log('  - importTiledMap(json): Load terrain, collisions, buildings and plots from a Tiled map');
+      console.log('  - exportTiledMap(): Export terrain, buildings and plots as a Tiled map');
+      console.log('  - generateTerrain(seed, lakes, cliffDensity, pathLayout): Regenerate the farm (owner only)');
+      console.log('  - printTerrainSeed(): Show what the terrain was generated from');
       console.log('  - debugCharacters(): Debug character loading issues');
       console.log('  🔍 TILEMAP DEBUGGING:');
       console.log('  - debugTilemap(): Complete tilemap diagnostic');
@@ -593,14 +680,13 @@ export class MainScene extends Phaser.Scene {
     };
     
     (window as any).showBuildingLocations = () => {
-      console.log('🏛️ Building Locations in Expanded World:');
-      console.log('\n📍 KATANA NETWORK BUILDINGS:');
-      console.log('  Bank (Morpho): x=1000, y=600');
-      console.log('  Marketplace (SushiSwap): x=1000, y=200');
-      console.log('\n📍 FLOW NETWORK BUILDINGS:');
-      console.log('  Flow Bank (Staking): x=300, y=200');
-      console.log('  Flow Marketplace (DeFi Hub): x=300, y=600');
-      console.log('  Pepe Building (Pump Launchpad): x=500, y=800');
+      console.log('🏛️ Building Locations in this farm:');
+      Object.values(this.buildingManifests).forEach(manifest => {
+        console.log(`\n📍 ${manifest.network.toUpperCase()} NETWORK BUILDINGS:`);
+        manifest.buildings.forEach(building => {
+          console.log(`  ${building.name}: x=${building.x}, y=${building.y}`);
+        });
+      });
       console.log('\n💡 TIP: Use teleportToBuildings() to jump to the building area');
       console.log('💡 Your world is now 6400x4800 pixels (was 800x600)');
     };
@@ -738,38 +824,87 @@ export class MainScene extends Phaser.Scene {
     }
   }
 
-  refreshTerrain() {
-    // Remove existing terrain tiles
-    this.children.each((child) => {
-      if (child.getData('tileType')) {
-        child.destroy();
-      }
-    });
-    
-    // Clear cliff tiles array
-    this.cliffTiles = [];
-    
-    // Recreate terrain from updated layout
+  /**
+   * Draw the terrain layout over the grass background. Given edits, only those tiles are redrawn.
+   */
+  refreshTerrain(edits?: TerrainTileEdit[]) {
     const tileSize = TilesetConfig.image.tileSize;
-    const mapWidth = this.terrainLayout[0].length;
-    const mapHeight = this.terrainLayout.length;
     
-    // TODO: Implement createTilesFromLayout method for terrain refresh
-    // this.createTilesFromLayout(tileSize, mapWidth, mapHeight);
-    this.addTerrainDecorations(tileSize, mapWidth, mapHeight);
+    if (!edits) {
+      this.terrainTiles.forEach(tile => tile.destroy());
+      this.terrainTiles.clear();
+    }
+    
+    const positions = edits ?? this.terrainLayout.flatMap((row, y) => row.map((_, x) => ({ x, y })));
+    for (const { x, y } of positions) {
+      const key = `${x},${y}`;
+      this.terrainTiles.get(key)?.destroy();
+      this.terrainTiles.delete(key);
+      
+      // Plain grass is already drawn by the background
+      const tileType = this.terrainLayout[y]?.[x];
+      if (!tileType || tileType === DEFAULT_TERRAIN_TILE) continue;
+      
+      const tile = this.createTerrainTile(x, y, tileType, tileSize);
+      if (tile) {
+        this.terrainTiles.set(key, tile);
+      }
+    }
     
     // Update debug overlay if active
     if (this.debugMode) {
       this.renderDebugOverlay();
     }
+  }
+
+  /**
+   * One tile cut from the cliffs tileset, scaled to fit its grid cell
+   */
+  private createTerrainTile(x: number, y: number, tileType: string, tileSize: number): Phaser.GameObjects.Image | undefined {
+    const config = TilesetConfig.tiles[tileType];
+    if (!config || !this.textures.exists('cliffs_grass_tileset')) return undefined;
+    
+    const texture = this.textures.get('cliffs_grass_tileset');
+    if (!texture.has(tileType)) {
+      texture.add(tileType, 0, config.x, config.y, config.width, config.height);
+    }
     
+    const position = TilemapUtils.tileToWorld(x, y, tileSize);
+    const tile = this.add.image(position.x, position.y, 'cliffs_grass_tileset', tileType);
+    tile.setDisplaySize(tileSize, tileSize);
+    tile.setDepth(-5); // Above the grass background, below crops and players
+    tile.setData('tileType', tileType);
+    return tile;
+  }
+
+  /**
+   * Apply terrain edits made by the owner elsewhere: update the layout, collisions and only the changed tiles
+   */
+  private updateTerrain(edits: TerrainTileEdit[]) {
+    if (this.savedTerrain) {
+      applyTerrainEdits(this.savedTerrain, edits);
+    }
+    const changed = applyTerrainEdits(this.terrainLayout, edits);
+    if (changed.length === 0) return;
+    
+    this.showTerrainEdits(changed);
+  }
+
+  /**
+   * Redraw and recompute collisions for tiles already changed in the layout
+   */
+  private showTerrainEdits(edits: TerrainTileEdit[]) {
+    if (edits.length === 0) return;
+    
+    this.collisionSystem.updateTerrainTiles(edits);
+    this.refreshTerrain(edits);
   }
 
   createFarmingWorld() {
     // Use simple farm background with invisible walls (fast hackathon approach)
     this.createSimpleFarmBackground();
     
-    // Create the 4x4 grid of plots for Milestone 1
+    // Create the farm plots (a 4x4 grid unless a Tiled map placed them)
     this.createPlotGrid();
     
     // No additional overlays needed - simple and fast!
@@ -794,9 +929,9 @@ export class MainScene extends Phaser.Scene {
 
   createSimpleFarmBackground() {
     
-    // Set world dimensions for a larger farm area
-    this.worldWidth = 3200;
-    this.worldHeight = 2400;
+    // World dimensions come from the shared config so they match the server
+    this.worldWidth = GameConfig.world.width;
+    this.worldHeight = GameConfig.world.height;
     
     // Update physics world bounds to match the actual world size
     this.physics.world.setBounds(0, 0, this.worldWidth, this.worldHeight);
@@ -813,68 +948,64 @@ export class MainScene extends Phaser.Scene {
   }
   
   createPlotGrid() {
-    // Create a 4x4 grid of plots for MVP
-    const plotSize = 80; // Size of each plot
-    const plotSpacing = 10; // Space between plots
-    const gridStartX = 600; // Starting X position for the grid
-    const gridStartY = 400; // Starting Y position for the grid
+    // Remove plots drawn before (an imported Tiled map can replace them)
+    this.plotObjects.forEach(object => object.destroy());
+    this.plotObjects = [];
+    if (this.plotRegions.length === 0) return;
     
     // Visual representation of plots
     const plotGraphics = this.add.graphics();
     plotGraphics.lineStyle(2, 0x8B4513, 0.8); // Brown color for plot borders
     plotGraphics.fillStyle(0x654321, 0.3); // Dark brown fill
+    this.plotObjects.push(plotGraphics);
     
-    // Create 16 plots (4x4 grid)
-    for (let row = 0; row < 4; row++) {
-      for (let col = 0; col < 4; col++) {
-        const x = gridStartX + col * (plotSize + plotSpacing);
-        const y = gridStartY + row * (plotSize + plotSpacing);
-        
-        // Draw plot background
-        plotGraphics.fillRect(x, y, plotSize, plotSize);
-        plotGraphics.strokeRect(x, y, plotSize, plotSize);
+    this.plotRegions.forEach(({ x, y, width, height }, index) => {
+      // Draw plot background
+      plotGraphics.fillRect(x, y, width, height);
+      plotGraphics.strokeRect(x, y, width, height);
+      
+      // Add subtle grid lines within each plot
+      plotGraphics.lineStyle(1, 0x8B4513, 0.3);
+      // Vertical lines
+      for (let i = 1; i < 4; i++) {
+        const lineX = x + (width / 4) * i;
+        plotGraphics.moveTo(lineX, y);
+        plotGraphics.lineTo(lineX, y + height);
+      }
+      // Horizontal lines
+      for (let i = 1; i < 4; i++) {
+        const lineY = y + (height / 4) * i;
+        plotGraphics.moveTo(x, lineY);
+        plotGraphics.lineTo(x + width, lineY);
+      }
+      plotGraphics.strokePath();
+      
+      // Reset line style for next plot
+      plotGraphics.lineStyle(2, 0x8B4513, 0.8);
+      
+      // Make plot clickable for planting
+      const centerX = x + width / 2;
+      const centerY = y + height / 2;
+      const plotArea = this.add.rectangle(centerX, centerY, width, height, 0x000000, 0);
+      plotArea.setInteractive();
+      plotArea.on('pointerdown', () => {
+        if (this.isEditorMode) return; // Clicks edit the map instead
         
-        // Add subtle grid lines within each plot
-        plotGraphics.lineStyle(1, 0x8B4513, 0.3);
-        // Vertical lines
-        for (let i = 1; i < 4; i++) {
-          const lineX = x + (plotSize / 4) * i;
-          plotGraphics.moveTo(lineX, y);
-          plotGraphics.lineTo(lineX, y + plotSize);
-        }
-        // Horizontal lines
-        for (let i = 1; i < 4; i++) {
-          const lineY = y + (plotSize / 4) * i;
-          plotGraphics.moveTo(x, lineY);
-          plotGraphics.lineTo(x + plotSize, lineY);
+        // Check if we can plant at this position
+        if (this.cropSystem.canPlantAt(centerX, centerY)) {
+          // Plant the starter seed (other seeds are available from the context menu)
+          this.plantSeed('usdc_sprout', centerX, centerY);
+          console.log(`🌱 Planting usdc_sprout at plot ${index}`);
+        } else {
+          console.log(`❌ Cannot plant at plot ${index} - already occupied`);
         }
-        plotGraphics.strokePath();
-        
-        // Reset line style for next plot
-        plotGraphics.lineStyle(2, 0x8B4513, 0.8);
-        
-        // Make plot clickable for planting
-        const plotArea = this.add.rectangle(x + plotSize/2, y + plotSize/2, plotSize, plotSize, 0x000000, 0);
-        plotArea.setInteractive();
-        plotArea.on('pointerdown', () => {
-          // Check if we can plant at this position
-          const centerX = x + plotSize/2;
-          const centerY = y + plotSize/2;
-          
-          if (this.cropSystem.canPlantAt(centerX, centerY)) {
-            // Plant a potato (hardcoded for MVP)
-            this.cropSystem.plantCrop(centerX, centerY, 'potato');
-            console.log(`🌱 Planted potato at plot (${col}, ${row})`);
-          } else {
-            console.log(`❌ Cannot plant at plot (${col}, ${row}) - already occupied`);
-          }
-        });
-      }
-    }
+      });
+      this.plotObjects.push(plotArea);
+    });
     
     // Add a sign near the plots
-    const signX = gridStartX - 50;
-    const signY = gridStartY - 50;
+    const signX = Math.min(...this.plotRegions.map(plot => plot.x)) - 50;
+    const signY = Math.min(...this.plotRegions.map(plot => plot.y)) - 50;
     const sign = this.add.rectangle(signX, signY, 100, 40, 0xD2691E, 0.9);
     sign.setStrokeStyle(2, 0x8B4513);
     
@@ -884,289 +1015,13 @@ export class MainScene extends Phaser.Scene {
       fontFamily: 'Arial'
     });
     signText.setOrigin(0.5);
+    this.plotObjects.push(sign, signText);
   }
   
   
 
-  // Painter Functions for Procedural World Generation
-
-  private createBaseLayer(baseTile: string, width: number, height: number): string[][] {
-    
-    const layout: string[][] = [];
-    
-    // Create a foundation of variety - 80% main grass, 20% variant grass
-    for (let y = 0; y < height; y++) {
-      layout[y] = [];
-      for (let x = 0; x < width; x++) {
-        if (Math.random() > 0.8) {
-          // 20% chance: Use grass variants for natural variation
-          const variants = ['grass_pure', 'grass_with_cliff_base'];
-          layout[y][x] = variants[Math.floor(Math.random() * variants.length)];
-        } else {
-          // 80% chance: Use main grass tile
-          layout[y][x] = baseTile;
-        }
-      }
-    }
-    
-    return layout;
-  }
-
-  private paintBorders(layout: string[][]) {
-    const height = layout.length;
-    const width = layout[0].length;
-    
-    // Paint top and bottom borders with cliffs
-    for (let x = 0; x < width; x++) {
-      layout[0][x] = x % 2 === 0 ? 'cliff_tall_1' : 'cliff_tall_2'; // Top border - alternating cliffs
-      layout[height - 1][x] = 'cliff_small'; // Bottom border - smaller cliffs
-    }
-    
-    // Paint left and right borders with cliff transitions
-    for (let y = 1; y < height - 1; y++) {
-      layout[y][0] = 'grass_cliff_left'; // Left border - grass with cliff edge
-      layout[y][width - 1] = 'grass_cliff_right'; // Right border - grass with cliff edge
-    }
-    
-    // Paint corner cliffs for structural integrity
-    layout[0][0] = 'cliff_large';
-    layout[0][width - 1] = 'cliff_large';
-    layout[height - 1][0] = 'cliff_round';
-    layout[height - 1][width - 1] = 'cliff_round';
-  }
-
-  private paintRectangularPlateau(layout: string[][], x: number, y: number, width: number, height: number) {
-    const mapHeight = layout.length;
-    const mapWidth = layout[0].length;
-    
-    // Ensure plateau fits within map bounds
-    const endX = Math.min(x + width, mapWidth);
-    const endY = Math.min(y + height, mapHeight);
-    
-    // STEP 1: Border First - Trace the outline with correct cliff tiles
-    for (let py = y; py < endY; py++) {
-      for (let px = x; px < endX; px++) {
-        const isTopEdge = (py === y);
-        const isBottomEdge = (py === endY - 1);
-        const isLeftEdge = (px === x);
-        const isRightEdge = (px === endX - 1);
-        const isCorner = (isTopEdge || isBottomEdge) && (isLeftEdge || isRightEdge);
-        const isEdge = isTopEdge || isBottomEdge || isLeftEdge || isRightEdge;
-        
-        if (isEdge) {
-          if (isCorner) {
-            // Corners get large cliff formations
-            layout[py][px] = 'cliff_large';
-          } else if (isBottomEdge) {
-            // Bottom edge: cliff face tiles
-            layout[py][px] = 'cliff_tall_1';
-          } else if (isTopEdge) {
-            // Top edge: grass-to-cliff-top transition
-            layout[py][px] = 'grass_cliff_bottom';
-          } else {
-            // Side edges: vertical cliff sides
-            layout[py][px] = isLeftEdge ? 'cliff_tall_2' : 'cliff_thin';
-          }
-        }
-      }
-    }
-    
-    // STEP 2: Fill Second - Fill the interior with different ground texture
-    for (let py = y + 1; py < endY - 1; py++) {
-      for (let px = x + 1; px < endX - 1; px++) {
-        // Interior filled with dirt/elevated ground texture
-        layout[py][px] = 'grass_with_cliff_base'; // Acts as "dirt_ground" equivalent
-      }
-    }
-    
-  }
-
-  private paintCircularLake(layout: string[][], centerX: number, centerY: number, radius: number) {
-    const mapHeight = layout.length;
-    const mapWidth = layout[0].length;
-    
-    // STEP 1: Fill the inside of the circle with water tiles
-    // STEP 2: Trace the edge with grass-to-water transition tiles
-    
-    for (let y = 0; y < mapHeight; y++) {
-      for (let x = 0; x < mapWidth; x++) {
-        const distance = Math.sqrt((x - centerX) ** 2 + (y - centerY) ** 2);
-        
-        if (distance <= radius - 1) {
-          // Inner water area - use pure grass as "water" (since we don't have water tiles)
-          // In a real implementation, this would be 'water_deep' or similar
-          layout[y][x] = 'grass_pure';
-        }
-        else if (distance <= radius) {
-          // Water edge - slightly different water
-          layout[y][x] = 'grass_pure';
-        }
-        else if (distance <= radius + 1.5) {
-          // Lake shore transitions - create natural grass-to-water edges
-          // Use different transition tiles based on position relative to center
-          const angle = Math.atan2(y - centerY, x - centerX);
-          const normalizedAngle = ((angle + Math.PI) / (2 * Math.PI)) * 4; // 0-4 range
-          
-          if (normalizedAngle < 1) {
-            layout[y][x] = 'grass_cliff_left'; // Left shore
-          } else if (normalizedAngle < 2) {
-            layout[y][x] = 'grass_cliff_bottom'; // Bottom shore
-          } else if (normalizedAngle < 3) {
-            layout[y][x] = 'grass_cliff_right'; // Right shore  
-          } else {
-            layout[y][x] = 'grass_cliff_bottom'; // Top shore
-          }
-        }
-        // Else: leave existing tile (no modification beyond transition zone)
-      }
-    }
-    
-  }
-
-  private paintPath(layout: string[][], points: Array<{x: number, y: number}>) {
-    const mapHeight = layout.length;
-    const mapWidth = layout[0].length;
-    
-    console.log(`🎨 Painting path connecting ${points.length} points`);
-    
-    // Connect each point to the next
-    for (let i = 0; i < points.length - 1; i++) {
-      const start = points[i];
-      const end = points[i + 1];
-      
-      // Use Bresenham-like algorithm to connect points
-      const dx = Math.abs(end.x - start.x);
-      const dy = Math.abs(end.y - start.y);
-      const sx = start.x < end.x ? 1 : -1;
-      const sy = start.y < end.y ? 1 : -1;
-      let err = dx - dy;
-      
-      let x = start.x;
-      let y = start.y;
-      
-      while (true) {
-        // Place path tile if within bounds and on grass
-        if (x >= 0 && x < mapWidth && y >= 0 && y < mapHeight) {
-          const currentTile = layout[y][x];
-          if (currentTile.includes('grass')) {
-            layout[y][x] = 'sticks'; // Use sticks as "path_pebbles" equivalent
-          }
-        }
-        
-        if (x === end.x && y === end.y) break;
-        
-        const e2 = 2 * err;
-        if (e2 > -dy) {
-          err -= dy;
-          x += sx;
-        }
-        if (e2 < dx) {
-          err += dx;
-          y += sy;
-        }
-      }
-    }
-    
-    console.log(`✅ Path painted connecting all points`);
-  }
-
-  private scatterDecorations(layout: string[][]) {
-    const mapHeight = layout.length;
-    const mapWidth = layout[0].length;
-    
-    console.log(`🎨 Scattering organic decorations across the world`);
-    
-    let decorationsPlaced = 0;
-    
-    // Loop through the entire map and add decorations with small probability
-    for (let y = 0; y < mapHeight; y++) {
-      for (let x = 0; x < mapWidth; x++) {
-        const currentTile = layout[y][x];
-        
-        // Only place decorations on grass tiles
-        if (currentTile === 'grass_main' || currentTile === 'grass_pure') {
-          if (Math.random() < 0.02) { // 2% chance for decoration
-            const decorations = ['rocks_brown', 'rocks_dark', 'ladder'];
-            const decoration = decorations[Math.floor(Math.random() * decorations.length)];
-            layout[y][x] = decoration;
-            decorationsPlaced++;
-          }
-        }
-      }
-    }
-    
-    console.log(`✅ Scattered ${decorationsPlaced} organic decorations`);
-  }
-
-  private paintScatteredFeatures(layout: string[][]) {
-    const mapHeight = layout.length;
-    const mapWidth = layout[0].length;
-    
-    console.log(`🎨 Adding scattered features with improved algorithms`);
-    
-    // Add a few small cliff outcrops for visual interest
-    for (let i = 0; i < 5; i++) {
-      const x = Math.floor(Math.random() * (mapWidth - 6)) + 3;
-      const y = Math.floor(Math.random() * (mapHeight - 6)) + 3;
-      
-      // Create small 2x2 cliff formations only on suitable terrain
-      if (layout[y][x] === 'grass_main' && 
-          layout[y][x + 1] === 'grass_main' &&
-          layout[y + 1][x] === 'grass_main' &&
-          layout[y + 1][x + 1] === 'grass_main') {
-        layout[y][x] = 'cliff_round';
-        layout[y][x + 1] = 'cliff_small';
-        layout[y + 1][x] = 'grass_cliff_bottom';
-        layout[y + 1][x + 1] = 'grass_cliff_bottom';
-      }
-    }
-    
-    console.log(`✅ Scattered features added with improved placement logic`);
-  }
-
   // Old manual rendering methods removed - now using proper Phaser Tilemap system
 
-  addTerrainDecorations(tileSize: number, mapWidth: number, mapHeight: number) {
-    // Add decorative elements based on terrain layout
-    const decorationPositions = [];
-    
-    // Find suitable positions for decorations
-    for (let y = 0; y < mapHeight; y++) {
-      for (let x = 0; x < mapWidth; x++) {
-        const tileType = this.terrainLayout[y][x];
-        
-        // Add ladders near cliffs
-        if (tileType.includes('cliff') && Math.random() > 0.95) {
-          decorationPositions.push({
-            x: x * tileSize + tileSize/2,
-            y: y * tileSize + tileSize/2,
-            type: 'ladder'
-          });
-        }
-        
-        // Add rocks on grass areas
-        if (tileType.includes('grass') && Math.random() > 0.98) {
-          decorationPositions.push({
-            x: x * tileSize + tileSize/2,
-            y: y * tileSize + tileSize/2,
-            type: 'rock'
-          });
-        }
-      }
-    }
-    
-    // Create decoration sprites
-    decorationPositions.forEach(({x, y, type}) => {
-      if (type === 'ladder') {
-        const ladder = this.add.rectangle(x, y, 8, 24, 0x8B4513, 0.8);
-        ladder.setStrokeStyle(1, 0x654321, 1);
-      } else if (type === 'rock') {
-        const rock = this.add.circle(x, y, 4, 0x696969, 0.8);
-        rock.setStrokeStyle(1, 0x2F2F2F, 0.6);
-      }
-    });
-  }
-
   addDecorations() {
     // Add trees around the border, avoiding cliff areas
     const treePositions = [
@@ -1208,7 +1063,7 @@ export class MainScene extends Phaser.Scene {
     pathGraphics.fillRect(400, 260, 16, 140);
     pathGraphics.fillRect(600, 260, 16, 140);
     
-    // Small decorative elements are now added by addTerrainDecorations()
+    // Small decorative elements come from the farm's terrain (see refreshTerrain)
   }
 
 
@@ -1223,9 +1078,10 @@ export class MainScene extends Phaser.Scene {
     this.isOwnWorld = isOwnWorld;
   }
   
-  setAuthInfo(address?: string, user?: any) {
+  setAuthInfo(address?: string, user?: any, signMessage?: MessageSigner) {
     this.address = address;
     this.user = user;
+    this.signMessage = signMessage;
   }
 
   setChainId(chainId: number) {
@@ -1235,83 +1091,31 @@ export class MainScene extends Phaser.Scene {
     // If chain ID changed, recreate buildings
     if (oldChainId !== chainId) {
       this.createNetworkSpecificBuildings();
+      
+      // Keep the server's collision layout in sync with our buildings
+      this.networkSystem?.sendChainChange(chainId);
     }
   }
 
   createNetworkSpecificBuildings() {
-    // Destroy existing buildings from the manager
-    if (this.buildingInteractionManager) {
-      this.buildingInteractionManager.destroy();
-      this.buildingInteractionManager = new BuildingInteractionManager(this);
-    }
+    // Before create() there is nothing to replace; create() places the buildings
+    if (!this.buildingInteractionManager) return;
 
-    // Destroy existing buildings
-    this.bankBuilding?.destroy();
-    this.marketplaceBuilding?.destroy();
-    this.flowBankBuilding?.destroy();
-    this.flowMarketplaceBuilding?.destroy();
-    this.pepeBuilding?.destroy(); // Also destroy the Pepe building
-
-    // Clear references
-    this.bankBuilding = undefined as any;
-    this.marketplaceBuilding = undefined as any;
-    this.flowBankBuilding = undefined;
-    this.flowMarketplaceBuilding = undefined;
-    this.pepeBuilding = undefined; // And clear its reference
-
-    const isOnKatana = this.currentChainId === katanaChain.id;
-    const isOnFlow = this.currentChainId === flowMainnet.id;
-
-    console.log(`🌐 Creating buildings for network: ${this.currentChainId} (Katana: ${isOnKatana}, Flow: ${isOnFlow})`);
-
-    if (isOnKatana) {
-      // Create Katana buildings
-      const katanaPos = GameConfig.buildings.katana;
-      this.bankBuilding = new BankBuilding(this, katanaPos.bank.x, katanaPos.bank.y);
-      this.marketplaceBuilding = new MarketplaceBuilding(this, katanaPos.marketplace.x, katanaPos.marketplace.y);
-      
-      // Add buildings to depth group for 2.5D sorting
-      this.depthGroup.add(this.bankBuilding);
-      this.depthGroup.add(this.marketplaceBuilding);
-      
-      // Register with manager
-      this.buildingInteractionManager.registerBuilding('bank', this.bankBuilding);
-      this.buildingInteractionManager.registerBuilding('marketplace', this.marketplaceBuilding);
-      
-      console.log('🔶 Created Katana buildings');
-    } else if (isOnFlow) {
-      // Create Flow buildings
-      const flowPos = GameConfig.buildings.flow;
-      this.flowBankBuilding = new FlowBankBuilding(this, flowPos.bank.x, flowPos.bank.y);
-      this.flowMarketplaceBuilding = new FlowMarketplaceBuilding(this, flowPos.marketplace.x, flowPos.marketplace.y);
-      // Create Pepe building only on Flow network
-      this.pepeBuilding = new PepeBuilding(this, flowPos.pepe.x, flowPos.pepe.y);
-      
-      // Add buildings to depth group for 2.5D sorting
-      this.depthGroup.add(this.flowBankBuilding);
-      this.depthGroup.add(this.flowMarketplaceBuilding);
-      this.depthGroup.add(this.pepeBuilding);
-      
-      // Register with manager
-      this.buildingInteractionManager.registerBuilding('flowBank', this.flowBankBuilding);
-      this.buildingInteractionManager.registerBuilding('flowMarketplace', this.flowMarketplaceBuilding);
-      this.buildingInteractionManager.registerBuilding('pepe', this.pepeBuilding);
-      
-      console.log('🟣 Created Flow buildings');
-    } else {
-      // Default case - create Katana buildings
-      console.log('⚪ Unknown network, creating default Katana buildings');
-      const katanaPos = GameConfig.buildings.katana;
-      this.bankBuilding = new BankBuilding(this, katanaPos.bank.x, katanaPos.bank.y);
-      this.marketplaceBuilding = new MarketplaceBuilding(this, katanaPos.marketplace.x, katanaPos.marketplace.y);
+    // Destroy the previous network's buildings; the manager (and its modal wiring) stays
+    this.buildingInteractionManager.clearBuildings();
+
+    // Positions from an imported Tiled map override the farm's layout until saved
+    const network = getBuildingNetwork(this.currentChainId);
+    const manifest = moveBuildings(this.buildingManifests[network], this.buildingPositions);
+
+    console.log(`🌐 Creating ${network} buildings for network: ${this.currentChainId}`);
+
+    for (const definition of manifest.buildings) {
+      const building = createBuilding(this, definition);
       
       // Add buildings to depth group for 2.5D sorting
-      this.depthGroup.add(this.bankBuilding);
-      this.depthGroup.add(this.marketplaceBuilding);
-      
-      // Register with manager
-      this.buildingInteractionManager.registerBuilding('bank', this.bankBuilding);
-      this.buildingInteractionManager.registerBuilding('marketplace', this.marketplaceBuilding);
+      this.depthGroup.add(building);
+      this.buildingInteractionManager.registerBuilding(definition.id, building);
     }
 
     // Set up event listeners for new buildings
@@ -1345,6 +1149,182 @@ export class MainScene extends Phaser.Scene {
       this.updatePlayer(sessionId, playerData);
     });
 
+    // Handle reconciliation of the locally predicted position
+    this.networkSystem.on('onPositionCorrection', (correction) => {
+      // Shift rather than snap so movement made since the last send is kept
+      if (this.currentPlayer) {
+        this.currentPlayer.setPosition(this.currentPlayer.x + correction.dx, this.currentPlayer.y + correction.dy);
+      }
+    });
+
+    // Handle crop responses from the server
+    this.networkSystem.on('onSeedPlanted', (message) => {
+      if (message.requestId) {
+        this.cropSystem?.confirmPendingCrop(message.requestId, message.cropId);
+      }
+      
+      eventBus.emit('crop:planted', {
+        cropId: message.cropId,
+        playerId: this.sessionId,
+        x: message.x,
+        y: message.y,
+        seedType: message.seedType
+      });
+    });
+
+    this.networkSystem.on('onGameError', (error) => {
+      // Roll back the optimistic crop for a rejected plant request
+      if (error.requestId) {
+        this.cropSystem?.rejectPendingCrop(error.requestId);
+      }
+      // A rejected terrain save leaves the editor's changes unsaved
+      if (error.requestId && error.requestId === this.pendingTerrainSave?.requestId) {
+        console.error(`❌ Terrain was not saved: ${error.message}`);
+        this.pendingTerrainSave = null;
+        this.emitTerrainEditorState();
+      }
+      // Guests can't chat: say why in the chat instead of dropping the message silently
+      if (error.code === 'SIGN_IN_REQUIRED') {
+        this.chatCallback?.({ playerId: 'system', name: 'System', message: error.message, timestamp: Date.now() });
+      }
+    });
+
+    this.networkSystem.on('onCropHarvested', (message) => {
+      this.events.emit('cropHarvested', { cropId: message.cropId, goldReward: message.yieldAmount });
+      
+      eventBus.emit('crop:harvested', {
+        cropId: message.cropId,
+        playerId: this.sessionId,
+        yield: message.yieldAmount,
+        experience: 0
+      });
+    });
+
+    this.networkSystem.on('onHarvestEvent', (message) => {
+      this.cropSystem?.showHarvestEffect(message.cropId, message.totalReturn);
+    });
+
+    this.networkSystem.on('onCropStageChanged', (message) => {
+      const crop = this.cropSystem?.getCropById(message.cropId);
+      
+      eventBus.emit('crop:growth', {
+        cropId: message.cropId,
+        stage: GROWTH_STAGES.indexOf(message.stage),
+        progress: crop ? getGrowthProgress(crop.plantedAt, crop.growthTime, Date.now(), crop.growthBoost) : 0
+      });
+    });
+
+    this.networkSystem.on('onCropReady', (message) => {
+      this.cropSystem?.showReadyEffect(message.cropId);
+    });
+
+    this.networkSystem.on('onCropWatered', (message) => {
+      this.cropSystem?.showWaterEffect(message.cropId);
+      
+      eventBus.emit('crop:watered', {
+        cropId: message.cropId,
+        playerId: message.playerId
+      });
+    });
+
+    this.networkSystem.on('onRoleChanged', (role: WorldRole) => {
+      this.events.emit('roleChanged', role);
+    });
+
+    this.networkSystem.on('onQuestLog', (quests) => {
+      this.events.emit('questLog', quests);
+    });
+
+    this.networkSystem.on('onQuestProgress', (quests) => {
+      this.events.emit('questProgress', quests);
+    });
+
+    this.networkSystem.on('onQuestCompleted', (message) => {
+      this.events.emit('questCompleted', message);
+    });
+
+    this.networkSystem.on('onWorldEvents', (events) => {
+      this.events.emit('worldEvents', events);
+    });
+
+    this.networkSystem.on('onWorldEventStarted', (event) => {
+      this.events.emit('worldEventStarted', event);
+    });
+
+    this.networkSystem.on('onWorldEventEnded', (eventId) => {
+      this.events.emit('worldEventEnded', eventId);
+    });
+
+    this.networkSystem.on('onTerrain', (terrain, generation) => {
+      try {
+        this.terrainLayout = decodeTerrain(terrain);
+      } catch (error) {
+        console.error('❌ Received invalid terrain:', error);
+        return;
+      }
+      if (generation !== undefined) {
+        this.terrainGeneration = generation;
+      }
+      // The whole map was replaced (or resynced), so unsaved editor changes no longer apply
+      if (this.savedTerrain) {
+        console.warn('⚠️ Terrain was replaced by the server; unsaved editor changes were discarded');
+      }
+      this.savedTerrain = null;
+      this.pendingTerrainSave = null;
+      this.terrainEditor.clearHistory();
+      this.emitTerrainEditorState();
+      this.collisionSystem.setTerrainLayout(this.terrainLayout);
+      this.refreshTerrain();
+    });
+
+    this.networkSystem.on('onTerrainSaved', (requestId) => {
+      const save = this.pendingTerrainSave;
+      if (!save || save.requestId !== requestId) return;
+      
+      this.pendingTerrainSave = null;
+      if (this.savedTerrain) {
+        applyTerrainEdits(this.savedTerrain, save.edits);
+        // Anything edited while the save was on its way is still unsaved
+        if (diffTerrain(this.savedTerrain, this.terrainLayout).length === 0) {
+          this.savedTerrain = null;
+        }
+      }
+      console.log(`💾 Saved ${save.edits.length} terrain tiles`);
+      this.emitTerrainEditorState();
+    });
+
+    this.networkSystem.on('onBuildings', (manifest) => {
+      this.buildingManifests[manifest.network] = manifest;
+      if (manifest.network !== getBuildingNetwork(this.currentChainId)) return;
+
+      // A saved layout may use sprites the defaults don't
+      loadBuildingSprites(this, manifest, () => {
+        this.clearEditorSelection();
+        this.createNetworkSpecificBuildings();
+      });
+    });
+
+    this.networkSystem.on('onTerrainUpdated', (edits) => {
+      this.updateTerrain(edits);
+    });
+
+    this.networkSystem.on('onKicked', (reason) => {
+      this.events.emit('kicked', reason);
+    });
+
+    this.networkSystem.on('onLevelUp', (message) => {
+      this.players.get(message.sessionId)?.updateLevel(message.newLevel);
+      if (message.sessionId === this.sessionId) {
+        this.events.emit('levelChanged', message.newLevel);
+      }
+
+      eventBus.emit('player:levelUp', {
+        playerId: message.sessionId,
+        newLevel: message.newLevel,
+        oldLevel: message.oldLevel
+      });
+    });
+
     // Handle chat messages
     this.networkSystem.on('onChatMessage', (message: ChatMessage) => {
       if (this.chatCallback) {
@@ -1352,6 +1332,14 @@ export class MainScene extends Phaser.Scene {
       }
     });
 
+    this.networkSystem.on('onChatHistory', (messages: ChatMessage[]) => {
+      this.events.emit('chatHistory', messages);
+    });
+
+    this.networkSystem.on('onChatDeleted', (messageId: number) => {
+      this.events.emit('chatDeleted', messageId);
+    });
+
     // Handle state changes
     this.networkSystem.on('onStateChange', (state) => {
       // Make sure scene is initialized before handling players
@@ -1360,6 +1348,11 @@ export class MainScene extends Phaser.Scene {
         return;
       }
       
+      // Mirror the room's authoritative crops
+      if (state.crops) {
+        this.cropSystem?.syncFromServer(state.crops);
+      }
+      
       // Handle all players in the current state
       if (state.players) {
         // Clear existing players first
@@ -1412,9 +1405,20 @@ export class MainScene extends Phaser.Scene {
       const roomOptions = {
         name: displayName,
         playerId: playerId,
-        worldOwnerId: undefined as string | undefined
+        worldOwnerId: undefined as string | undefined,
+        authToken: undefined as string | undefined,
+        chainId: this.currentChainId
       };
 
+      // Prove wallet ownership so the server can grant host permissions
+      if (this.address && this.signMessage) {
+        try {
+          roomOptions.authToken = await this.networkSystem.authenticate(this.address, this.signMessage);
+        } catch (error) {
+          console.warn('Wallet authentication failed, joining as guest:', error);
+        }
+      }
+
       if (this.worldId) {
         roomType = 'world';
         roomOptions.worldOwnerId = this.worldId;
@@ -1481,6 +1485,7 @@ export class MainScene extends Phaser.Scene {
       
       if (isCurrentPlayer) {
         this.currentPlayer = playerObject;
+        this.events.emit('levelChanged', playerInfo.level);
         // Start camera following the current player
         this.updateCameraFollow();
         console.log('📷 Camera now following current player');
@@ -1555,9 +1560,8 @@ export class MainScene extends Phaser.Scene {
           return;
         }
 
-        // Player is in view - ensure they're visible and update position
+        // Player is in view - position is interpolated every frame in updateRemotePlayers
         player.setVisible(true);
-        player.updatePosition(playerData.x, playerData.y);
         
         // Update level if it changed
         if (playerData.level && playerData.level !== player.getPlayerInfo().level) {
@@ -1569,6 +1573,18 @@ export class MainScene extends Phaser.Scene {
     }
   }
 
+  updateRemotePlayers() {
+    const now = performance.now();
+    this.players.forEach((player, sessionId) => {
+      if (sessionId === this.sessionId || !player.visible) return;
+      
+      const position = this.networkSystem.getInterpolatedPosition(sessionId, now);
+      if (position && (position.x !== player.x || position.y !== player.y)) {
+        player.updatePosition(position.x, position.y);
+      }
+    });
+  }
+
   updatePlayerDirection(player: Player, direction: string) {
     try {
       // Only update if direction actually changed
@@ -1598,6 +1614,9 @@ export class MainScene extends Phaser.Scene {
     // Player input runs every frame for responsiveness
     this.handlePlayerInput(delta);
     
+    // Remote players are interpolated every frame between server snapshots
+    this.updateRemotePlayers();
+    
     // Handle editor mode toggle
     if (Phaser.Input.Keyboard.JustDown(this.backtickKey)) {
       this.toggleEditorMode();
@@ -1671,8 +1690,8 @@ export class MainScene extends Phaser.Scene {
       return;
     }
 
-    // Frame-rate independent movement: 540 pixels per second
-    const baseSpeed = 540;
+    // Frame-rate independent movement at the server-validated speed
+    const baseSpeed = GameConfig.player.baseSpeed;
     const speed = (baseSpeed * delta) / 1000; // Convert to pixels per frame
     let moved = false;
     let newX = this.currentPlayer.x;
@@ -1703,7 +1722,7 @@ export class MainScene extends Phaser.Scene {
         newDirection = 'up';
       }
     } else if (this.cursors.down.isDown || this.wasd.S.isDown) {
-      const potentialY = newY + speed;
+      const potentialY = Math.min(this.worldHeight - 20, newY + speed);
       if (!this.collisionSystem.checkPlayerCollision(newX, potentialY)) {
         newY = potentialY;
         moved = true;
@@ -1749,6 +1768,10 @@ export class MainScene extends Phaser.Scene {
     this.networkSystem.sendChat(message);
   }
 
+  deleteChatMessage(messageId: number) {
+    this.networkSystem.sendDeleteChat(messageId);
+  }
+
   destroy() {
     // Emit system shutdown event
     eventBus.emit('system:shutdown', { systemName: 'MainScene' });
@@ -1762,55 +1785,95 @@ export class MainScene extends Phaser.Scene {
     return this.cropSystem || null;
   }
 
+  /**
+   * Convert canvas-relative screen coordinates (e.g. from the context menu) to world coordinates
+   */
+  private screenToWorld(x: number, y: number): { x: number; y: number } {
+    const point = this.cameras.main.getWorldPoint(x, y);
+    return { x: point.x, y: point.y };
+  }
+
+  // The following crop methods take canvas-relative screen coordinates
   canPlantAt(x: number, y: number): boolean {
-    return this.cropSystem ? this.cropSystem.canPlantAt(x, y) : false;
+    if (!this.cropSystem) return false;
+    const world = this.screenToWorld(x, y);
+    return this.cropSystem.canPlantAt(world.x, world.y);
   }
 
-  getCropAt(x: number, y: number): { id: string; type: CropType; stage: string } | null {
+  getCropAt(x: number, y: number): { id: string; seedType: SeedType; stage: string } | null {
     if (!this.cropSystem) return null;
-    const crop = this.cropSystem.getCropAtPosition(x, y);
-    return crop ? { id: crop.id, type: crop.type, stage: crop.stage } : null;
+    const world = this.screenToWorld(x, y);
+    const crop = this.cropSystem.getCropAtPosition(world.x, world.y);
+    return crop ? { id: crop.id, seedType: crop.seedType, stage: crop.stage } : null;
   }
 
-  plantCrop(cropType: CropType, x: number, y: number): void {
-    if (this.cropSystem) {
-      this.cropSystem.plantCrop(x, y, cropType);
-      
-      // Emit crop planted event
-      eventBus.emit('crop:planted', {
-        cropId: `crop_${Date.now()}`,
-        playerId: this.sessionId,
-        x: x,
-        y: y,
-        seedType: cropType
-      });
-    }
+  plantCrop(seedType: SeedType, x: number, y: number): void {
+    const world = this.screenToWorld(x, y);
+    this.plantSeed(seedType, world.x, world.y);
   }
 
-  removeCropAtPosition(x: number, y: number): void {
+  harvestCropAtPosition(x: number, y: number): void {
     if (!this.cropSystem) return;
-    const crop = this.cropSystem.getCropAtPosition(x, y);
-    if (crop) {
-      this.cropSystem.removeCrop(crop.id);
+    const world = this.screenToWorld(x, y);
+    const crop = this.cropSystem.getCropAtPosition(world.x, world.y);
+    if (crop && !crop.pending) {
+      this.networkSystem.sendHarvestCrop(crop.id);
     }
   }
 
-  harvestCropAtPosition(x: number, y: number): void {
+  waterCropAtPosition(x: number, y: number): void {
     if (!this.cropSystem) return;
-    const crop = this.cropSystem.getCropAtPosition(x, y);
-    if (crop) {
-      this.cropSystem.harvestCrop(crop.id);
-      
-      // Emit crop harvested event
-      eventBus.emit('crop:harvested', {
-        cropId: crop.id,
-        playerId: this.sessionId,
-        yield: 1,
-        experience: 10
-      });
+    const world = this.screenToWorld(x, y);
+    const crop = this.cropSystem.getCropAtPosition(world.x, world.y);
+    if (crop && !crop.pending) {
+      this.networkSystem.sendWaterCrop(crop.id);
     }
   }
 
+  /**
+   * Whether the local player's role in this world allows an action
+   */
+  can(permission: WorldPermission): boolean {
+    return hasPermission(this.networkSystem.getRole(), permission);
+  }
+
+  /**
+   * Other signed-in players in the room with their roles (for the owner's role management).
+   * Guests are left out: their IDs change every session, so the server refuses to grant them roles
+   */
+  getFarmPlayers(): { playerId: string; name: string; role: WorldRole }[] {
+    const state = this.networkSystem.getRoom()?.state;
+    if (!state?.players) return [];
+    
+    const players: { playerId: string; name: string; role: WorldRole }[] = [];
+    state.players.forEach((player, sessionId) => {
+      if (sessionId === this.sessionId || !player.connected || !isWalletPlayerId(player.id)) return;
+      players.push({ playerId: player.id, name: player.name, role: player.role ?? 'visitor' });
+    });
+    return players;
+  }
+
+  setPlayerRole(playerId: string, role: GrantableRole | null): void {
+    this.networkSystem.sendSetRole(playerId, role);
+  }
+
+  reportOnChainAction(action: OnChainQuestAction, chainId: number, txHash: string): void {
+    this.networkSystem.sendOnChainAction(action, chainId, txHash);
+  }
+
+  /**
+   * Plant a seed at a world position: show it immediately, then let the server confirm or reject it
+   */
+  plantSeed(seedType: SeedType, x: number, y: number): void {
+    if (!this.cropSystem || !this.networkSystem.isConnectedToServer()) return;
+    
+    const requestId = `plant_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const investmentAmount = SEED_CONFIGS[seedType].minInvestment;
+    
+    this.cropSystem.addPendingCrop(requestId, x, y, seedType, investmentAmount);
+    this.networkSystem.sendPlantSeed({ seedType, x, y, investmentAmount, requestId });
+  }
+
   getTotalCrops(): number {
     return this.cropSystem ? this.cropSystem.getAllCrops().length : 0;
   }
@@ -1832,7 +1895,9 @@ export class MainScene extends Phaser.Scene {
       
       const worldPoint = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
       
-      if (this.editorMode === 'info' || (this.editorMode === 'move' && !this.selectedEditorObject)) {
+      if (this.editorMode === 'terrain') {
+        this.handleTerrainPointerDown(worldPoint.x, worldPoint.y);
+      } else if (this.editorMode === 'info' || (this.editorMode === 'move' && !this.selectedEditorObject)) {
         // Select object
         this.handleEditorObjectSelection(worldPoint.x, worldPoint.y);
       } else if (this.editorMode === 'move' && this.selectedEditorObject) {
@@ -1840,6 +1905,36 @@ export class MainScene extends Phaser.Scene {
         this.moveSelectedObject(worldPoint.x, worldPoint.y);
       }
     });
+    
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (!this.isEditorMode || this.editorMode !== 'terrain') return;
+      
+      const worldPoint = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
+      this.handleTerrainPointerMove(worldPoint.x, worldPoint.y);
+    });
+    
+    this.input.on('pointerup', (pointer: Phaser.Input.Pointer) => {
+      if (!this.isEditorMode || this.editorMode !== 'terrain') return;
+      
+      const worldPoint = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
+      this.handleTerrainPointerUp(worldPoint.x, worldPoint.y);
+    });
+    
+    // Undo: Ctrl/Cmd+Z, redo: Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y
+    this.input.keyboard!.on('keydown-Z', (event: KeyboardEvent) => {
+      if (!this.isEditorMode || this.editorMode !== 'terrain' || !(event.ctrlKey || event.metaKey)) return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        this.redoTerrainEdit();
+      } else {
+        this.undoTerrainEdit();
+      }
+    });
+    this.input.keyboard!.on('keydown-Y', (event: KeyboardEvent) => {
+      if (!this.isEditorMode || this.editorMode !== 'terrain' || !(event.ctrlKey || event.metaKey)) return;
+      event.preventDefault();
+      this.redoTerrainEdit();
+    });
   }
   
   handleEditorObjectSelection(x: number, y: number) {
@@ -1847,16 +1942,8 @@ export class MainScene extends Phaser.Scene {
     this.clearEditorSelection();
     
     // Check buildings first
-    const buildings = [
-      this.bankBuilding,
-      this.marketplaceBuilding,
-      this.flowBankBuilding,
-      this.flowMarketplaceBuilding,
-      this.pepeBuilding
-    ].filter(Boolean);
-    
-    for (const building of buildings) {
-      if (building && building.checkCollision(x, y)) {
+    for (const building of Array.from(this.buildingInteractionManager.getBuildings().values())) {
+      if (building.checkCollision(x, y)) {
         this.selectEditorObject(building);
         return;
       }
@@ -1958,64 +2045,328 @@ export class MainScene extends Phaser.Scene {
     
     if (!this.isEditorMode) {
       this.clearEditorSelection();
+      this.cancelTerrainTool();
     }
   }
   
-  setEditorMode(mode: 'info' | 'move') {
+  setEditorMode(mode: EditorMode) {
     this.editorMode = mode;
     
-    // Clear selection when switching to info mode
-    if (mode === 'info') {
+    // Clear selection when switching to info or terrain mode
+    if (mode !== 'move') {
       this.clearEditorSelection();
     }
+    if (mode !== 'terrain') {
+      this.cancelTerrainTool();
+    }
+    this.emitTerrainEditorState();
   }
   
-  exportBuildingConfig() {
-    const config = {
-      buildings: {
-        katana: {
-          bank: { x: 0, y: 0 },
-          marketplace: { x: 0, y: 0 }
-        },
-        flow: {
-          bank: { x: 0, y: 0 },
-          marketplace: { x: 0, y: 0 },
-          pepe: { x: 0, y: 0 }
-        }
-      }
-    };
+  setTerrainBrush(settings: Partial<TerrainBrushSettings>) {
+    this.terrainBrush = { ...this.terrainBrush, ...settings };
+    this.terrainRectStart = null;
+    this.emitTerrainEditorState();
+  }
+  
+  private handleTerrainPointerDown(x: number, y: number) {
+    if (!this.can('edit_terrain')) {
+      console.error('❌ Only the farm owner can edit its terrain');
+      return;
+    }
+    const tile = TilemapUtils.worldToTile(x, y);
+    const { tool, tile: tileType, size } = this.terrainBrush;
+    
+    if (tool === 'brush') {
+      this.terrainStroke = [];
+      this.terrainStroke.push(...this.applyTerrainTool(layout => TilemapEditor.paintBrush(layout, tile.x, tile.y, size, tileType)));
+    } else if (tool === 'rect') {
+      this.terrainRectStart = tile;
+    } else {
+      this.finishTerrainEdit(this.applyTerrainTool(layout => TilemapEditor.floodFill(layout, tile.x, tile.y, tileType)));
+    }
+    this.drawTerrainCursor(tile);
+  }
+  
+  private handleTerrainPointerMove(x: number, y: number) {
+    const tile = TilemapUtils.worldToTile(x, y);
+    const { tile: tileType, size } = this.terrainBrush;
+    
+    if (this.terrainStroke) {
+      this.terrainStroke.push(...this.applyTerrainTool(layout => TilemapEditor.paintBrush(layout, tile.x, tile.y, size, tileType)));
+    }
+    this.drawTerrainCursor(tile);
+  }
+  
+  private handleTerrainPointerUp(x: number, y: number) {
+    const tile = TilemapUtils.worldToTile(x, y);
+    
+    if (this.terrainStroke) {
+      const stroke = this.terrainStroke;
+      this.terrainStroke = null;
+      this.finishTerrainEdit(stroke);
+    } else if (this.terrainRectStart) {
+      const start = this.terrainRectStart;
+      this.terrainRectStart = null;
+      const tileType = this.terrainBrush.tile;
+      this.finishTerrainEdit(this.applyTerrainTool(layout => TilemapEditor.fillRect(layout, start.x, start.y, tile.x, tile.y, tileType)));
+    }
+    this.drawTerrainCursor(tile);
+  }
+  
+  /**
+   * Run an editor tool on the layout and show its changes locally (they are saved later)
+   */
+  private applyTerrainTool(tool: (layout: string[][]) => TerrainEdit[]): TerrainEdit[] {
+    const snapshot = this.savedTerrain ? null : this.terrainLayout.map(row => [...row]);
+    const edits = tool(this.terrainLayout);
+    if (edits.length === 0) return edits;
+    
+    if (!this.savedTerrain) {
+      this.savedTerrain = snapshot;
+    }
+    this.showTerrainEdits(TilemapEditor.toTileEdits(edits));
+    return edits;
+  }
+  
+  /**
+   * Auto-tile around a finished edit and record it all as one undoable step
+   */
+  private finishTerrainEdit(edits: TerrainEdit[]) {
+    if (this.terrainBrush.autoTile && edits.length > 0) {
+      edits = edits.concat(this.applyTerrainTool(layout => TilemapEditor.autoTileCliffs(layout, edits)));
+    }
+    this.terrainEditor.record(edits);
+    this.terrainValidation = null;
+    this.emitTerrainEditorState();
+  }
+  
+  /**
+   * Run a scripted terrain change (a console command or map import) as one undoable editor step.
+   * It is validated and saved like the editor's own changes: right away, unless the editor already
+   * has unsaved changes, which it joins instead of saving them unseen
+   */
+  private applyTerrainCommand<T extends { edits: TerrainEdit[] }>(command: (layout: string[][]) => T): T {
+    this.cancelTerrainTool();
+    const hadUnsavedChanges = this.savedTerrain !== null;
+    let result: T | undefined;
+    const edits = this.applyTerrainTool(layout => {
+      result = command(layout);
+      return result.edits;
+    });
+    if (edits.length === 0) return result!;
+    
+    this.terrainEditor.record(edits);
+    this.terrainValidation = null;
+    if (hadUnsavedChanges) {
+      console.warn('⚠️ Added to the unsaved terrain changes; save them from the terrain editor');
+      this.emitTerrainEditorState();
+    } else {
+      this.saveTerrainEdits();
+    }
+    return result!;
+  }
+  
+  undoTerrainEdit() {
+    this.cancelTerrainTool();
+    this.applyTerrainTool(layout => this.terrainEditor.undo(layout));
+    this.terrainValidation = null;
+    this.emitTerrainEditorState();
+  }
+  
+  redoTerrainEdit() {
+    this.cancelTerrainTool();
+    this.applyTerrainTool(layout => this.terrainEditor.redo(layout));
+    this.terrainValidation = null;
+    this.emitTerrainEditorState();
+  }
+  
+  /**
+   * Validate the edited terrain and, if it has no errors, save the changes to the farm
+   */
+  saveTerrainEdits() {
+    if (!this.savedTerrain || this.pendingTerrainSave) return;
+    if (!this.can('edit_terrain')) {
+      console.error('❌ Only the farm owner can edit its terrain');
+      return;
+    }
+    
+    const { isValid, errors, warnings } = TilemapEditor.validateTerrain(this.terrainLayout);
+    this.terrainValidation = { errors, warnings };
+    if (!isValid) {
+      console.error('❌ Terrain has errors and was not saved:', errors);
+      this.emitTerrainEditorState();
+      return;
+    }
+    
+    const edits = diffTerrain(this.savedTerrain, this.terrainLayout);
+    if (edits.length === 0) {
+      this.savedTerrain = null;
+      this.emitTerrainEditorState();
+      return;
+    }
+    if (!this.networkSystem.getRoom()) {
+      console.error('❌ Not connected, terrain was not saved');
+      return;
+    }
+    
+    // The saved terrain is only updated once the server confirms, so a rejected save stays unsaved
+    const requestId = `terrain_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.pendingTerrainSave = { requestId, edits };
+    this.networkSystem.sendTerrainEdits(edits, requestId);
+    console.log(`💾 Saving ${edits.length} terrain tiles${warnings.length > 0 ? ` (${warnings.length} warnings)` : ''}`);
+    this.emitTerrainEditorState();
+  }
+  
+  /**
+   * Throw away unsaved terrain edits, going back to the farm's saved terrain
+   */
+  discardTerrainEdits() {
+    if (!this.savedTerrain || this.pendingTerrainSave) return;
+    
+    this.cancelTerrainTool();
+    const edits = applyTerrainEdits(this.terrainLayout, diffTerrain(this.terrainLayout, this.savedTerrain));
+    this.savedTerrain = null;
+    this.terrainEditor.clearHistory();
+    this.terrainValidation = null;
+    this.showTerrainEdits(edits);
+    this.emitTerrainEditorState();
+  }
+  
+  private cancelTerrainTool() {
+    if (this.terrainStroke) {
+      this.finishTerrainEdit(this.terrainStroke);
+      this.terrainStroke = null;
+    }
+    this.terrainRectStart = null;
+    this.terrainCursor?.destroy();
+    this.terrainCursor = undefined;
+  }
+  
+  // Outline the tiles the current tool will paint (the brush, or the rectangle being dragged)
+  private drawTerrainCursor(tile: Point) {
+    if (!this.terrainCursor) {
+      this.terrainCursor = this.add.graphics();
+      this.terrainCursor.setDepth(100000); // Above the depth-sorted world
+    }
+    const tileSize = TilesetConfig.image.tileSize;
+    let from = tile;
+    let to = tile;
+    if (this.terrainRectStart) {
+      from = this.terrainRectStart;
+    } else if (this.terrainBrush.tool === 'brush') {
+      const start = -Math.floor((this.terrainBrush.size - 1) / 2);
+      from = { x: tile.x + start, y: tile.y + start };
+      to = { x: from.x + this.terrainBrush.size - 1, y: from.y + this.terrainBrush.size - 1 };
+    }
     
-    // Export Katana buildings
-    if (this.bankBuilding) {
-      config.buildings.katana.bank.x = Math.round(this.bankBuilding.x);
-      config.buildings.katana.bank.y = Math.round(this.bankBuilding.y);
+    const minX = Math.min(from.x, to.x);
+    const minY = Math.min(from.y, to.y);
+    this.terrainCursor.clear();
+    this.terrainCursor.lineStyle(2, 0xffff00, 1);
+    this.terrainCursor.strokeRect(
+      minX * tileSize,
+      minY * tileSize,
+      (Math.abs(to.x - from.x) + 1) * tileSize,
+      (Math.abs(to.y - from.y) + 1) * tileSize
+    );
+  }
+  
+  private emitTerrainEditorState() {
+    const state: TerrainEditorState = {
+      ...this.terrainBrush,
+      canUndo: this.terrainEditor.canUndo,
+      canRedo: this.terrainEditor.canRedo,
+      unsavedChanges: this.savedTerrain ? diffTerrain(this.savedTerrain, this.terrainLayout).length : 0,
+      saving: this.pendingTerrainSave !== null,
+      validation: this.terrainValidation
+    };
+    this.events.emit('terrainEditorChanged', state);
+  }
+  
+  /**
+   * Apply a Tiled map. Its terrain is saved to the farm (owner only); tile collisions, building
+   * positions and plots only apply to this client, until the building layout is saved from editor move mode.
+   */
+  loadTiledMap(json: unknown) {
+    let imported;
+    try {
+      imported = importTiledMap(json, TiledCatalog);
+    } catch (error) {
+      console.error(`❌ Failed to import Tiled map: ${(error as Error).message}`);
+      return;
     }
-    if (this.marketplaceBuilding) {
-      config.buildings.katana.marketplace.x = Math.round(this.marketplaceBuilding.x);
-      config.buildings.katana.marketplace.y = Math.round(this.marketplaceBuilding.y);
+    imported.warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
+    
+    const { layout } = imported;
+    if (layout.length !== TERRAIN_HEIGHT || layout[0]?.length !== TERRAIN_WIDTH) {
+      console.error(`❌ Tiled map must be ${TERRAIN_WIDTH}x${TERRAIN_HEIGHT} tiles to match the farm`);
+      return;
     }
     
-    // Export Flow buildings
-    if (this.flowBankBuilding) {
-      config.buildings.flow.bank.x = Math.round(this.flowBankBuilding.x);
-      config.buildings.flow.bank.y = Math.round(this.flowBankBuilding.y);
+    // Collisions first, so the terrain update below already uses them
+    this.collisionSystem.setTileCollisions(imported.tileCollisions);
+    
+    let tilesChanged = 0;
+    if (this.can('edit_terrain')) {
+      const { edits } = this.applyTerrainCommand(current => ({
+        edits: TilemapEditor.applyTileEdits(current, diffTerrain(current, layout))
+      }));
+      tilesChanged = edits.length;
+    } else {
+      console.warn('⚠️ Only the farm owner can save terrain; applying buildings and plots only');
     }
-    if (this.flowMarketplaceBuilding) {
-      config.buildings.flow.marketplace.x = Math.round(this.flowMarketplaceBuilding.x);
-      config.buildings.flow.marketplace.y = Math.round(this.flowMarketplaceBuilding.y);
+    
+    if (imported.buildings.length > 0) {
+      this.buildingPositions = Object.fromEntries(imported.buildings.map(({ id, x, y }) => [id, { x, y }]));
+      this.createNetworkSpecificBuildings();
     }
-    if (this.pepeBuilding) {
-      config.buildings.flow.pepe.x = Math.round(this.pepeBuilding.x);
-      config.buildings.flow.pepe.y = Math.round(this.pepeBuilding.y);
+    if (imported.plots.length > 0) {
+      this.plotRegions = imported.plots;
+      this.createPlotGrid();
     }
     
-    const configString = `// --- PASTE THIS INTO YOUR GameConfig.ts ---
-buildings: ${JSON.stringify(config.buildings, null, 2)},
-// -----------------------------------------`;
+    console.log(`📥 Imported Tiled map: ${tilesChanged} tiles changed, ${imported.buildings.length} buildings, ${imported.plots.length} plots`);
+  }
+  
+  /**
+   * The current terrain, buildings and plots as a Tiled JSON map
+   */
+  toTiledMap(): TiledMap {
+    const buildings = Array.from(this.buildingInteractionManager.getBuildings().entries()).map(([id, building]) => {
+      const bounds = building.getCollisionBounds();
+      return { id, x: Math.round(building.x), y: Math.round(building.y), width: Math.round(bounds.width), height: Math.round(bounds.height) };
+    });
+    return exportTiledMap(this.terrainLayout, TiledCatalog, { buildings, plots: this.plotRegions });
+  }
+  
+  /**
+   * Save where the current network's buildings stand (e.g. after moving them in editor move mode)
+   * as the farm's layout. Buildings outside the world or on solid terrain block the save.
+   */
+  saveBuildingLayout() {
+    const network = getBuildingNetwork(this.currentChainId);
+    const positions: Record<string, Point> = {};
+    this.buildingInteractionManager.getBuildings().forEach((building, id) => {
+      positions[id] = { x: Math.round(building.x), y: Math.round(building.y) };
+    });
+    const manifest = moveBuildings(this.buildingManifests[network], positions);
+    
+    const problems = validateBuildingPlacement(manifest.buildings, this.terrainLayout);
+    const state: BuildingLayoutState = { problems };
+    this.events.emit('buildingLayoutChanged', state);
+    if (problems.length > 0) {
+      console.warn('⚠️ Building layout not saved:', problems);
+      return;
+    }
+    if (!this.can('edit_buildings')) {
+      console.warn('⚠️ Only the farm owner can save the building layout');
+      return;
+    }
     
-    navigator.clipboard.writeText(configString);
-    console.log('📋 Building configuration copied to clipboard!');
-    console.log(configString);
+    this.buildingManifests[network] = manifest;
+    this.buildingPositions = {};
+    this.networkSystem.sendSaveBuildings(manifest);
+    console.log(`🏠 Saved the ${network} building layout`);
   }
 }
 
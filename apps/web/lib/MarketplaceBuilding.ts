@@ -6,26 +6,6 @@
 import { BaseInteractiveBuilding } from './BaseInteractiveBuilding';
 
 export class MarketplaceBuilding extends BaseInteractiveBuilding {
-  protected getSpriteTexture(): string {
-    return 'market';
-  }
-
-  protected getGlowColor(): number {
-    return 0x4444ff; // Blue glow for marketplace
-  }
-
-  protected getPromptText(): string {
-    return 'Press E to enter marketplace';
-  }
-
-  protected getEventName(): string {
-    return 'marketplaceInteraction';
-  }
-
-  protected getBuildingName(): string {
-    return '🏪 Marketplace';
-  }
-
   // Override checkInteraction to add custom animation
   public checkInteraction(): boolean {
     if (this.isPlayerNear && this.interactionKey && Phaser.Input.Keyboard.JustDown(this.interactionKey)) {
@@ -46,17 +26,4 @@ export class MarketplaceBuilding extends BaseInteractiveBuilding {
     }
     return false;
   }
-
-  // Override getCollisionBounds for custom collision area
-  public getCollisionBounds(): Phaser.Geom.Rectangle {
-    // Return a rectangle slightly smaller than the sprite for better collision feel
-    const width = this.buildingSprite.displayWidth * 0.8;
-    const height = this.buildingSprite.displayHeight * 0.8;
-    return new Phaser.Geom.Rectangle(
-      this.x - width / 2,
-      this.y - height / 2,
-      width,
-      height
-    );
-  }
 }
\ No newline at end of file
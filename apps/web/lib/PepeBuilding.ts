@@ -5,79 +5,6 @@ import { BaseInteractiveBuilding } from './BaseInteractiveBuilding';
  * This building serves as both a character encounter and a functional DeFi launchpad
  */
 export class PepeBuilding extends BaseInteractiveBuilding {
-  private static readonly ANIMATION_KEY = 'pepe_building_idle';
-
-  constructor(scene: Phaser.Scene, x: number, y: number) {
-    super(scene, x, y);
-  }
-
-  // Abstract method implementations
-  protected getSpriteTexture(): string {
-    return 'pepe_building_anim';
-  }
-
-  protected getGlowColor(): number {
-    return 0x32cd32; // Pepe green
-  }
-
-  protected getPromptText(): string {
-    return "Press E for Pepe's Pump Launchpad";
-  }
-
-  protected getEventName(): string {
-    return 'pepeInteraction';
-  }
-
-  protected getBuildingName(): string {
-    return '🐸 Pepe\'s Pump Launchpad';
-  }
-
-  // Override virtual methods
-  protected getSpriteScale(): number {
-    return 1.2; // Increased sprite size by 1.5x (0.8 * 1.5 = 1.2)
-  }
-
-  protected getPromptBackgroundColor(): string {
-    return '#228b22'; // Dark green background
-  }
-
-  protected isAnimatedSprite(): boolean {
-    return true; // This is an animated sprite
-  }
-
-  protected setupAnimation(): void {
-    // Create the animation from the loaded atlas if it doesn't already exist
-    if (!this.scene.anims.exists(PepeBuilding.ANIMATION_KEY)) {
-      this.scene.anims.create({
-        key: PepeBuilding.ANIMATION_KEY,
-        frames: this.scene.anims.generateFrameNames('pepe_building_anim', {
-          prefix: 'Untitled_Artwork-',
-          suffix: '.png',
-          start: 1,
-          end: 15, // There are 15 frames in the building_pepe.json
-        }),
-        frameRate: 10,
-        repeat: -1, // Loop forever
-      });
-    }
-
-    // Play the animation
-    this.buildingSprite.play(PepeBuilding.ANIMATION_KEY);
-  }
-
-  // Override collision bounds to use the original algorithm
-  public getCollisionBounds(): Phaser.Geom.Rectangle {
-    // Use original sprite size (before 1.2x scaling) for collision bounds
-    const originalWidth = this.buildingSprite.width * 0.8;
-    const originalHeight = this.buildingSprite.height * 0.8;
-    return new Phaser.Geom.Rectangle(
-      this.x - originalWidth / 2, 
-      this.y - originalHeight / 2, 
-      originalWidth, 
-      originalHeight
-    );
-  }
-
   // Override checkInteraction to use JustDown for single trigger
   public checkInteraction(): boolean {
     if (this.isPlayerNear && this.interactionKey && Phaser.Input.Keyboard.JustDown(this.interactionKey)) {
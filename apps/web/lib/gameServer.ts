@@ -0,0 +1,206 @@
+/**
+ * Runtime configuration for reaching the Colyseus game server, shared by the
+ * Next.js API routes (server side) and NetworkSystem (browser).
+ *
+ * Environment:
+ * - NEXT_PUBLIC_GAME_SERVER_REGIONS: JSON list of regions, e.g.
+ *   [{"id":"eu","name":"Europe","url":"wss://eu.defivalley.xyz"},{"id":"us","name":"US East","url":"wss://us.defivalley.xyz"}]
+ *   Each entry may add an "internalUrl" for the API routes to reach that region by
+ * - NEXT_PUBLIC_GAME_SERVER_URL: a single game server (ws:// or wss://), used when no regions are set
+ * - GAME_SERVER_INTERNAL_URL: where the API routes reach a single server (http:// or https://)
+ *
+ * Without either public variable the browser connects to port 2567 on the page's host,
+ * using wss when the page is served over https.
+ *
+ * Each world lives in one home region (see getHomeRegion in @defivalley/shared): its room and
+ * its world API calls always go there. Sign-in goes to the first region; sessions are signed
+ * with a secret every region shares, so they are accepted everywhere.
+ */
+
+import { GameServerRegion, createRegion, getHomeRegion, parseRegions, rankRegions } from '@defivalley/shared';
+
+export type { GameServerRegion };
+
+const DEFAULT_PORT = '2567';
+
+// How long a region may take to answer a latency probe before it is ranked last
+const LATENCY_PROBE_TIMEOUT = 2000;
+
+export type GameServerErrorCode =
+  | 'INVALID_CONFIG'  // Environment variables could not be parsed
+  | 'UNREACHABLE'     // The server could not be contacted
+  | 'TIMEOUT'
+  | 'BAD_RESPONSE';   // The server answered with an error status or invalid JSON
+
+export class GameServerError extends Error {
+  constructor(
+    public readonly code: GameServerErrorCode,
+    message: string,
+    public readonly status?: number // HTTP status returned by the game server, if any
+  ) {
+    super(message);
+    this.name = 'GameServerError';
+  }
+}
+
+// Error body returned by the API routes when the game server fails
+export interface GameServerErrorResponse {
+  error: {
+    code: GameServerErrorCode;
+    message: string;
+  };
+}
+
+export function isGameServerErrorResponse(body: unknown): body is GameServerErrorResponse {
+  const error = (body as GameServerErrorResponse | null)?.error;
+  return typeof error === 'object' && error !== null && typeof error.code === 'string';
+}
+
+// Region config errors become INVALID_CONFIG errors naming the variable that holds them
+function readRegionConfig<T>(variable: string, read: () => T): T {
+  try {
+    return read();
+  } catch (error) {
+    throw new GameServerError('INVALID_CONFIG', `${variable}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Every configured game server region, in the order they were configured
+ */
+export function getGameServerRegions(): GameServerRegion[] {
+  // NEXT_PUBLIC_ variables must be read literally to be inlined into the browser bundle
+  const regions = process.env.NEXT_PUBLIC_GAME_SERVER_REGIONS;
+  if (regions) {
+    return readRegionConfig('NEXT_PUBLIC_GAME_SERVER_REGIONS', () => parseRegions(regions));
+  }
+
+  // Only read on the server; the browser never calls the game server by its internal URL
+  const internalUrl = typeof window === 'undefined' ? process.env.GAME_SERVER_INTERNAL_URL : undefined;
+  const url = process.env.NEXT_PUBLIC_GAME_SERVER_URL;
+  if (url) {
+    return [readRegionConfig('NEXT_PUBLIC_GAME_SERVER_URL', () => createRegion('default', 'Default', url, internalUrl))];
+  }
+
+  if (typeof window !== 'undefined') {
+    const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+    return [createRegion('default', 'Default', `${protocol}://${window.location.hostname}:${DEFAULT_PORT}`)];
+  }
+
+  return [readRegionConfig('GAME_SERVER_INTERNAL_URL', () => createRegion('default', 'Default', `http://localhost:${DEFAULT_PORT}`, internalUrl))];
+}
+
+/**
+ * The region that hosts a world: its room, settings, terrain and chat history
+ */
+export function getWorldRegion(worldId: string): GameServerRegion {
+  return getHomeRegion(worldId, getGameServerRegions());
+}
+
+/**
+ * Base URL the API routes use to reach a region's REST API (the first region by default)
+ */
+export function getGameServerApiUrl(region: GameServerRegion = getGameServerRegions()[0]): string {
+  return region.internalUrl ?? region.httpUrl;
+}
+
+/**
+ * Round-trip time to a region's health endpoint, or Infinity if it did not answer in time
+ */
+export async function measureRegionLatency(region: GameServerRegion, timeout: number = LATENCY_PROBE_TIMEOUT): Promise<number> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  const startedAt = performance.now();
+
+  try {
+    // An opaque response is enough to time the round trip, so CORS headers are not needed
+    await fetch(`${region.httpUrl}/health`, { mode: 'no-cors', cache: 'no-store', signal: controller.signal });
+    return performance.now() - startedAt;
+  } catch {
+    return Infinity;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Regions ordered from lowest to highest latency (a single region is returned without probing)
+ */
+export function rankRegionsByLatency(regions: GameServerRegion[] = getGameServerRegions()): Promise<GameServerRegion[]> {
+  return rankRegions(regions, region => measureRegionLatency(region));
+}
+
+/**
+ * Headers telling the game server which player an API route is calling for, so its rate limits
+ * count each player rather than the web server (the game server's TRUST_PROXY decides whether
+ * to believe them)
+ */
+export function forwardedFor(request: Request): Record<string, string> {
+  const forwarded = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip');
+  return forwarded ? { 'X-Forwarded-For': forwarded } : {};
+}
+
+/**
+ * Call a world's API on its home region
+ */
+export function fetchWorldServer<T>(worldId: string, path: string, init: RequestInit = {}): Promise<T> {
+  return fetchGameServer<T>(path, init, undefined, getWorldRegion(worldId));
+}
+
+/**
+ * Call the same API on every region (e.g. to merge their world lists), in the configured order
+ */
+export function fetchEveryRegion<T>(path: string, init: RequestInit = {}): Promise<{ region: GameServerRegion; data: T }[]> {
+  return Promise.all(getGameServerRegions().map(async region => ({
+    region,
+    data: await fetchGameServer<T>(path, init, undefined, region)
+  })));
+}
+
+/**
+ * Call the game server's REST API (the first region unless another is given), turning network
+ * failures, error statuses and invalid JSON into a GameServerError
+ */
+export async function fetchGameServer<T>(
+  path: string,
+  init: RequestInit = {},
+  timeout: number = 5000,
+  region?: GameServerRegion
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  let response: Response;
+  try {
+    response = await fetch(`${getGameServerApiUrl(region)}${path}`, {
+      cache: 'no-store',
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+      signal: controller.signal
+    });
+  } catch (error) {
+    if (error instanceof GameServerError) throw error;
+    if (controller.signal.aborted) {
+      throw new GameServerError('TIMEOUT', `Game server did not respond within ${timeout}ms`);
+    }
+    throw new GameServerError('UNREACHABLE', `Could not reach the game server: ${(error as Error).message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new GameServerError('BAD_RESPONSE', `Game server returned invalid JSON (${response.status})`, response.status);
+  }
+
+  if (!response.ok) {
+    const message = typeof (body as { error?: unknown })?.error === 'string'
+      ? (body as { error: string }).error
+      : `Game server responded with ${response.status}`;
+    throw new GameServerError('BAD_RESPONSE', message, response.status);
+  }
+
+  return body as T;
+}
\ No newline at end of file
@@ -1,4 +1,5 @@
 import * as Phaser from 'phaser';
+import { CollisionGrid, TerrainTileEdit, updateTerrainCollision } from '@defivalley/shared';
 import { TilemapUtils } from '../tilemap.config';
 import { BuildingInteractionManager } from '../BuildingInteractionManager';
 import { CropSystem } from '../CropSystem';
@@ -8,7 +9,8 @@ import { CropSystem } from '../CropSystem';
  * 
  * Manages all collision detection in the game using a spatial grid system.
  * Optimizes collision checks by dividing the world into a grid and only
- * checking relevant cells.
+ * checking relevant cells. The static grid is the same CollisionGrid the
+ * server uses to validate movement.
  */
 export class CollisionSystem {
   private scene: Phaser.Scene;
@@ -17,7 +19,7 @@ export class CollisionSystem {
   private worldHeight: number;
   
   // Collision grid for static objects (terrain, buildings)
-  private collisionGrid: boolean[][];
+  private collisionGrid: CollisionGrid;
   private gridWidth: number;
   private gridHeight: number;
   
@@ -31,6 +33,9 @@ export class CollisionSystem {
   // Terrain layout reference
   private terrainLayout: string[][];
   
+  // Per-tile collision that replaces the tileset config's, e.g. from an imported Tiled map
+  private tileCollisions: Record<string, boolean> = {};
+  
   // Performance optimization
   private lastGridUpdate: number = 0;
   private gridUpdateInterval: number = 1000; // Update grid every second
@@ -46,12 +51,10 @@ export class CollisionSystem {
     this.worldHeight = worldHeight;
     this.tileSize = tileSize;
     
-    // Calculate grid dimensions
-    this.gridWidth = Math.ceil(worldWidth / tileSize);
-    this.gridHeight = Math.ceil(worldHeight / tileSize);
-    
     // Initialize collision grid
-    this.collisionGrid = this.createEmptyGrid();
+    this.collisionGrid = new CollisionGrid(worldWidth, worldHeight, tileSize);
+    this.gridWidth = this.collisionGrid.width;
+    this.gridHeight = this.collisionGrid.height;
     this.cropSpatialIndex = new Map();
     this.terrainLayout = [];
   }
@@ -73,12 +76,32 @@ export class CollisionSystem {
   }
 
   /**
-   * Create an empty collision grid
+   * Replace the terrain layout (e.g. with the farm's saved terrain) and rebuild the grid
+   */
+  public setTerrainLayout(terrainLayout: string[][]): void {
+    this.terrainLayout = terrainLayout;
+    this.computeCollisionGrid();
+  }
+
+  /**
+   * Recompute only the tiles changed by terrain edits (already applied to the layout)
    */
-  private createEmptyGrid(): boolean[][] {
-    return Array.from({ length: this.gridHeight }, () => 
-      Array(this.gridWidth).fill(false)
-    );
+  public updateTerrainTiles(edits: TerrainTileEdit[]): void {
+    const buildingBounds = this.buildingManager?.getCollisionBounds() ?? [];
+    updateTerrainCollision(this.collisionGrid, edits, buildingBounds, (tileType) => this.hasTileCollision(tileType));
+  }
+
+  /**
+   * Override which tile types are solid and rebuild the grid. The server still validates
+   * movement against the shared tile set, so overrides that disagree with it get corrected.
+   */
+  public setTileCollisions(tileCollisions: Record<string, boolean>): void {
+    this.tileCollisions = { ...tileCollisions };
+    this.computeCollisionGrid();
+  }
+
+  private hasTileCollision(tileType: string): boolean {
+    return this.tileCollisions[tileType] ?? TilemapUtils.hasCollision(tileType);
   }
 
   /**
@@ -86,7 +109,7 @@ export class CollisionSystem {
    */
   public computeCollisionGrid(): void {
     // Reset grid
-    this.collisionGrid = this.createEmptyGrid();
+    this.collisionGrid.clear();
     
     // 1. Mark terrain collisions
     this.markTerrainCollisions();
@@ -110,20 +133,7 @@ export class CollisionSystem {
   private markTerrainCollisions(): void {
     if (this.terrainLayout.length === 0) return;
     
-    const terrainHeight = this.terrainLayout.length;
-    const terrainWidth = this.terrainLayout[0].length;
-    
-    for (let y = 0; y < terrainHeight; y++) {
-      for (let x = 0; x < terrainWidth; x++) {
-        const tileType = this.terrainLayout[y][x];
-        if (TilemapUtils.hasCollision(tileType)) {
-          // Mark this tile as solid in the collision grid
-          if (y < this.gridHeight && x < this.gridWidth) {
-            this.collisionGrid[y][x] = true;
-          }
-        }
-      }
-    }
+    this.collisionGrid.markTerrain(this.terrainLayout, (tileType) => this.hasTileCollision(tileType));
   }
 
   /**
@@ -135,16 +145,7 @@ export class CollisionSystem {
     const buildingBounds = this.buildingManager.getCollisionBounds();
     
     for (const bounds of buildingBounds) {
-      const startTile = this.worldToGrid(bounds.x, bounds.y);
-      const endTile = this.worldToGrid(bounds.right, bounds.bottom);
-      
-      for (let y = startTile.y; y <= endTile.y; y++) {
-        for (let x = startTile.x; x <= endTile.x; x++) {
-          if (this.isValidGridPosition(x, y)) {
-            this.collisionGrid[y][x] = true;
-          }
-        }
-      }
+      this.collisionGrid.markRect(bounds);
     }
   }
 
@@ -191,13 +192,8 @@ export class CollisionSystem {
    * Check collision with static objects (terrain, buildings)
    */
   private checkStaticCollision(worldX: number, worldY: number): boolean {
-    const gridPos = this.worldToGrid(worldX, worldY);
-    
-    if (!this.isValidGridPosition(gridPos.x, gridPos.y)) {
-      return true; // Out of bounds is solid
-    }
-    
-    return this.collisionGrid[gridPos.y][gridPos.x];
+    // Out of bounds is solid
+    return this.collisionGrid.isSolidAt(worldX, worldY);
   }
 
   /**
@@ -216,7 +212,7 @@ export class CollisionSystem {
     }
     
     const tileType = this.terrainLayout[tilePos.y][tilePos.x];
-    return TilemapUtils.hasCollision(tileType);
+    return this.hasTileCollision(tileType);
   }
 
   /**
@@ -354,7 +350,7 @@ export class CollisionSystem {
     
     for (let y = 0; y < this.gridHeight; y++) {
       for (let x = 0; x < this.gridWidth; x++) {
-        if (this.collisionGrid[y][x]) {
+        if (this.collisionGrid.isSolid(x, y)) {
           const worldX = x * this.tileSize;
           const worldY = y * this.tileSize;
           graphics.fillRect(worldX, worldY, this.tileSize, this.tileSize);
@@ -380,12 +376,7 @@ export class CollisionSystem {
    * Get collision statistics for debugging
    */
   public getStats(): { static: number; crops: number; total: number } {
-    let staticCount = 0;
-    for (let y = 0; y < this.gridHeight; y++) {
-      for (let x = 0; x < this.gridWidth; x++) {
-        if (this.collisionGrid[y][x]) staticCount++;
-      }
-    }
+    const staticCount = this.collisionGrid.countSolid();
     
     let cropCount = 0;
     this.cropSpatialIndex.forEach(crops => {
@@ -34,8 +34,8 @@ export class MovementSystem extends EventEmitter {
     this.config = {
       worldWidth: config.worldWidth,
       worldHeight: config.worldHeight,
-      baseSpeed: config.baseSpeed ?? 540,
-      playerBoundarySize: config.playerBoundarySize ?? 16
+      baseSpeed: config.baseSpeed ?? GameConfig.player.baseSpeed,
+      playerBoundarySize: config.playerBoundarySize ?? GameConfig.player.collisionBoxSize
     };
   }
 
@@ -82,7 +82,7 @@ export class MovementSystem extends EventEmitter {
         newDirection = 'up';
       }
     } else if (input.down) {
-      const potentialY = newY + speed;
+      const potentialY = Math.min(this.config.worldHeight - 20, newY + speed);
       if (!collisionCheck(newX, potentialY)) {
         newY = potentialY;
         moved = true;
@@ -1,15 +1,58 @@
-import { Client, Room } from 'colyseus.js';
+import { Client, Room, ServerError } from 'colyseus.js';
+import { getAddress, isAddress } from 'viem';
+import {
+  ActiveWorldEvent,
+  BuildingManifest,
+  EncodedTerrain,
+  GrantableRole,
+  InterpolationBuffer,
+  GrowthStage,
+  MoveRejectionReason,
+  OnChainQuestAction,
+  QuestLogEntry,
+  QuestReward,
+  SeedType,
+  TerrainGenerationParams,
+  TerrainTileEdit,
+  WorldRole
+} from '@defivalley/shared';
 import { RoomOptions, WelcomeMessage } from '../../types/colyseus.types';
+import { GameConfig } from '../GameConfig';
+import { connectToFirstRegion } from '@defivalley/shared';
+import { GameServerRegion, getGameServerRegions, isGameServerErrorResponse, rankRegionsByLatency } from '../gameServer';
 
 // Network event types
 export interface NetworkEvents {
   onPlayerJoin: (sessionId: string, player: PlayerData) => void;
   onPlayerLeave: (sessionId: string) => void;
   onPlayerMove: (sessionId: string, x: number, y: number, level?: number) => void;
+  onPositionCorrection: (correction: PositionCorrection) => void;
+  onSeedPlanted: (message: SeedPlantedMessage) => void;
+  onCropHarvested: (message: CropHarvestedMessage) => void;
+  onHarvestEvent: (message: HarvestEventMessage) => void;
+  onCropWatered: (message: CropWateredMessage) => void;
+  onCropStageChanged: (message: CropStageChangedMessage) => void;
+  onCropReady: (message: CropReadyMessage) => void;
+  onRoleChanged: (role: WorldRole) => void;
+  onLevelUp: (message: LevelUpMessage) => void;
+  onQuestLog: (quests: QuestLogEntry[]) => void;
+  onQuestProgress: (quests: QuestLogEntry[]) => void;
+  onQuestCompleted: (message: QuestCompletedMessage) => void;
+  onWorldEvents: (events: ActiveWorldEvent[]) => void;
+  onWorldEventStarted: (event: ActiveWorldEvent) => void;
+  onWorldEventEnded: (eventId: string) => void;
+  onTerrain: (terrain: EncodedTerrain, generation?: TerrainGenerationParams | null) => void;  // The whole farm's terrain: on join, after regenerating or to undo rejected edits
+  onTerrainUpdated: (edits: TerrainTileEdit[]) => void;  // Tiles the owner changed
+  onTerrainSaved: (requestId: string | undefined) => void;  // Our own terrain edits were saved
+  onBuildings: (manifest: BuildingManifest) => void;  // A network's building layout: on join, after the owner saves or to undo a rejected save
+  onGameError: (error: GameErrorMessage) => void;
   onChatMessage: (message: ChatMessage) => void;
+  onChatHistory: (messages: ChatMessage[]) => void;
+  onChatDeleted: (messageId: number) => void;
   onStateChange: (state: GameState) => void;
   onConnected: (room: Room<GameState>) => void;
   onDisconnected: () => void;
+  onKicked: (reason: string) => void;
   onError: (error: Error) => void;
 }
 
@@ -21,9 +64,133 @@ export interface PlayerData {
   connected: boolean;
   level?: number;
   xp?: number;
+  lastAckSeq?: number;
+  role?: WorldRole;
+}
+
+// Sent by the server when it rejects a movement input
+export interface ServerPositionCorrection {
+  seq: number;
+  x: number;
+  y: number;
+  reason: MoveRejectionReason;
+}
+
+// Emitted when reconciliation moves the local player's predicted position
+export interface PositionCorrection {
+  x: number;   // Reconciled position at the last sent input
+  y: number;
+  dx: number;  // Shift to apply to the locally rendered position
+  dy: number;
+  reason?: MoveRejectionReason;  // Set when the server explicitly rejected an input
+}
+
+interface PendingInput {
+  seq: number;
+  dx: number;
+  dy: number;
+}
+
+// Mirrors the server's Crop schema
+export interface CropState {
+  id: string;
+  playerId: string;
+  seedType: string;
+  x: number;
+  y: number;
+  plantedAt: string; // ISO timestamp
+  growthTime: number; // in milliseconds
+  investmentAmount: number;
+  harvested: boolean;
+  growthBoost?: number; // Growth time (ms) skipped by watering
+  lastWatered?: string; // ISO timestamp, empty if never watered
+  stage?: string; // GrowthStage, advanced by the room's simulation loop
+}
+
+export interface PlantSeedRequest {
+  seedType: SeedType;
+  x: number;
+  y: number;
+  investmentAmount: number;
+  requestId: string;
+}
+
+export interface SeedPlantedMessage {
+  requestId?: string;
+  cropId: string;
+  seedType: SeedType;
+  x: number;
+  y: number;
+  xpGained: number;
+  newXP: number;
+}
+
+export interface CropHarvestedMessage {
+  cropId: string;
+  ownerId: string; // Player who planted the crop and was credited the yield
+  investmentAmount: number;
+  yieldAmount: number;
+  totalReturn: number;
+  harvestedAt: string;
+  ownerBalance: number;
+}
+
+export interface HarvestEventMessage {
+  playerId: string; // Player who harvested
+  playerName: string;
+  ownerId: string;
+  cropId: string;
+  seedType: SeedType;
+  investmentAmount: number;
+  yieldAmount: number;
+  totalReturn: number;
+  harvestedAt: string;
+}
+
+export interface CropStageChangedMessage {
+  cropId: string;
+  previousStage: GrowthStage;
+  stage: GrowthStage;
+}
+
+export interface CropReadyMessage {
+  cropId: string;
+  playerId: string; // Player who planted the crop
+  seedType: SeedType;
+}
+
+export interface CropWateredMessage {
+  cropId: string;
+  playerId: string;
+  playerName: string;
+  boost: number; // Growth time (ms) skipped by this watering
+  growthBoost: number; // Total boost for the crop
+}
+
+// Broadcast when a player in the room reaches a new level
+export interface LevelUpMessage {
+  sessionId: string;
+  playerId: string;
+  oldLevel: number;
+  newLevel: number;
+}
+
+// Sent when one of the local player's quests is completed
+export interface QuestCompletedMessage {
+  questId: string;
+  title: string;
+  reward: QuestReward;
+}
+
+export interface GameErrorMessage {
+  code: string;
+  message: string;
+  details?: any;
+  requestId?: string;
 }
 
 export interface ChatMessage {
+  id?: number;  // Server-assigned ID for persisted messages
   playerId: string;
   name: string;
   message: string;
@@ -32,35 +199,63 @@ export interface ChatMessage {
 
 export interface GameState {
   players: Map<string, PlayerData>;
+  crops: Map<string, CropState>;
   serverTime: number;
   gameStatus: string;
 }
 
 export interface NetworkConfig {
-  hostname?: string;
-  port?: string;
-  protocol?: 'ws' | 'wss';
-  fallbackToLocalhost?: boolean;
+  regions?: GameServerRegion[]; // Defaults to the regions from the runtime config (lib/gameServer)
 }
 
+export interface AuthChallengeResponse {
+  address: string;
+  nonce: string;
+  message: string;
+  expiresAt: number;
+}
+
+export interface AuthVerifyResponse {
+  token: string;
+  playerId: string;
+  expiresAt: number; // When the server stops accepting the token (ms since epoch)
+}
+
+export type MessageSigner = (message: string) => Promise<string>;
+
+// Sign in again this long before the session token expires, so a join never sends a stale one
+const AUTH_REFRESH_MARGIN = 60 * 1000;
+
 export class NetworkSystem {
   private client?: Client;
   private room?: Room<GameState>;
   private sessionId?: string;
   private events: Partial<NetworkEvents> = {};
-  private config: NetworkConfig;
+  private config: Required<NetworkConfig>;
+  private region?: GameServerRegion;
   private isConnected: boolean = false;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 3;
   private reconnectDelay: number = 2000;
 
+  // Client-side prediction: inputs sent but not yet acknowledged by the server
+  private inputSeq: number = 0;
+  private pendingInputs: PendingInput[] = [];
+  private maxPendingInputs: number = 100;
+  private lastSentPosition?: { x: number; y: number };
+  private reconcileThreshold: number = 0.5; // pixels
+
+  // Remote player interpolation
+  private remoteBuffers = new Map<string, InterpolationBuffer>();
+  private authToken?: string;
+  private authAddress?: string;
+  private authExpiresAt: number = 0;
+  private authSigner?: MessageSigner;
+  private role: WorldRole = 'visitor';
+
   constructor(config: NetworkConfig = {}) {
     this.config = {
-      hostname: window.location.hostname,
-      port: '2567',
-      protocol: 'ws',
-      fallbackToLocalhost: true,
-      ...config
+      regions: config.regions ?? getGameServerRegions()
     };
   }
 
@@ -76,27 +271,21 @@ export class NetworkSystem {
   // Connection management
   public async connect(roomType: string, options: RoomOptions): Promise<void> {
     try {
-      const endpoint = this.buildEndpoint();
-      console.log('🌐 NetworkSystem: Connecting to:', endpoint);
-
+      options = await this.withFreshAuth(options);
       try {
-        this.client = new Client(endpoint);
-        this.room = await this.client.joinOrCreate<GameState>(roomType, options);
-      } catch (connectionError) {
-        // Try localhost fallback if enabled
-        if (this.config.fallbackToLocalhost && this.config.hostname !== 'localhost') {
-          console.log('🔄 NetworkSystem: Primary connection failed, trying localhost fallback...');
-          const fallbackEndpoint = `${this.config.protocol}://localhost:${this.config.port}`;
-          this.client = new Client(fallbackEndpoint);
-          this.room = await this.client.joinOrCreate<GameState>(roomType, options);
-        } else {
-          throw connectionError;
-        }
+        this.room = await this.join(roomType, options);
+      } catch (error) {
+        // The server no longer accepts the token (e.g. it restarted with a new secret): sign in again once
+        if (!(error instanceof ServerError) || error.code !== 401 || !options.authToken) throw error;
+        this.authExpiresAt = 0;
+        options = await this.withFreshAuth(options);
+        this.room = await this.join(roomType, options);
       }
 
       this.sessionId = this.room.sessionId;
       this.isConnected = true;
       this.reconnectAttempts = 0;
+      this.resetPrediction();
 
       // Set up room event listeners
       this.setupRoomListeners();
@@ -128,17 +317,181 @@ export class NetworkSystem {
     }
     this.sessionId = undefined;
     this.isConnected = false;
+    this.region = undefined;
+    this.role = 'visitor';
+    this.resetPrediction();
     this.events.onDisconnected?.();
     console.log('👋 NetworkSystem: Disconnected');
   }
 
+  // Authentication
+  /**
+   * Sign the server's challenge with the wallet and exchange it for a session token.
+   * The token is cached per address until shortly before it expires and passed as `authToken`
+   * when joining rooms; joins sign in again with the same wallet when it is about to expire.
+   */
+  public async authenticate(address: string, signMessage: MessageSigner): Promise<string> {
+    const sameAddress = this.authAddress?.toLowerCase() === address.toLowerCase();
+    if (this.authToken && sameAddress && Date.now() < this.authExpiresAt - AUTH_REFRESH_MARGIN) {
+      return this.authToken;
+    }
+
+    const challengeResponse = await fetch('/api/auth/challenge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ address })
+    });
+    if (!challengeResponse.ok) {
+      throw new Error(`Failed to request auth challenge: ${challengeResponse.status}`);
+    }
+    const challenge: AuthChallengeResponse = await challengeResponse.json();
+
+    const signature = await signMessage(challenge.message);
+
+    const verifyResponse = await fetch('/api/auth/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ address: challenge.address, nonce: challenge.nonce, signature })
+    });
+    if (!verifyResponse.ok) {
+      throw new Error(`Failed to verify auth challenge: ${verifyResponse.status}`);
+    }
+    const { token, expiresAt }: AuthVerifyResponse = await verifyResponse.json();
+
+    this.authToken = token;
+    this.authAddress = address;
+    this.authExpiresAt = expiresAt;
+    this.authSigner = signMessage;
+    console.log('🔐 NetworkSystem: Wallet authenticated');
+    return token;
+  }
+
+  public clearAuth(): void {
+    this.authToken = undefined;
+    this.authAddress = undefined;
+    this.authExpiresAt = 0;
+    this.authSigner = undefined;
+  }
+
   // Message sending
+  /**
+   * Send the local player's predicted position as a sequence-numbered input.
+   * The step since the last sent position is kept until the server acknowledges it,
+   * so it can be replayed on top of the server's position during reconciliation.
+   */
   public sendMovement(x: number, y: number): void {
     if (!this.room) {
       console.warn('NetworkSystem: Cannot send movement - not connected');
       return;
     }
-    this.room.send('move', { x, y });
+
+    const base = this.lastSentPosition ?? this.getServerPosition() ?? { x, y };
+    const dx = x - base.x;
+    const dy = y - base.y;
+    if (dx === 0 && dy === 0) return;
+
+    const seq = ++this.inputSeq;
+    this.pendingInputs.push({ seq, dx, dy });
+    if (this.pendingInputs.length > this.maxPendingInputs) {
+      this.pendingInputs.shift();
+    }
+    this.lastSentPosition = { x, y };
+
+    this.room.send('move', { seq, dx, dy });
+  }
+
+  public sendPlantSeed(request: PlantSeedRequest): void {
+    if (!this.room) {
+      console.warn('NetworkSystem: Cannot plant seed - not connected');
+      return;
+    }
+    this.room.send('plant_seed', request);
+  }
+
+  public sendHarvestCrop(cropId: string): void {
+    if (!this.room) {
+      console.warn('NetworkSystem: Cannot harvest crop - not connected');
+      return;
+    }
+    this.room.send('harvest_crop', { cropId });
+  }
+
+  public sendWaterCrop(cropId: string): void {
+    if (!this.room) {
+      console.warn('NetworkSystem: Cannot water crop - not connected');
+      return;
+    }
+    this.room.send('water_crop', { cropId });
+  }
+
+  /**
+   * Grant (or, with null, revoke) a farm role. Only accepted from the world owner.
+   */
+  public sendSetRole(playerId: string, role: GrantableRole | null): void {
+    if (!this.room) {
+      console.warn('NetworkSystem: Cannot set role - not connected');
+      return;
+    }
+    this.room.send('set_role', { playerId, role });
+  }
+
+  /**
+   * Report a confirmed DeFi transaction so the server can verify it and count it towards quests
+   */
+  public sendOnChainAction(action: OnChainQuestAction, chainId: number, txHash: string): void {
+    if (!this.room) {
+      console.warn('NetworkSystem: Cannot report on-chain action - not connected');
+      return;
+    }
+    this.room.send('report_onchain_action', { action, chainId, txHash });
+  }
+
+  /**
+   * Save terrain edits to the farm in one message. Only accepted from the world owner;
+   * the server answers with terrain_saved, or a game_error carrying the request ID.
+   */
+  public sendTerrainEdits(edits: TerrainTileEdit[], requestId?: string): void {
+    if (!this.room) {
+      console.warn('NetworkSystem: Cannot edit terrain - not connected');
+      return;
+    }
+    this.room.send('edit_terrain', { edits, requestId });
+  }
+
+  /**
+   * Replace the farm's terrain with a generated one. Only accepted from the world owner.
+   */
+  public sendGenerateTerrain(params: Partial<TerrainGenerationParams>): void {
+    if (!this.room) {
+      console.warn('NetworkSystem: Cannot generate terrain - not connected');
+      return;
+    }
+    this.room.send('generate_terrain', { params });
+  }
+
+  /**
+   * Save the building layout of one network. Only accepted from the world owner.
+   */
+  public sendSaveBuildings(manifest: BuildingManifest): void {
+    if (!this.room) {
+      console.warn('NetworkSystem: Cannot save buildings - not connected');
+      return;
+    }
+    this.room.send('save_buildings', { manifest });
+  }
+
+  // Admin-only debug command, accepted by dev servers started with ENABLE_DEBUG_COMMANDS=true
+  public sendDebugFastForward(ms: number): void {
+    if (!this.room) {
+      console.warn('NetworkSystem: Cannot fast-forward - not connected');
+      return;
+    }
+    this.room.send('debug_fast_forward', { ms });
+  }
+
+  public sendChainChange(chainId: number): void {
+    if (!this.room) return;
+    this.room.send('set_chain', { chainId });
   }
 
   public sendChat(message: string): void {
@@ -155,6 +508,17 @@ export class NetworkSystem {
     }
   }
 
+  /**
+   * Delete a chat message (only accepted from the world owner)
+   */
+  public sendDeleteChat(messageId: number): void {
+    if (!this.room) {
+      console.warn('NetworkSystem: Cannot delete chat message - not connected');
+      return;
+    }
+    this.room.send('delete_chat', { messageId });
+  }
+
   // Getters
   public getSessionId(): string | undefined {
     return this.sessionId;
@@ -164,17 +528,152 @@ export class NetworkSystem {
     return this.room;
   }
 
+  /**
+   * The local player's role in the current world
+   */
+  public getRole(): WorldRole {
+    return this.role;
+  }
+
   public isConnectedToServer(): boolean {
     return this.isConnected;
   }
 
+  /**
+   * The game server region the current room was joined through
+   */
+  public getRegion(): GameServerRegion | undefined {
+    return this.region;
+  }
+
+  /**
+   * Get a remote player's position interpolated between server snapshots.
+   * Players are rendered `interpolationDelay` ms in the past so there is
+   * usually a newer snapshot to move towards.
+   */
+  public getInterpolatedPosition(sessionId: string, now: number = performance.now()): { x: number; y: number } | undefined {
+    return this.remoteBuffers.get(sessionId)?.sample(now - GameConfig.network.interpolationDelay);
+  }
+
+  // Prediction and reconciliation
+  /**
+   * Rebuild the local player's predicted position from the server's
+   * authoritative position plus every input it has not processed yet.
+   */
+  private reconcile(serverX: number, serverY: number, ackSeq: number, reason?: MoveRejectionReason): void {
+    this.pendingInputs = this.pendingInputs.filter(input => input.seq > ackSeq);
+    if (!this.lastSentPosition) return; // Nothing predicted yet
+
+    let x = serverX;
+    let y = serverY;
+    for (const input of this.pendingInputs) {
+      x += input.dx;
+      y += input.dy;
+    }
+
+    const dx = x - this.lastSentPosition.x;
+    const dy = y - this.lastSentPosition.y;
+    if (Math.hypot(dx, dy) <= this.reconcileThreshold) return;
+
+    this.lastSentPosition = { x, y };
+    this.events.onPositionCorrection?.({ x, y, dx, dy, reason });
+  }
+
+  private recordRemoteSnapshot(sessionId: string, x: number, y: number): void {
+    let buffer = this.remoteBuffers.get(sessionId);
+    if (!buffer) {
+      buffer = new InterpolationBuffer(GameConfig.network.positionSyncInterval);
+      this.remoteBuffers.set(sessionId, buffer);
+    }
+    buffer.push(performance.now(), x, y);
+  }
+
+  private getServerPosition(): { x: number; y: number } | undefined {
+    if (!this.room || !this.sessionId) return undefined;
+    const player = this.room.state.players?.get(this.sessionId);
+    return player ? { x: player.x, y: player.y } : undefined;
+  }
+
+  private resetPrediction(): void {
+    this.inputSeq = 0;
+    this.pendingInputs = [];
+    this.lastSentPosition = undefined;
+    this.remoteBuffers.clear();
+  }
+
   // Private methods
-  private buildEndpoint(): string {
-    const hostname = this.config.hostname === 'localhost' || this.config.hostname === '127.0.0.1' 
-      ? 'localhost' 
-      : this.config.hostname;
-    
-    return `${this.config.protocol}://${hostname}:${this.config.port}`;
+  private join(roomType: string, options: RoomOptions): Promise<Room<GameState>> {
+    if (!options.worldOwnerId) {
+      return this.joinNearestRegion(roomType, options);
+    }
+    // Rooms are matched on the exact world ID: send addresses checksummed, as the server keys farms
+    const worldOwnerId = isAddress(options.worldOwnerId, { strict: false })
+      ? getAddress(options.worldOwnerId)
+      : options.worldOwnerId;
+    return this.joinHomeRegion(roomType, worldOwnerId, { ...options, worldOwnerId });
+  }
+
+  /**
+   * Join options with a session token that is still valid, signing in again if the cached one is
+   * about to expire (reconnections reuse the options of the first join)
+   */
+  private async withFreshAuth(options: RoomOptions): Promise<RoomOptions> {
+    if (!options.authToken || !this.authAddress || !this.authSigner) {
+      return options;
+    }
+    return { ...options, authToken: await this.authenticate(this.authAddress, this.authSigner) };
+  }
+
+  /**
+   * Join through the lowest-latency region, falling back to the next one if a server can't be reached.
+   * A server that answers with an error (e.g. the farm is full) is not retried elsewhere.
+   */
+  private async joinNearestRegion(roomType: string, options: RoomOptions): Promise<Room<GameState>> {
+    const regions = await rankRegionsByLatency(this.config.regions);
+
+    const { region, result } = await connectToFirstRegion(regions, region => {
+      console.log(`🌐 NetworkSystem: Connecting to ${region.name} (${region.wsUrl})`);
+      this.client = new Client(region.wsUrl);
+      return this.client.joinOrCreate<GameState>(roomType, options).catch(error => {
+        if (!(error instanceof ServerError)) {
+          console.log(`🔄 NetworkSystem: ${region.name} unreachable, trying next region...`);
+        }
+        throw error;
+      });
+    }, error => error instanceof ServerError);
+
+    this.region = region;
+    return result;
+  }
+
+  /**
+   * Join a farm's room in the region that hosts it, however far away it is. There is no fallback:
+   * a room in another region would be a second copy of the farm with its own state
+   */
+  private async joinHomeRegion(roomType: string, worldId: string, options: RoomOptions): Promise<Room<GameState>> {
+    const region = await this.fetchWorldRegion(worldId);
+    console.log(`🌐 NetworkSystem: Connecting to ${region.name} (${region.wsUrl}), home of world ${worldId}`);
+
+    this.client = new Client(region.wsUrl);
+    const room = await this.client.joinOrCreate<GameState>(roomType, options);
+    this.region = region;
+    return room;
+  }
+
+  /**
+   * The home region of a world, as resolved by the API routes
+   */
+  private async fetchWorldRegion(worldId: string): Promise<GameServerRegion> {
+    const response = await fetch(`/api/worlds/${encodeURIComponent(worldId)}/region`);
+    const data = await response.json().catch(() => null);
+    const region: GameServerRegion | undefined = data?.region;
+
+    if (!response.ok || !region) {
+      throw new Error(isGameServerErrorResponse(data) ? data.error.message : `Could not find the server for world ${worldId} (${response.status})`);
+    }
+
+    // The browser's own config knows how to reach the default server from this page
+    return this.config.regions.find(known => known.id === region.id) ?? region;
   }
 
   private setupRoomListeners(): void {
@@ -183,6 +682,21 @@ export class NetworkSystem {
     // State change listener
     this.room.onStateChange((state) => {
       console.log('🔄 NetworkSystem: State changed');
+
+      // Reconcile the local player and buffer remote positions before the scene reads them
+      state.players?.forEach((player: PlayerData, sessionId: string) => {
+        if (sessionId === this.sessionId) {
+          this.reconcile(player.x, player.y, player.lastAckSeq ?? 0);
+        } else {
+          this.recordRemoteSnapshot(sessionId, player.x, player.y);
+        }
+      });
+      this.remoteBuffers.forEach((_, sessionId) => {
+        if (!state.players?.has(sessionId)) {
+          this.remoteBuffers.delete(sessionId);
+        }
+      });
+
       this.events.onStateChange?.(state);
 
       // Handle player updates
@@ -206,6 +720,26 @@ export class NetworkSystem {
     // Message listeners
     this.room.onMessage('welcome', (message: WelcomeMessage) => {
       console.log('👋 NetworkSystem: Welcome message:', message);
+      
+      this.role = message.role ?? (message.isHost ? 'owner' : 'visitor');
+      this.events.onRoleChanged?.(this.role);
+      
+      // Replay recent chat for this world
+      if (message.chatHistory) {
+        this.events.onChatHistory?.(message.chatHistory);
+      }
+      
+      if (message.quests) {
+        this.events.onQuestLog?.(message.quests);
+      }
+      
+      this.events.onWorldEvents?.(message.worldEvents ?? []);
+      
+      if (message.terrain) {
+        this.events.onTerrain?.(message.terrain, message.terrainGeneration);
+      }
+      
+      Object.values(message.buildings ?? {}).forEach(manifest => this.events.onBuildings?.(manifest));
     });
 
     this.room.onMessage('chat', (message: ChatMessage) => {
@@ -213,6 +747,113 @@ export class NetworkSystem {
       this.events.onChatMessage?.(message);
     });
 
+    this.room.onMessage('chat_deleted', (message: { messageId: number }) => {
+      this.events.onChatDeleted?.(message.messageId);
+    });
+
+    this.room.onMessage('position_correction', (message: ServerPositionCorrection) => {
+      console.warn('↩️ NetworkSystem: Position corrected by server:', message);
+      this.reconcile(message.x, message.y, message.seq, message.reason);
+    });
+
+    this.room.onMessage('seed_planted', (message: SeedPlantedMessage) => {
+      console.log('🌱 NetworkSystem: Seed planted:', message);
+      this.events.onSeedPlanted?.(message);
+    });
+
+    this.room.onMessage('crop_harvested', (message: CropHarvestedMessage) => {
+      console.log('🚜 NetworkSystem: Crop harvested:', message);
+      this.events.onCropHarvested?.(message);
+    });
+
+    this.room.onMessage('harvest_event', (message: HarvestEventMessage) => {
+      this.events.onHarvestEvent?.(message);
+    });
+
+    this.room.onMessage('crop_watered', (message: CropWateredMessage) => {
+      this.events.onCropWatered?.(message);
+    });
+
+    this.room.onMessage('crop_stage_changed', (message: CropStageChangedMessage) => {
+      this.events.onCropStageChanged?.(message);
+    });
+
+    this.room.onMessage('crop_ready', (message: CropReadyMessage) => {
+      console.log(`🌾 NetworkSystem: Crop ready: ${message.cropId}`);
+      this.events.onCropReady?.(message);
+    });
+
+    this.room.onMessage('role_changed', (message: { role: WorldRole }) => {
+      console.log(`🔑 NetworkSystem: Role changed to ${message.role}`);
+      this.role = message.role;
+      this.events.onRoleChanged?.(message.role);
+    });
+
+    this.room.onMessage('player:levelUp', (message: LevelUpMessage) => {
+      console.log(`⭐ NetworkSystem: Player ${message.playerId} reached level ${message.newLevel}`);
+      this.events.onLevelUp?.(message);
+    });
+
+    this.room.onMessage('quest_progress', (message: { quests: QuestLogEntry[] }) => {
+      this.events.onQuestProgress?.(message.quests);
+    });
+
+    this.room.onMessage('quest_completed', (message: QuestCompletedMessage) => {
+      console.log(`🏅 NetworkSystem: Quest completed: ${message.questId}`);
+      this.events.onQuestCompleted?.(message);
+    });
+
+    this.room.onMessage('world_event_started', (message: { event: ActiveWorldEvent }) => {
+      console.log(`🎉 NetworkSystem: World event started: ${message.event.name}`);
+      this.events.onWorldEventStarted?.(message.event);
+    });
+
+    this.room.onMessage('world_event_ended', (message: { eventId: string; name: string }) => {
+      console.log(`🏁 NetworkSystem: World event ended: ${message.name}`);
+      this.events.onWorldEventEnded?.(message.eventId);
+    });
+
+    this.room.onMessage('terrain', (message: { terrain: EncodedTerrain; generation?: TerrainGenerationParams }) => {
+      this.events.onTerrain?.(message.terrain, message.generation);
+    });
+
+    this.room.onMessage('terrain_updated', (message: { edits: TerrainTileEdit[]; editedBy: string }) => {
+      console.log(`🗺️ NetworkSystem: ${message.edits.length} terrain tiles changed by ${message.editedBy}`);
+      this.events.onTerrainUpdated?.(message.edits);
+    });
+
+    this.room.onMessage('terrain_saved', (message: { requestId?: string; changed: number }) => {
+      console.log(`💾 NetworkSystem: Saved ${message.changed} terrain tiles`);
+      this.events.onTerrainSaved?.(message.requestId);
+    });
+
+    this.room.onMessage('buildings_updated', (message: { manifest: BuildingManifest; editedBy: string | null }) => {
+      console.log(`🏠 NetworkSystem: ${message.manifest.network} buildings ${message.editedBy ? `moved by ${message.editedBy}` : 'restored'}`);
+      this.events.onBuildings?.(message.manifest);
+    });
+
+    this.room.onMessage('debug_time_advanced', (message: { advancedBy: number; now: number }) => {
+      console.log(`⏩ NetworkSystem: Room clock advanced by ${message.advancedBy}ms to ${new Date(message.now).toISOString()}`);
+    });
+
+    this.room.onMessage('kicked', (message: { reason: string }) => {
+      console.warn(`🚫 NetworkSystem: Removed from the room: ${message.reason}`);
+      this.events.onKicked?.(message.reason);
+    });
+
+    this.room.onMessage('role_updated', () => {
+      // Roles of players in the room are mirrored through state sync
+    });
+
+    this.room.onMessage('crop_planted', () => {
+      // Crops are rendered from state sync; nothing to do here
+    });
+
+    this.room.onMessage('game_error', (error: GameErrorMessage) => {
+      console.warn('⚠️ NetworkSystem: Game error:', error);
+      this.events.onGameError?.(error);
+    });
+
     this.room.onMessage('player-joined', (message: any) => {
       console.log('➕ NetworkSystem: Player joined:', message);
     });
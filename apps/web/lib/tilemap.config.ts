@@ -3,6 +3,8 @@
  * This configuration defines how to use the tileset for creating natural terrain
  */
 
+import type { TiledTileCatalog } from '@defivalley/shared';
+
 export interface TileConfig {
   x: number;
   y: number;
@@ -94,6 +96,19 @@ export const TilesetConfig = {
   }
 };
 
+// The tileset as Tiled maps see it, for importing and exporting them
+export const TiledCatalog: TiledTileCatalog = {
+  name: 'cliffs_grass',
+  image: 'tilesets/LPC_cliffs_grass.png',
+  imageWidth: TilesetConfig.image.width,
+  imageHeight: TilesetConfig.image.height,
+  tileSize: TilesetConfig.image.tileSize,
+  columns: TilesetConfig.image.tilesPerRow,
+  tiles: Object.fromEntries(
+    Object.entries(TilesetConfig.tiles).map(([name, { index, collision }]) => [name, { index, collision }])
+  )
+};
+
 /**
  * Utility functions for tilemap operations
  */
@@ -2,10 +2,15 @@
  * Type definitions for Colyseus room connections
  */
 
+import type { ActiveWorldEvent, BuildingManifest, BuildingNetwork, EncodedTerrain, QuestLogEntry, TerrainGenerationParams, WorldRole } from '@defivalley/shared';
+import type { ChatMessage } from '../lib/systems/NetworkSystem';
+
 export interface RoomOptions {
   name: string;
   playerId: string;  // The actual player ID (wallet address)
   worldOwnerId?: string;  // The world owner ID (only for 'world' rooms)
+  authToken?: string;  // Session token from /api/auth/verify (omitted for guests)
+  chainId?: number;  // Selects the building layout the server validates movement against
 }
 
 export interface WelcomeMessage {
@@ -13,6 +18,13 @@ export interface WelcomeMessage {
   playerId: string;  // The actual player ID
   sessionId: string;  // The Colyseus session ID
   isHost: boolean;
+  role?: WorldRole;  // Role in this world ('owner' for the host)
   worldOwnerId: string;
   worldOwnerName: string;
+  chatHistory?: ChatMessage[];  // Recent chat for this world, oldest first
+  quests?: QuestLogEntry[];  // The player's quests and their progress
+  worldEvents?: ActiveWorldEvent[];  // World events running in this farm
+  terrain?: EncodedTerrain;  // The farm's saved terrain
+  terrainGeneration?: TerrainGenerationParams | null;  // What that terrain was generated from, if it was
+  buildings?: Record<BuildingNetwork, BuildingManifest>;  // The farm's building layout per network
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'vitest';
+import {
+  BUILDING_NETWORKS,
+  DEFAULT_BUILDING_MANIFESTS,
+  getBuildingFootprint,
+  moveBuildings,
+  validateBuildingPlacement
+} from './buildings';
+import { createDefaultTerrain } from './terrain';
+
+describe('Buildings', () => {
+  test('should declare a manifest with unique building IDs for every network', () => {
+    for (const network of BUILDING_NETWORKS) {
+      const manifest = DEFAULT_BUILDING_MANIFESTS[network];
+      const ids = manifest.buildings.map(building => building.id);
+
+      expect(manifest.network).toBe(network);
+      expect(ids.length).toBeGreaterThan(0);
+      expect(new Set(ids).size).toBe(ids.length);
+    }
+  });
+
+  test('should centre footprints on the building position', () => {
+    const [bank] = DEFAULT_BUILDING_MANIFESTS.katana.buildings;
+
+    expect(getBuildingFootprint(bank)).toEqual({ x: 640, y: 440, width: 320, height: 320 });
+  });
+
+  test('should move buildings by ID without changing the original manifest', () => {
+    const manifest = DEFAULT_BUILDING_MANIFESTS.katana;
+    const moved = moveBuildings(manifest, { bank: { x: 1200, y: 900 } });
+
+    expect(moved.buildings[0]).toMatchObject({ id: 'bank', x: 1200, y: 900 });
+    expect(moved.buildings[1]).toBe(manifest.buildings[1]);
+    expect(manifest.buildings[0]).toMatchObject({ x: 800, y: 600 });
+  });
+
+  test('should accept the default layouts on plain grass', () => {
+    for (const network of BUILDING_NETWORKS) {
+      expect(validateBuildingPlacement(DEFAULT_BUILDING_MANIFESTS[network].buildings, createDefaultTerrain())).toEqual([]);
+    }
+  });
+
+  test('should reject buildings on solid terrain or outside the world', () => {
+    const terrain = createDefaultTerrain();
+    terrain[20][25] = 'cliff_large'; // Inside the Katana bank footprint
+    const [bank, marketplace] = DEFAULT_BUILDING_MANIFESTS.katana.buildings;
+    const offWorld = { ...marketplace, x: 10, y: 10 };
+
+    const problems = validateBuildingPlacement([bank, offWorld], terrain);
+
+    expect(problems).toEqual([
+      'bank stands on solid terrain at tile (25, 20)',
+      'marketplace is outside the world'
+    ]);
+  });
+});
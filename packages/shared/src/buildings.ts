@@ -0,0 +1,145 @@
+import { Point, Rect, WORLD_CONFIG } from './world';
+import { CollisionGrid } from './collision';
+import { terrainTileHasCollision } from './terrain';
+import katanaManifest from './manifests/katana.json';
+import flowManifest from './manifests/flow.json';
+
+/**
+ * Building layouts per network, declared as JSON manifests (src/manifests).
+ * The client renders buildings from the manifest and the server uses their
+ * collision footprints to validate player movement. Farm owners can save their
+ * own layout per network, which replaces the default manifest in their world.
+ */
+
+export type BuildingNetwork = 'katana' | 'flow';
+
+export const BUILDING_NETWORKS: BuildingNetwork[] = ['katana', 'flow'];
+
+export const KATANA_CHAIN_ID = 747474;
+export const FLOW_CHAIN_ID = 747;
+
+export interface BuildingSprite {
+  texture: string;   // Texture key
+  url: string;       // Image to load (the atlas image for animated sprites)
+  atlas?: string;    // Texture Packer JSON, for animated sprites
+  scale?: number;    // Defaults to 0.4
+  tint?: string;     // CSS hex colour, e.g. "#ff6b35"
+  animation?: {      // Idle loop over the atlas frames `${prefix}${n}${suffix}`
+    prefix: string;
+    suffix: string;
+    start: number;
+    end: number;
+    frameRate: number;
+  };
+}
+
+export interface BuildingInteraction {
+  event: string;        // Scene event emitted when the player presses E nearby
+  prompt: string;
+  glowColor: string;    // CSS hex colour of the interaction range
+  promptColor?: string; // CSS colour behind the prompt
+  character: string;    // Who speaks the dialogue
+  dialogue: string;
+  modal?: string;       // Modal opened after the dialogue, e.g. "morpho"
+}
+
+export interface BuildingDefinition {
+  id: string;
+  type: string; // Client behaviour to use; unknown types get the default building
+  name: string;
+  x: number;    // Centre of the building
+  y: number;
+  collision: { width: number; height: number }; // Footprint centred on the position
+  sprite: BuildingSprite;
+  interaction: BuildingInteraction;
+}
+
+export interface BuildingManifest {
+  network: BuildingNetwork;
+  buildings: BuildingDefinition[];
+}
+
+export const MAX_BUILDINGS_PER_MANIFEST = 20;
+
+export const DEFAULT_BUILDING_MANIFESTS: Record<BuildingNetwork, BuildingManifest> = {
+  katana: katanaManifest as BuildingManifest,
+  flow: flowManifest as BuildingManifest,
+};
+
+export function isBuildingNetwork(value: unknown): value is BuildingNetwork {
+  return typeof value === 'string' && (BUILDING_NETWORKS as string[]).includes(value);
+}
+
+/**
+ * Resolve which building layout a chain uses (unknown chains get Katana buildings)
+ */
+export function getBuildingNetwork(chainId?: number): BuildingNetwork {
+  return chainId === FLOW_CHAIN_ID ? 'flow' : 'katana';
+}
+
+/**
+ * Collision rectangle of a building, centred on its position like the client's bounds
+ */
+export function getBuildingFootprint(building: BuildingDefinition): Rect {
+  const { x, y, collision: { width, height } } = building;
+  return { x: x - width / 2, y: y - height / 2, width, height };
+}
+
+/**
+ * Get collision rectangles for every building in a manifest
+ */
+export function getBuildingFootprints(manifest: BuildingManifest): Rect[] {
+  return manifest.buildings.map(getBuildingFootprint);
+}
+
+/**
+ * Copy of a manifest with buildings moved to new positions (by building ID)
+ */
+export function moveBuildings(manifest: BuildingManifest, positions: Record<string, Point>): BuildingManifest {
+  return {
+    ...manifest,
+    buildings: manifest.buildings.map(building => {
+      const position = positions[building.id];
+      return position ? { ...building, x: position.x, y: position.y } : building;
+    }),
+  };
+}
+
+/**
+ * Problems with where buildings stand: outside the world or on solid terrain tiles.
+ * An empty list means every building can be placed.
+ */
+export function validateBuildingPlacement(
+  buildings: BuildingDefinition[],
+  terrain: string[][],
+  hasCollision: (tileType: string) => boolean = terrainTileHasCollision
+): string[] {
+  const grid = new CollisionGrid();
+  grid.markTerrain(terrain, hasCollision);
+
+  const problems: string[] = [];
+  for (const building of buildings) {
+    const footprint = getBuildingFootprint(building);
+    if (footprint.x < 0 || footprint.y < 0 ||
+        footprint.x + footprint.width > WORLD_CONFIG.width ||
+        footprint.y + footprint.height > WORLD_CONFIG.height) {
+      problems.push(`${building.id} is outside the world`);
+      continue;
+    }
+
+    const start = grid.worldToTile(footprint.x, footprint.y);
+    const end = grid.worldToTile(footprint.x + footprint.width, footprint.y + footprint.height);
+    let blocked: Point | null = null;
+    for (let y = start.y; y <= end.y && !blocked; y++) {
+      for (let x = start.x; x <= end.x && !blocked; x++) {
+        if (grid.isValidTile(x, y) && grid.isSolid(x, y)) {
+          blocked = { x, y };
+        }
+      }
+    }
+    if (blocked) {
+      problems.push(`${building.id} stands on solid terrain at tile (${blocked.x}, ${blocked.y})`);
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,6 @@
+/**
+ * Chat limits shared by the server's validation and the client's input.
+ */
+
+// Maximum length of a single chat message (characters)
+export const CHAT_MAX_LENGTH = 280;
@@ -0,0 +1,125 @@
+import { Rect, WORLD_CONFIG } from './world';
+
+/**
+ * CollisionGrid
+ *
+ * Tile-based grid of solid cells for static obstacles (terrain, buildings).
+ * Used by the client's CollisionSystem and by the server's movement validation
+ * so both sides agree on where players can walk.
+ */
+export class CollisionGrid {
+  readonly tileSize: number;
+  readonly width: number;
+  readonly height: number;
+  private cells: Uint8Array;
+
+  constructor(
+    worldWidth: number = WORLD_CONFIG.width,
+    worldHeight: number = WORLD_CONFIG.height,
+    tileSize: number = WORLD_CONFIG.tileSize
+  ) {
+    this.tileSize = tileSize;
+    this.width = Math.ceil(worldWidth / tileSize);
+    this.height = Math.ceil(worldHeight / tileSize);
+    this.cells = new Uint8Array(this.width * this.height);
+  }
+
+  /**
+   * Mark every cell as walkable
+   */
+  clear(): void {
+    this.cells.fill(0);
+  }
+
+  /**
+   * Check if a tile position is inside the grid
+   */
+  isValidTile(tileX: number, tileY: number): boolean {
+    return tileX >= 0 && tileX < this.width && tileY >= 0 && tileY < this.height;
+  }
+
+  setSolid(tileX: number, tileY: number, solid: boolean = true): void {
+    if (!this.isValidTile(tileX, tileY)) return;
+    this.cells[tileY * this.width + tileX] = solid ? 1 : 0;
+  }
+
+  /**
+   * Check if a tile is solid. Tiles outside the grid are always solid.
+   */
+  isSolid(tileX: number, tileY: number): boolean {
+    if (!this.isValidTile(tileX, tileY)) return true;
+    return this.cells[tileY * this.width + tileX] === 1;
+  }
+
+  worldToTile(worldX: number, worldY: number): { x: number; y: number } {
+    return {
+      x: Math.floor(worldX / this.tileSize),
+      y: Math.floor(worldY / this.tileSize)
+    };
+  }
+
+  /**
+   * Mark all tiles overlapped by a world-space rectangle as solid
+   */
+  markRect(rect: Rect): void {
+    const start = this.worldToTile(rect.x, rect.y);
+    const end = this.worldToTile(rect.x + rect.width, rect.y + rect.height);
+
+    for (let y = start.y; y <= end.y; y++) {
+      for (let x = start.x; x <= end.x; x++) {
+        this.setSolid(x, y);
+      }
+    }
+  }
+
+  /**
+   * Check if a world-space rectangle overlaps a tile (the tiles markRect would mark)
+   */
+  rectCoversTile(rect: Rect, tileX: number, tileY: number): boolean {
+    const start = this.worldToTile(rect.x, rect.y);
+    const end = this.worldToTile(rect.x + rect.width, rect.y + rect.height);
+    return tileX >= start.x && tileX <= end.x && tileY >= start.y && tileY <= end.y;
+  }
+
+  /**
+   * Mark tiles from a terrain layout (rows of tile types) as solid
+   */
+  markTerrain(layout: string[][], hasCollision: (tileType: string) => boolean): void {
+    for (let y = 0; y < layout.length; y++) {
+      for (let x = 0; x < layout[y].length; x++) {
+        if (hasCollision(layout[y][x])) {
+          this.setSolid(x, y);
+        }
+      }
+    }
+  }
+
+  /**
+   * Check if a world position lies on a solid tile
+   */
+  isSolidAt(worldX: number, worldY: number): boolean {
+    const tile = this.worldToTile(worldX, worldY);
+    return this.isSolid(tile.x, tile.y);
+  }
+
+  /**
+   * Check if a square collision box centred on a position touches a solid tile
+   */
+  collidesBox(centerX: number, centerY: number, halfSize: number): boolean {
+    return this.isSolidAt(centerX - halfSize, centerY - halfSize) ||
+           this.isSolidAt(centerX + halfSize, centerY - halfSize) ||
+           this.isSolidAt(centerX - halfSize, centerY + halfSize) ||
+           this.isSolidAt(centerX + halfSize, centerY + halfSize);
+  }
+
+  /**
+   * Count solid tiles (for debugging)
+   */
+  countSolid(): number {
+    let count = 0;
+    for (let i = 0; i < this.cells.length; i++) {
+      count += this.cells[i];
+    }
+    return count;
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, test, expect } from 'vitest';
+import {
+  WATERING_CONFIG,
+  getGrowthProgress,
+  getGrowthStage,
+  getNextStageAt,
+  getWateringBoost,
+  isGrowthStage,
+  isSeedType
+} from './crops';
+
+describe('Crop growth', () => {
+  const growthTime = 1000;
+
+  test('should report progress as a fraction clamped to [0, 1]', () => {
+    expect(getGrowthProgress(0, growthTime, -500)).toBe(0);
+    expect(getGrowthProgress(0, growthTime, 250)).toBe(0.25);
+    expect(getGrowthProgress(0, growthTime, 5000)).toBe(1);
+  });
+
+  test('should move through every growth stage', () => {
+    expect(getGrowthStage(0, growthTime, 0)).toBe('seed');
+    expect(getGrowthStage(0, growthTime, 200)).toBe('sprout');
+    expect(getGrowthStage(0, growthTime, 500)).toBe('growing');
+    expect(getGrowthStage(0, growthTime, 800)).toBe('mature');
+    expect(getGrowthStage(0, growthTime, 1000)).toBe('ready');
+  });
+
+  test('should report when the next growth stage begins', () => {
+    expect(getNextStageAt(0, growthTime, 0)).toBe(200);
+    expect(getNextStageAt(0, growthTime, 200)).toBe(500);
+    expect(getNextStageAt(0, growthTime, 900)).toBe(1000);
+    expect(getNextStageAt(0, growthTime, 1000)).toBeUndefined();
+
+    // Watering brings the next stage forward
+    expect(getNextStageAt(0, growthTime, 0, 100)).toBe(100);
+    expect(getGrowthStage(0, growthTime, 100, 100)).toBe('sprout');
+  });
+
+  test('should only accept known growth stages', () => {
+    expect(isGrowthStage('mature')).toBe(true);
+    expect(isGrowthStage('wilted')).toBe(false);
+    expect(isGrowthStage(undefined)).toBe(false);
+  });
+
+  test('should only accept known seed types', () => {
+    expect(isSeedType('usdc_sprout')).toBe(true);
+    expect(isSeedType('potato')).toBe(false);
+    expect(isSeedType(42)).toBe(false);
+  });
+
+  test('should count the watering boost towards growth', () => {
+    expect(getGrowthProgress(0, growthTime, 250, 100)).toBe(0.35);
+    expect(getGrowthStage(0, growthTime, 900, 100)).toBe('ready');
+  });
+
+  test('should give a bounded boost when watering', () => {
+    const crop = { plantedAt: 0, growthTime, growthBoost: 0 };
+    const step = growthTime * WATERING_CONFIG.boostFraction;
+    const max = growthTime * WATERING_CONFIG.maxBoostFraction;
+
+    expect(getWateringBoost(crop, 100)).toEqual({ boost: step });
+    expect(getWateringBoost({ ...crop, growthBoost: max - step / 2 }, 100)).toEqual({ boost: step / 2 });
+    expect(getWateringBoost({ ...crop, growthBoost: max }, 100)).toEqual({ boost: 0 });
+  });
+
+  test('should refuse to water ready crops or during the cooldown', () => {
+    const crop = { plantedAt: 0, growthTime, growthBoost: 0 };
+
+    expect(getWateringBoost(crop, growthTime)).toEqual({ reason: 'ready' });
+    expect(getWateringBoost({ ...crop, lastWatered: 50 }, 100)).toEqual({ reason: 'cooldown' });
+  });
+});
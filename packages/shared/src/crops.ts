@@ -0,0 +1,133 @@
+/**
+ * Seed definitions and crop growth rules shared by the server and the client.
+ */
+
+export type SeedType = 'usdc_sprout' | 'premium_tree' | 'whale_forest';
+
+export interface SeedConfig {
+  minInvestment: number;
+  maxInvestment: number; // Largest single investment, so one crop can't buy the leaderboard
+  growthTime: number; // in milliseconds
+  xpGain: number;
+  baseYieldRate: number; // APY as decimal (e.g., 0.05 for 5%)
+  requiredLevel: number; // Player level needed to plant this seed
+}
+
+export const SEED_CONFIGS: Record<SeedType, SeedConfig> = {
+  'usdc_sprout': {
+    minInvestment: 10,
+    maxInvestment: 1000,
+    growthTime: 24 * 60 * 60 * 1000, // 24 hours
+    xpGain: 1,
+    baseYieldRate: 0.05, // 5% APY
+    requiredLevel: 1
+  },
+  'premium_tree': {
+    minInvestment: 100,
+    maxInvestment: 10000,
+    growthTime: 48 * 60 * 60 * 1000, // 48 hours
+    xpGain: 10,
+    baseYieldRate: 0.05, // 5% APY
+    requiredLevel: 3
+  },
+  'whale_forest': {
+    minInvestment: 1000,
+    maxInvestment: 100000,
+    growthTime: 72 * 60 * 60 * 1000, // 72 hours
+    xpGain: 100,
+    baseYieldRate: 0.05, // 5% APY
+    requiredLevel: 5
+  }
+};
+
+// Minimum distance between two crops (pixels)
+export const CROP_COLLISION_RADIUS = 50;
+
+export type GrowthStage =
+  | 'seed'
+  | 'sprout'
+  | 'growing'
+  | 'mature'
+  | 'ready';
+
+export const GROWTH_STAGES: GrowthStage[] = ['seed', 'sprout', 'growing', 'mature', 'ready'];
+
+export function isSeedType(value: unknown): value is SeedType {
+  return typeof value === 'string' && value in SEED_CONFIGS;
+}
+
+export const WATERING_CONFIG = {
+  cooldown: 4 * 60 * 60 * 1000,  // A crop can be watered once every 4 hours
+  boostFraction: 0.05,           // Each watering skips 5% of the growth time
+  maxBoostFraction: 0.2          // Watering can skip at most 20% of the growth time
+};
+
+/**
+ * Fraction of growth completed (0 to 1). `growthBoost` (ms) is time skipped by watering.
+ */
+export function getGrowthProgress(plantedAt: number, growthTime: number, now: number, growthBoost: number = 0): number {
+  if (growthTime <= 0) return 1;
+  return Math.min(Math.max((now - plantedAt + growthBoost) / growthTime, 0), 1);
+}
+
+// Growth progress at which each stage after 'seed' begins
+const STAGE_THRESHOLDS: [GrowthStage, number][] = [
+  ['sprout', 0.2],
+  ['growing', 0.5],
+  ['mature', 0.8],
+  ['ready', 1]
+];
+
+export function isGrowthStage(value: unknown): value is GrowthStage {
+  return typeof value === 'string' && (GROWTH_STAGES as string[]).includes(value);
+}
+
+/**
+ * Growth stage for a crop planted at `plantedAt` (ms) that takes `growthTime` (ms) to grow
+ */
+export function getGrowthStage(plantedAt: number, growthTime: number, now: number, growthBoost: number = 0): GrowthStage {
+  const progress = getGrowthProgress(plantedAt, growthTime, now, growthBoost);
+
+  let stage: GrowthStage = 'seed';
+  for (const [next, threshold] of STAGE_THRESHOLDS) {
+    if (progress < threshold) break;
+    stage = next;
+  }
+  return stage;
+}
+
+/**
+ * Time (ms) at which a crop enters its next growth stage, or undefined once it is ready
+ */
+export function getNextStageAt(plantedAt: number, growthTime: number, now: number, growthBoost: number = 0): number | undefined {
+  const progress = getGrowthProgress(plantedAt, growthTime, now, growthBoost);
+
+  for (const [, threshold] of STAGE_THRESHOLDS) {
+    if (progress < threshold) {
+      return plantedAt - growthBoost + Math.ceil(growthTime * threshold);
+    }
+  }
+  return undefined;
+}
+
+export type WaterRejectionReason = 'ready' | 'cooldown';
+
+/**
+ * Boost (ms) a crop would gain from being watered now, or why it can't be watered.
+ * The total boost is capped at WATERING_CONFIG.maxBoostFraction of the growth time.
+ */
+export function getWateringBoost(
+  crop: { plantedAt: number; growthTime: number; growthBoost: number; lastWatered?: number },
+  now: number
+): { boost: number } | { reason: WaterRejectionReason } {
+  if (getGrowthProgress(crop.plantedAt, crop.growthTime, now, crop.growthBoost) >= 1) {
+    return { reason: 'ready' };
+  }
+  if (crop.lastWatered !== undefined && now - crop.lastWatered < WATERING_CONFIG.cooldown) {
+    return { reason: 'cooldown' };
+  }
+
+  const maxBoost = crop.growthTime * WATERING_CONFIG.maxBoostFraction;
+  const boost = Math.min(crop.growthTime * WATERING_CONFIG.boostFraction, Math.max(0, maxBoost - crop.growthBoost));
+  return { boost };
+}
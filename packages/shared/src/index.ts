@@ -0,0 +1,19 @@
+export * from './world';
+export * from './collision';
+export * from './buildings';
+export * from './movement';
+export * from './interpolation';
+export * from './crops';
+export * from './levels';
+export * from './chat';
+export * from './roles';
+export * from './worlds';
+export * from './leaderboards';
+export * from './quests';
+export * from './worldEvents';
+export * from './yield';
+export * from './terrain';
+export * from './terrainEditor';
+export * from './tiled';
+export * from './worldgen';
+export * from './regions';
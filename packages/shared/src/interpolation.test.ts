@@ -0,0 +1,68 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { InterpolationBuffer } from './interpolation';
+
+describe('InterpolationBuffer', () => {
+  let buffer: InterpolationBuffer;
+
+  beforeEach(() => {
+    buffer = new InterpolationBuffer(100);
+  });
+
+  test('should return undefined when empty', () => {
+    expect(buffer.sample(1000)).toBeUndefined();
+  });
+
+  test('should interpolate between surrounding snapshots', () => {
+    buffer.push(1000, 0, 0);
+    buffer.push(1100, 100, 50);
+
+    expect(buffer.sample(1050)).toEqual({ x: 50, y: 25 });
+  });
+
+  test('should not extrapolate past the newest snapshot', () => {
+    buffer.push(1000, 0, 0);
+    buffer.push(1100, 100, 0);
+
+    expect(buffer.sample(1500)).toEqual({ x: 100, y: 0 });
+  });
+
+  test('should clamp to the oldest snapshot', () => {
+    buffer.push(1000, 10, 10);
+    buffer.push(1100, 20, 20);
+
+    expect(buffer.sample(500)).toEqual({ x: 10, y: 10 });
+  });
+
+  test('should ignore patches that do not move the player', () => {
+    buffer.push(1000, 0, 0);
+    buffer.push(1100, 100, 0);
+    buffer.push(1150, 100, 0);
+
+    expect(buffer.latest()).toEqual({ timestamp: 1100, x: 100, y: 0 });
+  });
+
+  test('should start smoothly after the player was idle', () => {
+    buffer.push(1000, 0, 0);
+    buffer.push(5000, 100, 0);
+
+    // Movement is spread over one snapshot interval, not the whole idle period
+    expect(buffer.sample(3000)).toEqual({ x: 0, y: 0 });
+    expect(buffer.sample(4950)).toEqual({ x: 50, y: 0 });
+  });
+
+  test('should ignore out-of-order snapshots', () => {
+    buffer.push(1100, 100, 0);
+    buffer.push(1000, 0, 0);
+
+    expect(buffer.latest()).toEqual({ timestamp: 1100, x: 100, y: 0 });
+  });
+
+  test('should keep at most maxSnapshots entries', () => {
+    const small = new InterpolationBuffer(100, 3);
+    for (let i = 0; i < 10; i++) {
+      small.push(1000 + i * 100, i, 0);
+    }
+
+    expect(small.sample(0)).toEqual({ x: 7, y: 0 });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * InterpolationBuffer
+ *
+ * Keeps a short history of timestamped positions for a remote player so it can
+ * be rendered slightly in the past, smoothly moving between server snapshots
+ * instead of snapping to each state patch. Used by the web client's NetworkSystem.
+ */
+
+export interface PositionSnapshot {
+  timestamp: number;
+  x: number;
+  y: number;
+}
+
+export class InterpolationBuffer {
+  private snapshots: PositionSnapshot[] = [];
+  private maxSnapshots: number;
+  private snapshotInterval: number;
+
+  /**
+   * @param snapshotInterval Expected time between snapshots (ms). Longer gaps are
+   *   treated as the player standing still, so movement after idling starts smoothly.
+   */
+  constructor(snapshotInterval: number, maxSnapshots: number = 20) {
+    this.snapshotInterval = snapshotInterval;
+    this.maxSnapshots = maxSnapshots;
+  }
+
+  /**
+   * Record a position received from the server
+   */
+  push(timestamp: number, x: number, y: number): void {
+    const last = this.snapshots[this.snapshots.length - 1];
+
+    if (last) {
+      if (timestamp < last.timestamp) return; // Out-of-order snapshot
+      if (last.x === x && last.y === y) return; // Patch didn't move this player
+      if (timestamp - last.timestamp > this.snapshotInterval) {
+        // Player was idle: anchor the start of the new movement one interval back
+        this.snapshots.push({ timestamp: timestamp - this.snapshotInterval, x: last.x, y: last.y });
+      }
+    }
+
+    this.snapshots.push({ timestamp, x, y });
+
+    if (this.snapshots.length > this.maxSnapshots) {
+      this.snapshots.splice(0, this.snapshots.length - this.maxSnapshots);
+    }
+  }
+
+  /**
+   * Get the interpolated position at a render time (no extrapolation past the newest snapshot)
+   */
+  sample(renderTime: number): { x: number; y: number } | undefined {
+    const count = this.snapshots.length;
+    if (count === 0) return undefined;
+
+    const newest = this.snapshots[count - 1];
+    if (renderTime >= newest.timestamp) {
+      return { x: newest.x, y: newest.y };
+    }
+
+    const oldest = this.snapshots[0];
+    if (renderTime <= oldest.timestamp) {
+      return { x: oldest.x, y: oldest.y };
+    }
+
+    // Find the two snapshots surrounding the render time
+    for (let i = count - 1; i > 0; i--) {
+      const from = this.snapshots[i - 1];
+      const to = this.snapshots[i];
+      if (renderTime >= from.timestamp) {
+        const span = to.timestamp - from.timestamp;
+        const t = span > 0 ? (renderTime - from.timestamp) / span : 1;
+        return {
+          x: from.x + (to.x - from.x) * t,
+          y: from.y + (to.y - from.y) * t
+        };
+      }
+    }
+
+    return { x: newest.x, y: newest.y };
+  }
+
+  /**
+   * Get the most recent snapshot
+   */
+  latest(): PositionSnapshot | undefined {
+    return this.snapshots[this.snapshots.length - 1];
+  }
+
+  clear(): void {
+    this.snapshots = [];
+  }
+}
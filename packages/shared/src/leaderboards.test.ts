@@ -0,0 +1,20 @@
+import { describe, test, expect } from 'vitest';
+import { getWeekStart, isLeaderboardMetric, isLeaderboardWindow } from './leaderboards';
+
+describe('Leaderboards', () => {
+  test('should start weeks on Monday 00:00 UTC', () => {
+    const monday = Date.UTC(2025, 0, 6);
+
+    expect(getWeekStart(monday)).toBe(monday);
+    expect(getWeekStart(Date.UTC(2025, 0, 8, 15, 30))).toBe(monday);
+    expect(getWeekStart(Date.UTC(2025, 0, 12, 23, 59))).toBe(monday);
+    expect(getWeekStart(Date.UTC(2025, 0, 13))).toBe(Date.UTC(2025, 0, 13));
+  });
+
+  test('should only accept known metrics and windows', () => {
+    expect(isLeaderboardMetric('harvested')).toBe(true);
+    expect(isLeaderboardMetric('gold')).toBe(false);
+    expect(isLeaderboardWindow('weekly')).toBe(true);
+    expect(isLeaderboardWindow('daily')).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Leaderboard metrics and windows shared by the server's endpoints and the in-game panel.
+ */
+
+import { SeedType } from './crops';
+
+export type LeaderboardMetric =
+  | 'xp'          // Experience earned by planting
+  | 'invested'    // USDC put into crops
+  | 'harvested';  // Yield credited from harvested crops
+
+// 'weekly' is the current calendar week, starting Monday 00:00 UTC
+export type LeaderboardWindow = 'all' | 'weekly';
+
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ['xp', 'invested', 'harvested'];
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['all', 'weekly'];
+
+export interface LeaderboardQuery {
+  metric: LeaderboardMetric;
+  window: LeaderboardWindow;
+  seedType?: SeedType; // Only count crops of this seed type
+  limit: number;
+  offset: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number; // Players with equal values share a rank (1, 1, 3)
+  playerId: string;
+  playerName: string;
+  value: number;
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  total: number; // Players with a non-zero value
+}
+
+export function isLeaderboardMetric(value: unknown): value is LeaderboardMetric {
+  return typeof value === 'string' && (LEADERBOARD_METRICS as string[]).includes(value);
+}
+
+export function isLeaderboardWindow(value: unknown): value is LeaderboardWindow {
+  return typeof value === 'string' && (LEADERBOARD_WINDOWS as string[]).includes(value);
+}
+
+/**
+ * Start (Monday 00:00 UTC) of the week containing `now`
+ */
+export function getWeekStart(now: number): number {
+  const date = new Date(now);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday);
+}
@@ -0,0 +1,37 @@
+import { describe, test, expect } from 'vitest';
+import { getLevelForXP, getLevelProgress, getXPForLevel, isSeedUnlocked } from './levels';
+
+describe('Levels', () => {
+  test('should follow the level curve', () => {
+    expect(getXPForLevel(1)).toBe(0);
+    expect(getXPForLevel(2)).toBe(10);
+    expect(getXPForLevel(3)).toBe(40);
+    expect(getXPForLevel(5)).toBe(160);
+  });
+
+  test('should level up exactly at each threshold', () => {
+    expect(getLevelForXP(0)).toBe(1);
+    expect(getLevelForXP(9)).toBe(1);
+    expect(getLevelForXP(10)).toBe(2);
+    expect(getLevelForXP(39)).toBe(2);
+    expect(getLevelForXP(40)).toBe(3);
+    expect(getLevelForXP(-5)).toBe(1);
+
+    for (let level = 1; level <= 100; level++) {
+      expect(getLevelForXP(getXPForLevel(level))).toBe(level);
+      expect(getLevelForXP(getXPForLevel(level + 1) - 1)).toBe(level);
+    }
+  });
+
+  test('should report progress towards the next level', () => {
+    expect(getLevelProgress(25)).toEqual({ level: 2, levelXP: 15, nextLevelXP: 30 });
+  });
+
+  test('should gate seeds by level', () => {
+    expect(isSeedUnlocked('usdc_sprout', 1)).toBe(true);
+    expect(isSeedUnlocked('premium_tree', 2)).toBe(false);
+    expect(isSeedUnlocked('premium_tree', 3)).toBe(true);
+    expect(isSeedUnlocked('whale_forest', 4)).toBe(false);
+    expect(isSeedUnlocked('whale_forest', 5)).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Player level curve and the seed tiers it unlocks, shared by the server and the client.
+ */
+
+import { SEED_CONFIGS, SeedType } from './crops';
+
+export const LEVEL_CONFIG = {
+  xpFactor: 10 // Reaching level n takes xpFactor * (n - 1)^2 XP in total
+};
+
+/**
+ * Total XP needed to reach a level (level 1 needs none)
+ */
+export function getXPForLevel(level: number): number {
+  const steps = Math.max(Math.floor(level) - 1, 0);
+  return LEVEL_CONFIG.xpFactor * steps * steps;
+}
+
+/**
+ * Level reached with a total amount of XP
+ */
+export function getLevelForXP(xp: number): number {
+  let level = Math.floor(Math.sqrt(Math.max(xp, 0) / LEVEL_CONFIG.xpFactor)) + 1;
+
+  // Guard against floating point error around level boundaries
+  while (getXPForLevel(level + 1) <= xp) level++;
+  while (level > 1 && getXPForLevel(level) > xp) level--;
+  return level;
+}
+
+export interface LevelProgress {
+  level: number;
+  levelXP: number;    // XP earned since reaching the current level
+  nextLevelXP: number; // XP between the current level and the next
+}
+
+export function getLevelProgress(xp: number): LevelProgress {
+  const level = getLevelForXP(xp);
+  const levelStart = getXPForLevel(level);
+  return {
+    level,
+    levelXP: xp - levelStart,
+    nextLevelXP: getXPForLevel(level + 1) - levelStart
+  };
+}
+
+export function isSeedUnlocked(seedType: SeedType, level: number): boolean {
+  return level >= SEED_CONFIGS[seedType].requiredLevel;
+}
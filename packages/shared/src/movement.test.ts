@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'vitest';
+import { CollisionGrid } from './collision';
+import { DEFAULT_BUILDING_MANIFESTS, getBuildingFootprints } from './buildings';
+import { MAX_MOVE_BUDGET, accrueMoveBudget, validateMove } from './movement';
+import { PLAYER_CONFIG, WORLD_CONFIG } from './world';
+
+describe('Movement validation', () => {
+  const start = { x: 1500, y: 1500 };
+
+  test('should accept a move within the speed budget', () => {
+    const budget = accrueMoveBudget(0, 100);
+    const result = validateMove(start, { x: start.x + 50, y: start.y }, budget);
+
+    expect(result.accepted).toBe(true);
+    expect(result.x).toBe(start.x + 50);
+    expect(result.budget).toBeCloseTo(budget - 50);
+  });
+
+  test('should reject a teleport and keep the previous position', () => {
+    const result = validateMove(start, { x: 2500, y: 400 }, MAX_MOVE_BUDGET);
+
+    expect(result.accepted).toBe(false);
+    expect(result.reason).toBe('too_fast');
+    expect(result).toMatchObject({ x: start.x, y: start.y });
+  });
+
+  test('should cap the budget so idle players cannot store up a teleport', () => {
+    expect(accrueMoveBudget(0, 60_000)).toBe(MAX_MOVE_BUDGET);
+    expect(MAX_MOVE_BUDGET).toBeLessThan(PLAYER_CONFIG.baseSpeed);
+  });
+
+  test('should accept bursts of updates that arrive together', () => {
+    // Two 100ms updates delivered back to back after a stall
+    let budget = accrueMoveBudget(MAX_MOVE_BUDGET, 0);
+    const step = PLAYER_CONFIG.baseSpeed / 10;
+
+    const first = validateMove(start, { x: start.x + step, y: start.y }, budget);
+    budget = accrueMoveBudget(first.budget, 5);
+    const second = validateMove(first, { x: first.x + step, y: first.y }, budget);
+
+    expect(first.accepted).toBe(true);
+    expect(second.accepted).toBe(true);
+  });
+
+  test('should reject positions outside the world bounds', () => {
+    const nearEdge = { x: WORLD_CONFIG.width - 30, y: 500 };
+    const result = validateMove(nearEdge, { x: WORLD_CONFIG.width + 10, y: 500 }, MAX_MOVE_BUDGET);
+
+    expect(result.accepted).toBe(false);
+    expect(result.reason).toBe('out_of_bounds');
+  });
+
+  test('should reject non-numeric positions', () => {
+    const result = validateMove(start, { x: NaN, y: 10 }, MAX_MOVE_BUDGET);
+
+    expect(result.reason).toBe('invalid_position');
+  });
+
+  test('should reject moves into a building', () => {
+    const grid = new CollisionGrid();
+    const [bank] = getBuildingFootprints(DEFAULT_BUILDING_MANIFESTS.katana);
+    grid.markRect(bank);
+
+    const outside = { x: bank.x - 60, y: bank.y + bank.height / 2 };
+    const inside = { x: bank.x + 20, y: outside.y };
+    const result = validateMove(outside, inside, MAX_MOVE_BUDGET, grid);
+
+    expect(result.accepted).toBe(false);
+    expect(result.reason).toBe('collision');
+  });
+
+  test('should let players walk out of an obstacle they start inside', () => {
+    const grid = new CollisionGrid();
+    grid.markRect({ x: 960, y: 960, width: 96, height: 96 });
+
+    const result = validateMove({ x: 1000, y: 1000 }, { x: 1000, y: 1150 }, MAX_MOVE_BUDGET, grid);
+
+    expect(result.accepted).toBe(true);
+  });
+});
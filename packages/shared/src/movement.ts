@@ -0,0 +1,101 @@
+import { CollisionGrid } from './collision';
+import { PLAYER_CONFIG, Point, isWithinWorldBounds } from './world';
+
+/**
+ * Server-authoritative movement model.
+ *
+ * Each player has a movement budget (in pixels) that refills at the maximum
+ * speed over elapsed time. Moves spend the budget, so bursts of updates that
+ * arrive together after network jitter are still accepted while sustained
+ * speed hacks and teleports are rejected.
+ */
+
+// Allowance on top of baseSpeed for frame timing differences
+export const SPEED_TOLERANCE = 1.25;
+
+// Maximum stored movement, in seconds of travel at full speed
+export const MAX_BUDGET_SECONDS = 0.5;
+
+export const MAX_MOVE_BUDGET = PLAYER_CONFIG.baseSpeed * SPEED_TOLERANCE * MAX_BUDGET_SECONDS;
+
+export type MoveRejectionReason = 'invalid_position' | 'out_of_bounds' | 'too_fast' | 'collision';
+
+export interface MoveValidationResult {
+  accepted: boolean;
+  // Authoritative position after the move (the target if accepted, otherwise the origin)
+  x: number;
+  y: number;
+  // Budget left after the move
+  budget: number;
+  reason?: MoveRejectionReason;
+}
+
+/**
+ * Refill a movement budget for the time elapsed since the last move
+ */
+export function accrueMoveBudget(budget: number, elapsedMs: number): number {
+  const refill = (PLAYER_CONFIG.baseSpeed * SPEED_TOLERANCE * Math.max(0, elapsedMs)) / 1000;
+  return Math.min(MAX_MOVE_BUDGET, budget + refill);
+}
+
+/**
+ * Check if the straight path between two points crosses a solid tile.
+ * Samples at half-tile steps so thin obstacles cannot be skipped.
+ */
+export function isPathBlocked(from: Point, to: Point, grid: CollisionGrid): boolean {
+  const halfSize = PLAYER_CONFIG.collisionBoxSize;
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(distance / (grid.tileSize / 2)));
+
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    const x = from.x + (to.x - from.x) * t;
+    const y = from.y + (to.y - from.y) * t;
+    if (grid.collidesBox(x, y, halfSize)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Validate a requested move against world bounds, speed and static collisions.
+ * `budget` should already include the refill from accrueMoveBudget.
+ */
+export function validateMove(
+  from: Point,
+  to: Point,
+  budget: number,
+  grid?: CollisionGrid
+): MoveValidationResult {
+  const reject = (reason: MoveRejectionReason): MoveValidationResult => ({
+    accepted: false,
+    x: from.x,
+    y: from.y,
+    budget,
+    reason
+  });
+
+  if (!Number.isFinite(to.x) || !Number.isFinite(to.y)) {
+    return reject('invalid_position');
+  }
+
+  if (!isWithinWorldBounds(to.x, to.y)) {
+    return reject('out_of_bounds');
+  }
+
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  if (distance > budget) {
+    return reject('too_fast');
+  }
+
+  // Players already overlapping an obstacle (e.g. a building placed on them)
+  // are allowed to walk out of it
+  const startsBlocked = grid?.collidesBox(from.x, from.y, PLAYER_CONFIG.collisionBoxSize) ?? false;
+  if (grid && !startsBlocked && isPathBlocked(from, to, grid)) {
+    return reject('collision');
+  }
+
+  return { accepted: true, x: to.x, y: to.y, budget: budget - distance };
+}
@@ -0,0 +1,26 @@
+import { describe, test, expect } from 'vitest';
+import { isOnChainQuestAction, isQuestEventType, matchesQuestObjective } from './quests';
+
+describe('Quests', () => {
+  test('should match events of the objective type', () => {
+    const objective = { event: 'crop_harvested' as const, count: 3 };
+
+    expect(matchesQuestObjective(objective, { type: 'crop_harvested' })).toBe(true);
+    expect(matchesQuestObjective(objective, { type: 'crop_planted' })).toBe(false);
+  });
+
+  test('should only match events with the required data', () => {
+    const objective = { event: 'crop_planted' as const, count: 1, where: { seedType: 'usdc_sprout' } };
+
+    expect(matchesQuestObjective(objective, { type: 'crop_planted', data: { seedType: 'usdc_sprout' } })).toBe(true);
+    expect(matchesQuestObjective(objective, { type: 'crop_planted', data: { seedType: 'premium_tree' } })).toBe(false);
+    expect(matchesQuestObjective(objective, { type: 'crop_planted' })).toBe(false);
+  });
+
+  test('should only accept known event types and on-chain actions', () => {
+    expect(isQuestEventType('farm_visited')).toBe(true);
+    expect(isQuestEventType('jump')).toBe(false);
+    expect(isOnChainQuestAction('market_swap')).toBe(true);
+    expect(isOnChainQuestAction('crop_planted')).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Quest definitions and the events that advance them. Quests are data: the
+ * server loads them from a JSON file, so new ones need no code changes.
+ */
+
+// Things a player can do that quests count
+export type QuestEventType =
+  | 'crop_planted'
+  | 'crop_harvested'
+  | 'crop_watered'
+  | 'farm_visited'  // Joined another player's farm
+  | 'bank_deposit'  // On-chain, reported by the client and verified by the server
+  | 'market_swap';  // On-chain, reported by the client and verified by the server
+
+export const QUEST_EVENT_TYPES: QuestEventType[] = [
+  'crop_planted',
+  'crop_harvested',
+  'crop_watered',
+  'farm_visited',
+  'bank_deposit',
+  'market_swap'
+];
+
+export type OnChainQuestAction = Extract<QuestEventType, 'bank_deposit' | 'market_swap'>;
+
+export const ON_CHAIN_QUEST_ACTIONS: OnChainQuestAction[] = ['bank_deposit', 'market_swap'];
+
+export interface QuestEvent {
+  type: QuestEventType;
+  data?: Record<string, string>; // e.g. { seedType: 'usdc_sprout' } or { worldId: '0x...' }
+}
+
+export interface QuestObjective {
+  event: QuestEventType;
+  count: number;
+  where?: Record<string, string>; // Only count events whose data has these values
+  distinct?: string;              // Only count each value of this data field once, e.g. "worldId"
+}
+
+export interface QuestReward {
+  xp?: number;
+  cosmetic?: string; // Cosmetic unlocked for the player, e.g. "golden_hat"
+}
+
+export interface QuestDefinition {
+  id: string;
+  title: string;
+  description: string;
+  objective: QuestObjective;
+  reward: QuestReward;
+}
+
+// A quest as shown in a player's quest log
+export interface QuestLogEntry extends QuestDefinition {
+  progress: number;
+  completed: boolean;
+}
+
+export function isQuestEventType(value: unknown): value is QuestEventType {
+  return typeof value === 'string' && (QUEST_EVENT_TYPES as string[]).includes(value);
+}
+
+export function isOnChainQuestAction(value: unknown): value is OnChainQuestAction {
+  return typeof value === 'string' && (ON_CHAIN_QUEST_ACTIONS as string[]).includes(value);
+}
+
+/**
+ * Whether an event counts towards an objective (ignoring `distinct`, which needs the player's history)
+ */
+export function matchesQuestObjective(objective: QuestObjective, event: QuestEvent): boolean {
+  if (objective.event !== event.type) return false;
+
+  return Object.entries(objective.where ?? {}).every(([key, value]) => event.data?.[key] === value);
+}
@@ -0,0 +1,114 @@
+import { describe, test, expect } from 'vitest';
+import { GameServerRegion, connectToFirstRegion, createRegion, getHomeRegion, parseRegions, rankRegions } from './regions';
+
+describe('Game server regions', () => {
+  const eu = createRegion('eu', 'Europe', 'wss://eu.defivalley.xyz');
+  const us = createRegion('us', 'US East', 'wss://us.defivalley.xyz');
+  const asia = createRegion('asia', 'Asia', 'wss://asia.defivalley.xyz');
+
+  test('should derive websocket and http URLs from either scheme', () => {
+    expect(createRegion('eu', 'Europe', 'wss://eu.defivalley.xyz/game/')).toEqual({
+      id: 'eu',
+      name: 'Europe',
+      wsUrl: 'wss://eu.defivalley.xyz/game',
+      httpUrl: 'https://eu.defivalley.xyz/game'
+    });
+    expect(createRegion('local', 'Local', 'http://localhost:2567', 'http://10.0.0.2:2567')).toEqual({
+      id: 'local',
+      name: 'Local',
+      wsUrl: 'ws://localhost:2567',
+      httpUrl: 'http://localhost:2567',
+      internalUrl: 'http://10.0.0.2:2567'
+    });
+    expect(() => createRegion('eu', 'Europe', 'ftp://eu.defivalley.xyz')).toThrow('region "eu"');
+    expect(() => createRegion('eu', 'Europe', 'not a url')).toThrow('region "eu"');
+  });
+
+  test('should parse the region list and name regions without IDs', () => {
+    const regions = parseRegions(JSON.stringify([
+      { id: 'eu', name: 'Europe', url: 'wss://eu.defivalley.xyz' },
+      { url: 'ws://localhost:2567' }
+    ]));
+
+    expect(regions.map(region => [region.id, region.name, region.wsUrl])).toEqual([
+      ['eu', 'Europe', 'wss://eu.defivalley.xyz'],
+      ['region-2', 'region-2', 'ws://localhost:2567']
+    ]);
+  });
+
+  test('should reject invalid region lists', () => {
+    expect(() => parseRegions('{')).toThrow('not valid JSON');
+    expect(() => parseRegions('[]')).toThrow('non-empty list');
+    expect(() => parseRegions('[{"id":"eu"}]')).toThrow('Region 0 has no url');
+    expect(() => parseRegions('[{"url":"wss://a.xyz","internalUrl":42}]')).toThrow('invalid internalUrl');
+    expect(() => parseRegions('[{"id":"eu","url":"wss://a.xyz"},{"id":"eu","url":"wss://b.xyz"}]')).toThrow('used more than once');
+  });
+
+  test('should pin each world to the same home region whatever the order or casing', () => {
+    const worldIds = Array.from({ length: 50 }, (_, i) => `0x${i.toString(16).padStart(40, 'a')}`);
+    const homes = worldIds.map(worldId => getHomeRegion(worldId, [eu, us, asia]).id);
+
+    expect(worldIds.map(worldId => getHomeRegion(worldId, [asia, us, eu]).id)).toEqual(homes);
+    expect(worldIds.map(worldId => getHomeRegion(worldId.toUpperCase(), [eu, us, asia]).id)).toEqual(homes);
+    expect(new Set(homes)).toEqual(new Set(['eu', 'us', 'asia'])); // Spread over every region
+    expect(getHomeRegion(worldIds[0], [eu])).toBe(eu);
+    expect(() => getHomeRegion(worldIds[0], [])).toThrow('No game server regions');
+  });
+
+  test('should only move the worlds a new region takes over', () => {
+    const worldIds = Array.from({ length: 50 }, (_, i) => `world-${i}`);
+
+    for (const worldId of worldIds) {
+      const home = getHomeRegion(worldId, [eu, us, asia]);
+      expect([getHomeRegion(worldId, [eu, us]), asia]).toContain(home);
+    }
+  });
+
+  test('should rank regions by latency, unreachable ones last', async () => {
+    const latencies: Record<string, number> = { eu: 80, us: Infinity, asia: 20 };
+    const ranked = await rankRegions([eu, us, asia], async region => latencies[region.id]);
+
+    expect(ranked.map(region => region.id)).toEqual(['asia', 'eu', 'us']);
+  });
+
+  test('should treat failed probes as unreachable and not probe a single region', async () => {
+    const probed: string[] = [];
+    const measure = async (region: GameServerRegion) => {
+      probed.push(region.id);
+      if (region.id === 'eu') throw new Error('offline');
+      return 50;
+    };
+
+    expect((await rankRegions([eu, us], measure)).map(region => region.id)).toEqual(['us', 'eu']);
+    expect(await rankRegions([asia], measure)).toEqual([asia]);
+    expect(probed).toEqual(['eu', 'us']);
+  });
+
+  test('should fall back to the next region when one is unreachable', async () => {
+    const attempts: string[] = [];
+    const { region, result } = await connectToFirstRegion([eu, us, asia], async candidate => {
+      attempts.push(candidate.id);
+      if (candidate.id === 'eu') throw new Error('unreachable');
+      return `room on ${candidate.id}`;
+    });
+
+    expect(attempts).toEqual(['eu', 'us']);
+    expect(region).toBe(us);
+    expect(result).toBe('room on us');
+  });
+
+  test('should not try other regions after a final error, and report the last failure', async () => {
+    const refused = new Error('This farm is full');
+    const attempts: string[] = [];
+    const connect = async (candidate: GameServerRegion) => {
+      attempts.push(candidate.id);
+      throw candidate.id === 'us' ? refused : new Error(`${candidate.id} unreachable`);
+    };
+
+    await expect(connectToFirstRegion([eu, us, asia], connect, error => error === refused)).rejects.toBe(refused);
+    expect(attempts).toEqual(['eu', 'us']);
+
+    await expect(connectToFirstRegion([eu, asia], connect)).rejects.toThrow('asia unreachable');
+    await expect(connectToFirstRegion([], connect)).rejects.toThrow('No game server regions');
+  });
+});
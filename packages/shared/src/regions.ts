@@ -0,0 +1,164 @@
+/**
+ * Game server regions: reading the region list, ranking regions by latency and pinning each
+ * world to the one region that hosts it.
+ *
+ * Every region has its own database, rooms and presence, so a farm's room, settings and chat
+ * must always be reached through its home region, whichever region is nearest to the player.
+ */
+
+export interface GameServerRegion {
+  id: string;
+  name: string;
+  wsUrl: string;        // Colyseus client endpoint
+  httpUrl: string;      // Same server over http(s), for REST calls and latency probes
+  internalUrl?: string; // Where the web app's API routes reach the server, if not httpUrl
+}
+
+const REGION_URL = /^(wss?|https?):\/\/([^/?#\s]+)(\/[^?#\s]*)?$/i;
+
+function parseRegionUrl(id: string, url: string): { secure: boolean; base: string } {
+  const match = url.trim().match(REGION_URL);
+  if (!match) {
+    throw new Error(`Game server URL for region "${id}" must be a ws, wss, http or https URL: ${url}`);
+  }
+
+  const protocol = match[1].toLowerCase();
+  const path = (match[3] ?? '').replace(/\/$/, '');
+  return { secure: protocol === 'wss' || protocol === 'https', base: `${match[2]}${path}` };
+}
+
+/**
+ * Build a region from a ws(s):// or http(s):// URL (and optionally the URL the web app's
+ * API routes use to reach it, e.g. on a private network)
+ */
+export function createRegion(id: string, name: string, url: string, internalUrl?: string): GameServerRegion {
+  const { secure, base } = parseRegionUrl(id, url);
+  const region: GameServerRegion = {
+    id,
+    name,
+    wsUrl: `${secure ? 'wss' : 'ws'}://${base}`,
+    httpUrl: `${secure ? 'https' : 'http'}://${base}`
+  };
+
+  if (internalUrl !== undefined) {
+    const internal = parseRegionUrl(id, internalUrl);
+    region.internalUrl = `${internal.secure ? 'https' : 'http'}://${internal.base}`;
+  }
+  return region;
+}
+
+/**
+ * Parse a JSON list of regions, e.g.
+ * [{"id":"eu","name":"Europe","url":"wss://eu.defivalley.xyz","internalUrl":"http://10.0.0.2:2567"}]
+ * Throws if the list is invalid; region IDs must be unique, since worlds are pinned by them
+ */
+export function parseRegions(json: string): GameServerRegion[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch {
+    throw new Error('Region list is not valid JSON');
+  }
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('Region list must be a non-empty list');
+  }
+
+  const regions = entries.map((entry, index) => {
+    const { id, name, url, internalUrl } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof url !== 'string') {
+      throw new Error(`Region ${index} has no url`);
+    }
+    if (internalUrl !== undefined && typeof internalUrl !== 'string') {
+      throw new Error(`Region ${index} has an invalid internalUrl`);
+    }
+    const regionId = typeof id === 'string' && id ? id : `region-${index + 1}`;
+    return createRegion(regionId, typeof name === 'string' && name ? name : regionId, url, internalUrl);
+  });
+
+  const ids = new Set<string>();
+  for (const region of regions) {
+    if (ids.has(region.id)) {
+      throw new Error(`Region ID "${region.id}" is used more than once`);
+    }
+    ids.add(region.id);
+  }
+  return regions;
+}
+
+// 32-bit FNV-1a hash, stable across the server, the API routes and the browser
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * The region that hosts a world. Uses rendezvous hashing on the region IDs, so adding a region
+ * only moves the worlds it takes over and the order regions are listed in doesn't matter.
+ * World IDs are wallet addresses, so they are matched case-insensitively
+ */
+export function getHomeRegion(worldId: string, regions: GameServerRegion[]): GameServerRegion {
+  if (regions.length === 0) {
+    throw new Error('No game server regions are configured');
+  }
+
+  const key = worldId.toLowerCase();
+  let home = regions[0];
+  let bestScore = -1;
+  for (const region of regions) {
+    const score = hashString(`${region.id}:${key}`);
+    if (score > bestScore) {
+      home = region;
+      bestScore = score;
+    }
+  }
+  return home;
+}
+
+/**
+ * Regions ordered from lowest to highest latency (a single region is returned without probing).
+ * Regions that did not answer should measure as Infinity; ties keep the configured order
+ */
+export async function rankRegions(
+  regions: GameServerRegion[],
+  measureLatency: (region: GameServerRegion) => Promise<number>
+): Promise<GameServerRegion[]> {
+  if (regions.length <= 1) {
+    return regions;
+  }
+
+  const latencies = await Promise.all(regions.map(region => measureLatency(region).catch(() => Infinity)));
+  return regions
+    .map((region, index) => ({ region, index, latency: latencies[index] }))
+    .sort((a, b) => (a.latency === b.latency ? a.index - b.index : a.latency - b.latency))
+    .map(({ region }) => region);
+}
+
+/**
+ * Try each region in turn until one connects. Errors `isFinal` accepts (e.g. the server refused
+ * the join) are thrown straight away instead of trying the next region
+ */
+export async function connectToFirstRegion<T>(
+  regions: GameServerRegion[],
+  connect: (region: GameServerRegion) => Promise<T>,
+  isFinal: (error: unknown) => boolean = () => false
+): Promise<{ region: GameServerRegion; result: T }> {
+  let lastError: unknown = new Error('No game server regions are configured');
+
+  for (const region of regions) {
+    try {
+      return { region, result: await connect(region) };
+    } catch (error) {
+      if (isFinal(error)) {
+        throw error;
+      }
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
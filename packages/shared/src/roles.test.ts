@@ -0,0 +1,32 @@
+import { describe, test, expect } from 'vitest';
+import { hasPermission, isGrantableRole, isWalletPlayerId } from './roles';
+
+describe('World roles', () => {
+  test('should give helpers planting and harvesting but not owner powers', () => {
+    expect(hasPermission('helper', 'plant')).toBe(true);
+    expect(hasPermission('helper', 'harvest')).toBe(true);
+    expect(hasPermission('helper', 'water')).toBe(true);
+    expect(hasPermission('helper', 'manage_roles')).toBe(false);
+  });
+
+  test('should only let friends water', () => {
+    expect(hasPermission('friend', 'water')).toBe(true);
+    expect(hasPermission('friend', 'plant')).toBe(false);
+    expect(hasPermission('visitor', 'water')).toBe(false);
+  });
+
+  test('should only allow granting helper and friend', () => {
+    expect(isGrantableRole('helper')).toBe(true);
+    expect(isGrantableRole('friend')).toBe(true);
+    expect(isGrantableRole('owner')).toBe(false);
+    expect(isGrantableRole('visitor')).toBe(false);
+  });
+
+  test('should only treat wallet addresses as grantable player IDs', () => {
+    expect(isWalletPlayerId('0x52908400098527886E0F7030069857D2E4169EE7')).toBe(true);
+    expect(isWalletPlayerId('0x52908400098527886e0f7030069857d2e4169ee7')).toBe(true);
+    expect(isWalletPlayerId('3f2a9c1b7d4e6f80')).toBe(false); // Guest session hash
+    expect(isWalletPlayerId('guest_abc123')).toBe(false);
+    expect(isWalletPlayerId(undefined)).toBe(false);
+  });
+});
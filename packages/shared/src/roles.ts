@@ -0,0 +1,39 @@
+/**
+ * Farm roles the world owner can grant to other players, and what each role may do.
+ */
+
+export type WorldRole = 'owner' | 'helper' | 'friend' | 'visitor';
+
+// Roles the owner can grant; 'owner' is implied by owning the world and 'visitor' is the default
+export type GrantableRole = 'helper' | 'friend';
+
+export type WorldPermission =
+  | 'plant'          // Plant seeds with their own funds
+  | 'harvest'
+  | 'water'
+  | 'moderate_chat'
+  | 'manage_roles'
+  | 'edit_terrain'
+  | 'edit_buildings'; // Move buildings and save the farm's layout
+
+export const ROLE_PERMISSIONS: Record<WorldRole, WorldPermission[]> = {
+  owner: ['plant', 'harvest', 'water', 'moderate_chat', 'manage_roles', 'edit_terrain', 'edit_buildings'],
+  helper: ['plant', 'harvest', 'water'],
+  friend: ['water'],
+  visitor: []
+};
+
+export const GRANTABLE_ROLES: GrantableRole[] = ['helper', 'friend'];
+
+export function isGrantableRole(value: unknown): value is GrantableRole {
+  return typeof value === 'string' && (GRANTABLE_ROLES as string[]).includes(value);
+}
+
+// Roles can only be granted to wallet players; guests get a new session-derived ID every visit
+export function isWalletPlayerId(playerId: unknown): playerId is string {
+  return typeof playerId === 'string' && /^0x[0-9a-fA-F]{40}$/.test(playerId);
+}
+
+export function hasPermission(role: WorldRole, permission: WorldPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
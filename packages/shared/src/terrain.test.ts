@@ -0,0 +1,92 @@
+import { describe, test, expect } from 'vitest';
+import { CollisionGrid } from './collision';
+import {
+  EncodedTerrain,
+  TERRAIN_HEIGHT,
+  TERRAIN_WIDTH,
+  applyTerrainEdits,
+  createDefaultTerrain,
+  decodeTerrain,
+  diffTerrain,
+  encodeTerrain,
+  isValidTerrainEdit,
+  terrainTileHasCollision,
+  updateTerrainCollision
+} from './terrain';
+
+describe('Terrain', () => {
+  test('should cover the whole world with default grass', () => {
+    const layout = createDefaultTerrain();
+    expect(layout).toHaveLength(TERRAIN_HEIGHT);
+    expect(layout[0]).toHaveLength(TERRAIN_WIDTH);
+    expect(layout.flat().every(tile => tile === 'grass_main')).toBe(true);
+  });
+
+  test('should encode terrain compactly and decode it unchanged', () => {
+    const layout = createDefaultTerrain(6, 3);
+    layout[1][2] = 'cliff_round';
+    layout[1][3] = 'cliff_round';
+    layout[2][5] = 'rocks_dark';
+
+    const encoded = encodeTerrain(layout);
+    expect(encoded.palette).toEqual(['grass_main', 'cliff_round', 'rocks_dark']);
+    expect(encoded.runs).toEqual([0, 8, 1, 2, 0, 7, 2, 1]);
+    expect(decodeTerrain(encoded)).toEqual(layout);
+
+    expect(encodeTerrain(createDefaultTerrain()).runs).toEqual([0, TERRAIN_WIDTH * TERRAIN_HEIGHT]);
+  });
+
+  test('should reject malformed encoded terrain', () => {
+    const valid: EncodedTerrain = { width: 2, height: 2, palette: ['grass_main'], runs: [0, 4] };
+    expect(() => decodeTerrain({ ...valid, runs: [0, 3] })).toThrow('expected 4');
+    expect(() => decodeTerrain({ ...valid, runs: [0, 5] })).toThrow('invalid length');
+    expect(() => decodeTerrain({ ...valid, runs: [1, 4] })).toThrow('palette index');
+    expect(() => decodeTerrain({ ...valid, runs: [0] })).toThrow('pairs');
+    expect(() => decodeTerrain({ ...valid, palette: ['lava' as any] })).toThrow('known tile types');
+    expect(() => decodeTerrain({ ...valid, width: 0 })).toThrow('positive');
+  });
+
+  test('should apply edits in place and report only the tiles that changed', () => {
+    const layout = createDefaultTerrain(3, 3);
+    const changed = applyTerrainEdits(layout, [
+      { x: 1, y: 1, tile: 'cliff_large' },
+      { x: 0, y: 0, tile: 'grass_main' }
+    ]);
+
+    expect(changed).toEqual([{ x: 1, y: 1, tile: 'cliff_large' }]);
+    expect(layout[1][1]).toBe('cliff_large');
+    expect(diffTerrain(createDefaultTerrain(3, 3), layout)).toEqual(changed);
+  });
+
+  test('should validate edits against the terrain bounds and known tiles', () => {
+    expect(isValidTerrainEdit({ x: 0, y: 0, tile: 'ladder' })).toBe(true);
+    expect(isValidTerrainEdit({ x: TERRAIN_WIDTH, y: 0, tile: 'ladder' })).toBe(false);
+    expect(isValidTerrainEdit({ x: 1.5, y: 0, tile: 'ladder' })).toBe(false);
+    expect(isValidTerrainEdit({ x: 0, y: 0, tile: 'lava' })).toBe(false);
+    expect(isValidTerrainEdit(null)).toBe(false);
+  });
+
+  test('should only treat cliffs as solid', () => {
+    expect(terrainTileHasCollision('cliff_thin')).toBe(true);
+    expect(terrainTileHasCollision('grass_cliff_left')).toBe(false);
+    expect(terrainTileHasCollision('ladder')).toBe(false);
+  });
+
+  test('should update edited tiles in a collision grid while keeping obstacles solid', () => {
+    const grid = new CollisionGrid(320, 320, 32);
+    const building = { x: 64, y: 64, width: 40, height: 40 }; // Tiles 2-3
+    grid.markRect(building);
+
+    updateTerrainCollision(grid, [
+      { x: 0, y: 0, tile: 'cliff_small' },
+      { x: 2, y: 2, tile: 'grass_pure' },
+      { x: 5, y: 5, tile: 'grass_main' }
+    ], [building]);
+    expect(grid.isSolid(0, 0)).toBe(true);
+    expect(grid.isSolid(2, 2)).toBe(true);
+    expect(grid.isSolid(5, 5)).toBe(false);
+
+    updateTerrainCollision(grid, [{ x: 0, y: 0, tile: 'ladder' }]);
+    expect(grid.isSolid(0, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import { Rect, WORLD_CONFIG } from './world';
+import { CollisionGrid } from './collision';
+
+/**
+ * Per-farm terrain: one tile type per collision tile, saved on the server and sent
+ * to clients run-length encoded. Only the owner edits it, as lists of changed tiles.
+ */
+
+export const TERRAIN_TILE_TYPES = [
+  'grass_main',
+  'grass_pure',
+  'grass_with_cliff_base',
+  'grass_cliff_left',
+  'grass_cliff_right',
+  'grass_cliff_bottom',
+  'cliff_tall_1',
+  'cliff_tall_2',
+  'cliff_round',
+  'cliff_large',
+  'cliff_small',
+  'cliff_thin',
+  'ladder',
+  'sticks',
+  'rocks_brown',
+  'rocks_dark'
+] as const;
+
+export type TerrainTileType = typeof TERRAIN_TILE_TYPES[number];
+
+// Tiles players cannot walk through (the client's tileset config marks the same tiles)
+export const SOLID_TERRAIN_TILES: TerrainTileType[] = [
+  'cliff_tall_1',
+  'cliff_tall_2',
+  'cliff_round',
+  'cliff_large',
+  'cliff_small',
+  'cliff_thin'
+];
+
+// Farms start as plain grass, which the background already shows
+export const DEFAULT_TERRAIN_TILE: TerrainTileType = 'grass_main';
+
+export const TERRAIN_WIDTH = Math.ceil(WORLD_CONFIG.width / WORLD_CONFIG.tileSize);
+export const TERRAIN_HEIGHT = Math.ceil(WORLD_CONFIG.height / WORLD_CONFIG.tileSize);
+
+// Most tiles a single edit may change: the whole farm, so an editor save is always one message
+export const MAX_TERRAIN_EDITS = TERRAIN_WIDTH * TERRAIN_HEIGHT;
+
+// Rows of tile types, indexed [y][x]
+export type TerrainLayout = string[][];
+
+export interface TerrainTileEdit {
+  x: number;
+  y: number;
+  tile: TerrainTileType;
+}
+
+// Rows joined end to end; `runs` alternates an index into `palette` with how many tiles in a row use it
+export interface EncodedTerrain {
+  width: number;
+  height: number;
+  palette: TerrainTileType[];
+  runs: number[];
+}
+
+export function isTerrainTileType(value: unknown): value is TerrainTileType {
+  return typeof value === 'string' && (TERRAIN_TILE_TYPES as readonly string[]).includes(value);
+}
+
+export function terrainTileHasCollision(tile: string): boolean {
+  return (SOLID_TERRAIN_TILES as string[]).includes(tile);
+}
+
+export function createDefaultTerrain(width: number = TERRAIN_WIDTH, height: number = TERRAIN_HEIGHT): TerrainLayout {
+  return Array.from({ length: height }, () => new Array<string>(width).fill(DEFAULT_TERRAIN_TILE));
+}
+
+export function encodeTerrain(layout: TerrainLayout): EncodedTerrain {
+  const palette: TerrainTileType[] = [];
+  const runs: number[] = [];
+
+  for (const row of layout) {
+    for (const tile of row) {
+      let index = palette.indexOf(tile as TerrainTileType);
+      if (index === -1) {
+        index = palette.push(tile as TerrainTileType) - 1;
+      }
+
+      if (runs.length > 0 && runs[runs.length - 2] === index) {
+        runs[runs.length - 1]++;
+      } else {
+        runs.push(index, 1);
+      }
+    }
+  }
+
+  return { width: layout[0]?.length ?? 0, height: layout.length, palette, runs };
+}
+
+/**
+ * Expand an encoded terrain, throwing if it is malformed or uses unknown tiles
+ */
+export function decodeTerrain(encoded: EncodedTerrain): TerrainLayout {
+  const { width, height, palette, runs } = encoded ?? ({} as EncodedTerrain);
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error('Terrain must have a positive whole width and height');
+  }
+  if (!Array.isArray(palette) || !palette.every(isTerrainTileType)) {
+    throw new Error('Terrain palette must only contain known tile types');
+  }
+  if (!Array.isArray(runs) || runs.length % 2 !== 0) {
+    throw new Error('Terrain runs must be pairs of palette index and length');
+  }
+
+  const tiles: string[] = [];
+  for (let i = 0; i < runs.length; i += 2) {
+    const [index, length] = [runs[i], runs[i + 1]];
+    if (!Number.isInteger(index) || index < 0 || index >= palette.length) {
+      throw new Error(`Terrain run ${i / 2} uses palette index ${index}, which does not exist`);
+    }
+    if (!Number.isInteger(length) || length <= 0 || tiles.length + length > width * height) {
+      throw new Error(`Terrain run ${i / 2} has an invalid length of ${length}`);
+    }
+    for (let n = 0; n < length; n++) {
+      tiles.push(palette[index]);
+    }
+  }
+
+  if (tiles.length !== width * height) {
+    throw new Error(`Terrain has ${tiles.length} tiles, expected ${width * height}`);
+  }
+
+  return Array.from({ length: height }, (_, y) => tiles.slice(y * width, (y + 1) * width));
+}
+
+export function isValidTerrainEdit(edit: unknown, width: number = TERRAIN_WIDTH, height: number = TERRAIN_HEIGHT): edit is TerrainTileEdit {
+  const { x, y, tile } = (edit ?? {}) as Record<string, unknown>;
+  return Number.isInteger(x) && Number.isInteger(y) &&
+    (x as number) >= 0 && (x as number) < width &&
+    (y as number) >= 0 && (y as number) < height &&
+    isTerrainTileType(tile);
+}
+
+/**
+ * Apply edits to a layout in place, returning the ones that changed a tile
+ */
+export function applyTerrainEdits(layout: TerrainLayout, edits: TerrainTileEdit[]): TerrainTileEdit[] {
+  const changed: TerrainTileEdit[] = [];
+  for (const edit of edits) {
+    const row = layout[edit.y];
+    if (!row || edit.x < 0 || edit.x >= row.length || row[edit.x] === edit.tile) continue;
+
+    row[edit.x] = edit.tile;
+    changed.push(edit);
+  }
+  return changed;
+}
+
+/**
+ * Tiles that differ between two layouts of the same size, as edits that turn `before` into `after`
+ */
+export function diffTerrain(before: TerrainLayout, after: TerrainLayout): TerrainTileEdit[] {
+  const edits: TerrainTileEdit[] = [];
+  for (let y = 0; y < after.length; y++) {
+    for (let x = 0; x < after[y].length; x++) {
+      if (before[y]?.[x] !== after[y][x]) {
+        edits.push({ x, y, tile: after[y][x] as TerrainTileType });
+      }
+    }
+  }
+  return edits;
+}
+
+/**
+ * Recompute the collision of edited tiles without rebuilding the grid. Tiles still
+ * covered by another obstacle (e.g. a building) stay solid.
+ */
+export function updateTerrainCollision(
+  grid: CollisionGrid,
+  edits: TerrainTileEdit[],
+  obstacles: Rect[] = [],
+  hasCollision: (tile: string) => boolean = terrainTileHasCollision
+): void {
+  for (const { x, y, tile } of edits) {
+    const solid = hasCollision(tile) || obstacles.some(rect => grid.rectCoversTile(rect, x, y));
+    grid.setSolid(x, y, solid);
+  }
+}
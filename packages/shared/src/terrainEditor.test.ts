@@ -0,0 +1,112 @@
+import { describe, test, expect } from 'vitest';
+import { createDefaultTerrain } from './terrain';
+import { TilemapEditor } from './terrainEditor';
+
+describe('Terrain editor', () => {
+  test('should undo and redo recorded steps', () => {
+    const layout = createDefaultTerrain(5, 5);
+    const editor = new TilemapEditor();
+
+    editor.record(TilemapEditor.fillRect(layout, 0, 0, 1, 1, 'rocks_dark'));
+    editor.record(TilemapEditor.paintBrush(layout, 1, 1, 1, 'ladder'));
+    expect(layout[1][1]).toBe('ladder');
+
+    expect(editor.undo(layout)).toEqual([expect.objectContaining({ x: 1, y: 1, oldTileType: 'ladder', newTileType: 'rocks_dark' })]);
+    expect(editor.undo(layout)).toHaveLength(4);
+    expect(layout).toEqual(createDefaultTerrain(5, 5));
+    expect(editor.canUndo).toBe(false);
+    expect(editor.undo(layout)).toEqual([]);
+
+    expect(editor.redo(layout)).toHaveLength(4);
+    expect(layout[0][0]).toBe('rocks_dark');
+    expect(layout[1][1]).toBe('rocks_dark');
+    expect(editor.canRedo).toBe(true);
+  });
+
+  test('should drop the redo history and skip empty steps when recording', () => {
+    const layout = createDefaultTerrain(3, 3);
+    const editor = new TilemapEditor();
+
+    editor.record(TilemapEditor.paintBrush(layout, 0, 0, 1, 'sticks'));
+    editor.undo(layout);
+    editor.record([]);
+    expect(editor.canRedo).toBe(true);
+
+    editor.record(TilemapEditor.paintBrush(layout, 2, 2, 1, 'sticks'));
+    expect(editor.canRedo).toBe(false);
+    expect(editor.redo(layout)).toEqual([]);
+  });
+
+  test('should leave tiles changed since a step alone when undoing it', () => {
+    const layout = createDefaultTerrain(3, 1);
+    const editor = new TilemapEditor();
+
+    editor.record(TilemapEditor.fillRect(layout, 0, 0, 2, 0, 'rocks_brown'));
+    layout[0][1] = 'ladder'; // e.g. changed by the server since
+
+    expect(editor.undo(layout)).toHaveLength(2);
+    expect(layout[0]).toEqual(['grass_main', 'ladder', 'grass_main']);
+  });
+
+  test('should fill rectangles from either corner, clipped to the farm', () => {
+    const layout = createDefaultTerrain(4, 4);
+
+    const edits = TilemapEditor.fillRect(layout, 5, 3, 2, 2, 'rocks_dark');
+
+    expect(edits.map(({ x, y }) => [x, y])).toEqual([[2, 2], [3, 2], [2, 3], [3, 3]]);
+    expect(TilemapEditor.fillRect(layout, 2, 2, 3, 3, 'rocks_dark')).toEqual([]); // Already that tile
+    expect(TilemapEditor.fillRect(layout, 0, 0, 1, 1, 'lava')).toEqual([]);
+  });
+
+  test('should flood fill only the connected area', () => {
+    const layout = createDefaultTerrain(5, 3);
+    TilemapEditor.fillRect(layout, 2, 0, 2, 2, 'cliff_small'); // A wall down the middle column
+
+    const edits = TilemapEditor.floodFill(layout, 0, 1, 'grass_pure');
+
+    expect(edits).toHaveLength(6);
+    expect(layout.map(row => row.join(' '))).toEqual([
+      'grass_pure grass_pure cliff_small grass_main grass_main',
+      'grass_pure grass_pure cliff_small grass_main grass_main',
+      'grass_pure grass_pure cliff_small grass_main grass_main'
+    ]);
+    expect(TilemapEditor.floodFill(layout, 9, 9, 'ladder')).toEqual([]);
+  });
+
+  test('should auto-tile grass next to new cliffs only around the edits', () => {
+    const layout = createDefaultTerrain(7, 3);
+    layout[1][6] = 'cliff_round'; // An older cliff away from the edit keeps its grass
+
+    const edits = TilemapEditor.paintBrush(layout, 1, 1, 1, 'cliff_small');
+    const autoTiled = TilemapEditor.autoTileCliffs(layout, edits);
+
+    expect(autoTiled.map(({ x, y }) => [x, y]).sort()).toEqual([[0, 1], [1, 0], [1, 2], [2, 1]]);
+    expect(autoTiled.every(edit => edit.newTileType === 'grass_with_cliff_base')).toBe(true);
+    expect(layout[1][5]).toBe('grass_main');
+    expect(TilemapEditor.autoTileCliffs(layout, TilemapEditor.paintBrush(layout, 4, 0, 1, 'ladder'))).toEqual([]);
+  });
+
+  test('should return what single tile edits and islands changed', () => {
+    const layout = createDefaultTerrain(9, 9);
+
+    expect(TilemapEditor.editTile(layout, 1, 1, 'ladder').edits).toEqual([
+      expect.objectContaining({ x: 1, y: 1, oldTileType: 'grass_main', newTileType: 'ladder' })
+    ]);
+    expect(TilemapEditor.editTile(layout, 9, 0, 'ladder')).toEqual(expect.objectContaining({ success: false, edits: [] }));
+    expect(TilemapEditor.editTile(layout, 0, 0, 'lava')).toEqual(expect.objectContaining({ success: false, edits: [] }));
+
+    const island = TilemapEditor.createIsland(layout, 4, 4, 2, 'cliff_round', 'grass_with_cliff_base');
+    expect(island.tilesChanged).toBe(13);
+    expect(island.edits.filter(edit => edit.newTileType === 'cliff_round')).toHaveLength(5);
+    expect(TilemapEditor.createIsland(layout, 4, 4, 2, 'cliff_round', 'grass_with_cliff_base').edits).toEqual([]);
+  });
+
+  test('should turn tile edits into editor edits and back', () => {
+    const layout = createDefaultTerrain(2, 2);
+
+    const edits = TilemapEditor.applyTileEdits(layout, [{ x: 0, y: 1, tile: 'rocks_brown' }, { x: 1, y: 1, tile: 'grass_main' }]);
+
+    expect(edits).toEqual([expect.objectContaining({ x: 0, y: 1, oldTileType: 'grass_main', newTileType: 'rocks_brown' })]);
+    expect(TilemapEditor.toTileEdits(edits)).toEqual([{ x: 0, y: 1, tile: 'rocks_brown' }]);
+  });
+});
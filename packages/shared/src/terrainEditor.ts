@@ -0,0 +1,553 @@
+import { TerrainTileEdit, TerrainTileType, isTerrainTileType, terrainTileHasCollision } from './terrain';
+
+/**
+ * Terrain editor: the owner's editing tools and their undo history. Every tool changes the
+ * layout in place and returns what it changed, so the edits can be shown, undone and saved.
+ */
+
+export interface TerrainEdit {
+  x: number;
+  y: number;
+  oldTileType: string;
+  newTileType: string;
+  timestamp: number;
+}
+
+export type TerrainTool = 'brush' | 'rect' | 'fill';
+
+export const TERRAIN_BRUSH_SIZES = [1, 3, 5] as const;
+
+// Grass that auto-tiling turns into a cliff base when a cliff is painted next to it
+const AUTO_TILE_GRASS = ['grass_main', 'grass_pure'];
+const AUTO_TILE_TRANSITION = 'grass_with_cliff_base';
+
+export class TilemapEditor {
+  private editHistory: TerrainEdit[][] = []; // One entry per undoable step (a brush stroke, fill, ...)
+  private redoHistory: TerrainEdit[][] = [];
+  private maxHistorySize = 50;
+
+  /**
+   * Record edits already applied to the layout as one undoable step
+   */
+  record(edits: TerrainEdit[]): void {
+    if (edits.length === 0) return;
+
+    this.editHistory.push(edits);
+    if (this.editHistory.length > this.maxHistorySize) {
+      this.editHistory.shift();
+    }
+    this.redoHistory = [];
+  }
+
+  /**
+   * Revert the last step. Tiles changed since (e.g. by another editor) are left alone.
+   * Returns the edits made to the layout
+   */
+  undo(terrainLayout: string[][]): TerrainEdit[] {
+    const step = this.editHistory.pop();
+    if (!step) return [];
+
+    this.redoHistory.push(step);
+    return TilemapEditor.revertEdits(terrainLayout, step, 'undo');
+  }
+
+  /**
+   * Re-apply the last undone step. Returns the edits made to the layout
+   */
+  redo(terrainLayout: string[][]): TerrainEdit[] {
+    const step = this.redoHistory.pop();
+    if (!step) return [];
+
+    this.editHistory.push(step);
+    return TilemapEditor.revertEdits(terrainLayout, step, 'redo');
+  }
+
+  get canUndo(): boolean {
+    return this.editHistory.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoHistory.length > 0;
+  }
+
+  clearHistory(): void {
+    this.editHistory = [];
+    this.redoHistory = [];
+  }
+
+  /**
+   * Editor edits as the tile edits sent to the server
+   */
+  static toTileEdits(edits: TerrainEdit[]): TerrainTileEdit[] {
+    return edits.map(({ x, y, newTileType }) => ({ x, y, tile: newTileType as TerrainTileType }));
+  }
+
+  /**
+   * Apply tile edits (e.g. the difference to an imported map) as editor edits
+   */
+  static applyTileEdits(terrainLayout: string[][], tileEdits: TerrainTileEdit[]): TerrainEdit[] {
+    return tileEdits.flatMap(({ x, y, tile }) => this.setTiles(terrainLayout, [{ x, y }], tile));
+  }
+
+  private static revertEdits(terrainLayout: string[][], step: TerrainEdit[], direction: 'undo' | 'redo'): TerrainEdit[] {
+    const edits: TerrainEdit[] = [];
+    const ordered = direction === 'undo' ? [...step].reverse() : step;
+
+    for (const edit of ordered) {
+      const [from, to] = direction === 'undo'
+        ? [edit.newTileType, edit.oldTileType]
+        : [edit.oldTileType, edit.newTileType];
+      if (terrainLayout[edit.y]?.[edit.x] !== from) continue;
+
+      terrainLayout[edit.y][edit.x] = to;
+      edits.push({ x: edit.x, y: edit.y, oldTileType: from, newTileType: to, timestamp: Date.now() });
+    }
+    return edits;
+  }
+
+  /**
+   * Set tiles, skipping positions out of bounds or already of that type. Returns what changed
+   */
+  private static setTiles(terrainLayout: string[][], positions: { x: number; y: number }[], tileType: string): TerrainEdit[] {
+    const edits: TerrainEdit[] = [];
+    const timestamp = Date.now();
+
+    for (const { x, y } of positions) {
+      const oldTileType = terrainLayout[y]?.[x];
+      if (oldTileType === undefined || oldTileType === tileType) continue;
+
+      terrainLayout[y][x] = tileType;
+      edits.push({ x, y, oldTileType, newTileType: tileType, timestamp });
+    }
+    return edits;
+  }
+
+  /**
+   * Paint a square brush of `size` tiles centred on a tile
+   */
+  static paintBrush(
+    terrainLayout: string[][],
+    centerX: number,
+    centerY: number,
+    size: number,
+    tileType: string
+  ): TerrainEdit[] {
+    if (!isTerrainTileType(tileType)) return [];
+
+    const start = -Math.floor((size - 1) / 2);
+    const positions: { x: number; y: number }[] = [];
+    for (let dy = start; dy < start + size; dy++) {
+      for (let dx = start; dx < start + size; dx++) {
+        positions.push({ x: centerX + dx, y: centerY + dy });
+      }
+    }
+    return this.setTiles(terrainLayout, positions, tileType);
+  }
+
+  /**
+   * Fill the rectangle between two corner tiles
+   */
+  static fillRect(
+    terrainLayout: string[][],
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    tileType: string
+  ): TerrainEdit[] {
+    if (!isTerrainTileType(tileType)) return [];
+
+    const positions: { x: number; y: number }[] = [];
+    for (let y = Math.min(startY, endY); y <= Math.max(startY, endY); y++) {
+      for (let x = Math.min(startX, endX); x <= Math.max(startX, endX); x++) {
+        positions.push({ x, y });
+      }
+    }
+    return this.setTiles(terrainLayout, positions, tileType);
+  }
+
+  /**
+   * Replace the connected area of same-type tiles around a tile (4-way neighbours)
+   */
+  static floodFill(
+    terrainLayout: string[][],
+    startX: number,
+    startY: number,
+    tileType: string
+  ): TerrainEdit[] {
+    const targetType = terrainLayout[startY]?.[startX];
+    if (!isTerrainTileType(tileType) || targetType === undefined || targetType === tileType) {
+      return [];
+    }
+
+    const positions: { x: number; y: number }[] = [];
+    const visited = new Set<string>();
+    const queue = [{ x: startX, y: startY }];
+    while (queue.length > 0) {
+      const { x, y } = queue.pop()!;
+      const key = `${x},${y}`;
+      if (visited.has(key) || terrainLayout[y]?.[x] !== targetType) continue;
+
+      visited.add(key);
+      positions.push({ x, y });
+      queue.push({ x: x - 1, y }, { x: x + 1, y }, { x, y: y - 1 }, { x, y: y + 1 });
+    }
+    return this.setTiles(terrainLayout, positions, tileType);
+  }
+
+  /**
+   * Turn grass next to newly painted cliffs into cliff-base transitions (createTransition),
+   * only around the edits so the rest of the farm keeps its tiles
+   */
+  static autoTileCliffs(terrainLayout: string[][], edits: TerrainEdit[]): TerrainEdit[] {
+    // Cliffs are the solid tiles
+    const cliffTypes = Array.from(new Set(edits.map(edit => edit.newTileType).filter(terrainTileHasCollision)));
+    if (cliffTypes.length === 0) return [];
+
+    const minX = Math.max(0, Math.min(...edits.map(edit => edit.x)) - 1);
+    const maxX = Math.min(terrainLayout[0].length - 1, Math.max(...edits.map(edit => edit.x)) + 1);
+    const minY = Math.max(0, Math.min(...edits.map(edit => edit.y)) - 1);
+    const maxY = Math.min(terrainLayout.length - 1, Math.max(...edits.map(edit => edit.y)) + 1);
+
+    // Run the transitions on a copy of the area, then write back what they changed
+    const area = terrainLayout.slice(minY, maxY + 1).map(row => row.slice(minX, maxX + 1));
+    for (const cliffType of cliffTypes) {
+      for (const grassType of AUTO_TILE_GRASS) {
+        this.createTransition(area, grassType, cliffType, AUTO_TILE_TRANSITION);
+      }
+    }
+
+    const positions: { x: number; y: number }[] = [];
+    area.forEach((row, y) => row.forEach((tileType, x) => {
+      if (terrainLayout[minY + y][minX + x] !== tileType) {
+        positions.push({ x: minX + x, y: minY + y });
+      }
+    }));
+    return this.setTiles(terrainLayout, positions, AUTO_TILE_TRANSITION);
+  }
+
+  /**
+   * Edit a single tile in the terrain layout
+   */
+  static editTile(
+    terrainLayout: string[][],
+    tileX: number,
+    tileY: number,
+    newTileType: string
+  ): { success: boolean; oldTileType?: string; edits: TerrainEdit[]; error?: string } {
+    // Validate bounds
+    if (tileY < 0 || tileY >= terrainLayout.length || 
+        tileX < 0 || tileX >= terrainLayout[0].length) {
+      return {
+        success: false,
+        edits: [],
+        error: `Tile position (${tileX}, ${tileY}) is out of bounds`
+      };
+    }
+
+    // Validate tile type
+    if (!isTerrainTileType(newTileType)) {
+      return {
+        success: false,
+        edits: [],
+        error: `Unknown tile type: ${newTileType}`
+      };
+    }
+
+    const oldTileType = terrainLayout[tileY][tileX];
+    return {
+      success: true,
+      oldTileType,
+      edits: this.setTiles(terrainLayout, [{ x: tileX, y: tileY }], newTileType)
+    };
+  }
+
+  /**
+   * Paint an area with a specific tile type
+   */
+  static paintArea(
+    terrainLayout: string[][],
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    tileType: string
+  ): { success: boolean; editCount?: number; error?: string } {
+    // Validate tile type
+    if (!isTerrainTileType(tileType)) {
+      return {
+        success: false,
+        error: `Unknown tile type: ${tileType}`
+      };
+    }
+
+    let editCount = 0;
+    const minX = Math.max(0, Math.min(startX, endX));
+    const maxX = Math.min(terrainLayout[0].length - 1, Math.max(startX, endX));
+    const minY = Math.max(0, Math.min(startY, endY));
+    const maxY = Math.min(terrainLayout.length - 1, Math.max(startY, endY));
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        if (terrainLayout[y][x] !== tileType) {
+          terrainLayout[y][x] = tileType;
+          editCount++;
+        }
+      }
+    }
+
+    return {
+      success: true,
+      editCount
+    };
+  }
+
+  /**
+   * Create a smooth transition between two tile types
+   */
+  static createTransition(
+    terrainLayout: string[][],
+    fromTileType: string,
+    toTileType: string,
+    transitionTileType: string
+  ): { success: boolean; transitionCount?: number; error?: string } {
+    if (!isTerrainTileType(transitionTileType)) {
+      return {
+        success: false,
+        error: `Unknown transition tile type: ${transitionTileType}`
+      };
+    }
+
+    let transitionCount = 0;
+
+    for (let y = 0; y < terrainLayout.length; y++) {
+      for (let x = 0; x < terrainLayout[y].length; x++) {
+        if (terrainLayout[y][x] === fromTileType) {
+          // Check adjacent tiles for the target type
+          const adjacent = [
+            { dx: -1, dy: 0 }, { dx: 1, dy: 0 },
+            { dx: 0, dy: -1 }, { dx: 0, dy: 1 }
+          ];
+
+          const hasAdjacentTarget = adjacent.some(({ dx, dy }) => {
+            const newX = x + dx;
+            const newY = y + dy;
+            return newX >= 0 && newX < terrainLayout[0].length &&
+                   newY >= 0 && newY < terrainLayout.length &&
+                   terrainLayout[newY][newX] === toTileType;
+          });
+
+          if (hasAdjacentTarget) {
+            terrainLayout[y][x] = transitionTileType;
+            transitionCount++;
+          }
+        }
+      }
+    }
+
+    return {
+      success: true,
+      transitionCount
+    };
+  }
+
+  /**
+   * Generate a natural island formation
+   */
+  static createIsland(
+    terrainLayout: string[][],
+    centerX: number,
+    centerY: number,
+    radius: number,
+    coreTileType: string,
+    edgeTileType: string
+  ): { success: boolean; tilesChanged?: number; edits: TerrainEdit[]; error?: string } {
+    if (!isTerrainTileType(coreTileType) || !isTerrainTileType(edgeTileType)) {
+      return {
+        success: false,
+        edits: [],
+        error: 'Unknown tile types'
+      };
+    }
+
+    const core: { x: number; y: number }[] = [];
+    const edge: { x: number; y: number }[] = [];
+
+    for (let y = 0; y < terrainLayout.length; y++) {
+      for (let x = 0; x < terrainLayout[y].length; x++) {
+        const distance = Math.sqrt(
+          Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2)
+        );
+
+        if (distance <= radius) {
+          // Core area, then the edge around it
+          (distance <= radius * 0.6 ? core : edge).push({ x, y });
+        }
+      }
+    }
+
+    const edits = this.setTiles(terrainLayout, core, coreTileType).concat(this.setTiles(terrainLayout, edge, edgeTileType));
+    return {
+      success: true,
+      tilesChanged: edits.length,
+      edits
+    };
+  }
+
+  /**
+   * Validate terrain layout for logical consistency
+   */
+  static validateTerrain(terrainLayout: string[][]): {
+    isValid: boolean;
+    errors: string[];
+    warnings: string[];
+  } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (let y = 0; y < terrainLayout.length; y++) {
+      for (let x = 0; x < terrainLayout[y].length; x++) {
+        const tileType = terrainLayout[y][x];
+
+        // Check if tile type exists
+        if (!isTerrainTileType(tileType)) {
+          errors.push(`Unknown tile type '${tileType}' at (${x}, ${y})`);
+          continue;
+        }
+
+        // Check for floating cliff tiles
+        if (tileType.includes('cliff')) {
+          const isSupported = this.checkCliffSupport(terrainLayout, x, y);
+          if (!isSupported) {
+            warnings.push(`Unsupported cliff tile at (${x}, ${y})`);
+          }
+        }
+
+        // Check for isolated tiles
+        if (this.isIsolatedTile(terrainLayout, x, y, tileType)) {
+          warnings.push(`Isolated ${tileType} tile at (${x}, ${y})`);
+        }
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  /**
+   * Check if a cliff tile has proper support
+   */
+  private static checkCliffSupport(
+    terrainLayout: string[][],
+    x: number,
+    y: number
+  ): boolean {
+    const adjacent = [
+      { dx: 0, dy: 1 },  // Below
+      { dx: -1, dy: 0 }, // Left
+      { dx: 1, dy: 0 },  // Right
+    ];
+
+    return adjacent.some(({ dx, dy }) => {
+      const newX = x + dx;
+      const newY = y + dy;
+      if (newX >= 0 && newX < terrainLayout[0].length &&
+          newY >= 0 && newY < terrainLayout.length) {
+        const adjacentTile = terrainLayout[newY][newX];
+        return adjacentTile.includes('cliff') || adjacentTile.includes('transition');
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Check if a tile is isolated (no similar neighbors)
+   */
+  private static isIsolatedTile(
+    terrainLayout: string[][],
+    x: number,
+    y: number,
+    tileType: string
+  ): boolean {
+    const neighbors = [
+      { dx: -1, dy: -1 }, { dx: 0, dy: -1 }, { dx: 1, dy: -1 },
+      { dx: -1, dy: 0 },                     { dx: 1, dy: 0 },
+      { dx: -1, dy: 1 },  { dx: 0, dy: 1 },  { dx: 1, dy: 1 }
+    ];
+
+    const similarNeighbors = neighbors.filter(({ dx, dy }) => {
+      const newX = x + dx;
+      const newY = y + dy;
+      if (newX >= 0 && newX < terrainLayout[0].length &&
+          newY >= 0 && newY < terrainLayout.length) {
+        const neighborTile = terrainLayout[newY][newX];
+        // Consider tiles similar if they're the same type or compatible types
+        return neighborTile === tileType ||
+               (tileType.includes('cliff') && neighborTile.includes('cliff')) ||
+               (tileType.includes('grass') && neighborTile.includes('grass'));
+      }
+      return false;
+    });
+
+    return similarNeighbors.length === 0;
+  }
+
+  /**
+   * Export terrain layout to JSON
+   */
+  static exportTerrain(terrainLayout: string[][]): string {
+    return JSON.stringify({
+      version: '1.0',
+      width: terrainLayout[0].length,
+      height: terrainLayout.length,
+      layout: terrainLayout,
+      metadata: {
+        exported: new Date().toISOString(),
+        tileTypes: Array.from(new Set(terrainLayout.flat())),
+        validation: this.validateTerrain(terrainLayout)
+      }
+    }, null, 2);
+  }
+
+  /**
+   * Import terrain layout from JSON
+   */
+  static importTerrain(jsonData: string): {
+    success: boolean;
+    terrainLayout?: string[][];
+    error?: string;
+  } {
+    try {
+      const data = JSON.parse(jsonData);
+      
+      if (!data.layout || !Array.isArray(data.layout)) {
+        return {
+          success: false,
+          error: 'Invalid terrain data format'
+        };
+      }
+
+      // Validate the imported layout
+      const validation = this.validateTerrain(data.layout);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: `Invalid terrain: ${validation.errors.join(', ')}`
+        };
+      }
+
+      return {
+        success: true,
+        terrainLayout: data.layout
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to parse JSON: ${error}`
+      };
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, test, expect } from 'vitest';
+import { createDefaultTerrain } from './terrain';
+import { TiledMap, TiledMapError, TiledTileCatalog, TiledTileLayer, exportTiledMap, importTiledMap } from './tiled';
+
+const catalog: TiledTileCatalog = {
+  name: 'test_tiles',
+  image: 'tilesets/test.png',
+  imageWidth: 64,
+  imageHeight: 64,
+  tileSize: 32,
+  columns: 2,
+  tiles: {
+    cliff_small: { index: 0, collision: true },
+    grass_main: { index: 1, collision: false },
+    rocks_dark: { index: 2, collision: false }
+  }
+};
+
+function tileLayer(data: TiledTileLayer['data'], layer: Partial<TiledTileLayer> = {}): TiledTileLayer {
+  return { type: 'tilelayer', name: 'ground', width: 2, height: 2, data, ...layer };
+}
+
+// A 2x2 map with the catalog's tileset at gid 1 (4 tiles, the last one unnamed)
+function tiledMap(layers: TiledMap['layers']): TiledMap {
+  return {
+    type: 'map',
+    orientation: 'orthogonal',
+    width: 2,
+    height: 2,
+    tilewidth: 32,
+    tileheight: 32,
+    infinite: false,
+    layers,
+    tilesets: [{ firstgid: 1, name: 'test_tiles', tilewidth: 32, tileheight: 32, tilecount: 4 }]
+  };
+}
+
+// Tile IDs as Tiled writes uncompressed Base64 layers: little-endian unsigned 32-bit integers
+function toBase64(ids: number[]): string {
+  const bytes = ids.flatMap(id => [id & 0xFF, (id >>> 8) & 0xFF, (id >>> 16) & 0xFF, (id >>> 24) & 0xFF]);
+  return Buffer.from(bytes).toString('base64');
+}
+
+describe('Tiled maps', () => {
+  test('should round-trip terrain, buildings and plots', () => {
+    const layout = createDefaultTerrain(3, 2);
+    layout[0][1] = 'cliff_small';
+    layout[1][2] = 'rocks_dark';
+    const buildings = [{ id: 'bank', x: 48, y: 40, width: 64, height: 48 }];
+    const plots = [{ x: 0, y: 32, width: 32, height: 32 }];
+
+    const exported = exportTiledMap(layout, catalog, { buildings, plots });
+    const imported = importTiledMap(JSON.stringify(exported), catalog);
+
+    expect(imported.layout).toEqual(layout);
+    expect(imported.buildings).toEqual(buildings);
+    expect(imported.plots).toEqual(plots);
+    expect(imported.tileCollisions).toEqual({ cliff_small: true, grass_main: false, rocks_dark: false });
+    expect(imported.warnings).toEqual([]);
+  });
+
+  test('should merge layers top to bottom and ignore flip flags', () => {
+    const map = tiledMap([
+      tileLayer([2, 2, 2, 2]),
+      tileLayer([0, (1 | 0x80000000) >>> 0, 0, 3], { name: 'detail' })
+    ]);
+
+    expect(importTiledMap(map, catalog).layout).toEqual([
+      ['grass_main', 'cliff_small'],
+      ['grass_main', 'rocks_dark']
+    ]);
+  });
+
+  test('should read uncompressed Base64 layers', () => {
+    const map = tiledMap([tileLayer(toBase64([1, 2, 3, 0]), { encoding: 'base64' })]);
+
+    expect(importTiledMap(map, catalog).layout).toEqual([
+      ['cliff_small', 'grass_main'],
+      ['rocks_dark', 'grass_main']
+    ]);
+  });
+
+  test('should refuse compressed and malformed layer data', () => {
+    const read = (layer: TiledTileLayer) => () => importTiledMap(tiledMap([layer]), catalog);
+
+    expect(read(tileLayer('eJxjZGBgYAAAAAUAAQ==', { encoding: 'base64', compression: 'zlib' }))).toThrow('is zlib compressed');
+    expect(read(tileLayer('AQAAAAIAAAA*', { encoding: 'base64' }))).toThrow('invalid Base64 data');
+    expect(read(tileLayer('AQAAAAI=', { encoding: 'base64' }))).toThrow("doesn't hold whole tile IDs");
+    expect(read(tileLayer('1,2,3,4'))).toThrow('no CSV or Base64 tile data');
+    expect(read(tileLayer([1, 2, 1.5, 1]))).toThrow('invalid tile ID: 1.5');
+    expect(read(tileLayer([1, 2, 3, 4], { width: -1 }))).toThrow(TiledMapError);
+  });
+
+  test('should refuse layers whose data does not match their size', () => {
+    expect(() => importTiledMap(tiledMap([tileLayer([1, 2, 3])]), catalog)).toThrow('is 2x2 tiles but has data for 3');
+    expect(() => importTiledMap(tiledMap([tileLayer(toBase64([1, 2, 3, 1, 2]), { encoding: 'base64' })]), catalog))
+      .toThrow('is 2x2 tiles but has data for 5');
+  });
+
+  test('should skip the parts of layers outside the map', () => {
+    const imported = importTiledMap(tiledMap([tileLayer([3, 3, 3, 3], { x: 1 })]), catalog);
+
+    expect(imported.layout).toEqual([
+      ['grass_main', 'rocks_dark'],
+      ['grass_main', 'rocks_dark']
+    ]);
+    expect(imported.warnings).toEqual(['Layer "ground" reaches past the map; its 2 tiles outside it were skipped']);
+  });
+
+  test('should refuse tile IDs no tileset contains and warn about tiles the game has no name for', () => {
+    expect(() => importTiledMap(tiledMap([tileLayer([1, 1, 1, 5])]), catalog))
+      .toThrow('uses tile ID 5, which none of the map\'s tilesets contain');
+
+    const imported = importTiledMap(tiledMap([tileLayer([1, 4, 4, 1])]), catalog);
+    expect(imported.layout).toEqual([
+      ['cliff_small', 'grass_main'],
+      ['grass_main', 'cliff_small']
+    ]);
+    expect(imported.warnings).toEqual(['Tiles with no game equivalent were replaced by grass_main: IDs 4']);
+  });
+
+  test('should name tiles by their name property before their position', () => {
+    const map = tiledMap([tileLayer([1, 1, 1, 1])]);
+    map.tilesets[0].tiles = [{ id: 0, properties: [{ name: 'name', type: 'string', value: 'rocks_dark' }, { name: 'collision', type: 'bool', value: false }] }];
+
+    const imported = importTiledMap(map, catalog);
+
+    expect(imported.layout.flat()).toEqual(['rocks_dark', 'rocks_dark', 'rocks_dark', 'rocks_dark']);
+    expect(imported.tileCollisions).toEqual({ rocks_dark: false });
+  });
+
+  test('should refuse maps it cannot read', () => {
+    expect(() => importTiledMap('{', catalog)).toThrow('not valid JSON');
+    expect(() => importTiledMap({ type: 'tileset' }, catalog)).toThrow('Not a Tiled JSON map');
+    expect(() => importTiledMap({ ...tiledMap([]), infinite: true }, catalog)).toThrow('finite orthogonal');
+    expect(() => importTiledMap({ ...tiledMap([]), tilewidth: 16 }, catalog)).toThrow('must be 32x32 pixels');
+    expect(() => importTiledMap({ ...tiledMap([]), width: 2.5 }, catalog)).toThrow('whole tiles');
+    expect(() => importTiledMap({ ...tiledMap([]), tilesets: [{ firstgid: 1, source: 'tiles.tsx' }] }, catalog)).toThrow('External tilesets');
+  });
+});
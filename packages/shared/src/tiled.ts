@@ -0,0 +1,453 @@
+/**
+ * Tiled (https://www.mapeditor.org) JSON map import and export.
+ *
+ * Conventions shared by both directions, so maps round-trip:
+ * - Tile layers are merged top to bottom into one terrain layout. A tile's name comes from its
+ *   `name` property, or else from its position in the game's tileset (TiledTileCatalog)
+ * - A tile's `collision` bool property (or shapes drawn in Tiled's collision editor) marks it solid
+ * - Objects of type/class `building` place the building whose ID is the object's name
+ *   (bank, marketplace, flowBank, flowMarketplace, pepe) at the object's centre
+ * - Objects of type/class `plot` are farm plot regions
+ *
+ * Only embedded tilesets and uncompressed layer data (CSV or Base64) are supported. Maps are read
+ * against the game's tile catalog (the client's tileset config), so this works without a renderer.
+ */
+
+import { DEFAULT_TERRAIN_TILE } from './terrain';
+import { Rect } from './world';
+
+// Flip and rotation flags Tiled stores in the top bits of each tile ID
+const TILED_FLIP_FLAGS = 0xE0000000;
+
+// The game's tileset as Tiled sees it: the image and where each named tile sits in it
+export interface TiledTileCatalog {
+  name: string;
+  image: string; // Relative to maps saved next to the tilesets folder
+  imageWidth: number;
+  imageHeight: number;
+  tileSize: number;
+  columns: number;
+  tiles: Record<string, { index: number; collision: boolean }>; // By tile name; index counts from 0, row by row
+}
+
+export interface TiledProperty {
+  name: string;
+  type: string;
+  value: unknown;
+}
+
+export interface TiledTile {
+  id: number; // Local ID within its tileset
+  properties?: TiledProperty[];
+  objectgroup?: { objects?: unknown[] }; // Shapes from Tiled's collision editor
+}
+
+export interface TiledTileset {
+  firstgid: number;
+  name: string;
+  source?: string; // Set for external tilesets, which are not supported
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  tilewidth: number;
+  tileheight: number;
+  columns?: number;
+  tilecount?: number;
+  tiles?: TiledTile[];
+}
+
+export interface TiledObject {
+  id: number;
+  name: string;
+  type?: string;  // Tiled before 1.9
+  class?: string; // Tiled 1.9 and later
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  properties?: TiledProperty[];
+}
+
+export interface TiledTileLayer {
+  type: 'tilelayer';
+  id?: number;
+  name: string;
+  width: number;
+  height: number;
+  data: number[] | string;
+  encoding?: 'csv' | 'base64';                 // Only set when data is a string
+  compression?: 'zlib' | 'gzip' | 'zstd' | ''; // Only for Base64 data
+  x?: number;
+  y?: number;
+  visible?: boolean;
+  opacity?: number;
+}
+
+export interface TiledObjectLayer {
+  type: 'objectgroup';
+  id?: number;
+  name: string;
+  objects: TiledObject[];
+  visible?: boolean;
+  opacity?: number;
+}
+
+export type TiledLayer = TiledTileLayer | TiledObjectLayer | { type: 'imagelayer' | 'group'; name: string };
+
+export interface TiledMap {
+  type: 'map';
+  orientation: string;
+  renderorder?: string;
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  infinite: boolean;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+  nextlayerid?: number;
+  nextobjectid?: number;
+  version?: string;
+  tiledversion?: string;
+}
+
+// A building's position in the world (its centre, like the building sprites)
+export interface TiledBuildingPlacement {
+  id: string;
+  x: number;
+  y: number;
+  width?: number;  // Object size in Tiled; only used for export
+  height?: number;
+}
+
+export interface TiledMapImport {
+  layout: string[][];
+  tileCollisions: Record<string, boolean>; // Collision of every tile the map's tilesets describe
+  buildings: TiledBuildingPlacement[];
+  plots: Rect[];
+  warnings: string[]; // Things that were skipped, e.g. tiles the game has no name for
+}
+
+export class TiledMapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TiledMapError';
+  }
+}
+
+function getProperty(properties: TiledProperty[] | undefined, name: string): unknown {
+  return properties?.find(property => property.name === name)?.value;
+}
+
+function objectKind(object: TiledObject): string | undefined {
+  return object.class || object.type || undefined;
+}
+
+/**
+ * Read a Tiled JSON map (the parsed object or its JSON text) into a terrain layout,
+ * collision metadata, building placements and plot regions.
+ * Throws a TiledMapError for maps it can't read; what it skips is listed in `warnings`
+ */
+export function importTiledMap(input: unknown, catalog: TiledTileCatalog): TiledMapImport {
+  let map: TiledMap;
+  try {
+    map = (typeof input === 'string' ? JSON.parse(input) : input) as TiledMap;
+  } catch {
+    throw new TiledMapError('Map is not valid JSON');
+  }
+
+  if (!map || map.type !== 'map' || !Array.isArray(map.layers) || !Array.isArray(map.tilesets)) {
+    throw new TiledMapError('Not a Tiled JSON map');
+  }
+  if (map.orientation !== 'orthogonal' || map.infinite) {
+    throw new TiledMapError('Only finite orthogonal maps are supported');
+  }
+  if (!isTileCount(map.width) || !isTileCount(map.height)) {
+    throw new TiledMapError(`Map size must be whole tiles, got ${map.width}x${map.height}`);
+  }
+  const tileSize = catalog.tileSize;
+  if (map.tilewidth !== tileSize || map.tileheight !== tileSize) {
+    throw new TiledMapError(`Map tiles must be ${tileSize}x${tileSize} pixels, got ${map.tilewidth}x${map.tileheight}`);
+  }
+  if (map.tilesets.some(tileset => tileset.source)) {
+    throw new TiledMapError('External tilesets are not supported; embed them in the map before exporting');
+  }
+
+  // Tileset position -> tile name, for maps whose tiles have no name property
+  const tileNamesByIndex = new Map<number, string>(
+    Object.entries(catalog.tiles).map(([name, tile]) => [tile.index, name])
+  );
+  // Tile name from its `name` property, or from its position in the game's tileset
+  const resolveTileName = (localId: number, tile?: TiledTile): string | undefined => {
+    const name = getProperty(tile?.properties, 'name');
+    if (typeof name === 'string' && catalog.tiles[name]) {
+      return name;
+    }
+    return tileNamesByIndex.get(localId);
+  };
+
+  const warnings: string[] = [];
+  const tileCollisions: Record<string, boolean> = {};
+  const tileNames = new Map<number, string | null>(); // Global tile ID -> tile name (null if the game has none)
+
+  // Tilesets sorted by first ID, so a tile belongs to the last one starting at or before it
+  const tilesets = [...map.tilesets].sort((a, b) => a.firstgid - b.firstgid);
+  for (const tileset of tilesets) {
+    for (const tile of tileset.tiles ?? []) {
+      const name = resolveTileName(tile.id, tile);
+      if (!name) continue;
+
+      const collision = getProperty(tile.properties, 'collision');
+      if (typeof collision === 'boolean') {
+        tileCollisions[name] = collision;
+      } else if (tile.objectgroup?.objects?.length) {
+        tileCollisions[name] = true;
+      }
+    }
+  }
+
+  // Undefined for IDs that are in none of the tilesets
+  const nameOf = (gid: number): string | null | undefined => {
+    if (!tileNames.has(gid)) {
+      const tileset = tilesets.filter(candidate => candidate.firstgid <= gid).pop();
+      const localId = tileset ? gid - tileset.firstgid : -1;
+      if (!tileset || (tileset.tilecount !== undefined && localId >= tileset.tilecount)) {
+        return undefined;
+      }
+      const tile = tileset.tiles?.find(candidate => candidate.id === localId);
+      tileNames.set(gid, resolveTileName(localId, tile) ?? null);
+    }
+    return tileNames.get(gid);
+  };
+
+  const layout = Array.from({ length: map.height }, () => new Array<string>(map.width).fill(DEFAULT_TERRAIN_TILE));
+  const buildings: TiledBuildingPlacement[] = [];
+  const plots: Rect[] = [];
+  const unknownTiles = new Set<number>();
+
+  for (const layer of map.layers) {
+    if (layer.type === 'tilelayer') {
+      const offsetX = layer.x ?? 0;
+      const offsetY = layer.y ?? 0;
+      let tilesOutside = 0;
+      readLayerData(layer).forEach((rawGid, index) => {
+        const gid = (rawGid & ~TILED_FLIP_FLAGS) >>> 0;
+        if (gid === 0) return; // Empty cell: keep whatever the layers below put there
+
+        const name = nameOf(gid);
+        if (name === undefined) {
+          throw new TiledMapError(`Layer "${layer.name}" uses tile ID ${gid}, which none of the map's tilesets contain`);
+        }
+
+        const x = offsetX + (index % layer.width);
+        const y = offsetY + Math.floor(index / layer.width);
+        if (y < 0 || y >= map.height || x < 0 || x >= map.width) {
+          tilesOutside++;
+        } else if (name) {
+          layout[y][x] = name;
+        } else {
+          unknownTiles.add(gid);
+        }
+      });
+      if (tilesOutside > 0) {
+        warnings.push(`Layer "${layer.name}" reaches past the map; its ${tilesOutside} tiles outside it were skipped`);
+      }
+    } else if (layer.type === 'objectgroup') {
+      for (const object of layer.objects ?? []) {
+        const kind = objectKind(object);
+        if (kind === 'building') {
+          buildings.push({
+            id: object.name,
+            x: object.x + (object.width ?? 0) / 2,
+            y: object.y + (object.height ?? 0) / 2,
+            width: object.width,
+            height: object.height
+          });
+        } else if (kind === 'plot') {
+          if (!(object.width > 0 && object.height > 0)) {
+            warnings.push(`Plot object ${object.id} has no size and was skipped`);
+            continue;
+          }
+          plots.push({ x: object.x, y: object.y, width: object.width, height: object.height });
+        } else {
+          warnings.push(`Object ${object.id} ("${object.name}") in layer "${layer.name}" has unknown type "${kind ?? ''}"`);
+        }
+      }
+    }
+  }
+
+  if (unknownTiles.size > 0) {
+    warnings.push(`Tiles with no game equivalent were replaced by ${DEFAULT_TERRAIN_TILE}: IDs ${Array.from(unknownTiles).join(', ')}`);
+  }
+
+  return { layout, tileCollisions, buildings, plots, warnings };
+}
+
+function isTileCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * A tile layer's tile IDs, row by row, from CSV data (a JSON array) or uncompressed Base64
+ */
+function readLayerData(layer: TiledTileLayer): number[] {
+  if (!isTileCount(layer.width) || !isTileCount(layer.height)) {
+    throw new TiledMapError(`Layer "${layer.name}" size must be whole tiles, got ${layer.width}x${layer.height}`);
+  }
+
+  let data: number[];
+  if (Array.isArray(layer.data)) {
+    data = layer.data;
+  } else if (typeof layer.data === 'string' && layer.encoding === 'base64') {
+    if (layer.compression) {
+      throw new TiledMapError(`Layer "${layer.name}" is ${layer.compression} compressed; save the map with CSV or uncompressed Base64 layer format`);
+    }
+    data = decodeBase64TileIds(layer.name, layer.data);
+  } else {
+    throw new TiledMapError(`Layer "${layer.name}" has no CSV or Base64 tile data`);
+  }
+
+  if (data.length !== layer.width * layer.height) {
+    throw new TiledMapError(`Layer "${layer.name}" is ${layer.width}x${layer.height} tiles but has data for ${data.length}`);
+  }
+  const invalid = data.find(gid => !Number.isInteger(gid) || gid < 0 || gid > 0xFFFFFFFF);
+  if (invalid !== undefined) {
+    throw new TiledMapError(`Layer "${layer.name}" has an invalid tile ID: ${invalid}`);
+  }
+  return data;
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Base64 layer data holds the tile IDs as little-endian unsigned 32-bit integers
+function decodeBase64TileIds(layerName: string, text: string): number[] {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of text.replace(/\s+/g, '').replace(/=+$/, '')) {
+    const value = BASE64_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new TiledMapError(`Layer "${layerName}" has invalid Base64 data`);
+    }
+    buffer = ((buffer << 6) | value) & 0xFFFF;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xFF);
+    }
+  }
+  if (bytes.length % 4 !== 0) {
+    throw new TiledMapError(`Layer "${layerName}" has Base64 data that doesn't hold whole tile IDs`);
+  }
+
+  const ids: number[] = [];
+  for (let i = 0; i < bytes.length; i += 4) {
+    ids.push((bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16) | (bytes[i + 3] << 24)) >>> 0);
+  }
+  return ids;
+}
+
+/**
+ * Build a Tiled JSON map from a terrain layout, with optional building and plot object layers
+ */
+export function exportTiledMap(
+  layout: string[][],
+  catalog: TiledTileCatalog,
+  options: { buildings?: TiledBuildingPlacement[]; plots?: Rect[] } = {}
+): TiledMap {
+  const { tileSize, imageWidth, imageHeight, columns } = catalog;
+  const height = layout.length;
+  const width = layout[0]?.length ?? 0;
+  const firstgid = 1;
+  let nextObjectId = 1;
+
+  const tileset: TiledTileset = {
+    firstgid,
+    name: catalog.name,
+    image: catalog.image,
+    imagewidth: imageWidth,
+    imageheight: imageHeight,
+    tilewidth: tileSize,
+    tileheight: tileSize,
+    columns,
+    tilecount: columns * Math.floor(imageHeight / tileSize),
+    tiles: Object.entries(catalog.tiles)
+      .sort(([, a], [, b]) => a.index - b.index)
+      .map(([name, config]) => ({
+        id: config.index,
+        properties: [
+          { name: 'collision', type: 'bool', value: config.collision },
+          { name: 'name', type: 'string', value: name }
+        ]
+      }))
+  };
+
+  const terrain: TiledTileLayer = {
+    type: 'tilelayer',
+    id: 1,
+    name: 'terrain',
+    width,
+    height,
+    x: 0,
+    y: 0,
+    visible: true,
+    opacity: 1,
+    data: layout.flatMap(row => row.map(name => {
+      const config = catalog.tiles[name] ?? catalog.tiles[DEFAULT_TERRAIN_TILE];
+      return firstgid + config.index;
+    }))
+  };
+
+  const buildings: TiledObjectLayer = {
+    type: 'objectgroup',
+    id: 2,
+    name: 'buildings',
+    visible: true,
+    opacity: 1,
+    objects: (options.buildings ?? []).map(building => {
+      const objectWidth = building.width ?? 0;
+      const objectHeight = building.height ?? 0;
+      return {
+        id: nextObjectId++,
+        name: building.id,
+        type: 'building',
+        x: Math.round(building.x - objectWidth / 2),
+        y: Math.round(building.y - objectHeight / 2),
+        width: objectWidth,
+        height: objectHeight
+      };
+    })
+  };
+
+  const plots: TiledObjectLayer = {
+    type: 'objectgroup',
+    id: 3,
+    name: 'plots',
+    visible: true,
+    opacity: 1,
+    objects: (options.plots ?? []).map(plot => ({
+      id: nextObjectId++,
+      name: '',
+      type: 'plot',
+      ...plot
+    }))
+  };
+
+  return {
+    type: 'map',
+    version: '1.8',
+    tiledversion: '1.8.2',
+    orientation: 'orthogonal',
+    renderorder: 'right-down',
+    width,
+    height,
+    tilewidth: tileSize,
+    tileheight: tileSize,
+    infinite: false,
+    layers: [terrain, buildings, plots],
+    tilesets: [tileset],
+    nextlayerid: 4,
+    nextobjectid: nextObjectId
+  };
+}
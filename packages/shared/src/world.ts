@@ -0,0 +1,49 @@
+/**
+ * World and player constants shared by the server and the client.
+ * The server validates movement against these, so both sides must agree.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const WORLD_CONFIG = {
+  width: 3200,
+  height: 2400,
+  tileSize: 32,
+  edgePadding: 20, // players cannot walk closer than this to the world edge
+} as const;
+
+export const PLAYER_CONFIG = {
+  baseSpeed: 540, // pixels per second
+  collisionBoxSize: 16, // half the player's collision box
+  spawnPosition: { x: 650, y: 500 }, // near buildings
+} as const;
+
+/**
+ * Check whether a position is inside the walkable area of the world
+ */
+export function isWithinWorldBounds(x: number, y: number): boolean {
+  const { width, height, edgePadding } = WORLD_CONFIG;
+  return x >= edgePadding && x <= width - edgePadding &&
+         y >= edgePadding && y <= height - edgePadding;
+}
+
+/**
+ * Clamp a position to the walkable area of the world
+ */
+export function clampToWorldBounds(x: number, y: number): Point {
+  const { width, height, edgePadding } = WORLD_CONFIG;
+  return {
+    x: Math.max(edgePadding, Math.min(width - edgePadding, x)),
+    y: Math.max(edgePadding, Math.min(height - edgePadding, y))
+  };
+}
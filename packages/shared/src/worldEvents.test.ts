@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { WorldEventDefinition, combineWorldEventModifiers, getWorldEventWindow } from './worldEvents';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function event(overrides: Partial<WorldEventDefinition> = {}): WorldEventDefinition {
+  return {
+    id: 'festival',
+    name: 'Harvest Festival',
+    description: 'Double XP',
+    startsAt: '2025-01-01T12:00:00.000Z',
+    endsAt: '2025-01-01T14:00:00.000Z',
+    modifiers: { xpMultiplier: 2 },
+    ...overrides
+  };
+}
+
+describe('World events', () => {
+  const start = Date.parse('2025-01-01T12:00:00.000Z');
+
+  test('should only run one-off events between their start and end', () => {
+    expect(getWorldEventWindow(event(), start - 1)).toBeNull();
+    expect(getWorldEventWindow(event(), start)).toEqual({ start, end: start + 2 * HOUR });
+    expect(getWorldEventWindow(event(), start + 2 * HOUR - 1)).not.toBeNull();
+    expect(getWorldEventWindow(event(), start + 2 * HOUR)).toBeNull();
+    expect(getWorldEventWindow(event(), start + DAY)).toBeNull();
+  });
+
+  test('should run repeating events once every period', () => {
+    const daily = event({ repeat: 'daily' });
+
+    expect(getWorldEventWindow(daily, start + 3 * DAY + HOUR)).toEqual({ start: start + 3 * DAY, end: start + 3 * DAY + 2 * HOUR });
+    expect(getWorldEventWindow(daily, start + 3 * DAY + 3 * HOUR)).toBeNull();
+    expect(getWorldEventWindow(event({ repeat: 'weekly' }), start + 3 * DAY + HOUR)).toBeNull();
+    expect(getWorldEventWindow(daily, start - DAY + HOUR)).toBeNull();
+  });
+
+  test('should multiply the modifiers of overlapping events', () => {
+    expect(combineWorldEventModifiers([])).toEqual({ xpMultiplier: 1, yieldMultiplier: 1, growthTimeMultiplier: 1 });
+    expect(combineWorldEventModifiers([
+      { xpMultiplier: 1.5 },
+      { xpMultiplier: 2, growthTimeMultiplier: 1.2 }
+    ])).toEqual({ xpMultiplier: 3, yieldMultiplier: 1, growthTimeMultiplier: 1.2 });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Timed world events, e.g. a weekend harvest festival or an afternoon drought,
+ * and the modifiers they apply to farming while they run. Like quests, events
+ * are data loaded by the server from a JSON file.
+ */
+
+// Multipliers applied while an event runs (missing ones leave the value unchanged)
+export interface WorldEventModifiers {
+  xpMultiplier?: number;         // XP awarded for planting
+  yieldMultiplier?: number;      // Yield paid out at harvest
+  growthTimeMultiplier?: number; // Growth time of crops planted during the event
+}
+
+// How often an event comes back, counted from its first start
+export type WorldEventRepeat = 'daily' | 'weekly';
+
+export const WORLD_EVENT_REPEAT_PERIODS: Record<WorldEventRepeat, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+export interface WorldEventDefinition {
+  id: string;
+  name: string;
+  description: string;
+  worldId?: string;   // Only this farm; every farm when omitted
+  startsAt: string;   // ISO 8601
+  endsAt: string;     // ISO 8601
+  repeat?: WorldEventRepeat;
+  modifiers: WorldEventModifiers;
+}
+
+// An event that is running right now, as sent to clients
+export interface ActiveWorldEvent {
+  id: string;
+  name: string;
+  description: string;
+  modifiers: WorldEventModifiers;
+  startedAt: number; // ms timestamp of the current occurrence
+  endsAt: number;
+}
+
+export const NEUTRAL_WORLD_EVENT_MODIFIERS: Required<WorldEventModifiers> = {
+  xpMultiplier: 1,
+  yieldMultiplier: 1,
+  growthTimeMultiplier: 1
+};
+
+export function isWorldEventRepeat(value: unknown): value is WorldEventRepeat {
+  return typeof value === 'string' && value in WORLD_EVENT_REPEAT_PERIODS;
+}
+
+/**
+ * The occurrence of an event running at `now`, or null if it isn't running.
+ * Repeating events run for (endsAt - startsAt) once every period from startsAt.
+ */
+export function getWorldEventWindow(event: WorldEventDefinition, now: number): { start: number; end: number } | null {
+  const start = Date.parse(event.startsAt);
+  const end = Date.parse(event.endsAt);
+  if (now < start) return null;
+
+  if (!event.repeat) {
+    return now < end ? { start, end } : null;
+  }
+
+  const period = WORLD_EVENT_REPEAT_PERIODS[event.repeat];
+  const occurrenceStart = start + Math.floor((now - start) / period) * period;
+  const occurrenceEnd = occurrenceStart + (end - start);
+  return now < occurrenceEnd ? { start: occurrenceStart, end: occurrenceEnd } : null;
+}
+
+/**
+ * Multiply the modifiers of every running event together
+ */
+export function combineWorldEventModifiers(modifiers: WorldEventModifiers[]): Required<WorldEventModifiers> {
+  return modifiers.reduce<Required<WorldEventModifiers>>((combined, next) => ({
+    xpMultiplier: combined.xpMultiplier * (next.xpMultiplier ?? 1),
+    yieldMultiplier: combined.yieldMultiplier * (next.yieldMultiplier ?? 1),
+    growthTimeMultiplier: combined.growthTimeMultiplier * (next.growthTimeMultiplier ?? 1)
+  }), { ...NEUTRAL_WORLD_EVENT_MODIFIERS });
+}
@@ -0,0 +1,65 @@
+import { describe, test, expect } from 'vitest';
+import { CollisionGrid } from './collision';
+import { TERRAIN_HEIGHT, TERRAIN_WIDTH, terrainTileHasCollision } from './terrain';
+import {
+  DEFAULT_TERRAIN_GENERATION,
+  TERRAIN_RESERVED_AREAS,
+  TerrainGenerationParams,
+  createRandom,
+  generateTerrain,
+  hashSeed
+} from './worldgen';
+
+const params = (overrides: Partial<TerrainGenerationParams> = {}): TerrainGenerationParams => ({
+  ...DEFAULT_TERRAIN_GENERATION,
+  seed: 42,
+  ...overrides
+});
+
+describe('World generation', () => {
+  test('should produce the same numbers for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const sequence = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(sequence);
+    expect(sequence.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(createRandom(8)()).not.toBe(sequence[0]);
+    expect(hashSeed('alice', 1)).not.toBe(hashSeed('bob', 1));
+  });
+
+  test('should reproduce a farm from its world ID and seed', () => {
+    const layout = generateTerrain('alice', params());
+
+    expect(layout).toHaveLength(TERRAIN_HEIGHT);
+    expect(layout[0]).toHaveLength(TERRAIN_WIDTH);
+    expect(generateTerrain('alice', params())).toEqual(layout);
+    expect(generateTerrain('alice', params({ seed: 43 }))).not.toEqual(layout);
+    expect(generateTerrain('bob', params())).not.toEqual(layout);
+  });
+
+  test('should keep buildings, farm plots and the spawn point free of cliffs', () => {
+    const layout = generateTerrain('alice', params({ cliffDensity: 1, lakeCount: 6, pathLayout: 'winding' }));
+    const grid = new CollisionGrid();
+    grid.markTerrain(layout, terrainTileHasCollision);
+
+    for (const area of TERRAIN_RESERVED_AREAS) {
+      const start = grid.worldToTile(area.x, area.y);
+      const end = grid.worldToTile(area.x + area.width, area.y + area.height);
+      for (let y = start.y; y <= end.y; y++) {
+        for (let x = start.x; x <= end.x; x++) {
+          expect(grid.isSolid(x, y)).toBe(false);
+        }
+      }
+    }
+  });
+
+  test('should scale cliffs with the cliff density', () => {
+    const solidTiles = (cliffDensity: number) =>
+      generateTerrain('alice', params({ cliffDensity })).flat().filter(terrainTileHasCollision).length;
+    const borderTiles = 2 * TERRAIN_WIDTH;
+
+    expect(solidTiles(0)).toBe(borderTiles);
+    expect(solidTiles(1)).toBeGreaterThan(solidTiles(0.3));
+  });
+});
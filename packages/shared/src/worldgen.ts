@@ -0,0 +1,312 @@
+import { DEFAULT_BUILDING_MANIFESTS, getBuildingFootprints } from './buildings';
+import { CollisionGrid } from './collision';
+import { TERRAIN_HEIGHT, TERRAIN_WIDTH, TerrainLayout } from './terrain';
+import { PLAYER_CONFIG, Point, Rect, WORLD_CONFIG } from './world';
+
+/**
+ * Seeded procedural terrain. The same world ID, seed and biome parameters always
+ * produce the same layout, so the server and every client generate identical farms.
+ */
+
+// Where generated paths run: none, a cross through the middle, a ring inset from the edges, or a random walk
+export type TerrainPathLayout = 'none' | 'cross' | 'ring' | 'winding';
+
+export const TERRAIN_PATH_LAYOUTS: TerrainPathLayout[] = ['none', 'cross', 'ring', 'winding'];
+
+export interface TerrainGenerationParams {
+  seed: number;         // Unsigned 32-bit integer
+  lakeCount: number;
+  cliffDensity: number; // 0 (no plateaus or outcrops) to 1
+  pathLayout: TerrainPathLayout;
+}
+
+export const TERRAIN_GENERATION_LIMITS = {
+  maxSeed: 0xffffffff,
+  maxLakes: 6
+};
+
+export const DEFAULT_TERRAIN_GENERATION: TerrainGenerationParams = {
+  seed: 0,
+  lakeCount: 2,
+  cliffDensity: 0.3,
+  pathLayout: 'cross'
+};
+
+const GRASS_VARIANT_CHANCE = 0.2;
+const DECORATION_CHANCE = 0.02;
+const MAX_PLATEAUS = 4;     // At full cliff density
+const MAX_OUTCROPS = 10;    // At full cliff density
+const PLACEMENT_ATTEMPTS = 20;
+
+// Kept free of generated features so buildings on every network, the farm plots and the spawn point stay reachable
+export const TERRAIN_RESERVED_AREAS: Rect[] = [
+  ...Object.values(DEFAULT_BUILDING_MANIFESTS).flatMap(manifest => getBuildingFootprints(manifest)),
+  { x: 600, y: 400, width: 350, height: 350 }, // Farm plots
+  { x: PLAYER_CONFIG.spawnPosition.x - 96, y: PLAYER_CONFIG.spawnPosition.y - 96, width: 192, height: 192 }
+];
+
+export type Random = () => number;
+
+export function isTerrainPathLayout(value: unknown): value is TerrainPathLayout {
+  return typeof value === 'string' && (TERRAIN_PATH_LAYOUTS as string[]).includes(value);
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Combine a world ID and seed into one generator seed (32-bit FNV-1a), so farms sharing a seed still differ
+ */
+export function hashSeed(worldId: string, seed: number): number {
+  let hash = 0x811c9dc5;
+  const input = `${worldId}:${seed >>> 0}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// A fresh seed for a farm; store it to reproduce the farm later
+export function randomTerrainSeed(): number {
+  return Math.floor(Math.random() * (TERRAIN_GENERATION_LIMITS.maxSeed + 1));
+}
+
+/**
+ * Generate a farm's terrain from its world ID and biome parameters
+ */
+export function generateTerrain(
+  worldId: string,
+  params: TerrainGenerationParams,
+  width: number = TERRAIN_WIDTH,
+  height: number = TERRAIN_HEIGHT,
+  reserved: Rect[] = TERRAIN_RESERVED_AREAS
+): TerrainLayout {
+  const random = createRandom(hashSeed(worldId, params.seed));
+  const tileSize = WORLD_CONFIG.tileSize;
+
+  // Reserved tiles are marked solid; tiles outside the map count as solid too
+  const reservedGrid = new CollisionGrid(width * tileSize, height * tileSize, tileSize);
+  reserved.forEach(rect => reservedGrid.markRect(rect));
+  const isFree = (x: number, y: number, w: number, h: number): boolean => {
+    for (let ty = y - 1; ty <= y + h; ty++) {
+      for (let tx = x - 1; tx <= x + w; tx++) {
+        if (reservedGrid.isSolid(tx, ty)) return false;
+      }
+    }
+    return true;
+  };
+  const randomInt = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+  // Try a few random spots for a feature, returning the first one clear of reserved areas
+  const place = (w: number, h: number): Point | null => {
+    for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+      const x = randomInt(1, width - w - 1);
+      const y = randomInt(1, height - h - 1);
+      if (isFree(x, y, w, h)) return { x, y };
+    }
+    return null;
+  };
+
+  const layout = createBaseLayer(random, width, height);
+  paintBorders(layout);
+
+  const cliffDensity = Math.min(Math.max(params.cliffDensity, 0), 1);
+  for (let i = 0; i < Math.round(cliffDensity * MAX_PLATEAUS); i++) {
+    const [w, h] = [randomInt(6, 12), randomInt(5, 9)];
+    const spot = place(w, h);
+    if (spot) paintRectangularPlateau(layout, spot.x, spot.y, w, h);
+  }
+
+  for (let i = 0; i < Math.min(params.lakeCount, TERRAIN_GENERATION_LIMITS.maxLakes); i++) {
+    const radius = randomInt(3, 6);
+    const reach = Math.ceil(radius + 1.5);
+    const spot = place(reach * 2 + 1, reach * 2 + 1);
+    if (spot) paintCircularLake(layout, spot.x + reach, spot.y + reach, radius);
+  }
+
+  const isReserved = (x: number, y: number) => reservedGrid.isSolid(x, y);
+  for (const path of getPathPoints(params.pathLayout, random, width, height)) {
+    paintPath(layout, path, isReserved);
+  }
+
+  for (let i = 0; i < Math.round(cliffDensity * MAX_OUTCROPS); i++) {
+    const spot = place(2, 2);
+    if (spot) paintOutcrop(layout, spot.x, spot.y);
+  }
+
+  scatterDecorations(layout, random, isReserved);
+  return layout;
+}
+
+// Mostly main grass with some variants for natural variation
+function createBaseLayer(random: Random, width: number, height: number): TerrainLayout {
+  const variants = ['grass_pure', 'grass_with_cliff_base'];
+  return Array.from({ length: height }, () => Array.from({ length: width }, () =>
+    random() < GRASS_VARIANT_CHANCE ? variants[Math.floor(random() * variants.length)] : 'grass_main'
+  ));
+}
+
+function paintBorders(layout: TerrainLayout) {
+  const height = layout.length;
+  const width = layout[0].length;
+
+  // Cliffs along the top and bottom, grass edges down the sides
+  for (let x = 0; x < width; x++) {
+    layout[0][x] = x % 2 === 0 ? 'cliff_tall_1' : 'cliff_tall_2';
+    layout[height - 1][x] = 'cliff_small';
+  }
+  for (let y = 1; y < height - 1; y++) {
+    layout[y][0] = 'grass_cliff_left';
+    layout[y][width - 1] = 'grass_cliff_right';
+  }
+
+  layout[0][0] = 'cliff_large';
+  layout[0][width - 1] = 'cliff_large';
+  layout[height - 1][0] = 'cliff_round';
+  layout[height - 1][width - 1] = 'cliff_round';
+}
+
+// A raised block: cliff edges around a dirt-like interior, with a walkable top edge
+function paintRectangularPlateau(layout: TerrainLayout, x: number, y: number, width: number, height: number) {
+  const endX = x + width - 1;
+  const endY = y + height - 1;
+
+  for (let py = y; py <= endY; py++) {
+    for (let px = x; px <= endX; px++) {
+      const isTop = py === y;
+      const isBottom = py === endY;
+      const isLeft = px === x;
+      const isRight = px === endX;
+
+      if ((isTop || isBottom) && (isLeft || isRight)) {
+        layout[py][px] = 'cliff_large';
+      } else if (isBottom) {
+        layout[py][px] = 'cliff_tall_1';
+      } else if (isTop) {
+        layout[py][px] = 'grass_cliff_bottom';
+      } else if (isLeft || isRight) {
+        layout[py][px] = isLeft ? 'cliff_tall_2' : 'cliff_thin';
+      } else {
+        layout[py][px] = 'grass_with_cliff_base';
+      }
+    }
+  }
+}
+
+// There are no water tiles yet, so lakes are pure grass ringed by shore transitions
+function paintCircularLake(layout: TerrainLayout, centerX: number, centerY: number, radius: number) {
+  const shores = ['grass_cliff_left', 'grass_cliff_bottom', 'grass_cliff_right', 'grass_cliff_bottom'];
+  const reach = Math.ceil(radius + 1.5);
+
+  for (let y = centerY - reach; y <= centerY + reach; y++) {
+    for (let x = centerX - reach; x <= centerX + reach; x++) {
+      if (!layout[y]?.[x]) continue;
+
+      const distance = Math.hypot(x - centerX, y - centerY);
+      if (distance <= radius) {
+        layout[y][x] = 'grass_pure';
+      } else if (distance <= radius + 1.5) {
+        const quadrant = Math.min(Math.floor(((Math.atan2(y - centerY, x - centerX) + Math.PI) / (2 * Math.PI)) * 4), 3);
+        layout[y][x] = shores[quadrant];
+      }
+    }
+  }
+}
+
+function getPathPoints(pathLayout: TerrainPathLayout, random: Random, width: number, height: number): Point[][] {
+  const midX = Math.floor(width / 2);
+  const midY = Math.floor(height / 2);
+
+  switch (pathLayout) {
+    case 'cross':
+      return [
+        [{ x: 1, y: midY }, { x: width - 2, y: midY }],
+        [{ x: midX, y: 1 }, { x: midX, y: height - 2 }]
+      ];
+    case 'ring': {
+      const inset = 6;
+      return [[
+        { x: inset, y: inset },
+        { x: width - inset - 1, y: inset },
+        { x: width - inset - 1, y: height - inset - 1 },
+        { x: inset, y: height - inset - 1 },
+        { x: inset, y: inset }
+      ]];
+    }
+    case 'winding': {
+      const stops = 5;
+      return [Array.from({ length: stops + 1 }, (_, i) => ({
+        x: Math.round(1 + (i * (width - 3)) / stops),
+        y: Math.floor(height / 4 + random() * (height / 2))
+      }))];
+    }
+    default:
+      return [];
+  }
+}
+
+// Connect each point to the next with a line of pebbles (sticks), only over grass
+function paintPath(layout: TerrainLayout, points: Point[], isReserved: (x: number, y: number) => boolean) {
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+
+    // Bresenham's line algorithm
+    const dx = Math.abs(end.x - start.x);
+    const dy = Math.abs(end.y - start.y);
+    const sx = start.x < end.x ? 1 : -1;
+    const sy = start.y < end.y ? 1 : -1;
+    let err = dx - dy;
+    let { x, y } = start;
+
+    while (true) {
+      if (layout[y]?.[x]?.includes('grass') && !isReserved(x, y)) {
+        layout[y][x] = 'sticks';
+      }
+      if (x === end.x && y === end.y) break;
+
+      const e2 = 2 * err;
+      if (e2 > -dy) {
+        err -= dy;
+        x += sx;
+      }
+      if (e2 < dx) {
+        err += dx;
+        y += sy;
+      }
+    }
+  }
+}
+
+// A small 2x2 cliff formation
+function paintOutcrop(layout: TerrainLayout, x: number, y: number) {
+  layout[y][x] = 'cliff_round';
+  layout[y][x + 1] = 'cliff_small';
+  layout[y + 1][x] = 'grass_cliff_bottom';
+  layout[y + 1][x + 1] = 'grass_cliff_bottom';
+}
+
+function scatterDecorations(layout: TerrainLayout, random: Random, isReserved: (x: number, y: number) => boolean) {
+  const decorations = ['rocks_brown', 'rocks_dark', 'ladder'];
+
+  for (let y = 0; y < layout.length; y++) {
+    for (let x = 0; x < layout[y].length; x++) {
+      const tile = layout[y][x];
+      if ((tile === 'grass_main' || tile === 'grass_pure') && !isReserved(x, y) && random() < DECORATION_CHANCE) {
+        layout[y][x] = decorations[Math.floor(random() * decorations.length)];
+      }
+    }
+  }
+}
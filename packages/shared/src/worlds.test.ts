@@ -0,0 +1,24 @@
+import { describe, test, expect } from 'vitest';
+import { isListedVisibility, isValidWorldTag, isWorldVisibility, normalizeWorldTag } from './worlds';
+
+describe('World settings', () => {
+  test('should only accept known visibility settings', () => {
+    expect(isWorldVisibility('public')).toBe(true);
+    expect(isWorldVisibility('friends')).toBe(true);
+    expect(isWorldVisibility('private')).toBe(false);
+    expect(isWorldVisibility(undefined)).toBe(false);
+  });
+
+  test('should normalize tags to lowercase hyphenated words', () => {
+    expect(normalizeWorldTag('  Cozy Farm ')).toBe('cozy-farm');
+    expect(isValidWorldTag(normalizeWorldTag('DeFi'))).toBe(true);
+    expect(isValidWorldTag('yield!')).toBe(false);
+    expect(isValidWorldTag('')).toBe(false);
+  });
+
+  test('should keep unlisted farms out of the world browser', () => {
+    expect(isListedVisibility('public')).toBe(true);
+    expect(isListedVisibility('friends')).toBe(true);
+    expect(isListedVisibility('unlisted')).toBe(false);
+  });
+});
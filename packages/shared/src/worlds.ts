@@ -0,0 +1,60 @@
+/**
+ * Farm metadata the world owner can edit, and the limits the server enforces on it.
+ */
+
+// Who may join a farm: anyone, only players with the link, or only players the owner granted a role
+export type WorldVisibility = 'public' | 'unlisted' | 'friends';
+
+export const WORLD_VISIBILITIES: WorldVisibility[] = ['public', 'unlisted', 'friends'];
+
+export interface WorldSettings {
+  title: string;
+  description: string;
+  tags: string[];
+  visibility: WorldVisibility;
+  maxVisitors: number; // Players other than the owner allowed in the farm at once
+}
+
+export const WORLD_SETTINGS_LIMITS = {
+  titleMaxLength: 60,
+  descriptionMaxLength: 500,
+  maxTags: 5,
+  tagMaxLength: 20,
+  minVisitors: 1,
+  maxVisitors: 50
+};
+
+// Farms whose owner never edited their settings
+export const DEFAULT_WORLD_SETTINGS: WorldSettings = {
+  title: '',
+  description: '',
+  tags: [],
+  visibility: 'public',
+  maxVisitors: 10
+};
+
+export function isWorldVisibility(value: unknown): value is WorldVisibility {
+  return typeof value === 'string' && (WORLD_VISIBILITIES as string[]).includes(value);
+}
+
+// Tags are lowercase words joined by hyphens, e.g. "defi" or "cozy-farm"
+export function normalizeWorldTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function isValidWorldTag(tag: string): boolean {
+  return tag.length > 0 && tag.length <= WORLD_SETTINGS_LIMITS.tagMaxLength && /^[a-z0-9-]+$/.test(tag);
+}
+
+// Whether the farm is listed in the world browser (unlisted farms are only reachable by ID)
+export function isListedVisibility(visibility: WorldVisibility): boolean {
+  return visibility !== 'unlisted';
+}
+
+// Who is in a farm right now, as reported by its live room
+export interface WorldPresence {
+  worldId: string;
+  playerCount: number; // Connected players, owner included
+  hostOnline: boolean;
+  visitors: string[]; // Display names of connected players other than the owner
+}
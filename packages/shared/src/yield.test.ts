@@ -0,0 +1,32 @@
+import { describe, test, expect } from 'vitest';
+import { MS_PER_DAY, calculateYield, getEffectiveApy, roundYield } from './yield';
+
+const YEAR = 365 * MS_PER_DAY;
+
+describe('Yield models', () => {
+  // [model, principal, apy, elapsed, expected yield rounded to cents]
+  const vectors = [
+    [{ kind: 'simple' as const }, 1000, 0.05, MS_PER_DAY, 0.14],
+    [{ kind: 'simple' as const }, 1000, 0.05, YEAR, 50],
+    [{ kind: 'simple' as const }, 250, 0.05, 3 * MS_PER_DAY, 0.1],
+    [{ kind: 'daily_compound' as const }, 1000, 0.05, MS_PER_DAY, 0.14],
+    [{ kind: 'daily_compound' as const }, 1000, 0.05, YEAR, 51.27],
+    [{ kind: 'daily_compound' as const }, 10000, 0.1, 30 * MS_PER_DAY, 82.52],
+    [{ kind: 'external' as const, apy: 0.08, compounding: 'simple' as const }, 1000, 0.05, YEAR, 80],
+    [{ kind: 'external' as const, apy: 0.08, compounding: 'daily' as const }, 1000, 0.05, YEAR, 83.28]
+  ];
+
+  test.each(vectors)('should match fixed vector %#: %o', (model, principal, apy, elapsedMs, expected) => {
+    expect(roundYield(calculateYield(model, { principal, apy, elapsedMs }))).toBe(expected);
+  });
+
+  test('should earn nothing without principal or time', () => {
+    expect(calculateYield({ kind: 'daily_compound' }, { principal: 0, apy: 0.05, elapsedMs: YEAR })).toBe(0);
+    expect(calculateYield({ kind: 'daily_compound' }, { principal: 1000, apy: 0.05, elapsedMs: -1 })).toBe(0);
+  });
+
+  test('should only let external models override the base APY', () => {
+    expect(getEffectiveApy({ kind: 'simple' }, 0.05)).toBe(0.05);
+    expect(getEffectiveApy({ kind: 'external', apy: 0.08, compounding: 'daily' }, 0.05)).toBe(0.08);
+  });
+});
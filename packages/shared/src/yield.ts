@@ -0,0 +1,51 @@
+/**
+ * How crops earn yield. The server pays harvests with these models and the client
+ * estimates with the same ones, so every surface shows the same numbers.
+ */
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+export const DAYS_PER_YEAR = 365;
+
+export type YieldModel =
+  | { kind: 'simple' }                                           // APY paid pro rata, never compounded
+  | { kind: 'daily_compound' }                                   // APY / 365 compounded every day
+  | { kind: 'external'; apy: number; compounding: 'simple' | 'daily' }; // Live APY from a vault, e.g. Morpho
+
+export type YieldModelKind = YieldModel['kind'];
+
+// Used by the server for harvests and by the client for estimates
+export const DEFAULT_YIELD_MODEL: YieldModel = { kind: 'daily_compound' };
+
+export interface YieldInput {
+  principal: number;  // Amount invested
+  apy: number;        // Base APY as a decimal, e.g. SEED_CONFIGS[seedType].baseYieldRate (ignored by external models)
+  elapsedMs: number;  // How long the principal has been earning
+}
+
+/**
+ * The APY a model actually pays, given the seed's base APY
+ */
+export function getEffectiveApy(model: YieldModel, baseApy: number): number {
+  return model.kind === 'external' ? model.apy : baseApy;
+}
+
+/**
+ * Yield earned on the principal over the elapsed time (unrounded)
+ */
+export function calculateYield(model: YieldModel, { principal, apy, elapsedMs }: YieldInput): number {
+  if (principal <= 0 || elapsedMs <= 0) return 0;
+
+  const rate = getEffectiveApy(model, apy);
+  const days = elapsedMs / MS_PER_DAY;
+  const compounding = model.kind === 'external' ? model.compounding : model.kind === 'simple' ? 'simple' : 'daily';
+
+  if (compounding === 'simple') {
+    return principal * rate * (days / DAYS_PER_YEAR);
+  }
+  return principal * (Math.pow(1 + rate / DAYS_PER_YEAR, days) - 1);
+}
+
+// Yields are paid and shown in whole cents
+export function roundYield(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}